@@ -31,6 +31,8 @@ import { errorHandler } from './middleware/errorHandler.js';
 import { authMiddleware } from './middleware/auth.js';
 console.log('[STARTUP] Middleware loaded');
 
+import { startSyncWorker } from './services/netsuite/syncQueue.js';
+
 // Routes
 import authRoutes from './routes/auth.js';
 console.log('[STARTUP] Auth routes loaded');
@@ -41,9 +43,17 @@ import transactionRoutes from './routes/transactions.js';
 import inventoryRoutes from './routes/inventory.js';
 import paymentRoutes from './routes/payments.js';
 import shiftRoutes from './routes/shifts.js';
+import registerRoutes from './routes/registers.js';
+import overrideRoutes from './routes/overrides.js';
+import roleRoutes from './routes/roles.js';
+import taxRoutes from './routes/taxes.js';
+import promotionRoutes from './routes/promotions.js';
+import couponRoutes from './routes/coupons.js';
+import giftCardRoutes from './routes/giftCards.js';
 import reportRoutes from './routes/reports.js';
 import syncRoutes from './routes/sync.js';
 import netsuiteRoutes from './routes/netsuite.js';
+import netsuiteWebhookRoutes from './routes/netsuiteWebhook.js';
 console.log('[STARTUP] Main routes loaded');
 
 import billingRoutes from './routes/billing.js';
@@ -101,8 +111,12 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
 }));
+
+// NetSuite webhooks are verified against the raw body, so mount before express.json
+app.use('/api/netsuite/webhook', express.raw({ type: 'application/json' }), netsuiteWebhookRoutes);
+
 app.use(express.json({ limit: '10mb' }));
 
 // Rate limiting
@@ -113,6 +127,16 @@ const limiter = rateLimit({
 });
 app.use('/api', limiter);
 
+// PINs are short, so guesses at them are limited much harder
+const pinLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: { error: 'Too many PIN attempts, please try again later.' },
+});
+app.use('/api/overrides/approve', pinLimiter);
+app.use('/api/auth/switch-user', pinLimiter);
+app.use('/api/auth/pin', pinLimiter);
+
 // Health check
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -136,6 +160,13 @@ app.use('/api/transactions', authMiddleware, transactionRoutes);
 app.use('/api/inventory', authMiddleware, inventoryRoutes);
 app.use('/api/payments', authMiddleware, paymentRoutes);
 app.use('/api/shifts', authMiddleware, shiftRoutes);
+app.use('/api/registers', authMiddleware, registerRoutes);
+app.use('/api/overrides', authMiddleware, overrideRoutes);
+app.use('/api/roles', authMiddleware, roleRoutes);
+app.use('/api/taxes', authMiddleware, taxRoutes);
+app.use('/api/promotions', authMiddleware, promotionRoutes);
+app.use('/api/coupons', authMiddleware, couponRoutes);
+app.use('/api/gift-cards', authMiddleware, giftCardRoutes);
 app.use('/api/reports', authMiddleware, reportRoutes);
 app.use('/api/sync', authMiddleware, syncRoutes);
 app.use('/api/netsuite', authMiddleware, netsuiteRoutes);
@@ -175,6 +206,10 @@ const PORT = process.env.PORT || 4000;
 httpServer.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  if (process.env.SYNC_WORKER_ENABLED !== 'false') {
+    startSyncWorker();
+  }
 });
 
 export { app, io };
@@ -1,9 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
 import { AuthenticationError, AuthorizationError } from './errorHandler.js';
+import { Permission, permissionsFor } from '../services/permissions.js';
+import { createPrismaClient, runWithTenant } from '../services/tenantScope.js';
 
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -13,6 +14,7 @@ export interface AuthenticatedRequest extends Request {
     firstName: string;
     lastName: string;
     role: string;
+    permissions: Permission[];
     locationId?: string | null;
     onboardingStep?: number;
     onboardingComplete?: boolean;
@@ -67,6 +69,9 @@ export async function authMiddleware(
         isActive: true,
         onboardingStep: true,
         onboardingComplete: true,
+        customRole: {
+          select: { permissions: true },
+        },
         tenant: {
           select: {
             id: true,
@@ -92,6 +97,7 @@ export async function authMiddleware(
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        permissions: permissionsFor(user.role, user.customRole),
         locationId: user.locationId,
         onboardingStep: user.onboardingStep,
         onboardingComplete: user.onboardingComplete,
@@ -113,12 +119,15 @@ export async function authMiddleware(
       firstName: user.firstName,
       lastName: user.lastName,
       role: user.role,
+      permissions: permissionsFor(user.role, user.customRole),
       locationId: user.locationId,
       onboardingStep: user.onboardingStep,
       onboardingComplete: user.onboardingComplete,
     };
     req.tenant = user.tenant;
-    next();
+
+    // Scope every query for the rest of the request to the user's tenant
+    runWithTenant(user.tenant.id, next);
   } catch (error) {
     if (error instanceof AuthenticationError) {
       next(error);
@@ -165,13 +174,14 @@ export function requireTenant(
   next();
 }
 
-export function requireRole(...roles: string[]) {
+// Middleware to require permissions, from the user's role or custom role
+export function requirePermission(...permissions: Permission[]) {
   return (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
     if (!req.user) {
       return next(new AuthenticationError());
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!permissions.every((permission) => req.user!.permissions.includes(permission))) {
       return next(new AuthorizationError('Insufficient permissions'));
     }
 
@@ -44,6 +44,18 @@ export class ConflictError extends AppError {
   }
 }
 
+export class TooManyAttemptsError extends AppError {
+  constructor(message: string) {
+    super(message, 429);
+  }
+}
+
+export class PaymentProcessorError extends AppError {
+  constructor(message: string) {
+    super(message, 502);
+  }
+}
+
 export function errorHandler(
   err: Error,
   _req: Request,
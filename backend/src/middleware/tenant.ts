@@ -1,9 +1,9 @@
 import { Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from './auth.js';
 import { AuthorizationError, NotFoundError } from './errorHandler.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Plan feature limits
 export const PLAN_LIMITS = {
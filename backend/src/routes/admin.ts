@@ -1,12 +1,12 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
 import { authMiddleware, requireSuperAdmin, AuthenticatedRequest } from '../middleware/auth.js';
 import { ValidationError, NotFoundError } from '../middleware/errorHandler.js';
 import { sendInvitationEmail } from '../services/email.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // All routes require Super Admin authentication
 router.use(authMiddleware);
@@ -1,12 +1,78 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { ValidationError, AuthenticationError } from '../middleware/errorHandler.js';
+import {
+  ValidationError,
+  AuthenticationError,
+  NotFoundError,
+} from '../middleware/errorHandler.js';
+import { hashBadge } from '../services/managerOverrides.js';
+import { parseTenantSettings } from '../services/tenantSettings.js';
+import { permissionsFor } from '../services/permissions.js';
+import { assertPinNotLocked } from '../services/pinLockout.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
+
+const tenantSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  plan: true,
+  taxRate: true,
+  settings: true,
+  timezone: true,
+  taxRules: {
+    select: { jurisdiction: true, name: true, taxCategory: true, rate: true, compound: true, priority: true },
+  },
+} satisfies Prisma.TenantSelect;
+
+// The register keeps the tenant's tax rules and time zone so it can work out
+// tax and promotions offline
+const formatTenant = (tenant: Prisma.TenantGetPayload<{ select: typeof tenantSelect }>) => ({
+  ...tenant,
+  taxRate: Number(tenant.taxRate),
+  settings: parseTenantSettings(tenant.settings),
+  taxRules: tenant.taxRules.map((rule) => ({ ...rule, rate: Number(rule.rate) })),
+});
+
+// The user's open shift or, when they switched in at a register someone else
+// opened, the shift open on that register
+async function findOpenShift(
+  user: { id: string; tenantId: string | null; locationId: string | null },
+  registerId?: unknown
+) {
+  const shift = await prisma.shift.findFirst({
+    where: {
+      userId: user.id,
+      status: 'OPEN',
+    },
+    include: {
+      register: true,
+    },
+  });
+
+  if (shift || typeof registerId !== 'string' || !user.tenantId) {
+    return shift;
+  }
+
+  return prisma.shift.findFirst({
+    where: {
+      registerId,
+      status: 'OPEN',
+      register: {
+        location: { tenantId: user.tenantId },
+        ...(user.locationId ? { locationId: user.locationId } : {}),
+      },
+    },
+    include: {
+      register: true,
+    },
+  });
+}
 
 // Login
 router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
@@ -98,14 +164,8 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
         },
         include: {
           location: true,
-          tenant: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-              plan: true,
-            },
-          },
+          tenant: { select: tenantSelect },
+          customRole: { select: { permissions: true } },
         },
       });
     } else {
@@ -117,14 +177,8 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
         },
         include: {
           location: true,
-          tenant: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-              plan: true,
-            },
-          },
+          tenant: { select: tenantSelect },
+          customRole: { select: { permissions: true } },
         },
       });
     }
@@ -139,15 +193,7 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
     }
 
     // Get current shift if any
-    const shift = await prisma.shift.findFirst({
-      where: {
-        userId: user.id,
-        status: 'OPEN',
-      },
-      include: {
-        register: true,
-      },
-    });
+    const shift = await findOpenShift(user);
 
     const secret = process.env.JWT_SECRET;
     if (!secret) {
@@ -183,8 +229,10 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
           locationId: user.locationId,
           onboardingStep: user.onboardingStep,
           onboardingComplete: user.onboardingComplete,
+          hasPin: Boolean(user.pinHash),
+          permissions: permissionsFor(user.role, user.customRole),
         },
-        tenant: user.tenant,
+        tenant: user.tenant && formatTenant(user.tenant),
         token,
         location: user.location,
         register: shift?.register || null,
@@ -214,6 +262,130 @@ router.post('/logout', authMiddleware, async (_req: AuthenticatedRequest, res: R
   }
 });
 
+// Switch the user at a register. The user is picked first and then gives
+// their PIN, so PINs needn't be unique. The register and its open shift stay
+// as they are; sales from here on are made by the new user.
+router.post('/switch-user', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { userId, pin, registerId } = req.body;
+    const tenantId = req.user!.tenantId;
+
+    if (!userId || !pin || !registerId) {
+      throw new ValidationError('User, PIN and register are required');
+    }
+
+    const register = tenantId && await prisma.register.findFirst({
+      where: {
+        id: registerId,
+        location: { tenantId },
+      },
+    });
+
+    if (!register) {
+      throw new NotFoundError('Register not found');
+    }
+
+    await assertPinNotLocked(prisma, tenantId, String(userId));
+
+    const candidate = await prisma.user.findFirst({
+      where: {
+        id: String(userId),
+        tenantId,
+        isActive: true,
+        pinHash: { not: null },
+        OR: [{ locationId: null }, { locationId: register.locationId }],
+      },
+      include: {
+        location: true,
+        tenant: { select: tenantSelect },
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    const user = candidate && await bcrypt.compare(String(pin), candidate.pinHash!) ? candidate : undefined;
+
+    if (!user) {
+      await prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'USER_SWITCH_DENIED',
+          entityType: 'User',
+          entityId: String(userId),
+          newValue: { registerId: register.id },
+        },
+      });
+      throw new AuthenticationError('Invalid PIN');
+    }
+
+    const shift = await findOpenShift(user, register.id);
+
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('JWT_SECRET not configured');
+    }
+
+    const token = jwt.sign(
+      {
+        userId: user.id,
+        tenantId: user.tenantId,
+        email: user.email,
+        role: user.role,
+      },
+      secret,
+      { expiresIn: '24h' }
+    );
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() },
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: user.id,
+          action: 'USER_SWITCHED',
+          entityType: 'Register',
+          entityId: register.id,
+          newValue: { fromUserId: req.user!.id, shiftId: shift?.id ?? null },
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role.toLowerCase(),
+          locationId: user.locationId,
+          onboardingStep: user.onboardingStep,
+          onboardingComplete: user.onboardingComplete,
+          hasPin: Boolean(user.pinHash),
+          permissions: permissionsFor(user.role, user.customRole),
+        },
+        tenant: user.tenant && formatTenant(user.tenant),
+        token,
+        location: user.location,
+        register,
+        shift: shift ? {
+          id: shift.id,
+          registerId: shift.registerId,
+          startTime: shift.startTime,
+          openingBalance: shift.openingBalance,
+          status: shift.status.toLowerCase(),
+        } : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get current user
 router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
@@ -221,14 +393,8 @@ router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Respons
       where: { id: req.user!.id },
       include: {
         location: true,
-        tenant: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            plan: true,
-          },
-        },
+        tenant: { select: tenantSelect },
+        customRole: { select: { permissions: true } },
       },
     });
 
@@ -259,15 +425,7 @@ router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Respons
     }
 
     // Get current shift if any
-    const shift = await prisma.shift.findFirst({
-      where: {
-        userId: user.id,
-        status: 'OPEN',
-      },
-      include: {
-        register: true,
-      },
-    });
+    const shift = await findOpenShift(user, req.query.registerId);
 
     res.json({
       success: true,
@@ -281,8 +439,10 @@ router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Respons
           locationId: user.locationId,
           onboardingStep: user.onboardingStep,
           onboardingComplete: user.onboardingComplete,
+          hasPin: Boolean(user.pinHash),
+          permissions: permissionsFor(user.role, user.customRole),
         },
-        tenant: user.tenant,
+        tenant: user.tenant && formatTenant(user.tenant),
         location: user.location,
         register: shift?.register || null,
         shift: shift ? {
@@ -299,6 +459,66 @@ router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Respons
   }
 });
 
+// Check the signed-in user's password before changing their credentials
+async function confirmPassword(userId: string, password: unknown): Promise<void> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  if (!password || !(await bcrypt.compare(String(password), user.passwordHash))) {
+    throw new AuthenticationError('Password is incorrect');
+  }
+}
+
+// Set the PIN used at the register
+router.put('/pin', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { password, pin } = req.body;
+
+    if (!/^\d{4,8}$/.test(String(pin ?? ''))) {
+      throw new ValidationError('PIN must be 4 to 8 digits');
+    }
+
+    await confirmPassword(req.user!.id, password);
+
+    // PINs are always checked against a user picked first, so they needn't be
+    // unique, and whether one is in use is never revealed
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { pinHash: await bcrypt.hash(String(pin), 10) },
+    });
+
+    res.json({
+      success: true,
+      message: 'PIN updated',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set or clear the badge scanned to approve overrides
+router.put('/badge', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { password, badge } = req.body;
+
+    if (badge !== null && String(badge ?? '').trim().length < 4) {
+      throw new ValidationError('Badge code must be at least 4 characters');
+    }
+
+    await confirmPassword(req.user!.id, password);
+
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { badgeHash: badge === null ? null : hashBadge(String(badge)) },
+    });
+
+    res.json({
+      success: true,
+      message: badge === null ? 'Badge removed' : 'Badge updated',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Refresh token
 router.post('/refresh', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
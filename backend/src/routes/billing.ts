@@ -1,12 +1,12 @@
 import { Router, Response, NextFunction, Request } from 'express';
-import { PrismaClient } from '@prisma/client';
 import Stripe from 'stripe';
-import { AuthenticatedRequest, authMiddleware, requireTenant } from '../middleware/auth.js';
+import { AuthenticatedRequest, authMiddleware, requirePermission, requireTenant } from '../middleware/auth.js';
 import { ValidationError, NotFoundError } from '../middleware/errorHandler.js';
 import { logger } from '../utils/logger.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Only initialize Stripe if key is configured
 const stripeKey = process.env.STRIPE_SECRET_KEY;
@@ -111,7 +111,7 @@ router.get('/subscription', authMiddleware, requireTenant, async (req: Authentic
 });
 
 // Create checkout session
-router.post('/checkout', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/checkout', authMiddleware, requirePermission('billing.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     if (!stripe) {
       throw new ValidationError('Billing is not configured');
@@ -186,7 +186,7 @@ router.post('/checkout', authMiddleware, async (req: AuthenticatedRequest, res:
 });
 
 // Create customer portal session
-router.post('/portal', authMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/portal', authMiddleware, requirePermission('billing.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     if (!stripe) {
       throw new ValidationError('Billing is not configured');
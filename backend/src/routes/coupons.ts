@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+import { Router, Response, NextFunction } from 'express';
+import { Coupon, CouponDiscountType, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { findUsableCoupon, normalizeCouponCode } from '../services/coupons.js';
+import { sendCouponEmail } from '../services/email.js';
+import { createPrismaClient } from '../services/tenantScope.js';
+import { roundMoney } from 'shared/totals';
+
+const router = Router();
+const prisma = createPrismaClient();
+
+const formatCoupon = (coupon: Coupon & { _count?: { redemptions: number } }) => ({
+  id: coupon.id,
+  code: coupon.code,
+  campaign: coupon.campaign,
+  discountType: coupon.discountType.toLowerCase(),
+  value: Number(coupon.value),
+  maxRedemptions: coupon.maxRedemptions,
+  perCustomerLimit: coupon.perCustomerLimit,
+  minimumSpend: coupon.minimumSpend === null ? null : Number(coupon.minimumSpend),
+  startsAt: coupon.startsAt,
+  expiresAt: coupon.expiresAt,
+  locationIds: coupon.locationIds,
+  customerId: coupon.customerId,
+  isActive: coupon.isActive,
+  redemptions: coupon._count?.redemptions,
+});
+
+// Audit logs keep numbers and dates as JSON
+const auditValue = (coupon: Coupon): Prisma.InputJsonObject => ({
+  ...formatCoupon(coupon),
+  startsAt: coupon.startsAt?.toISOString() ?? null,
+  expiresAt: coupon.expiresAt?.toISOString() ?? null,
+  redemptions: null,
+});
+
+const CODE = /^[A-Z0-9-]{3,32}$/;
+
+// Generated codes leave out letters and digits that are easily misread
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const GENERATED_LENGTH = 8;
+const MAX_GENERATED = 5000;
+
+const generateCode = (prefix: string) =>
+  prefix + Array.from(crypto.randomBytes(GENERATED_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+
+const optionalCount = (value: unknown, label: string): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new ValidationError(`${label} must be a whole number of at least 1`);
+  }
+  return count;
+};
+
+// Check the terms sent by the coupons screen, shared by every code they create
+function validateTerms(body: Record<string, unknown>) {
+  const discountType = String(body.discountType ?? '').toUpperCase() as CouponDiscountType;
+  if (!Object.values(CouponDiscountType).includes(discountType)) {
+    throw new ValidationError('Discount type must be percent or fixed');
+  }
+
+  const value = Number(body.value);
+  if (!(value > 0) || (discountType === 'PERCENT' && value > 100)) {
+    throw new ValidationError(
+      discountType === 'PERCENT' ? 'Percent off must be more than 0 and at most 100' : 'Amount off must be more than 0'
+    );
+  }
+
+  const minimumSpend = body.minimumSpend === undefined || body.minimumSpend === null || body.minimumSpend === ''
+    ? null
+    : Number(body.minimumSpend);
+  if (minimumSpend !== null && !(minimumSpend >= 0)) {
+    throw new ValidationError('Minimum spend must be zero or more');
+  }
+
+  const startsAt = body.startsAt ? new Date(String(body.startsAt)) : null;
+  const expiresAt = body.expiresAt ? new Date(String(body.expiresAt)) : null;
+  if ((startsAt && isNaN(startsAt.getTime())) || (expiresAt && isNaN(expiresAt.getTime()))) {
+    throw new ValidationError('Invalid start or expiry date');
+  }
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    throw new ValidationError('A coupon must expire after it starts');
+  }
+
+  return {
+    campaign: typeof body.campaign === 'string' && body.campaign.trim() ? body.campaign.trim() : null,
+    discountType,
+    value: roundMoney(value),
+    maxRedemptions: optionalCount(body.maxRedemptions, 'Uses'),
+    perCustomerLimit: optionalCount(body.perCustomerLimit, 'Uses per customer'),
+    minimumSpend: minimumSpend === null ? null : roundMoney(minimumSpend),
+    startsAt,
+    expiresAt,
+    locationIds: Array.isArray(body.locationIds) ? [...new Set(body.locationIds.map(String).filter(Boolean))] : [],
+    isActive: body.isActive === undefined ? true : !!body.isActive,
+  };
+}
+
+// How a coupon is described to customers, e.g. "10% off when you spend $50"
+const describeOffer = (terms: ReturnType<typeof validateTerms>) =>
+  (terms.discountType === 'PERCENT' ? `${terms.value}% off` : `$${terms.value.toFixed(2)} off`) +
+  (terms.minimumSpend ? ` when you spend $${terms.minimumSpend.toFixed(2)}` : '');
+
+// Check a coupon code entered at the register, before the sale is paid
+router.post('/validate', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code, customerId, spend } = req.body as { code?: string; customerId?: string; spend?: number };
+
+    const coupon = await findUsableCoupon(prisma, req.user!.tenantId!, code, {
+      locationId: req.user!.locationId!,
+      customerId,
+      spend: Number(spend) || 0,
+      at: new Date(),
+    });
+
+    res.json({
+      success: true,
+      data: { coupon: formatCoupon(coupon) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get coupons, optionally those of one campaign
+router.get('/', requirePermission('coupons.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { campaign, search, limit = 200 } = req.query;
+
+    const coupons = await prisma.coupon.findMany({
+      where: {
+        tenantId: req.user!.tenantId!,
+        ...(campaign && { campaign: String(campaign) }),
+        ...(search && { code: { contains: normalizeCouponCode(search) } }),
+      },
+      include: { _count: { select: { redemptions: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: { coupons: coupons.map(formatCoupon) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Results of each campaign: codes issued and used, customers who used them,
+// the discount given and what the sales came to
+router.get('/campaigns', requirePermission('coupons.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const coupons = await prisma.coupon.findMany({
+      where: { tenantId: req.user!.tenantId!, campaign: { not: null } },
+      select: {
+        campaign: true,
+        redemptions: {
+          select: { amount: true, customerId: true, transaction: { select: { total: true } } },
+        },
+      },
+    });
+
+    const campaigns = new Map<string, {
+      campaign: string;
+      codes: number;
+      codesUsed: number;
+      redemptions: number;
+      customers: Set<string>;
+      discountTotal: number;
+      salesTotal: number;
+    }>();
+
+    for (const coupon of coupons) {
+      const name = coupon.campaign!;
+      const results = campaigns.get(name) ?? {
+        campaign: name,
+        codes: 0,
+        codesUsed: 0,
+        redemptions: 0,
+        customers: new Set<string>(),
+        discountTotal: 0,
+        salesTotal: 0,
+      };
+
+      results.codes += 1;
+      results.codesUsed += coupon.redemptions.length > 0 ? 1 : 0;
+      for (const redemption of coupon.redemptions) {
+        results.redemptions += 1;
+        if (redemption.customerId) results.customers.add(redemption.customerId);
+        results.discountTotal += Number(redemption.amount);
+        results.salesTotal += Number(redemption.transaction.total);
+      }
+      campaigns.set(name, results);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        campaigns: [...campaigns.values()]
+          .sort((a, b) => a.campaign.localeCompare(b.campaign))
+          .map(({ customers, discountTotal, salesTotal, ...results }) => ({
+            ...results,
+            customers: customers.size,
+            discountTotal: roundMoney(discountTotal),
+            salesTotal: roundMoney(salesTotal),
+          })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a coupon with the code given, or `quantity` codes generated for a
+// printed campaign (single-use unless `maxRedemptions` says otherwise)
+router.post('/', requirePermission('coupons.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const { code, quantity, prefix } = req.body as { code?: string; quantity?: number; prefix?: string };
+    const terms = validateTerms(req.body);
+
+    let codes: string[];
+    if (quantity !== undefined) {
+      const count = Number(quantity);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATED) {
+        throw new ValidationError(`Quantity must be from 1 to ${MAX_GENERATED}`);
+      }
+      const normalizedPrefix = normalizeCouponCode(prefix);
+      if (normalizedPrefix && !/^[A-Z0-9-]{1,16}$/.test(normalizedPrefix)) {
+        throw new ValidationError('Prefix must be up to 16 letters, digits or dashes');
+      }
+      const generated = new Set<string>();
+      while (generated.size < count) {
+        generated.add(generateCode(normalizedPrefix));
+      }
+      codes = [...generated];
+      if (req.body.maxRedemptions === undefined) {
+        terms.maxRedemptions = 1;
+      }
+    } else {
+      const normalized = normalizeCouponCode(code);
+      if (!CODE.test(normalized)) {
+        throw new ValidationError('Codes must be 3-32 letters, digits or dashes');
+      }
+      codes = [normalized];
+    }
+
+    const coupons = await prisma.$transaction(async (tx) => {
+      await tx.coupon.createMany({
+        data: codes.map((couponCode) => ({ tenantId, code: couponCode, ...terms })),
+      });
+      const created = await tx.coupon.findMany({
+        where: { tenantId, code: { in: codes } },
+        orderBy: { code: 'asc' },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'COUPONS_CREATED',
+          entityType: created.length === 1 ? 'Coupon' : 'Tenant',
+          entityId: created.length === 1 ? created[0].id : tenantId,
+          newValue: created.length === 1
+            ? auditValue(created[0])
+            : { campaign: terms.campaign, offer: describeOffer(terms), codes: created.length },
+        },
+      });
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { coupons: coupons.map(formatCoupon) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Email a single-use code, which only they can use, to each of the customers
+// or each customer in a group
+router.post('/email', requirePermission('coupons.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const { customerIds, customerGroup, prefix } = req.body as {
+      customerIds?: string[];
+      customerGroup?: string;
+      prefix?: string;
+    };
+    const terms = validateTerms(req.body);
+
+    if (!terms.campaign) {
+      throw new ValidationError('Emailed coupons need a campaign');
+    }
+    const group = typeof customerGroup === 'string' ? customerGroup.trim() : '';
+    if (!group && (!Array.isArray(customerIds) || customerIds.length === 0)) {
+      throw new ValidationError('Choose the customers or customer group to email');
+    }
+
+    const customers = await prisma.customer.findMany({
+      where: {
+        tenantId,
+        email: { not: null },
+        ...(group ? { group } : { id: { in: (customerIds ?? []).map(String) } }),
+      },
+      select: { id: true, email: true, firstName: true },
+    });
+
+    if (customers.length === 0) {
+      throw new ValidationError('None of those customers have an email address');
+    }
+    if (customers.length > MAX_GENERATED) {
+      throw new ValidationError(`Coupons can be emailed to at most ${MAX_GENERATED} customers at once`);
+    }
+
+    const normalizedPrefix = normalizeCouponCode(prefix);
+    const generated = customers.map((customer) => ({ customer, code: generateCode(normalizedPrefix) }));
+
+    await prisma.$transaction([
+      prisma.coupon.createMany({
+        data: generated.map(({ customer, code }) => ({
+          tenantId,
+          code,
+          ...terms,
+          maxRedemptions: 1,
+          customerId: customer.id,
+        })),
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'COUPONS_EMAILED',
+          entityType: 'Tenant',
+          entityId: tenantId,
+          newValue: { campaign: terms.campaign, offer: describeOffer(terms), customers: customers.length },
+        },
+      }),
+    ]);
+
+    // A failed email leaves its code unused, which the campaign results show
+    let failed = 0;
+    for (const { customer, code } of generated) {
+      try {
+        await sendCouponEmail({
+          to: customer.email!,
+          firstName: customer.firstName,
+          companyName: req.tenant!.name,
+          code,
+          offer: describeOffer(terms),
+          expiresAt: terms.expiresAt,
+        });
+      } catch (emailError) {
+        failed += 1;
+        console.error('Failed to send coupon email:', emailError);
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        sent: generated.length - failed,
+        failed,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a coupon's terms. Its code stays the same, and sales already made
+// keep the discount they were given.
+router.put('/:id', requirePermission('coupons.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+    const terms = validateTerms(req.body);
+
+    const existing = await prisma.coupon.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Coupon not found');
+    }
+
+    const coupon = await prisma.$transaction(async (tx) => {
+      const updated = await tx.coupon.update({
+        where: { id },
+        data: terms,
+        include: { _count: { select: { redemptions: true } } },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'COUPON_UPDATED',
+          entityType: 'Coupon',
+          entityId: id,
+          oldValue: auditValue(existing),
+          newValue: auditValue(updated),
+        },
+      });
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: { coupon: formatCoupon(coupon) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a coupon that was never used. Used ones are deactivated instead so
+// their campaign results are kept.
+router.delete('/:id', requirePermission('coupons.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const existing = await prisma.coupon.findFirst({
+      where: { id, tenantId },
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Coupon not found');
+    }
+
+    if (existing._count.redemptions > 0) {
+      throw new ConflictError('This coupon has been used; deactivate it instead');
+    }
+
+    await prisma.$transaction([
+      prisma.coupon.delete({ where: { id } }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'COUPON_DELETED',
+          entityType: 'Coupon',
+          entityId: id,
+          oldValue: auditValue(existing),
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
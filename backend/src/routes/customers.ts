@@ -1,10 +1,12 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
-import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { enqueueSync } from '../services/netsuite/syncQueue.js';
+import { trackLocalEdit } from '../services/netsuite/customerConflicts.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Get all customers
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -32,8 +34,11 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
           priceLevel: c.priceLevel,
           creditLimit: c.creditLimit ? Number(c.creditLimit) : null,
           balance: Number(c.balance),
+          storeCredit: Number(c.storeCredit),
           loyaltyPoints: c.loyaltyPoints,
           taxExempt: c.taxExempt,
+          taxExemptCertificate: c.taxExemptCertificate,
+          group: c.group,
         })),
       },
     });
@@ -82,6 +87,7 @@ router.get('/search', async (req: AuthenticatedRequest, res: Response, next: Nex
           phone: c.phone,
           company: c.company,
           balance: Number(c.balance),
+          storeCredit: Number(c.storeCredit),
           loyaltyPoints: c.loyaltyPoints,
         })),
       },
@@ -122,8 +128,11 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
           priceLevel: customer.priceLevel,
           creditLimit: customer.creditLimit ? Number(customer.creditLimit) : null,
           balance: Number(customer.balance),
+          storeCredit: Number(customer.storeCredit),
           loyaltyPoints: customer.loyaltyPoints,
           taxExempt: customer.taxExempt,
+          taxExemptCertificate: customer.taxExemptCertificate,
+          group: customer.group,
           notes: customer.notes,
           addresses: customer.addresses,
         },
@@ -180,7 +189,7 @@ router.get('/:id/transactions', async (req: AuthenticatedRequest, res: Response,
 });
 
 // Create customer
-router.post('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/', requirePermission('customer.edit'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { firstName, lastName, email, phone, company } = req.body;
     const tenantId = req.user!.tenantId!;
@@ -200,6 +209,8 @@ router.post('/', async (req: AuthenticatedRequest, res: Response, next: NextFunc
       },
     });
 
+    await enqueueSync(tenantId, 'customer', 'create', { customerId: customer.id });
+
     res.status(201).json({
       success: true,
       data: {
@@ -212,6 +223,7 @@ router.post('/', async (req: AuthenticatedRequest, res: Response, next: NextFunc
           phone: customer.phone,
           company: customer.company,
           balance: Number(customer.balance),
+          storeCredit: Number(customer.storeCredit),
           loyaltyPoints: customer.loyaltyPoints,
         },
       },
@@ -222,10 +234,21 @@ router.post('/', async (req: AuthenticatedRequest, res: Response, next: NextFunc
 });
 
 // Update customer
-router.put('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.put('/:id', requirePermission('customer.edit'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { firstName, lastName, email, phone, company, notes } = req.body;
+    const {
+      firstName,
+      lastName,
+      email,
+      phone,
+      company,
+      notes,
+      creditLimit,
+      taxExempt,
+      taxExemptCertificate,
+      group,
+    } = req.body;
     const tenantId = req.user!.tenantId!;
 
     // Verify customer belongs to tenant
@@ -237,18 +260,87 @@ router.put('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
       throw new NotFoundError('Customer not found');
     }
 
+    // Credit limits need their own permission
+    const oldLimit = existing.creditLimit === null ? null : Number(existing.creditLimit);
+    const newLimit: number | null | undefined =
+      creditLimit === undefined || creditLimit === null ? creditLimit : Number(creditLimit);
+    const limitChanged = newLimit !== undefined && newLimit !== oldLimit;
+
+    if (limitChanged) {
+      if (!req.user!.permissions.includes('customer.edit_credit_limit')) {
+        throw new AuthorizationError('You do not have permission to change credit limits');
+      }
+      if (newLimit !== null && !(newLimit >= 0)) {
+        throw new ValidationError('Credit limit must be zero or more');
+      }
+    }
+
+    // Exempt customers need a certificate number on file
+    const exemption = {
+      taxExempt: taxExempt === undefined ? existing.taxExempt : !!taxExempt,
+      taxExemptCertificate: taxExemptCertificate === undefined
+        ? existing.taxExemptCertificate
+        : String(taxExemptCertificate ?? '').trim() || null,
+    };
+    const exemptionChanged =
+      exemption.taxExempt !== existing.taxExempt ||
+      exemption.taxExemptCertificate !== existing.taxExemptCertificate;
+
+    if (exemption.taxExempt && !exemption.taxExemptCertificate) {
+      throw new ValidationError('A tax exemption certificate number is required');
+    }
+
+    const changes = { firstName, lastName, email, phone, company };
+    const tracking = trackLocalEdit(existing, changes);
+
     const customer = await prisma.customer.update({
       where: { id },
       data: {
-        firstName,
-        lastName,
-        email,
-        phone,
-        company,
+        ...changes,
         notes,
+        // Groups are kept in the POS only, for promotions
+        ...(group !== undefined && { group: String(group ?? '').trim() || null }),
+        ...(limitChanged && { creditLimit: newLimit }),
+        ...(exemptionChanged && exemption),
+        ...tracking,
       },
     });
 
+    if (limitChanged) {
+      await prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'CUSTOMER_CREDIT_LIMIT_CHANGED',
+          entityType: 'Customer',
+          entityId: customer.id,
+          oldValue: { creditLimit: oldLimit },
+          newValue: { creditLimit: newLimit },
+        },
+      });
+    }
+
+    if (exemptionChanged) {
+      await prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'CUSTOMER_TAX_EXEMPTION_CHANGED',
+          entityType: 'Customer',
+          entityId: customer.id,
+          oldValue: {
+            taxExempt: existing.taxExempt,
+            taxExemptCertificate: existing.taxExemptCertificate,
+          },
+          newValue: exemption,
+        },
+      });
+    }
+
+    if (customer.netsuiteId && customer.pendingFields.length > 0) {
+      await enqueueSync(tenantId, 'customer', 'update', { customerId: customer.id });
+    }
+
     res.json({
       success: true,
       data: {
@@ -261,7 +353,12 @@ router.put('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
           phone: customer.phone,
           company: customer.company,
           balance: Number(customer.balance),
+          creditLimit: customer.creditLimit ? Number(customer.creditLimit) : null,
+          storeCredit: Number(customer.storeCredit),
           loyaltyPoints: customer.loyaltyPoints,
+          taxExempt: customer.taxExempt,
+          taxExemptCertificate: customer.taxExemptCertificate,
+          group: customer.group,
         },
       },
     });
@@ -293,6 +390,7 @@ router.get('/sync', async (req: AuthenticatedRequest, res: Response, next: NextF
           company: c.company,
           priceLevel: c.priceLevel,
           balance: Number(c.balance),
+          storeCredit: Number(c.storeCredit),
           loyaltyPoints: c.loyaltyPoints,
         })),
         syncedAt: new Date().toISOString(),
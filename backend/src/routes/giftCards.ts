@@ -0,0 +1,301 @@
+import { Router, Response, NextFunction } from 'express';
+import { GiftCard, GiftCardEntry, Prisma } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import {
+  moveGiftCardBalance,
+  normalizeGiftCardNumber,
+  parseGiftCardNumber,
+} from '../services/giftCards.js';
+import { createPrismaClient, lockRow } from '../services/tenantScope.js';
+import { roundMoney } from 'shared/totals';
+
+// Gift cards are sold and reloaded as sale lines and spent as a payment tender
+// (see routes/transactions.ts). These routes check balances and let managers
+// issue, adjust and deactivate cards outside a sale.
+
+const router = Router();
+const prisma = createPrismaClient();
+
+const formatGiftCard = (card: GiftCard) => ({
+  id: card.id,
+  number: card.number,
+  balance: Number(card.balance),
+  originalAmount: Number(card.originalAmount),
+  expiresAt: card.expiresAt,
+  isActive: card.isActive,
+  customerId: card.customerId,
+  createdAt: card.createdAt,
+});
+
+const formatEntry = (entry: GiftCardEntry & { transaction?: { receiptNumber: string } | null }) => ({
+  id: entry.id,
+  type: entry.type.toLowerCase(),
+  amount: Number(entry.amount),
+  balance: Number(entry.balance),
+  transactionId: entry.transactionId,
+  receiptNumber: entry.transaction?.receiptNumber,
+  userId: entry.userId,
+  note: entry.note,
+  createdAt: entry.createdAt,
+});
+
+// Audit logs keep dates as ISO strings
+const auditValue = (card: GiftCard): Prisma.InputJsonObject => ({
+  ...formatGiftCard(card),
+  expiresAt: card.expiresAt?.toISOString() ?? null,
+  createdAt: card.createdAt.toISOString(),
+});
+
+const parseExpiry = (value: unknown): Date | null => {
+  if (!value) return null;
+  const expiresAt = new Date(String(value));
+  if (isNaN(expiresAt.getTime())) {
+    throw new ValidationError('Invalid expiry date');
+  }
+  return expiresAt;
+};
+
+// Get gift cards, optionally matching part of a number
+router.get('/', requirePermission('giftcards.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { search, limit = 100 } = req.query;
+
+    const cards = await prisma.giftCard.findMany({
+      where: {
+        tenantId: req.user!.tenantId!,
+        ...(search && { number: { contains: normalizeGiftCardNumber(search) } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Number(limit) || 100, 500),
+    });
+
+    res.json({
+      success: true,
+      data: { giftCards: cards.map(formatGiftCard) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Check a card's balance at the register
+router.get('/number/:number', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const card = await prisma.giftCard.findUnique({
+      where: {
+        tenantId_number: { tenantId: req.user!.tenantId!, number: normalizeGiftCardNumber(req.params.number) },
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Gift card not found');
+    }
+
+    res.json({
+      success: true,
+      data: { giftCard: formatGiftCard(card) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a gift card with its ledger, newest first
+router.get('/:id', requirePermission('giftcards.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const card = await prisma.giftCard.findFirst({
+      where: { id: req.params.id, tenantId: req.user!.tenantId! },
+      include: {
+        entries: {
+          orderBy: { createdAt: 'desc' },
+          include: { transaction: { select: { receiptNumber: true } } },
+        },
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Gift card not found');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        giftCard: formatGiftCard(card),
+        entries: card.entries.map(formatEntry),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Issue a card without selling it, e.g. as a goodwill gesture or to replace a
+// lost one. Cards sold at the register are activated by the sale instead.
+router.post('/activate', requirePermission('giftcards.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const number = parseGiftCardNumber(req.body.number);
+    const amount = roundMoney(Number(req.body.amount));
+    const expiresAt = parseExpiry(req.body.expiresAt);
+    const customerId = req.body.customerId ? String(req.body.customerId) : null;
+    const note = req.body.note ? String(req.body.note).trim() : undefined;
+
+    if (!(amount > 0)) {
+      throw new ValidationError('Amount must be greater than zero');
+    }
+
+    if (customerId && !(await prisma.customer.findFirst({ where: { id: customerId, tenantId } }))) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    const card = await prisma.$transaction(async (tx) => {
+      const existing = await tx.giftCard.findUnique({
+        where: { tenantId_number: { tenantId, number } },
+      });
+      if (existing) {
+        throw new ConflictError('A gift card with this number already exists');
+      }
+
+      const created = await tx.giftCard.create({
+        data: { tenantId, number, balance: 0, originalAmount: amount, expiresAt, customerId },
+      });
+      const activated = (await moveGiftCardBalance(tx, created.id, amount, {
+        tenantId,
+        type: 'ACTIVATION',
+        userId: req.user!.id,
+        note,
+      }))!;
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'GIFT_CARD_ISSUED',
+          entityType: 'GiftCard',
+          entityId: created.id,
+          newValue: { ...auditValue(activated), note: note ?? null },
+        },
+      });
+
+      return activated;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { giftCard: formatGiftCard(card) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add to or take from a card's balance by hand, with the reason
+router.post('/:id/adjust', requirePermission('giftcards.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+    const amount = roundMoney(Number(req.body.amount));
+    const note = String(req.body.note ?? '').trim();
+
+    if (!amount) {
+      throw new ValidationError('Enter the amount to add, or a negative amount to take off');
+    }
+    if (!note) {
+      throw new ValidationError('Give a reason for the adjustment');
+    }
+
+    const existing = await prisma.giftCard.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Gift card not found');
+    }
+
+    const card = await prisma.$transaction(async (tx) => {
+      await lockRow(tx, 'GiftCard', id);
+
+      const adjusted = await moveGiftCardBalance(tx, id, amount, {
+        tenantId,
+        type: 'ADJUSTMENT',
+        userId: req.user!.id,
+        note,
+      });
+      if (!adjusted) {
+        throw new ValidationError("A card's balance can't go below zero");
+      }
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'GIFT_CARD_ADJUSTED',
+          entityType: 'GiftCard',
+          entityId: id,
+          oldValue: { balance: Number(existing.balance) },
+          newValue: { balance: Number(adjusted.balance), amount, note },
+        },
+      });
+
+      return adjusted;
+    });
+
+    res.json({
+      success: true,
+      data: { giftCard: formatGiftCard(card) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Deactivate or reactivate a card, or change when it expires
+router.put('/:id', requirePermission('giftcards.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+    const { isActive, expiresAt } = req.body as { isActive?: boolean; expiresAt?: string | null };
+
+    const existing = await prisma.giftCard.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Gift card not found');
+    }
+
+    const card = await prisma.$transaction(async (tx) => {
+      const updated = await tx.giftCard.update({
+        where: { id },
+        data: {
+          isActive: isActive === undefined ? undefined : !!isActive,
+          expiresAt: expiresAt === undefined ? undefined : parseExpiry(expiresAt),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'GIFT_CARD_UPDATED',
+          entityType: 'GiftCard',
+          entityId: id,
+          oldValue: auditValue(existing),
+          newValue: auditValue(updated),
+        },
+      });
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: { giftCard: formatGiftCard(card) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,10 +1,11 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
 import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { enqueueSync } from '../services/netsuite/syncQueue.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Get inventory for a location
 router.get('/:locationId', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -50,7 +51,7 @@ router.get('/:locationId', async (req: AuthenticatedRequest, res: Response, next
 });
 
 // Adjust inventory
-router.post('/adjust', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/adjust', requirePermission('inventory.adjust'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { itemId, adjustmentType, quantity, reason } = req.body;
     const locationId = req.user?.locationId;
@@ -120,6 +121,15 @@ router.post('/adjust', async (req: AuthenticatedRequest, res: Response, next: Ne
       },
     });
 
+    if (newQuantity !== currentQty) {
+      await enqueueSync(tenantId, 'inventory_adjustment', 'create', {
+        itemId,
+        locationId,
+        adjustQty: newQuantity - currentQty,
+        memo: reason ? `POS adjustment: ${reason}` : 'POS adjustment',
+      });
+    }
+
     res.json({
       success: true,
       data: {
@@ -136,7 +146,7 @@ router.post('/adjust', async (req: AuthenticatedRequest, res: Response, next: Ne
 });
 
 // Create transfer order
-router.post('/transfer', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/transfer', requirePermission('inventory.transfer'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { itemId, fromLocationId, toLocationId, quantity } = req.body;
 
@@ -144,6 +154,19 @@ router.post('/transfer', async (req: AuthenticatedRequest, res: Response, next:
       throw new ValidationError('All fields are required');
     }
 
+    if (fromLocationId === toLocationId) {
+      throw new ValidationError('Source and destination locations must differ');
+    }
+
+    // Verify both locations belong to tenant
+    const locations = await prisma.location.count({
+      where: { id: { in: [fromLocationId, toLocationId] }, tenantId: req.user!.tenantId! },
+    });
+
+    if (locations !== 2) {
+      throw new NotFoundError('Location not found');
+    }
+
     // Check source inventory
     const sourceInventory = await prisma.inventoryLevel.findUnique({
       where: {
@@ -1,12 +1,14 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
-import { ValidationError, NotFoundError } from '../middleware/errorHandler.js';
-import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { UserRole } from '@prisma/client';
+import { ValidationError, NotFoundError, AuthorizationError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { ROLE_PERMISSIONS } from '../services/permissions.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Validate invitation token (public)
 router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
@@ -169,7 +171,7 @@ router.post('/:token/accept', async (req: Request, res: Response, next: NextFunc
 router.use('/tenant', authMiddleware);
 
 // Customer Admin invites team members
-router.post('/tenant/invite', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/tenant/invite', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { email, role, locationId } = req.body;
 
@@ -181,9 +183,9 @@ router.post('/tenant/invite', async (req: AuthenticatedRequest, res: Response, n
       throw new ValidationError('Role must be ADMIN, MANAGER, or CASHIER');
     }
 
-    // Only OWNER and ADMIN can invite
-    if (!['OWNER', 'ADMIN'].includes(req.user!.role)) {
-      throw new ValidationError('Only admins can invite team members');
+    // Nobody can invite someone who could do more than they can
+    if (!ROLE_PERMISSIONS[role as UserRole].every((permission) => req.user!.permissions.includes(permission))) {
+      throw new AuthorizationError(`You cannot invite a ${role.toLowerCase()}`);
     }
 
     // ADMIN cannot invite OWNER
@@ -273,12 +275,8 @@ router.post('/tenant/invite', async (req: AuthenticatedRequest, res: Response, n
 });
 
 // List team invitations
-router.get('/tenant/list', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.get('/tenant/list', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    if (!['OWNER', 'ADMIN'].includes(req.user!.role)) {
-      throw new ValidationError('Only admins can view invitations');
-    }
-
     const invitations = await prisma.invitation.findMany({
       where: {
         tenantId: req.user!.tenantId,
@@ -310,14 +308,10 @@ router.get('/tenant/list', async (req: AuthenticatedRequest, res: Response, next
 });
 
 // Revoke invitation
-router.delete('/tenant/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.delete('/tenant/:id', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
-    if (!['OWNER', 'ADMIN'].includes(req.user!.role)) {
-      throw new ValidationError('Only admins can revoke invitations');
-    }
-
     const invitation = await prisma.invitation.findFirst({
       where: {
         id,
@@ -1,10 +1,19 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PriceLevel } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { NotFoundError } from '../middleware/errorHandler.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
+
+const formatPriceLevels = (priceLevels: PriceLevel[]) =>
+  priceLevels.map((level) => ({
+    id: level.id,
+    itemId: level.itemId,
+    name: level.name,
+    price: Number(level.price),
+  }));
 
 // Get all items
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -49,15 +58,19 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
           name: item.name,
           description: item.description,
           barcode: item.barcode,
+          categoryId: item.categoryId,
           category: item.category?.name,
           basePrice: Number(item.basePrice),
           cost: item.cost ? Number(item.cost) : null,
           taxRate: item.taxRate ? Number(item.taxRate) : null,
+          taxCategory: item.taxCategory,
           trackInventory: item.trackInventory,
           isActive: item.isActive,
           imageUrl: item.imageUrl,
           unit: item.unit,
           requiresWeight: item.requiresWeight,
+          isGiftCard: item.isGiftCard,
+          priceLevels: formatPriceLevels(item.priceLevels),
         })),
       },
     });
@@ -99,15 +112,19 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
           name: item.name,
           description: item.description,
           barcode: item.barcode,
+          categoryId: item.categoryId,
           category: item.category?.name,
           basePrice: Number(item.basePrice),
           cost: item.cost ? Number(item.cost) : null,
           taxRate: item.taxRate ? Number(item.taxRate) : null,
+          taxCategory: item.taxCategory,
           trackInventory: item.trackInventory,
           isActive: item.isActive,
           imageUrl: item.imageUrl,
           unit: item.unit,
           requiresWeight: item.requiresWeight,
+          isGiftCard: item.isGiftCard,
+          priceLevels: formatPriceLevels(item.priceLevels),
           inventory: item.inventory[0] ? {
             quantityOnHand: Number(item.inventory[0].quantityOnHand),
             quantityAvailable: Number(item.inventory[0].quantityAvailable),
@@ -131,6 +148,7 @@ router.get('/barcode/:barcode', async (req: AuthenticatedRequest, res: Response,
       where: { tenantId, barcode, isActive: true },
       include: {
         category: true,
+        priceLevels: true,
       },
     });
 
@@ -148,12 +166,17 @@ router.get('/barcode/:barcode', async (req: AuthenticatedRequest, res: Response,
           name: item.name,
           description: item.description,
           barcode: item.barcode,
+          categoryId: item.categoryId,
           category: item.category?.name,
           basePrice: Number(item.basePrice),
+          taxRate: item.taxRate ? Number(item.taxRate) : null,
+          taxCategory: item.taxCategory,
           isActive: item.isActive,
           imageUrl: item.imageUrl,
           unit: item.unit,
           requiresWeight: item.requiresWeight,
+          isGiftCard: item.isGiftCard,
+          priceLevels: formatPriceLevels(item.priceLevels),
         },
       },
     });
@@ -189,12 +212,16 @@ router.get('/sku/:sku', async (req: AuthenticatedRequest, res: Response, next: N
           name: item.name,
           description: item.description,
           barcode: item.barcode,
+          categoryId: item.categoryId,
           category: item.category?.name,
           basePrice: Number(item.basePrice),
+          taxRate: item.taxRate ? Number(item.taxRate) : null,
+          taxCategory: item.taxCategory,
           isActive: item.isActive,
           imageUrl: item.imageUrl,
           unit: item.unit,
           requiresWeight: item.requiresWeight,
+          isGiftCard: item.isGiftCard,
         },
       },
     });
@@ -228,14 +255,18 @@ router.get('/sync', async (req: AuthenticatedRequest, res: Response, next: NextF
           name: item.name,
           description: item.description,
           barcode: item.barcode,
+          categoryId: item.categoryId,
           category: item.category?.name,
           basePrice: Number(item.basePrice),
           cost: item.cost ? Number(item.cost) : null,
+          taxRate: item.taxRate ? Number(item.taxRate) : null,
+          taxCategory: item.taxCategory,
           trackInventory: item.trackInventory,
           isActive: item.isActive,
           imageUrl: item.imageUrl,
           unit: item.unit,
           requiresWeight: item.requiresWeight,
+          isGiftCard: item.isGiftCard,
         })),
         syncedAt: new Date().toISOString(),
       },
@@ -1,21 +1,315 @@
 import { Router, Response, NextFunction } from 'express';
-import { AuthenticatedRequest } from '../middleware/auth.js';
-import { NetSuiteClient } from '../services/netsuite/client.js';
+import {
+  NetSuiteReturnFlow,
+  PaymentMethod,
+  SyncConflictResolution,
+  SyncConflictStatus,
+} from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { checkPlanLimit } from '../middleware/tenant.js';
+import { LocationImport, NetSuiteClient } from '../services/netsuite/client.js';
+import { decrypt, encrypt, maskSecret } from '../utils/encryption.js';
+import { generateWebhookSecret } from '../services/netsuite/webhooks.js';
+import { resolveConflict } from '../services/netsuite/customerConflicts.js';
+import { enqueueSync } from '../services/netsuite/syncQueue.js';
+import { getScheduler } from '../services/netsuite/scheduler.js';
+import { logger } from '../utils/logger.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
+const prisma = createPrismaClient();
 
 // Get NetSuite connection status
-router.get('/status', async (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.get('/status', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const client = new NetSuiteClient();
-    const isConnected = await client.testConnection();
+    const tenantId = req.user!.tenantId!;
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { netsuiteAccountId: true },
+    });
+
+    const cursors = await prisma.syncCursor.findMany({
+      where: { tenantId },
+      orderBy: { entity: 'asc' },
+    });
+
+    const client = new NetSuiteClient(tenantId);
+    const { connected } = await client.testConnection();
+
+    // Most recent run of any entity that completed every page
+    const lastSync = cursors.reduce<Date | null>(
+      (latest, c) => (c.lastSyncedAt && (!latest || c.lastSyncedAt > latest) ? c.lastSyncedAt : latest),
+      null
+    );
+
+    res.json({
+      success: true,
+      data: {
+        connected,
+        accountId: tenant?.netsuiteAccountId || 'Not configured',
+        lastSync,
+        entities: cursors.map((c) => ({
+          entity: c.entity,
+          cursor: c.cursor,
+          lastSyncedAt: c.lastSyncedAt,
+          lastAttemptAt: c.lastAttemptAt,
+          lastRecordCount: c.lastRecordCount,
+          lastError: c.lastError,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Request scheduler metrics for this tenant since the server started
+router.get('/metrics', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { netsuiteConcurrencyLimit: true },
+    });
+
+    const scheduler = getScheduler(tenantId);
+    if (tenant) {
+      scheduler.setConcurrencyLimit(tenant.netsuiteConcurrencyLimit);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        metrics: scheduler.getMetrics(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get NetSuite credentials (secrets are masked)
+router.get('/settings', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: {
+        netsuiteAccountId: true,
+        netsuiteConsumerKey: true,
+        netsuiteConsumerSecret: true,
+        netsuiteTokenId: true,
+        netsuiteTokenSecret: true,
+        netsuiteRestletUrl: true,
+        netsuiteAdjustmentAccountId: true,
+        netsuiteReturnFlow: true,
+        netsuiteWebhookSecret: true,
+        netsuiteConcurrencyLimit: true,
+        netsuiteCredentialsUpdatedAt: true,
+        slug: true,
+      },
+    });
+
+    if (!tenant) {
+      throw new NotFoundError('Tenant not found');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        settings: {
+          accountId: tenant.netsuiteAccountId,
+          restletUrl: tenant.netsuiteRestletUrl,
+          adjustmentAccountId: tenant.netsuiteAdjustmentAccountId,
+          returnFlow: tenant.netsuiteReturnFlow.toLowerCase(),
+          concurrencyLimit: tenant.netsuiteConcurrencyLimit,
+          consumerKey: tenant.netsuiteConsumerKey ? maskSecret(decrypt(tenant.netsuiteConsumerKey)) : null,
+          tokenId: tenant.netsuiteTokenId ? maskSecret(decrypt(tenant.netsuiteTokenId)) : null,
+          hasConsumerSecret: !!tenant.netsuiteConsumerSecret,
+          hasTokenSecret: !!tenant.netsuiteTokenSecret,
+          hasWebhookSecret: !!tenant.netsuiteWebhookSecret,
+          webhookPath: `/api/netsuite/webhook/${tenant.slug}`,
+          updatedAt: tenant.netsuiteCredentialsUpdatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Save or rotate NetSuite credentials. Omitted secrets keep their current value.
+router.put('/settings', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const {
+      accountId,
+      restletUrl,
+      adjustmentAccountId,
+      returnFlow,
+      concurrencyLimit,
+      consumerKey,
+      consumerSecret,
+      tokenId,
+      tokenSecret,
+    } = req.body;
+    const tenantId = req.user!.tenantId!;
+
+    if (!accountId || !restletUrl) {
+      throw new ValidationError('Account ID and RESTlet URL are required');
+    }
+
+    if (concurrencyLimit !== undefined && (!Number.isInteger(Number(concurrencyLimit)) || Number(concurrencyLimit) < 1)) {
+      throw new ValidationError('Concurrency limit must be a whole number of at least 1');
+    }
+
+    const returnFlowValue = returnFlow ? String(returnFlow).toUpperCase() : undefined;
+    if (returnFlowValue && !(Object.values(NetSuiteReturnFlow) as string[]).includes(returnFlowValue)) {
+      throw new ValidationError(`Unknown return flow: ${returnFlow}`);
+    }
+
+    try {
+      new URL(restletUrl);
+    } catch {
+      throw new ValidationError('RESTlet URL is not a valid URL');
+    }
+
+    const existing = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: {
+        netsuiteConsumerKey: true,
+        netsuiteConsumerSecret: true,
+        netsuiteTokenId: true,
+        netsuiteTokenSecret: true,
+      },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Tenant not found');
+    }
+
+    const secrets = { consumerKey, consumerSecret, tokenId, tokenSecret };
+    const missing = Object.entries({
+      consumerKey: existing.netsuiteConsumerKey,
+      consumerSecret: existing.netsuiteConsumerSecret,
+      tokenId: existing.netsuiteTokenId,
+      tokenSecret: existing.netsuiteTokenSecret,
+    }).filter(([field, stored]) => !stored && !secrets[field as keyof typeof secrets]);
+
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing credentials: ${missing.map(([field]) => field).join(', ')}`);
+    }
+
+    await prisma.tenant.update({
+      where: { id: tenantId },
+      data: {
+        netsuiteAccountId: accountId.trim(),
+        netsuiteRestletUrl: restletUrl.trim(),
+        netsuiteAdjustmentAccountId: adjustmentAccountId || null,
+        ...(returnFlowValue && { netsuiteReturnFlow: returnFlowValue as NetSuiteReturnFlow }),
+        ...(concurrencyLimit !== undefined && { netsuiteConcurrencyLimit: Number(concurrencyLimit) }),
+        ...(consumerKey && { netsuiteConsumerKey: encrypt(consumerKey.trim()) }),
+        ...(consumerSecret && { netsuiteConsumerSecret: encrypt(consumerSecret.trim()) }),
+        ...(tokenId && { netsuiteTokenId: encrypt(tokenId.trim()) }),
+        ...(tokenSecret && { netsuiteTokenSecret: encrypt(tokenSecret.trim()) }),
+        netsuiteCredentialsUpdatedAt: new Date(),
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        tenantId,
+        userId: req.user!.id,
+        action: 'NETSUITE_CREDENTIALS_UPDATED',
+        entityType: 'Tenant',
+        entityId: tenantId,
+        newValue: {
+          accountId,
+          restletUrl,
+          rotated: Object.keys(secrets).filter((field) => secrets[field as keyof typeof secrets]),
+        },
+      },
+    });
+
+    logger.info(`NetSuite credentials updated for tenant ${tenantId}`);
+
+    res.json({
+      success: true,
+      message: 'NetSuite settings saved',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Test the saved credentials against the RESTlet
+router.post('/settings/test', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const client = new NetSuiteClient(req.user!.tenantId!);
+    const result = await client.testConnection();
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate or rotate the secret NetSuite uses to sign webhooks. Returned only once.
+router.post('/settings/webhook-secret', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const secret = generateWebhookSecret();
+
+    const tenant = await prisma.tenant.update({
+      where: { id: tenantId },
+      data: { netsuiteWebhookSecret: encrypt(secret) },
+      select: { slug: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        tenantId,
+        userId: req.user!.id,
+        action: 'NETSUITE_WEBHOOK_SECRET_ROTATED',
+        entityType: 'Tenant',
+        entityId: tenantId,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        path: `/api/netsuite/webhook/${tenant.slug}`,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get NetSuite payment method ids mapped to each POS payment method
+router.get('/payment-methods', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const mappings = await prisma.netSuitePaymentMethodMapping.findMany({
+      where: { tenantId: req.user!.tenantId! },
+    });
+
+    const byMethod = new Map(mappings.map((m) => [m.method, m.netsuiteId]));
 
     res.json({
       success: true,
       data: {
-        connected: isConnected,
-        accountId: process.env.NETSUITE_ACCOUNT_ID || 'Not configured',
-        lastSync: null, // Would be stored in database
+        mappings: Object.values(PaymentMethod).map((method) => ({
+          method: method.toLowerCase(),
+          netsuiteId: byMethod.get(method) || null,
+        })),
       },
     });
   } catch (error) {
@@ -23,25 +317,226 @@ router.get('/status', async (_req: AuthenticatedRequest, res: Response, next: Ne
   }
 });
 
-// Trigger full sync from NetSuite
-router.post('/sync', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// Replace payment method mappings. A blank NetSuite id removes the mapping.
+router.put('/payment-methods', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { mappings } = req.body as { mappings?: Array<{ method: string; netsuiteId?: string | null }> };
+    const tenantId = req.user!.tenantId!;
+
+    if (!Array.isArray(mappings)) {
+      throw new ValidationError('mappings must be an array');
+    }
+
+    const methods = Object.values(PaymentMethod) as string[];
+    for (const mapping of mappings) {
+      if (!methods.includes(mapping.method?.toUpperCase())) {
+        throw new ValidationError(`Unknown payment method: ${mapping.method}`);
+      }
+    }
+
+    await prisma.$transaction(
+      mappings.map((mapping) => {
+        const method = mapping.method.toUpperCase() as PaymentMethod;
+        const netsuiteId = mapping.netsuiteId?.trim();
+
+        return netsuiteId
+          ? prisma.netSuitePaymentMethodMapping.upsert({
+              where: { tenantId_method: { tenantId, method } },
+              update: { netsuiteId },
+              create: { tenantId, method, netsuiteId },
+            })
+          : prisma.netSuitePaymentMethodMapping.deleteMany({
+              where: { tenantId, method },
+            });
+      })
+    );
+
+    res.json({
+      success: true,
+      message: 'Payment method mappings saved',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List NetSuite subsidiaries and locations alongside the POS locations they are linked to
+router.get('/locations', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const { type } = req.body; // 'items', 'customers', 'inventory', or 'all'
     const tenantId = req.user!.tenantId!;
     const client = new NetSuiteClient(tenantId);
 
+    const [{ subsidiaries, locations }, posLocations] = await Promise.all([
+      client.fetchLocations(),
+      prisma.location.findMany({
+        where: { tenantId },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    const byNetSuiteId = new Map(
+      posLocations.filter((l) => l.netsuiteId).map((l) => [l.netsuiteId!, l])
+    );
+
+    res.json({
+      success: true,
+      data: {
+        subsidiaries,
+        locations: locations.map((location) => ({
+          ...location,
+          linkedLocationId: byNetSuiteId.get(location.internalId)?.id || null,
+        })),
+        posLocations: posLocations.map((l) => ({
+          id: l.id,
+          name: l.name,
+          netsuiteId: l.netsuiteId,
+          subsidiary: l.subsidiary,
+          isActive: l.isActive,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Activate NetSuite locations as POS locations, creating new ones or linking existing ones
+router.post('/locations/import', requirePermission('netsuite.manage'), checkPlanLimit('locations'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { locations } = req.body as { locations?: LocationImport[] };
+
+    if (!Array.isArray(locations) || locations.length === 0) {
+      throw new ValidationError('Select at least one NetSuite location');
+    }
+
+    if (locations.some((l) => !l.netsuiteId)) {
+      throw new ValidationError('Each location requires a netsuiteId');
+    }
+
+    const client = new NetSuiteClient(req.user!.tenantId!);
+    const result = await client.importLocations(locations);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List customer sync conflicts, open ones by default
+router.get('/conflicts', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const status = String(req.query.status || 'open').toUpperCase();
+
+    if (!Object.values(SyncConflictStatus).includes(status as SyncConflictStatus)) {
+      throw new ValidationError(`Unknown conflict status: ${req.query.status}`);
+    }
+
+    const conflicts = await prisma.customerSyncConflict.findMany({
+      where: { tenantId: req.user!.tenantId!, status: status as SyncConflictStatus },
+      include: {
+        customer: {
+          select: { id: true, netsuiteId: true, firstName: true, lastName: true, company: true },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        conflicts: conflicts.map((c) => ({
+          id: c.id,
+          customer: c.customer,
+          fields: c.fields,
+          status: c.status.toLowerCase(),
+          resolution: c.resolution?.toLowerCase() || null,
+          resolvedAt: c.resolvedAt,
+          createdAt: c.createdAt,
+          updatedAt: c.updatedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Resolve a conflict with the POS values, the NetSuite values, or merged values per field
+router.post('/conflicts/:id/resolve', requirePermission('netsuite.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { resolution, values } = req.body as { resolution?: string; values?: Record<string, unknown> };
+    const tenantId = req.user!.tenantId!;
+
+    const choice = resolution?.toUpperCase() as SyncConflictResolution;
+    if (!Object.values(SyncConflictResolution).includes(choice)) {
+      throw new ValidationError('resolution must be pos, netsuite or merged');
+    }
+
+    if (choice === 'MERGED' && (!values || typeof values !== 'object')) {
+      throw new ValidationError('Merged values are required');
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const resolved = await resolveConflict(tx, tenantId, req.params.id, choice, req.user!.id, values);
+
+      // Values that differ from NetSuite go back out through the sync queue
+      if (resolved.pendingFields.length > 0) {
+        await enqueueSync(tenantId, 'customer', 'update', { customerId: resolved.customerId }, tx);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'CUSTOMER_SYNC_CONFLICT_RESOLVED',
+          entityType: 'Customer',
+          entityId: resolved.customerId,
+          newValue: { conflictId: req.params.id, resolution: choice, values: values as object },
+        },
+      });
+
+      return resolved;
+    });
+
+    res.json({
+      success: true,
+      data: {
+        customerId: result.customerId,
+        pendingFields: result.pendingFields,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pull changes from NetSuite since the last sync. Pass full: true to re-pull everything.
+router.post('/sync', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { type, full } = req.body; // type: 'locations', 'items', 'customers', 'inventory', or 'all'
+    const tenantId = req.user!.tenantId!;
+    const client = new NetSuiteClient(tenantId);
+    const options = { full: full === true };
+
     const results: Record<string, unknown> = {};
 
+    if (type === 'locations' || type === 'all') {
+      results.locations = await client.syncLocations();
+    }
+
     if (type === 'items' || type === 'all') {
-      results.items = await client.syncItems();
+      results.items = await client.syncItems(options);
     }
 
     if (type === 'customers' || type === 'all') {
-      results.customers = await client.syncCustomers();
+      results.customers = await client.syncCustomers(options);
     }
 
     if (type === 'inventory' || type === 'all') {
-      results.inventory = await client.syncInventory(req.user?.locationId);
+      results.inventory = await client.syncInventory(req.user?.locationId, options);
     }
 
     res.json({
@@ -57,12 +552,26 @@ router.post('/sync', async (req: AuthenticatedRequest, res: Response, next: Next
 });
 
 // Push transaction to NetSuite
-router.post('/push/transaction', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/push/transaction', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { transactionId } = req.body;
     const tenantId = req.user!.tenantId!;
-    const client = new NetSuiteClient(tenantId);
 
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: String(transactionId ?? ''), tenantId },
+      select: { netsuiteId: true },
+    });
+
+    if (!transaction) {
+      throw new NotFoundError('Transaction not found');
+    }
+
+    // Pushing again would create a second sale in NetSuite
+    if (transaction.netsuiteId) {
+      throw new ConflictError(`Transaction is already in NetSuite (${transaction.netsuiteId})`);
+    }
+
+    const client = new NetSuiteClient(tenantId);
     const result = await client.pushTransaction(transactionId);
 
     res.json({
@@ -78,7 +587,7 @@ router.post('/push/transaction', async (req: AuthenticatedRequest, res: Response
 });
 
 // Push customer to NetSuite
-router.post('/push/customer', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/push/customer', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { customerId } = req.body;
     const tenantId = req.user!.tenantId!;
@@ -97,33 +606,4 @@ router.post('/push/customer', async (req: AuthenticatedRequest, res: Response, n
   }
 });
 
-// Webhook handler for NetSuite events
-router.post('/webhook', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const { event, data: _eventData } = req.body;
-
-    // Handle different webhook events from NetSuite
-    switch (event) {
-      case 'item.updated':
-        // Update local item data
-        break;
-      case 'customer.updated':
-        // Update local customer data
-        break;
-      case 'inventory.updated':
-        // Update local inventory levels
-        break;
-      default:
-        console.log('Unknown webhook event:', event);
-    }
-
-    res.json({
-      success: true,
-      message: 'Webhook received',
-    });
-  } catch (error) {
-    next(error);
-  }
-});
-
 export default router;
@@ -0,0 +1,108 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { AuthenticationError, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import {
+  SIGNATURE_HEADER,
+  WebhookPayload,
+  applyWebhookEvent,
+  verifySignature,
+} from '../services/netsuite/webhooks.js';
+import { decrypt } from '../utils/encryption.js';
+import { logger } from '../utils/logger.js';
+import { createPrismaClient, runWithTenant } from '../services/tenantScope.js';
+
+// Public: mounted with express.raw so the signature is checked against the exact body
+const router = Router();
+const prisma = createPrismaClient();
+
+// Find the tenant by slug in the path, or by the NetSuite account id in the payload
+async function resolveTenant(slug: string | undefined, payload: WebhookPayload) {
+  if (slug) {
+    return prisma.tenant.findUnique({ where: { slug } });
+  }
+
+  if (!payload.accountId) {
+    return null;
+  }
+
+  const tenants = await prisma.tenant.findMany({
+    where: { netsuiteAccountId: payload.accountId },
+  });
+
+  // An account shared by several tenants must use the slug URL
+  return tenants.length === 1 ? tenants[0] : null;
+}
+
+async function handleWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    const rawBody = req.body as Buffer;
+
+    if (!Buffer.isBuffer(rawBody)) {
+      throw new ValidationError('Expected a JSON body');
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+
+    const tenant = await resolveTenant(req.params.tenantSlug, payload);
+
+    if (!tenant || !tenant.netsuiteWebhookSecret) {
+      throw new NotFoundError('Webhook not configured');
+    }
+
+    const signature = req.headers[SIGNATURE_HEADER] as string | undefined;
+    if (!verifySignature(rawBody, signature, decrypt(tenant.netsuiteWebhookSecret))) {
+      throw new AuthenticationError('Invalid webhook signature');
+    }
+
+    if (!payload.id || !payload.event || !payload.data) {
+      throw new ValidationError('Webhook id, event and data are required');
+    }
+
+    let applied = false;
+
+    try {
+      // The signature proves which tenant sent it, so apply it as that tenant
+      applied = await runWithTenant(tenant.id, () =>
+        prisma.$transaction(async (tx) => {
+          await tx.netSuiteWebhookEvent.create({
+            data: {
+              tenantId: tenant.id,
+              eventId: payload.id,
+              event: payload.event,
+            },
+          });
+
+          return applyWebhookEvent(tx, tenant.id, payload);
+        })
+      );
+    } catch (error) {
+      // The event id was recorded by an earlier delivery
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        res.json({ success: true, message: 'Duplicate event ignored' });
+        return;
+      }
+      throw error;
+    }
+
+    if (!applied) {
+      logger.info(`Unhandled NetSuite webhook event for tenant ${tenant.id}: ${payload.event}`);
+    }
+
+    res.json({
+      success: true,
+      message: applied ? 'Webhook applied' : 'Webhook received',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+router.post('/', handleWebhook);
+router.post('/:tenantSlug', handleWebhook);
+
+export default router;
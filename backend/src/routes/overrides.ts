@@ -0,0 +1,106 @@
+import { Router, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import {
+  approveOverride,
+  formatOverridePolicy,
+  parseOverrideAction,
+  parseOverridePolicy,
+  validateOverridePolicy,
+} from '../services/managerOverrides.js';
+import { createPrismaClient } from '../services/tenantScope.js';
+
+const router = Router();
+const prisma = createPrismaClient();
+
+// Get which actions need manager approval
+router.get('/policy', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await prisma.tenant.findUniqueOrThrow({
+      where: { id: req.user!.tenantId! },
+      select: { managerOverridePolicy: true },
+    });
+
+    res.json({
+      success: true,
+      data: { policy: formatOverridePolicy(parseOverridePolicy(tenant.managerOverridePolicy)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update which actions need manager approval and their thresholds
+router.put('/policy', requirePermission('settings.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const policy = validateOverridePolicy(req.body.policy);
+    const stored = policy as unknown as Prisma.InputJsonObject;
+
+    const tenant = await prisma.tenant.findUniqueOrThrow({
+      where: { id: tenantId },
+      select: { managerOverridePolicy: true },
+    });
+
+    await prisma.$transaction([
+      prisma.tenant.update({
+        where: { id: tenantId },
+        data: { managerOverridePolicy: stored },
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'OVERRIDE_POLICY_UPDATED',
+          entityType: 'Tenant',
+          entityId: tenantId,
+          oldValue: tenant.managerOverridePolicy ?? undefined,
+          newValue: stored,
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { policy: formatOverridePolicy(policy) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve an action with a manager's PIN or badge scan
+router.post('/approve', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { action, approverId, pin, badge, value, details } = req.body;
+
+    const { approval, approver } = await approveOverride(prisma, {
+      tenantId: req.user!.tenantId!,
+      locationId: req.user!.locationId,
+      requestedById: req.user!.id,
+      action: parseOverrideAction(action),
+      approverId: approverId ? String(approverId) : undefined,
+      pin,
+      badge,
+      value: value === undefined || value === null ? undefined : Number(value),
+      details,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        approval: {
+          id: approval.id,
+          action: approval.action.toLowerCase(),
+          value: approval.value === null ? undefined : Number(approval.value),
+          approverName: `${approver.firstName} ${approver.lastName}`,
+          expiresAt: approval.expiresAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
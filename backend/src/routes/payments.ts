@@ -1,17 +1,18 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
 import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { formatRefund, refundPayment, refundableAmount } from '../services/refunds.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Get all payments
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { limit = 50, method, startDate, endDate } = req.query;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { transaction: { tenantId: req.user!.tenantId! } };
 
     if (method) {
       where.method = (method as string).toUpperCase();
@@ -53,6 +54,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
           cardLast4: p.cardLast4,
           cardBrand: p.cardBrand,
           status: p.status.toLowerCase(),
+          refundedAmount: Number(p.refundedAmount),
           processedAt: p.processedAt,
           transaction: p.transaction,
         })),
@@ -64,7 +66,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
 });
 
 // Process payment (for card payments via terminal)
-router.post('/process', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/process', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { amount, method, terminalId: _terminalId } = req.body;
 
@@ -95,46 +97,56 @@ router.post('/process', async (req: AuthenticatedRequest, res: Response, next: N
   }
 });
 
-// Refund payment
-router.post('/:id/refund', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// Refund payment, in full or in part. Card payments are refunded through the
+// payment processor, gift card and store credit balances are restored.
+router.post('/:id/refund', requirePermission('payment.refund'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { amount, reason } = req.body;
+    const tenantId = req.user!.tenantId!;
 
-    const payment = await prisma.payment.findUnique({
-      where: { id },
-      include: { transaction: true },
+    const payment = await prisma.payment.findFirst({
+      where: { id, transaction: { tenantId } },
     });
 
     if (!payment) {
       throw new NotFoundError('Payment not found');
     }
 
-    if (payment.status === 'REFUNDED') {
-      throw new ValidationError('Payment already refunded');
+    if (amount !== undefined && isNaN(Number(amount))) {
+      throw new ValidationError('Amount must be a number');
     }
 
-    const refundAmount = amount || Number(payment.amount);
+    const refund = await refundPayment(prisma, id, {
+      tenantId,
+      userId: req.user!.id,
+      amount: amount === undefined ? refundableAmount(payment) : Number(amount),
+      reason,
+    });
+
+    const refundedPayment = await prisma.payment.findUniqueOrThrow({ where: { id } });
 
-    // Update payment status
-    const refundedPayment = await prisma.payment.update({
-      where: { id },
+    await prisma.auditLog.create({
       data: {
-        status: 'REFUNDED',
+        tenantId,
+        userId: req.user!.id,
+        action: 'PAYMENT_REFUNDED',
+        entityType: 'Payment',
+        entityId: id,
+        newValue: { refundId: refund.id, amount: Number(refund.amount), reason },
       },
     });
 
-    // In a real implementation, this would process the refund through the payment provider
-
     res.json({
       success: true,
       data: {
         payment: {
           id: refundedPayment.id,
           status: refundedPayment.status.toLowerCase(),
-          refundAmount,
-          reason,
+          amount: Number(refundedPayment.amount),
+          refundedAmount: Number(refundedPayment.refundedAmount),
         },
+        refund: formatRefund(refund),
       },
     });
   } catch (error) {
@@ -142,4 +154,21 @@ router.post('/:id/refund', async (req: AuthenticatedRequest, res: Response, next
   }
 });
 
+// Refunds recorded against a payment
+router.get('/:id/refunds', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const refunds = await prisma.refund.findMany({
+      where: { paymentId: req.params.id, tenantId: req.user!.tenantId! },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: { refunds: refunds.map(formatRefund) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,291 @@
+import { Router, Response, NextFunction } from 'express';
+import { Prisma, Promotion, PromotionType } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { PromotionRules } from 'shared/promotions';
+import { createPrismaClient } from '../services/tenantScope.js';
+
+const router = Router();
+const prisma = createPrismaClient();
+
+const formatPromotion = (promotion: Promotion) => ({
+  id: promotion.id,
+  name: promotion.name,
+  type: promotion.type.toLowerCase(),
+  rules: promotion.rules,
+  itemIds: promotion.itemIds,
+  categoryIds: promotion.categoryIds,
+  locationIds: promotion.locationIds,
+  customerGroups: promotion.customerGroups,
+  startsAt: promotion.startsAt,
+  endsAt: promotion.endsAt,
+  daysOfWeek: promotion.daysOfWeek,
+  startTime: promotion.startTime,
+  endTime: promotion.endTime,
+  isActive: promotion.isActive,
+});
+
+// Audit logs keep dates as ISO strings
+const auditValue = (promotion: Promotion): Prisma.InputJsonObject => ({
+  ...formatPromotion(promotion),
+  rules: promotion.rules as Prisma.InputJsonObject,
+  startsAt: promotion.startsAt?.toISOString() ?? null,
+  endsAt: promotion.endsAt?.toISOString() ?? null,
+});
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? [...new Set(value.map(String).filter(Boolean))] : [];
+
+const positive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+const percent = (value: unknown): value is number =>
+  typeof value === 'number' && value > 0 && value <= 100;
+
+// Check the settings a promotion type needs
+function validateRules(type: PromotionType, input: unknown): PromotionRules {
+  const rules = (input && typeof input === 'object' ? input : {}) as PromotionRules;
+
+  switch (type) {
+    case 'BUY_X_GET_Y':
+      if (!Number.isInteger(rules.buyQuantity) || !Number.isInteger(rules.getQuantity) ||
+        !positive(rules.buyQuantity) || !positive(rules.getQuantity)) {
+        throw new ValidationError('Buy and get quantities must be whole numbers of at least 1');
+      }
+      if (rules.percentOff !== undefined && !percent(rules.percentOff)) {
+        throw new ValidationError('Percent off must be more than 0 and at most 100');
+      }
+      return { buyQuantity: rules.buyQuantity, getQuantity: rules.getQuantity, percentOff: rules.percentOff ?? 100 };
+
+    case 'MIX_AND_MATCH':
+      if (!Number.isInteger(rules.quantity) || !positive(rules.quantity) || (rules.quantity ?? 0) < 2) {
+        throw new ValidationError('Mix and match needs a quantity of at least 2');
+      }
+      if (typeof rules.price !== 'number' || rules.price < 0) {
+        throw new ValidationError('Mix and match needs a price');
+      }
+      return { quantity: rules.quantity, price: rules.price };
+
+    case 'QUANTITY_BREAK':
+      if (!Array.isArray(rules.breaks) || rules.breaks.length === 0 ||
+        !rules.breaks.every((b) => Number.isInteger(b?.quantity) && positive(b.quantity) && percent(b.percentOff))) {
+        throw new ValidationError('Quantity breaks need a whole quantity and a percent off from 0 to 100');
+      }
+      return { breaks: rules.breaks.map(({ quantity, percentOff }) => ({ quantity, percentOff })) };
+
+    case 'BUNDLE':
+      if (!Array.isArray(rules.components) || rules.components.length < 1 ||
+        !rules.components.every((c) => c?.itemId && Number.isInteger(c.quantity) && positive(c.quantity))) {
+        throw new ValidationError('A bundle needs items, each with a whole quantity');
+      }
+      if (typeof rules.price !== 'number' || rules.price < 0) {
+        throw new ValidationError('A bundle needs a price');
+      }
+      return {
+        components: rules.components.map(({ itemId, quantity }) => ({ itemId: String(itemId), quantity })),
+        price: rules.price,
+      };
+
+    case 'SALE':
+      if (rules.amountOff !== undefined) {
+        if (!positive(rules.amountOff)) {
+          throw new ValidationError('Amount off must be more than 0');
+        }
+        return { amountOff: rules.amountOff };
+      }
+      if (!percent(rules.percentOff)) {
+        throw new ValidationError('A sale needs a percent or amount off');
+      }
+      return { percentOff: rules.percentOff };
+  }
+}
+
+// Check a promotion sent by the promotions screen
+function validatePromotion(body: Record<string, unknown>) {
+  const name = String(body.name ?? '').trim();
+  if (!name) {
+    throw new ValidationError('Promotion name is required');
+  }
+
+  const type = String(body.type ?? '').toUpperCase() as PromotionType;
+  if (!Object.values(PromotionType).includes(type)) {
+    throw new ValidationError(`Unknown promotion type: ${body.type}`);
+  }
+
+  const startsAt = body.startsAt ? new Date(String(body.startsAt)) : null;
+  const endsAt = body.endsAt ? new Date(String(body.endsAt)) : null;
+  if ((startsAt && isNaN(startsAt.getTime())) || (endsAt && isNaN(endsAt.getTime()))) {
+    throw new ValidationError('Invalid start or end date');
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    throw new ValidationError('A promotion must end after it starts');
+  }
+
+  const startTime = body.startTime ? String(body.startTime) : null;
+  const endTime = body.endTime ? String(body.endTime) : null;
+  if ((startTime && !TIME.test(startTime)) || (endTime && !TIME.test(endTime))) {
+    throw new ValidationError('Times must be HH:MM, e.g. 16:00');
+  }
+  if (startTime && endTime && endTime <= startTime) {
+    throw new ValidationError('Happy hours must end after they start on the same day');
+  }
+
+  const daysOfWeek = Array.isArray(body.daysOfWeek)
+    ? [...new Set(body.daysOfWeek.map(Number))].sort((a, b) => a - b)
+    : [];
+  if (!daysOfWeek.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    throw new ValidationError('Days of the week must be 0 (Sunday) to 6 (Saturday)');
+  }
+
+  return {
+    name,
+    type,
+    rules: validateRules(type, body.rules) as Prisma.InputJsonObject,
+    itemIds: stringList(body.itemIds),
+    categoryIds: stringList(body.categoryIds),
+    locationIds: stringList(body.locationIds),
+    customerGroups: stringList(body.customerGroups),
+    startsAt,
+    endsAt,
+    daysOfWeek,
+    startTime,
+    endTime,
+    isActive: body.isActive === undefined ? true : !!body.isActive,
+  };
+}
+
+// Get promotions. Registers keep them to apply offline.
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const promotions = await prisma.promotion.findMany({
+      where: { tenantId: req.user!.tenantId! },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: { promotions: promotions.map(formatPromotion) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a promotion
+router.post('/', requirePermission('promotions.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const data = validatePromotion(req.body);
+
+    const promotion = await prisma.$transaction(async (tx) => {
+      const created = await tx.promotion.create({
+        data: { tenantId, ...data },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'PROMOTION_CREATED',
+          entityType: 'Promotion',
+          entityId: created.id,
+          newValue: auditValue(created),
+        },
+      });
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { promotion: formatPromotion(promotion) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a promotion. Sales already made keep the discounts they were given.
+router.put('/:id', requirePermission('promotions.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+    const data = validatePromotion(req.body);
+
+    const existing = await prisma.promotion.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Promotion not found');
+    }
+
+    const promotion = await prisma.$transaction(async (tx) => {
+      const updated = await tx.promotion.update({
+        where: { id },
+        data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'PROMOTION_UPDATED',
+          entityType: 'Promotion',
+          entityId: id,
+          oldValue: auditValue(existing),
+          newValue: auditValue(updated),
+        },
+      });
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: { promotion: formatPromotion(promotion) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a promotion
+router.delete('/:id', requirePermission('promotions.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const existing = await prisma.promotion.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Promotion not found');
+    }
+
+    await prisma.$transaction([
+      prisma.promotion.delete({ where: { id } }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'PROMOTION_DELETED',
+          entityType: 'Promotion',
+          entityId: id,
+          oldValue: auditValue(existing),
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Promotion deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,307 @@
+import { Router, Response, NextFunction } from 'express';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import {
+  DEFAULT_BLOCK_SIZE,
+  MAX_BLOCK_SIZE,
+  formatReceiptNumber,
+  normalizeCode,
+  receiptTemplate,
+  reserveReceiptBlock,
+  spoilReceiptNumber,
+  validateReceiptFormat,
+} from '../services/receiptNumbers.js';
+import { requireApproval } from '../services/managerOverrides.js';
+import { permissionsFor } from '../services/permissions.js';
+import { createPrismaClient } from '../services/tenantScope.js';
+
+const router = Router();
+const prisma = createPrismaClient();
+
+// Get receipt numbering format and location/register codes
+router.get('/receipt-numbering', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+
+    const [tenant, locations] = await Promise.all([
+      prisma.tenant.findUniqueOrThrow({
+        where: { id: tenantId },
+        select: { receiptNumberFormat: true },
+      }),
+      prisma.location.findMany({
+        where: { tenantId },
+        include: { registers: { orderBy: { name: 'asc' } } },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        format: tenant.receiptNumberFormat,
+        locations: locations.map((location) => ({
+          id: location.id,
+          name: location.name,
+          code: location.code,
+          registers: location.registers.map((register) => ({
+            id: register.id,
+            name: register.name,
+            code: register.code,
+            lastSequence: register.receiptSequence,
+            nextReceiptNumber: formatReceiptNumber(
+              receiptTemplate(tenant.receiptNumberFormat, location, register),
+              register.receiptSequence + 1
+            ),
+          })),
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update receipt numbering format and codes. Blocks already reserved keep
+// the format they were issued with.
+router.put('/receipt-numbering', requirePermission('settings.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const { format, locations = [], registers = [] } = req.body as {
+      format?: string;
+      locations?: { id: string; code?: string | null }[];
+      registers?: { id: string; code?: string | null }[];
+    };
+
+    if (format !== undefined) {
+      validateReceiptFormat(format);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (format !== undefined) {
+        await tx.tenant.update({
+          where: { id: tenantId },
+          data: { receiptNumberFormat: format },
+        });
+      }
+
+      for (const { id, code } of locations) {
+        const { count } = await tx.location.updateMany({
+          where: { id, tenantId },
+          data: { code: normalizeCode(code) },
+        });
+        if (count === 0) {
+          throw new NotFoundError(`Location ${id} not found`);
+        }
+      }
+
+      for (const { id, code } of registers) {
+        const { count } = await tx.register.updateMany({
+          where: { id, location: { tenantId } },
+          data: { code: normalizeCode(code) },
+        });
+        if (count === 0) {
+          throw new NotFoundError(`Register ${id} not found`);
+        }
+      }
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'RECEIPT_NUMBERING_UPDATED',
+          entityType: 'Tenant',
+          entityId: tenantId,
+          newValue: { format, locations, registers },
+        },
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Receipt numbering updated',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the users who can sign in at a register with their PIN, for the lock
+// screen and manager approvals to pick from
+router.get('/:id/users', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const register = await prisma.register.findFirst({
+      where: { id, location: { tenantId } },
+    });
+
+    if (!register) {
+      throw new NotFoundError('Register not found');
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        pinHash: { not: null },
+        OR: [{ locationId: null }, { locationId: register.locationId }],
+      },
+      include: { customRole: { select: { permissions: true } } },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: {
+        users: users.map((user) => ({
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          canApprove: permissionsFor(user.role, user.customRole).includes('override.approve'),
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reserve a block of receipt numbers for offline numbering
+router.post('/:id/receipt-blocks', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const size = req.body.size === undefined ? DEFAULT_BLOCK_SIZE : Number(req.body.size);
+
+    if (!Number.isInteger(size) || size < 1 || size > MAX_BLOCK_SIZE) {
+      throw new ValidationError(`Block size must be between 1 and ${MAX_BLOCK_SIZE}`);
+    }
+
+    const block = await prisma.$transaction((tx) =>
+      reserveReceiptBlock(tx, req.user!.tenantId!, id, size, req.user!.id)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: {
+        block: {
+          id: block.id,
+          registerId: block.registerId,
+          template: block.template,
+          start: block.start,
+          end: block.end,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Record a receipt number taken for a sale that was never recorded
+router.post('/:id/spoiled-receipts', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { receiptNumber, reason } = req.body as { receiptNumber?: string; reason?: string };
+    const receiptSequence = Number(req.body.receiptSequence);
+
+    if (!Number.isInteger(receiptSequence) || receiptSequence < 1) {
+      throw new ValidationError('receiptSequence is required');
+    }
+
+    const spoiled = await prisma.$transaction((tx) =>
+      spoilReceiptNumber(tx, {
+        tenantId: req.user!.tenantId!,
+        registerId: id,
+        receiptSequence,
+        receiptNumber,
+        reason: reason ? String(reason).slice(0, 500) : undefined,
+        userId: req.user!.id,
+      })
+    );
+
+    res.json({
+      success: true,
+      data: { spoiled: !!spoiled },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the receipt numbers a register spoiled, for reconciling its sequence
+router.get('/:id/spoiled-receipts', requirePermission('reports.view'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const spoiled = await prisma.spoiledReceipt.findMany({
+      where: { registerId: id, tenantId: req.user!.tenantId! },
+      orderBy: { receiptSequence: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        spoiledReceipts: spoiled.map((receipt) => ({
+          receiptNumber: receipt.receiptNumber,
+          receiptSequence: receipt.receiptSequence,
+          reason: receipt.reason,
+          userId: receipt.userId,
+          createdAt: receipt.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Record opening the cash drawer without a sale
+router.post('/:id/no-sale', requirePermission('pos.no_sale'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason, approvalId } = req.body;
+    const tenantId = req.user!.tenantId!;
+
+    const register = await prisma.register.findFirst({
+      where: { id, location: { tenantId } },
+    });
+
+    if (!register) {
+      throw new NotFoundError('Register not found');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await requireApproval(tx, {
+        tenantId,
+        userId: req.user!.id,
+        permissions: req.user!.permissions,
+        action: 'NO_SALE',
+        approvalIds: approvalId ? [approvalId] : [],
+        entityType: 'Register',
+        entityId: id,
+        details: { reason },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'NO_SALE',
+          entityType: 'Register',
+          entityId: id,
+          newValue: { reason },
+        },
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'No sale recorded',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
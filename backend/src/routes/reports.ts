@@ -1,15 +1,32 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { AuthorizationError } from '../middleware/errorHandler.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
+
+router.use(requirePermission('reports.view'));
+
+// Location a report covers. Users with reports.view_all_locations pick one
+// with ?locationId= or see them all; everyone else sees their own location,
+// and can't see reports until they are assigned to one.
+function reportLocationId(req: AuthenticatedRequest): string | undefined {
+  const requested = typeof req.query.locationId === 'string' ? req.query.locationId : undefined;
+  if (req.user!.permissions.includes('reports.view_all_locations')) {
+    return requested;
+  }
+  if (!req.user!.locationId) {
+    throw new AuthorizationError('You need to be assigned to a location to view its reports');
+  }
+  return req.user!.locationId;
+}
 
 // Daily summary
 router.get('/daily-summary', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { startDate, endDate } = req.query;
-    const locationId = req.user?.locationId;
+    const locationId = reportLocationId(req);
     const tenantId = req.user!.tenantId!;
 
     const start = startDate ? new Date(startDate as string) : new Date();
@@ -117,6 +134,7 @@ router.get('/payment-breakdown', async (req: AuthenticatedRequest, res: Response
   try {
     const { startDate, endDate } = req.query;
     const tenantId = req.user!.tenantId!;
+    const locationId = reportLocationId(req);
 
     const start = startDate ? new Date(startDate as string) : new Date();
     start.setHours(0, 0, 0, 0);
@@ -129,6 +147,7 @@ router.get('/payment-breakdown', async (req: AuthenticatedRequest, res: Response
       where: {
         transaction: {
           tenantId,
+          ...(locationId && { locationId }),
         },
         processedAt: {
           gte: start,
@@ -162,6 +181,7 @@ router.get('/top-items', async (req: AuthenticatedRequest, res: Response, next:
   try {
     const { startDate, endDate, limit = 10 } = req.query;
     const tenantId = req.user!.tenantId!;
+    const locationId = reportLocationId(req);
 
     const start = startDate ? new Date(startDate as string) : new Date();
     start.setHours(0, 0, 0, 0);
@@ -174,6 +194,7 @@ router.get('/top-items', async (req: AuthenticatedRequest, res: Response, next:
       where: {
         transaction: {
           tenantId,
+          ...(locationId && { locationId }),
           createdAt: {
             gte: start,
             lte: end,
@@ -216,6 +237,7 @@ router.get('/cashier-summary', async (req: AuthenticatedRequest, res: Response,
   try {
     const { startDate, endDate } = req.query;
     const tenantId = req.user!.tenantId!;
+    const locationId = reportLocationId(req);
 
     const start = startDate ? new Date(startDate as string) : new Date();
     start.setHours(0, 0, 0, 0);
@@ -227,6 +249,7 @@ router.get('/cashier-summary', async (req: AuthenticatedRequest, res: Response,
       by: ['userId'],
       where: {
         tenantId,
+        ...(locationId && { locationId }),
         createdAt: {
           gte: start,
           lte: end,
@@ -293,6 +316,7 @@ router.get('/hourly-sales', async (req: AuthenticatedRequest, res: Response, nex
   try {
     const { date } = req.query;
     const tenantId = req.user!.tenantId!;
+    const locationId = reportLocationId(req);
 
     const targetDate = date ? new Date(date as string) : new Date();
     const start = new Date(targetDate);
@@ -304,6 +328,7 @@ router.get('/hourly-sales', async (req: AuthenticatedRequest, res: Response, nex
     const transactions = await prisma.transaction.findMany({
       where: {
         tenantId,
+        ...(locationId && { locationId }),
         createdAt: {
           gte: start,
           lte: end,
@@ -0,0 +1,314 @@
+import { Router, Response, NextFunction } from 'express';
+import { CustomRole, UserRole } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler.js';
+import {
+  PERMISSIONS,
+  Permission,
+  ROLE_PERMISSIONS,
+  permissionsFor,
+  validatePermissions,
+} from '../services/permissions.js';
+import { createPrismaClient } from '../services/tenantScope.js';
+
+const router = Router();
+const prisma = createPrismaClient();
+
+const TENANT_ROLES: UserRole[] = ['OWNER', 'ADMIN', 'MANAGER', 'CASHIER'];
+
+const formatRole = (role: CustomRole & { _count?: { users: number } }) => ({
+  id: role.id,
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+  userCount: role._count?.users,
+});
+
+// Nobody can hand out permissions they don't have themselves
+function assertCanGrant(req: AuthenticatedRequest, permissions: string[]): void {
+  if (!permissions.every((permission) => req.user!.permissions.includes(permission as Permission))) {
+    throw new AuthorizationError('You cannot grant permissions you do not have');
+  }
+}
+
+// Check a role sent by the roles screen
+function validateRole(body: { name?: unknown; description?: unknown; permissions?: unknown }) {
+  const name = String(body.name ?? '').trim();
+  if (!name) {
+    throw new ValidationError('Role name is required');
+  }
+
+  return {
+    name,
+    description: body.description ? String(body.description) : null,
+    permissions: validatePermissions(body.permissions),
+  };
+}
+
+// Get every permission and the ones each role has by default
+router.get('/permissions', async (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        permissions: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description })),
+        defaults: Object.fromEntries(
+          TENANT_ROLES.map((role) => [role.toLowerCase(), ROLE_PERMISSIONS[role]])
+        ),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get custom roles
+router.get('/', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const roles = await prisma.customRole.findMany({
+      where: { tenantId: req.user!.tenantId! },
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: { roles: roles.map(formatRole) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a custom role
+router.post('/', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const data = validateRole(req.body);
+    assertCanGrant(req, data.permissions);
+
+    const existing = await prisma.customRole.findFirst({
+      where: { tenantId, name: data.name },
+    });
+
+    if (existing) {
+      throw new ConflictError(`A role named ${data.name} already exists`);
+    }
+
+    const role = await prisma.customRole.create({
+      data: { tenantId, ...data },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        tenantId,
+        userId: req.user!.id,
+        action: 'ROLE_CREATED',
+        entityType: 'CustomRole',
+        entityId: role.id,
+        newValue: data,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { role: formatRole(role) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a custom role
+router.put('/:id', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+    const data = validateRole(req.body);
+
+    const role = await prisma.customRole.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    assertCanGrant(req, [...role.permissions, ...data.permissions]);
+
+    const duplicate = await prisma.customRole.findFirst({
+      where: { tenantId, name: data.name, id: { not: id } },
+    });
+
+    if (duplicate) {
+      throw new ConflictError(`A role named ${data.name} already exists`);
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.customRole.update({
+        where: { id },
+        data,
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'ROLE_UPDATED',
+          entityType: 'CustomRole',
+          entityId: id,
+          oldValue: { name: role.name, description: role.description, permissions: role.permissions },
+          newValue: data,
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { role: formatRole(updated) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a custom role. Its users go back to their role's default permissions.
+router.delete('/:id', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const role = await prisma.customRole.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    assertCanGrant(req, role.permissions);
+
+    await prisma.$transaction([
+      prisma.customRole.delete({ where: { id } }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'ROLE_DELETED',
+          entityType: 'CustomRole',
+          entityId: id,
+          oldValue: { name: role.name, description: role.description, permissions: role.permissions },
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Role deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the tenant's users with their roles
+router.get('/users', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { tenantId: req.user!.tenantId! },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: {
+        users: users.map((user) => ({
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role.toLowerCase(),
+          customRoleId: user.customRoleId,
+          locationId: user.locationId,
+          isActive: user.isActive,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Give a user a custom role, or pass null to go back to their role's defaults
+router.put('/users/:userId', requirePermission('users.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { userId } = req.params;
+    const { customRoleId } = req.body;
+    const tenantId = req.user!.tenantId!;
+
+    const user = await prisma.user.findFirst({
+      where: { id: userId, tenantId },
+      include: { customRole: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (user.role === 'OWNER') {
+      throw new ValidationError('Owners always have every permission');
+    }
+
+    const role = customRoleId
+      ? await prisma.customRole.findFirst({ where: { id: customRoleId, tenantId } })
+      : null;
+
+    if (customRoleId && !role) {
+      throw new NotFoundError('Role not found');
+    }
+
+    // Neither the user's current permissions nor their new ones can go
+    // beyond the caller's
+    assertCanGrant(req, [
+      ...permissionsFor(user.role, user.customRole),
+      ...permissionsFor(user.role, role),
+    ]);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { customRoleId: role?.id ?? null },
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'USER_ROLE_ASSIGNED',
+          entityType: 'User',
+          entityId: user.id,
+          oldValue: { customRoleId: user.customRoleId },
+          newValue: { customRoleId: role?.id ?? null },
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          customRoleId: role?.id ?? null,
+          permissions: permissionsFor(user.role, role),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,17 +1,25 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient, ShiftStatus } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
-import { NotFoundError, ValidationError, ConflictError } from '../middleware/errorHandler.js';
+import { ShiftStatus } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  AuthorizationError,
+} from '../middleware/errorHandler.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Get all shifts
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { limit = 50, status, registerId } = req.query;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = {
+      register: { location: { tenantId: req.user!.tenantId! } },
+    };
 
     if (status) {
       where.status = (status as string).toUpperCase();
@@ -104,7 +112,7 @@ router.get('/current', async (req: AuthenticatedRequest, res: Response, next: Ne
 });
 
 // Open shift
-router.post('/open', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/open', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { registerId, openingBalance } = req.body;
 
@@ -112,6 +120,14 @@ router.post('/open', async (req: AuthenticatedRequest, res: Response, next: Next
       throw new ValidationError('Register ID and opening balance are required');
     }
 
+    const register = await prisma.register.findFirst({
+      where: { id: registerId, location: { tenantId: req.user!.tenantId! } },
+    });
+
+    if (!register) {
+      throw new NotFoundError('Register not found');
+    }
+
     // Check if user already has an open shift
     const existingShift = await prisma.shift.findFirst({
       where: {
@@ -176,8 +192,11 @@ router.post('/:id/close', async (req: AuthenticatedRequest, res: Response, next:
       throw new ValidationError('Closing balance is required');
     }
 
-    const shift = await prisma.shift.findUnique({
-      where: { id },
+    const shift = await prisma.shift.findFirst({
+      where: {
+        id,
+        register: { location: { tenantId: req.user!.tenantId! } },
+      },
     });
 
     if (!shift) {
@@ -188,16 +207,17 @@ router.post('/:id/close', async (req: AuthenticatedRequest, res: Response, next:
       throw new ConflictError('Shift already closed');
     }
 
-    if (shift.userId !== req.user!.id) {
-      throw new ValidationError('You can only close your own shift');
+    if (shift.userId !== req.user!.id && !req.user!.permissions.includes('shift.close_any')) {
+      throw new AuthorizationError('Only the user who opened the shift or a manager can close it');
     }
 
-    // Calculate expected cash
+    // Calculate expected cash. Users switch in and out of the register during
+    // a shift, so count every sale made at the register since it opened.
     const cashPayments = await prisma.payment.aggregate({
       where: {
         method: 'CASH',
         transaction: {
-          userId: req.user!.id,
+          registerId: shift.registerId,
           createdAt: {
             gte: shift.startTime,
           },
@@ -208,11 +228,14 @@ router.post('/:id/close', async (req: AuthenticatedRequest, res: Response, next:
       },
       _sum: {
         amount: true,
+        changeAmount: true,
       },
     });
 
     const expectedCash =
-      Number(shift.openingBalance) + Number(cashPayments._sum.amount || 0);
+      Number(shift.openingBalance) +
+      Number(cashPayments._sum.amount || 0) -
+      Number(cashPayments._sum.changeAmount || 0);
     const variance = closingBalance - expectedCash;
 
     const closedShift = await prisma.shift.update({
@@ -1,9 +1,12 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
+import { Prisma } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { processSyncQueue } from '../services/netsuite/syncQueue.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Get sync status
 router.get('/status', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -13,21 +16,21 @@ router.get('/status', async (req: AuthenticatedRequest, res: Response, next: Nex
     const pendingCount = await prisma.syncQueueItem.count({
       where: {
         tenantId,
-        attempts: { lt: 5 },
+        status: { in: ['PENDING', 'PROCESSING'] },
       },
     });
 
     const errorCount = await prisma.syncQueueItem.count({
       where: {
         tenantId,
-        attempts: { gte: 5 },
+        status: 'DEAD_LETTER',
       },
     });
 
     const lastSync = await prisma.syncQueueItem.findFirst({
       where: {
         tenantId,
-        attempts: { gte: 5 },
+        status: 'DEAD_LETTER',
       },
       orderBy: {
         updatedAt: 'desc',
@@ -65,8 +68,10 @@ router.get('/queue', async (req: AuthenticatedRequest, res: Response, next: Next
           id: item.id,
           type: item.type,
           action: item.action,
+          status: item.status.toLowerCase(),
           attempts: item.attempts,
           lastAttempt: item.lastAttempt,
+          nextAttemptAt: item.nextAttemptAt,
           error: item.error,
           createdAt: item.createdAt,
         })),
@@ -77,18 +82,85 @@ router.get('/queue', async (req: AuthenticatedRequest, res: Response, next: Next
   }
 });
 
-// Add item to sync queue
-router.post('/queue', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// Queue a record for delivery to NetSuite by hand. Only records the tenant
+// owns can be queued, and the payload is rebuilt from the fields the worker
+// reads rather than stored as sent.
+router.post('/queue', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const { type, action, data } = req.body;
+    const { type, action = 'create', data } = req.body as { type?: unknown; action?: unknown; data?: unknown };
     const tenantId = req.user!.tenantId!;
 
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new ValidationError('data must be an object');
+    }
+    if (typeof action !== 'string' || !['create', 'update'].includes(action)) {
+      throw new ValidationError('action must be create or update');
+    }
+
+    const fields = data as Record<string, unknown>;
+    let payload: Prisma.InputJsonObject;
+
+    switch (type) {
+      case 'transaction': {
+        const transaction = await prisma.transaction.findFirst({
+          where: { id: String(fields.transactionId ?? ''), tenantId },
+          select: { id: true },
+        });
+        if (!transaction) {
+          throw new NotFoundError('Transaction not found');
+        }
+        payload = { transactionId: transaction.id };
+        break;
+      }
+
+      case 'customer': {
+        const customer = await prisma.customer.findFirst({
+          where: { id: String(fields.customerId ?? ''), tenantId },
+          select: { id: true },
+        });
+        if (!customer) {
+          throw new NotFoundError('Customer not found');
+        }
+        payload = { customerId: customer.id };
+        break;
+      }
+
+      case 'inventory_adjustment': {
+        const adjustQty = Number(fields.adjustQty);
+        if (!Number.isFinite(adjustQty) || adjustQty === 0) {
+          throw new ValidationError('adjustQty must be a non-zero number');
+        }
+
+        const [item, location] = await Promise.all([
+          prisma.item.findFirst({ where: { id: String(fields.itemId ?? ''), tenantId }, select: { id: true } }),
+          prisma.location.findFirst({ where: { id: String(fields.locationId ?? ''), tenantId }, select: { id: true } }),
+        ]);
+        if (!item) {
+          throw new NotFoundError('Item not found');
+        }
+        if (!location) {
+          throw new NotFoundError('Location not found');
+        }
+
+        payload = {
+          itemId: item.id,
+          locationId: location.id,
+          adjustQty,
+          ...(fields.memo !== undefined && { memo: String(fields.memo) }),
+        };
+        break;
+      }
+
+      default:
+        throw new ValidationError('type must be transaction, customer or inventory_adjustment');
+    }
+
     const item = await prisma.syncQueueItem.create({
       data: {
         tenantId,
         type,
         action,
-        data,
+        data: payload,
       },
     });
 
@@ -101,71 +173,12 @@ router.post('/queue', async (req: AuthenticatedRequest, res: Response, next: Nex
   }
 });
 
-// Process sync queue
-router.post('/process', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// Process sync queue now instead of waiting for the background worker
+router.post('/process', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const tenantId = req.user!.tenantId!;
 
-    const pendingItems = await prisma.syncQueueItem.findMany({
-      where: {
-        tenantId,
-        attempts: { lt: 5 },
-      },
-      orderBy: { createdAt: 'asc' },
-      take: 10,
-    });
-
-    const results = [];
-
-    for (const item of pendingItems) {
-      try {
-        // Process each item based on type
-        switch (item.type) {
-          case 'transaction':
-            // Sync transaction to NetSuite
-            // In a real implementation, this would call the NetSuite API
-            await prisma.syncQueueItem.delete({
-              where: { id: item.id },
-            });
-            results.push({ id: item.id, status: 'success' });
-            break;
-
-          case 'customer':
-            // Sync customer to NetSuite
-            await prisma.syncQueueItem.delete({
-              where: { id: item.id },
-            });
-            results.push({ id: item.id, status: 'success' });
-            break;
-
-          case 'inventory_adjustment':
-            // Sync inventory adjustment to NetSuite
-            await prisma.syncQueueItem.delete({
-              where: { id: item.id },
-            });
-            results.push({ id: item.id, status: 'success' });
-            break;
-
-          default:
-            results.push({ id: item.id, status: 'unknown_type' });
-        }
-      } catch (error) {
-        // Update attempts and error message
-        await prisma.syncQueueItem.update({
-          where: { id: item.id },
-          data: {
-            attempts: { increment: 1 },
-            lastAttempt: new Date(),
-            error: error instanceof Error ? error.message : 'Unknown error',
-          },
-        });
-        results.push({
-          id: item.id,
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+    const results = await processSyncQueue(tenantId);
 
     res.json({
       success: true,
@@ -180,17 +193,20 @@ router.post('/process', async (req: AuthenticatedRequest, res: Response, next: N
 });
 
 // Retry failed items
-router.post('/retry', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post('/retry', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const tenantId = req.user!.tenantId!;
 
     await prisma.syncQueueItem.updateMany({
       where: {
         tenantId,
-        attempts: { gte: 5 },
+        status: 'DEAD_LETTER',
       },
       data: {
+        status: 'PENDING',
         attempts: 0,
+        nextAttemptAt: null,
+        deadLetteredAt: null,
         error: null,
       },
     });
@@ -204,8 +220,92 @@ router.post('/retry', async (req: AuthenticatedRequest, res: Response, next: Nex
   }
 });
 
+// Get dead-lettered items with their payloads for inspection
+router.get('/dead-letter', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+
+    const items = await prisma.syncQueueItem.findMany({
+      where: { tenantId, status: 'DEAD_LETTER' },
+      orderBy: { deadLetteredAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        items: items.map((item) => ({
+          id: item.id,
+          type: item.type,
+          action: item.action,
+          data: item.data,
+          attempts: item.attempts,
+          lastAttempt: item.lastAttempt,
+          deadLetteredAt: item.deadLetteredAt,
+          error: item.error,
+          createdAt: item.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Requeue a single dead-lettered item
+router.post('/dead-letter/:id/retry', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const result = await prisma.syncQueueItem.updateMany({
+      where: { id, tenantId, status: 'DEAD_LETTER' },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: null,
+        deadLetteredAt: null,
+        error: null,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Dead-lettered item not found');
+    }
+
+    res.json({
+      success: true,
+      message: 'Item requeued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Discard a single dead-lettered item
+router.delete('/dead-letter/:id', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const result = await prisma.syncQueueItem.deleteMany({
+      where: { id, tenantId, status: 'DEAD_LETTER' },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Dead-lettered item not found');
+    }
+
+    res.json({
+      success: true,
+      message: 'Item discarded',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Clear sync queue
-router.delete('/queue', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.delete('/queue', requirePermission('sync.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const tenantId = req.user!.tenantId!;
 
@@ -0,0 +1,149 @@
+import { Router, Response, NextFunction } from 'express';
+import { TaxRule } from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { createPrismaClient } from '../services/tenantScope.js';
+
+const router = Router();
+const prisma = createPrismaClient();
+
+const formatTaxRule = (rule: Pick<TaxRule, 'jurisdiction' | 'name' | 'taxCategory' | 'rate' | 'compound' | 'priority'>) => ({
+  jurisdiction: rule.jurisdiction,
+  name: rule.name,
+  taxCategory: rule.taxCategory,
+  rate: Number(rule.rate),
+  compound: rule.compound,
+  priority: rule.priority,
+});
+
+// Jurisdictions are matched case-insensitively, e.g. "us-tx-austin"
+const normalizeJurisdiction = (jurisdiction: unknown): string | null =>
+  typeof jurisdiction === 'string' && jurisdiction.trim() ? jurisdiction.trim().toUpperCase() : null;
+
+// Check the rules sent by the tax settings screen
+function validateRules(input: unknown) {
+  if (!Array.isArray(input)) {
+    throw new ValidationError('Tax rules must be a list');
+  }
+
+  const seen = new Set<string>();
+
+  return input.map((rule: Record<string, unknown>) => {
+    const jurisdiction = normalizeJurisdiction(rule.jurisdiction);
+    const name = String(rule.name ?? '').trim();
+    const taxCategory = typeof rule.taxCategory === 'string' && rule.taxCategory.trim()
+      ? rule.taxCategory.trim()
+      : null;
+    const rate = Number(rule.rate);
+    const priority = Number(rule.priority ?? 0);
+
+    if (!jurisdiction || !name) {
+      throw new ValidationError('Each tax rule needs a jurisdiction and a name');
+    }
+    if (!(rate >= 0 && rate < 1)) {
+      throw new ValidationError(`Rate of ${name} must be a fraction from 0 to 1, e.g. 0.0625`);
+    }
+    if (!Number.isInteger(priority)) {
+      throw new ValidationError(`Priority of ${name} must be a whole number`);
+    }
+
+    const key = `${jurisdiction}|${name}|${taxCategory ?? ''}`;
+    if (seen.has(key)) {
+      throw new ValidationError(`${name} is listed twice for ${jurisdiction}${taxCategory ? ` (${taxCategory})` : ''}`);
+    }
+    seen.add(key);
+
+    return { jurisdiction, name, taxCategory, rate, compound: !!rule.compound, priority };
+  });
+}
+
+// Get tax rules, location jurisdictions and the item tax categories in use
+router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+
+    const [rules, locations, categories] = await Promise.all([
+      prisma.taxRule.findMany({
+        where: { tenantId },
+        orderBy: [{ jurisdiction: 'asc' }, { priority: 'asc' }, { name: 'asc' }],
+      }),
+      prisma.location.findMany({
+        where: { tenantId },
+        select: { id: true, name: true, taxJurisdiction: true, pricesIncludeTax: true },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.item.findMany({
+        where: { tenantId, taxCategory: { not: null } },
+        select: { taxCategory: true },
+        distinct: ['taxCategory'],
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        rules: rules.map(formatTaxRule),
+        locations,
+        categories: categories.map((item) => item.taxCategory),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace the tax rules and set location jurisdictions and whether their
+// prices include tax. Sales already made keep the tax they were charged.
+router.put('/', requirePermission('settings.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+    const { rules, locations = [] } = req.body as {
+      rules?: unknown;
+      locations?: { id: string; taxJurisdiction?: string | null; pricesIncludeTax?: boolean }[];
+    };
+
+    const validated = rules === undefined ? undefined : validateRules(rules);
+
+    await prisma.$transaction(async (tx) => {
+      if (validated) {
+        await tx.taxRule.deleteMany({ where: { tenantId } });
+        await tx.taxRule.createMany({
+          data: validated.map((rule) => ({ tenantId, ...rule })),
+        });
+      }
+
+      for (const { id, taxJurisdiction, pricesIncludeTax } of locations) {
+        const { count } = await tx.location.updateMany({
+          where: { id, tenantId },
+          data: {
+            taxJurisdiction: normalizeJurisdiction(taxJurisdiction),
+            ...(pricesIncludeTax !== undefined && { pricesIncludeTax: !!pricesIncludeTax }),
+          },
+        });
+        if (count === 0) {
+          throw new NotFoundError(`Location ${id} not found`);
+        }
+      }
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'TAX_RULES_UPDATED',
+          entityType: 'Tenant',
+          entityId: tenantId,
+          newValue: { rules: validated, locations },
+        },
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Tax rules updated',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
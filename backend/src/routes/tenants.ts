@@ -1,12 +1,15 @@
 import { Router, Response, NextFunction, Request } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { ValidationError, ConflictError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import { parseTenantSettings, validateTenantSettings } from '../services/tenantSettings.js';
 import { logger } from '../utils/logger.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Register new tenant (company signup)
 router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
@@ -210,4 +213,64 @@ router.get('/by-slug/:slug', async (req: Request, res: Response, next: NextFunct
   }
 });
 
+// Tenant settings routes (protected)
+router.use('/settings', authMiddleware);
+
+// Get the signed-in user's tenant settings
+router.get('/settings', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await prisma.tenant.findUniqueOrThrow({
+      where: { id: req.user!.tenantId! },
+      select: { settings: true },
+    });
+
+    res.json({
+      success: true,
+      data: { settings: parseTenantSettings(tenant.settings) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update tenant settings
+router.put('/settings', requirePermission('settings.manage'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.user!.tenantId!;
+
+    const tenant = await prisma.tenant.findUniqueOrThrow({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+
+    const settings = validateTenantSettings(req.body.settings, parseTenantSettings(tenant.settings));
+    const stored = { ...(tenant.settings as Prisma.JsonObject | null), ...settings };
+
+    await prisma.$transaction([
+      prisma.tenant.update({
+        where: { id: tenantId },
+        data: { settings: stored },
+      }),
+      prisma.auditLog.create({
+        data: {
+          tenantId,
+          userId: req.user!.id,
+          action: 'TENANT_SETTINGS_UPDATED',
+          entityType: 'Tenant',
+          entityId: tenantId,
+          oldValue: tenant.settings ?? undefined,
+          newValue: stored,
+        },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { settings },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,144 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+
+// The route runs against stand-ins for the queries a sale makes before it is
+// saved. A sale that doesn't check out must be rejected before anything is
+// written, so saving one fails the test.
+
+const db = vi.hoisted(() => ({
+  register: { findFirst: async () => ({ locationId: 'location-1' }) },
+  tenant: {
+    findUniqueOrThrow: async () => ({ taxRate: 0.1, settings: {}, timezone: 'America/New_York' }),
+  },
+  location: { findFirstOrThrow: async () => ({ taxJurisdiction: null, pricesIncludeTax: false }) },
+  item: {
+    findMany: async () => [
+      {
+        id: 'coffee',
+        sku: 'COFFEE',
+        name: 'Coffee',
+        basePrice: 3,
+        priceLevels: [],
+        categoryId: null,
+        taxCategory: null,
+        taxRate: null,
+        isGiftCard: false,
+        trackInventory: true,
+      },
+    ],
+  },
+  promotion: { findMany: async () => [] },
+  $transaction: vi.fn(async () => {
+    throw new Error('The sale was saved');
+  }),
+}));
+
+vi.mock('../services/tenantScope.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/tenantScope.js')>()),
+  createPrismaClient: () => db,
+}));
+
+const { default: transactionRoutes } = await import('./transactions.js');
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req: AuthenticatedRequest, _res, next) => {
+    req.user = {
+      id: 'cashier-1',
+      tenantId: 'tenant-1',
+      email: 'cashier@example.com',
+      firstName: 'Sam',
+      lastName: 'Lee',
+      role: 'CASHIER',
+      permissions: ['pos.sell'],
+    };
+    next();
+  });
+  app.use('/api/transactions', transactionRoutes);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const saved = db.$transaction;
+
+beforeEach(() => {
+  saved.mockClear();
+});
+
+// Two coffees at 3.00 with 10% tax come to 6.60
+const sale = {
+  registerId: 'register-1',
+  items: [{ itemId: 'coffee', quantity: 2, unitPrice: 3, discountAmount: 0 }],
+  subtotal: 6,
+  discountTotal: 0,
+  taxTotal: 0.6,
+  total: 6.6,
+  payments: [{ method: 'cash', amount: 6.6 }],
+};
+
+async function post(body: object) {
+  const response = await fetch(`${baseUrl}/api/transactions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as { success: boolean; error?: string } };
+}
+
+describe('POST /api/transactions', () => {
+  it('rejects a sale whose total was changed', async () => {
+    const response = await post({ ...sale, total: 0.66, payments: [{ method: 'cash', amount: 0.66 }] });
+
+    expect(response).toEqual({
+      status: 400,
+      body: { success: false, error: 'Totals do not match: total 0.66 should be 6.60' },
+    });
+    expect(saved).not.toHaveBeenCalled();
+  });
+
+  it('rejects a sale whose tax was left off', async () => {
+    const response = await post({ ...sale, taxTotal: 0, total: 6, payments: [{ method: 'cash', amount: 6 }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Totals do not match: taxTotal 0.00 should be 0.60, total 6.00 should be 6.60');
+    expect(saved).not.toHaveBeenCalled();
+  });
+
+  it('rejects a sale with a lowered price', async () => {
+    const response = await post({
+      ...sale,
+      items: [{ itemId: 'coffee', quantity: 2, unitPrice: 0.3, discountAmount: 0 }],
+      subtotal: 0.6,
+      taxTotal: 0.06,
+      total: 0.66,
+      payments: [{ method: 'cash', amount: 0.66 }],
+    });
+
+    expect(response).toEqual({
+      status: 400,
+      body: { success: false, error: 'Price of COFFEE is 3.00, not 0.30' },
+    });
+    expect(saved).not.toHaveBeenCalled();
+  });
+
+  it('goes on to save a sale whose totals add up', async () => {
+    await post(sale);
+
+    expect(saved).toHaveBeenCalledOnce();
+  });
+});
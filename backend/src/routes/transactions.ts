@@ -1,11 +1,66 @@
 import { Router, Response, NextFunction } from 'express';
-import { PrismaClient, TransactionType, TransactionStatus, PaymentMethod, PaymentStatus } from '@prisma/client';
-import { AuthenticatedRequest } from '../middleware/auth.js';
-import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import {
+  Prisma,
+  TransactionType,
+  TransactionStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Coupon,
+  Promotion,
+  Refund,
+  ReturnDisposition,
+  Transaction,
+} from '@prisma/client';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler.js';
 import { Server as SocketServer } from 'socket.io';
+import { enqueueSync } from '../services/netsuite/syncQueue.js';
+import { computeTotals, roundMoney } from 'shared/totals';
+import { couponAmount, couponSpend } from 'shared/coupons';
+import { LineTax, resolveTaxComponents, returnedTaxComponents } from 'shared/taxes';
+import {
+  AppliedPromotion,
+  PromotionInput,
+  PromotionRules,
+  PromotionType,
+  applyPromotions,
+} from 'shared/promotions';
+import { findUsableCoupon, redeemCoupons } from '../services/coupons.js';
+import {
+  giftCardExpiry,
+  loadGiftCard,
+  lockGiftCardPayments,
+  moveGiftCardBalance,
+  parseGiftCardNumber,
+  reverseGiftCardLoads,
+} from '../services/giftCards.js';
+import { parseTenantSettings } from '../services/tenantSettings.js';
+import { assignReceiptNumber } from '../services/receiptNumbers.js';
+import {
+  applyStoreCredit,
+  checkReturnableQuantities,
+  dispositionAdjustments,
+  returnedQuantities,
+  validateRefundPayments,
+} from '../services/returns.js';
+import {
+  formatRefund,
+  refundableAmount,
+  reserveRefund,
+  reserveReturnRefunds,
+  reverseRefunds,
+  settleRefund,
+} from '../services/refunds.js';
+import { requireApproval } from '../services/managerOverrides.js';
+import { createPrismaClient } from '../services/tenantScope.js';
 
 const router = Router();
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 // Get all transactions
 router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -44,7 +99,8 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
       include: {
         customer: true,
         items: true,
-        payments: true,
+        payments: { include: { giftCard: { select: { number: true } } } },
+        couponRedemptions: { include: { coupon: { select: { code: true } } } },
       },
     });
 
@@ -58,6 +114,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
           status: t.status.toLowerCase(),
           receiptNumber: t.receiptNumber,
           customerId: t.customerId,
+          originalTransactionId: t.originalTransactionId,
           customer: t.customer ? {
             firstName: t.customer.firstName,
             lastName: t.customer.lastName,
@@ -65,6 +122,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
           subtotal: Number(t.subtotal),
           taxTotal: Number(t.taxTotal),
           discountTotal: Number(t.discountTotal),
+          coupons: t.couponRedemptions.map((r) => ({ code: r.coupon.code, amount: Number(r.amount) })),
           total: Number(t.total),
           createdAt: t.createdAt,
           syncedAt: t.syncedAt,
@@ -77,6 +135,9 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
             unitPrice: Number(item.unitPrice),
             discountAmount: Number(item.discountAmount),
             taxAmount: Number(item.taxAmount),
+            taxes: item.taxes,
+            taxIncluded: item.taxIncluded,
+            promotions: item.promotions,
             lineTotal: Number(item.lineTotal),
           })),
           payments: t.payments.map((p) => ({
@@ -85,6 +146,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
             amount: Number(p.amount),
             reference: p.reference,
             cardLast4: p.cardLast4,
+            giftCardNumber: p.giftCard?.number,
             status: p.status.toLowerCase(),
           })),
         })),
@@ -95,6 +157,80 @@ router.get('/', async (req: AuthenticatedRequest, res: Response, next: NextFunct
   }
 });
 
+// Look up a sale by receipt number for a return, with what is left to return on each line
+router.get('/receipt/:receiptNumber', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { receiptNumber } = req.params;
+    const tenantId = req.user!.tenantId!;
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { tenantId_receiptNumber: { tenantId, receiptNumber } },
+      include: {
+        customer: true,
+        items: true,
+        payments: true,
+      },
+    });
+
+    if (!transaction || transaction.type === 'RETURN') {
+      throw new NotFoundError('Sale not found');
+    }
+
+    if (transaction.status === 'VOIDED') {
+      throw new ValidationError(`Transaction ${receiptNumber} was voided`);
+    }
+
+    const soldLines = transaction.items.filter((item) => Number(item.quantity) > 0);
+    const returned = await returnedQuantities(prisma, soldLines.map((item) => item.id));
+
+    res.json({
+      success: true,
+      data: {
+        transaction: {
+          id: transaction.id,
+          type: transaction.type.toLowerCase(),
+          status: transaction.status.toLowerCase(),
+          receiptNumber: transaction.receiptNumber,
+          customerId: transaction.customerId,
+          customer: transaction.customer && {
+            ...transaction.customer,
+            balance: Number(transaction.customer.balance),
+            storeCredit: Number(transaction.customer.storeCredit),
+          },
+          subtotal: Number(transaction.subtotal),
+          taxTotal: Number(transaction.taxTotal),
+          discountTotal: Number(transaction.discountTotal),
+          total: Number(transaction.total),
+          createdAt: transaction.createdAt,
+          items: soldLines.map((item) => ({
+            id: item.id,
+            itemId: item.itemId,
+            itemName: item.itemName,
+            sku: item.sku,
+            quantity: Number(item.quantity),
+            unitPrice: Number(item.unitPrice),
+            discountAmount: Number(item.discountAmount),
+            taxAmount: Number(item.taxAmount),
+            taxes: item.taxes,
+            taxIncluded: item.taxIncluded,
+            promotions: item.promotions,
+            lineTotal: Number(item.lineTotal),
+            returnedQuantity: returned.get(item.id) || 0,
+          })),
+          payments: transaction.payments.map((payment) => ({
+            id: payment.id,
+            method: payment.method.toLowerCase(),
+            amount: Number(payment.amount),
+            cardLast4: payment.cardLast4,
+          })),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get transaction by ID
 router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
@@ -107,6 +243,7 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
         customer: true,
         items: true,
         payments: true,
+        couponRedemptions: { include: { coupon: { select: { code: true } } } },
         user: true,
         register: true,
         location: true,
@@ -127,11 +264,14 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
           status: transaction.status.toLowerCase(),
           receiptNumber: transaction.receiptNumber,
           customerId: transaction.customerId,
+          originalTransactionId: transaction.originalTransactionId,
           customer: transaction.customer,
           subtotal: Number(transaction.subtotal),
           taxTotal: Number(transaction.taxTotal),
           discountTotal: Number(transaction.discountTotal),
+          coupons: transaction.couponRedemptions.map((r) => ({ code: r.coupon.code, amount: Number(r.amount) })),
           total: Number(transaction.total),
+          taxExemptCertificate: transaction.taxExemptCertificate,
           notes: transaction.notes,
           createdAt: transaction.createdAt,
           syncedAt: transaction.syncedAt,
@@ -151,139 +291,775 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response, next: NextFu
   }
 });
 
-// Create transaction
-router.post('/', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const {
-      id,
-      type,
-      customerId,
-      items,
-      payments,
-      subtotal,
-      taxTotal,
-      discountTotal,
-      total,
-      notes,
-      receiptNumber,
-    } = req.body;
+interface CreateTransactionLine {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount?: number;
+  // Promotions making up discountAmount; the rest was discounted by hand
+  promotions?: AppliedPromotion[];
+  // Price keyed in by hand instead of the catalog price
+  priceOverride?: boolean;
+  // Returned lines only
+  originalItemId?: string;
+  disposition?: string;
+  // Gift card lines only: the card the amount is put on
+  giftCardNumber?: string;
+}
+
+interface CreateTransactionPayment {
+  method: string;
+  amount: number;
+  reference?: string;
+  cardLast4?: string;
+  cardBrand?: string;
+  // Gift card payments only
+  giftCardNumber?: string;
+}
 
-    if (!items || items.length === 0) {
-      throw new ValidationError('Transaction must have at least one item');
+// Largest difference tolerated between client and server figures
+const TOTALS_TOLERANCE = 0.01;
+
+const toPromotionInput = (promotion: Promotion): PromotionInput => ({
+  id: promotion.id,
+  name: promotion.name,
+  type: promotion.type.toLowerCase() as PromotionType,
+  rules: promotion.rules as PromotionRules,
+  itemIds: promotion.itemIds,
+  categoryIds: promotion.categoryIds,
+  locationIds: promotion.locationIds,
+  customerGroups: promotion.customerGroups,
+  startsAt: promotion.startsAt?.toISOString() ?? null,
+  endsAt: promotion.endsAt?.toISOString() ?? null,
+  daysOfWeek: promotion.daysOfWeek,
+  startTime: promotion.startTime,
+  endTime: promotion.endTime,
+  isActive: promotion.isActive,
+});
+
+const sumAmounts = (promotions: AppliedPromotion[] = []): number =>
+  roundMoney(promotions.reduce((sum, promotion) => sum + Number(promotion.amount), 0));
+
+const createdResponse = (
+  transaction: { id: string; receiptNumber: string; status: string; total: Prisma.Decimal },
+  refunds: Refund[] = []
+) => ({
+  success: true,
+  data: {
+    transaction: {
+      id: transaction.id,
+      receiptNumber: transaction.receiptNumber,
+      status: transaction.status.toLowerCase(),
+      total: Number(transaction.total),
+    },
+    refunds: refunds.map(formatRefund),
+  },
+});
+
+// Cashiers need a manager's approval for price overrides, large discounts
+// and large refunds, as set by the tenant's override policy
+async function checkOverrides(
+  tx: Prisma.TransactionClient,
+  approval: Omit<Parameters<typeof requireApproval>[1], 'action'>,
+  lines: {
+    item: { sku: string };
+    quantity: number;
+    unitPrice: number;
+    listPrice: number;
+    priceOverride: boolean;
+    discountAmount: number;
+    promotions: AppliedPromotion[];
+  }[],
+  computed: ReturnType<typeof computeTotals>,
+  // Cart discount given by hand, less coupons
+  cartDiscount: number
+): Promise<void> {
+  const overridden = lines.filter((line) => line.priceOverride);
+  if (overridden.length > 0) {
+    await requireApproval(tx, {
+      ...approval,
+      action: 'PRICE_OVERRIDE',
+      details: {
+        lines: overridden.map((line) => ({
+          sku: line.item.sku,
+          listPrice: line.listPrice,
+          unitPrice: line.unitPrice,
+        })),
+      },
+    });
+  }
+
+  // The deepest discount given by hand on a sold line, or on the cart as a
+  // whole. Promotions and coupons don't need approval.
+  const sold = lines.filter((line) => line.quantity > 0);
+  const soldNet = sold.reduce((sum, line) => sum + line.quantity * line.unitPrice - line.discountAmount, 0);
+  const discountPercent = Math.max(
+    soldNet > 0 ? (cartDiscount / soldNet) * 100 : 0,
+    ...sold.map((line) =>
+      line.unitPrice > 0
+        ? ((line.discountAmount - sumAmounts(line.promotions)) / (line.quantity * line.unitPrice)) * 100
+        : 0
+    )
+  );
+  if (discountPercent > 0) {
+    await requireApproval(tx, {
+      ...approval,
+      action: 'DISCOUNT',
+      value: roundMoney(discountPercent),
+      details: { discountTotal: computed.discountTotal },
+    });
+  }
+
+  const refunded = -computed.lines.reduce(
+    (sum, line, i) => sum + (lines[i].quantity < 0 ? line.lineTotal : 0),
+    0
+  );
+  if (refunded > 0) {
+    await requireApproval(tx, {
+      ...approval,
+      action: 'RETURN',
+      value: roundMoney(refunded),
+      details: { refunded: roundMoney(refunded) },
+    });
+  }
+}
+
+// Offline sales can be synced for this long after the register made them
+const MAX_OFFLINE_DAYS = 7;
+
+// When an offline sale was made, as the register recorded it. A clock ahead
+// of the server's counts as now.
+function offlineSaleTime(createdAt: unknown): Date {
+  const soldAt = new Date(String(createdAt ?? ''));
+  if (isNaN(soldAt.getTime())) {
+    throw new ValidationError('Offline sales need the time they were made (createdAt)');
+  }
+  if (Date.now() - soldAt.getTime() > MAX_OFFLINE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ValidationError(`Offline sales older than ${MAX_OFFLINE_DAYS} days can't be recorded`);
+  }
+  return soldAt.getTime() > Date.now() ? new Date() : soldAt;
+}
+
+interface RecordedTransaction {
+  transaction: Transaction;
+  refunds: Refund[];
+  // An earlier request with the same Idempotency-Key recorded the sale
+  replayed: boolean;
+}
+
+// Record a sale, return or exchange sent by the register. Totals are
+// recomputed from catalog prices and tax rates and the sale is rejected if
+// the register's figures differ. Sales made offline are checked as of
+// offline.soldAt and stored with that time.
+async function recordTransaction(
+  req: AuthenticatedRequest,
+  offline?: { soldAt: Date }
+): Promise<RecordedTransaction> {
+  const {
+    id,
+    type,
+    customerId,
+    items,
+    payments = [],
+    subtotal,
+    taxTotal,
+    discountTotal,
+    total,
+    notes,
+    receiptNumber,
+    receiptSequence,
+    registerId,
+    originalTransactionId,
+    approvalIds = [],
+    taxExemptCertificate,
+    coupons = [],
+  } = req.body as {
+    id?: string;
+    type?: string;
+    customerId?: string;
+    items?: CreateTransactionLine[];
+    payments?: CreateTransactionPayment[];
+    subtotal: number;
+    taxTotal: number;
+    discountTotal?: number;
+    total: number;
+    notes?: string;
+    receiptNumber?: string;
+    receiptSequence?: number;
+    registerId: string;
+    originalTransactionId?: string;
+    approvalIds?: string[];
+    taxExemptCertificate?: string;
+    // Coupons in discountTotal, in the order the register applied them
+    coupons?: { code: string; amount: number }[];
+  };
+  const tenantId = req.user!.tenantId!;
+  const idempotencyKey = req.get('Idempotency-Key')?.trim() || undefined;
+
+  if (idempotencyKey) {
+    const existing = await prisma.transaction.findUnique({
+      where: { tenantId_idempotencyKey: { tenantId, idempotencyKey } },
+    });
+
+    if (existing) {
+      if (Math.abs(Number(existing.total) - Number(total)) > TOTALS_TOLERANCE) {
+        throw new ConflictError('Idempotency key was already used for a different transaction');
+      }
+      return { transaction: existing, refunds: [], replayed: true };
     }
+  }
+
+  // The sale is made at the register's location, so users who work at
+  // every location can sell at any register
+  const register = await prisma.register.findFirst({
+    where: { id: String(registerId ?? ''), location: { tenantId } },
+    select: { locationId: true },
+  });
+
+  if (!register) {
+    throw new NotFoundError('Register not found');
+  }
+  if (req.user!.locationId && req.user!.locationId !== register.locationId) {
+    throw new AuthorizationError('This register is at a location you do not work at');
+  }
 
-    if (!payments || payments.length === 0) {
-      throw new ValidationError('Transaction must have at least one payment');
+  const { locationId } = register;
+
+  if (!items || items.length === 0) {
+    throw new ValidationError('Transaction must have at least one item');
+  }
+
+  for (const line of items) {
+    if (!line.itemId || !Number(line.quantity) || isNaN(Number(line.unitPrice))) {
+      throw new ValidationError('Each item requires an itemId, a non-zero quantity and a unit price');
     }
+  }
 
-    const transaction = await prisma.transaction.create({
-      data: {
-        id: id || undefined,
-        tenantId: req.user!.tenantId!,
-        type: (type?.toUpperCase() || 'SALE') as TransactionType,
-        status: 'COMPLETED' as TransactionStatus,
-        registerId: req.body.registerId,
-        locationId: req.user!.locationId!,
-        userId: req.user!.id,
-        customerId,
-        receiptNumber: receiptNumber || generateReceiptNumber(),
-        subtotal,
-        taxTotal,
-        discountTotal: discountTotal || 0,
-        total,
-        notes,
-        items: {
-          create: items.map((item: {
-            itemId: string;
-            itemName: string;
-            sku: string;
-            quantity: number;
-            unitPrice: number;
-            discountAmount?: number;
-            taxAmount?: number;
-            lineTotal: number;
-          }) => ({
-            itemId: item.itemId,
-            itemName: item.itemName,
-            sku: item.sku,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            discountAmount: item.discountAmount || 0,
-            taxAmount: item.taxAmount || 0,
-            lineTotal: item.lineTotal,
-          })),
-        },
-        payments: {
-          create: payments.map((payment: {
-            method: string;
-            amount: number;
-            reference?: string;
-            cardLast4?: string;
-            cardBrand?: string;
-          }) => ({
-            method: payment.method.toUpperCase() as PaymentMethod,
-            amount: payment.amount,
-            reference: payment.reference,
-            cardLast4: payment.cardLast4,
-            cardBrand: payment.cardBrand,
-            status: 'COMPLETED' as PaymentStatus,
-          })),
-        },
-      },
-      include: {
-        items: true,
-        payments: true,
-      },
+  if (items.some((line) => Number(line.quantity) < 0) && !req.user!.permissions.includes('transaction.return')) {
+    throw new AuthorizationError('You do not have permission to process returns');
+  }
+
+  const transactionType = (type?.toUpperCase() || 'SALE') as TransactionType;
+  if (!Object.values(TransactionType).includes(transactionType)) {
+    throw new ValidationError(`Unknown transaction type: ${type}`);
+  }
+
+  const [tenant, location, customer, original, catalog, promotions] = await Promise.all([
+    prisma.tenant.findUniqueOrThrow({
+      where: { id: tenantId },
+      select: { taxRate: true, settings: true, timezone: true },
+    }),
+    prisma.location.findFirstOrThrow({ where: { id: locationId, tenantId }, select: { taxJurisdiction: true, pricesIncludeTax: true } }),
+    customerId ? prisma.customer.findFirst({ where: { id: customerId, tenantId } }) : null,
+    originalTransactionId
+      ? prisma.transaction.findFirst({
+          where: { id: originalTransactionId, tenantId },
+          include: { items: true },
+        })
+      : null,
+    prisma.item.findMany({
+      where: { tenantId, id: { in: items.map((line) => line.itemId) } },
+      include: { priceLevels: true },
+    }),
+    prisma.promotion.findMany({ where: { tenantId, isActive: true } }),
+  ]);
+
+  if (customerId && !customer) {
+    throw new NotFoundError('Customer not found');
+  }
+
+  if (originalTransactionId && !original) {
+    throw new NotFoundError('Original transaction not found');
+  }
+
+  if (original?.status === 'VOIDED') {
+    throw new ValidationError(`Transaction ${original.receiptNumber} was voided`);
+  }
+
+  // Exempt customers buy tax free under a certificate number, kept on the
+  // customer or captured at the register
+  const exemptCertificate = customer?.taxExempt
+    ? taxExemptCertificate?.trim() || customer.taxExemptCertificate
+    : null;
+  if (customer?.taxExempt && !exemptCertificate) {
+    throw new ValidationError('A tax exemption certificate number is required for this customer');
+  }
+
+  const taxRules = location.taxJurisdiction
+    ? (await prisma.taxRule.findMany({ where: { tenantId, jurisdiction: location.taxJurisdiction } }))
+        .map((rule) => ({ ...rule, rate: Number(rule.rate) }))
+    : [];
+
+  const catalogById = new Map(catalog.map((item) => [item.id, item]));
+
+  const lines = items.map((line) => {
+    const item = catalogById.get(line.itemId);
+    if (!item) {
+      throw new ValidationError(`Item ${line.itemId} not found`);
+    }
+
+    const quantity = Number(line.quantity);
+    const unitPrice = Number(line.unitPrice);
+    const discountAmount = Number(line.discountAmount) || 0;
+
+    // Gift cards are sold for the amount put on them, untaxed and undiscounted
+    if (item.isGiftCard) {
+      if (quantity < 0) {
+        throw new ValidationError(`Gift cards can't be returned; void the sale of ${item.sku} instead`);
+      }
+      const giftCardNumber = parseGiftCardNumber(line.giftCardNumber);
+      if (quantity !== 1 || !(unitPrice > 0) || discountAmount !== 0 || line.priceOverride) {
+        throw new ValidationError(`Sell each ${item.sku} on its own line, for the amount put on the card`);
+      }
+      return {
+        item,
+        quantity,
+        unitPrice: roundMoney(unitPrice),
+        listPrice: roundMoney(unitPrice),
+        priceOverride: false,
+        discountAmount: 0,
+        taxes: [],
+        taxIncluded: false,
+        promotions: [] as AppliedPromotion[],
+        originalItemId: undefined,
+        disposition: null,
+        giftCardNumber,
+      };
+    }
+    if (line.giftCardNumber) {
+      throw new ValidationError(`${item.sku} is not a gift card`);
+    }
+
+    // Returned lines are refunded at the price they sold for
+    const soldLine = quantity < 0
+      ? original?.items.find((i) =>
+          line.originalItemId ? i.id === line.originalItemId : i.itemId === item.id
+        )
+      : undefined;
+
+    if (line.originalItemId && (!soldLine || soldLine.itemId !== item.id)) {
+      throw new ValidationError(`${item.sku} was not sold on the original transaction`);
+    }
+
+    const disposition = quantity < 0
+      ? ((line.disposition?.toUpperCase() || 'RESTOCK') as ReturnDisposition)
+      : null;
+    if (disposition && !Object.values(ReturnDisposition).includes(disposition)) {
+      throw new ValidationError(`Unknown return disposition: ${line.disposition}`);
+    }
+    const levelPrice = customer?.priceLevel
+      ? item.priceLevels.find((level) => level.name === customer.priceLevel)?.price
+      : undefined;
+    const expectedPrice = Number(soldLine?.unitPrice ?? levelPrice ?? item.basePrice);
+
+    // Overridden prices are checked against the manager override policy below
+    const priceOverride = !!line.priceOverride && !soldLine;
+    if (priceOverride && !(unitPrice >= 0)) {
+      throw new ValidationError(`Invalid price for ${item.sku}`);
+    }
+    if (!priceOverride && Math.abs(unitPrice - expectedPrice) > TOTALS_TOLERANCE / 2) {
+      throw new ValidationError(
+        `Price of ${item.sku} is ${expectedPrice.toFixed(2)}, not ${unitPrice.toFixed(2)}`
+      );
+    }
+    const price = priceOverride ? roundMoney(unitPrice) : expectedPrice;
+
+    // A discount can reduce a line to zero but not past it
+    const base = roundMoney(quantity * price);
+    if (discountAmount * base < 0 || Math.abs(discountAmount) > Math.abs(base)) {
+      throw new ValidationError(`Invalid discount on ${item.sku}`);
+    }
+
+    if (soldLine) {
+      // The refund gives back the same share of discount and tax the customer got
+      const share = Math.abs(quantity) / Number(soldLine.quantity);
+      const soldDiscount = Number(soldLine.discountAmount);
+      const expectedDiscount = -roundMoney(soldDiscount * share);
+
+      if (Math.abs(discountAmount - expectedDiscount) > TOTALS_TOLERANCE) {
+        throw new ValidationError(
+          `Discount on returned ${item.sku} is ${expectedDiscount.toFixed(2)}, not ${discountAmount.toFixed(2)}`
+        );
+      }
+
+      const soldNet = roundMoney(Number(soldLine.quantity) * Number(soldLine.unitPrice)) - soldDiscount;
+      const soldTaxes = (soldLine.taxes as LineTax[] | null)
+        ?? [{ name: 'Tax', rate: 0, amount: Number(soldLine.taxAmount) }];
+      return {
+        item,
+        quantity,
+        unitPrice: expectedPrice,
+        listPrice: expectedPrice,
+        priceOverride,
+        discountAmount: expectedDiscount,
+        taxes: returnedTaxComponents(soldTaxes, soldNet, soldLine.taxIncluded),
+        taxIncluded: soldLine.taxIncluded,
+        promotions: [] as AppliedPromotion[],
+        originalItemId: soldLine.id,
+        disposition,
+      };
+    }
+
+    return {
+      item,
+      quantity,
+      unitPrice: price,
+      listPrice: expectedPrice,
+      priceOverride,
+      discountAmount,
+      taxes: exemptCertificate
+        ? []
+        : resolveTaxComponents(taxRules, item.taxCategory, Number(item.taxRate ?? tenant.taxRate)),
+      taxIncluded: location.pricesIncludeTax,
+      promotions: line.promotions ?? [],
+      originalItemId: undefined,
+      disposition,
+    };
+  });
+
+  const hasReturned = lines.some((line) => line.quantity < 0);
+  const hasSold = lines.some((line) => line.quantity > 0);
+
+  if (transactionType === 'SALE' && hasReturned) {
+    throw new ValidationError('Returned items need a return or exchange transaction');
+  }
+  if (transactionType === 'RETURN' && hasSold) {
+    throw new ValidationError('A return can only contain returned items');
+  }
+  if (transactionType === 'EXCHANGE' && (!original || !hasReturned || !hasSold)) {
+    throw new ValidationError('An exchange needs items returned from the original sale and new items');
+  }
+
+  // Promotions are worked out again for sold lines the register didn't
+  // discount or reprice by hand, and must come to what the register gave.
+  // They're checked as of now, except that a sale made offline during a happy
+  // hour keeps its discount.
+  const soldAt = offline?.soldAt ?? new Date();
+  const promotable = lines.map((line) => {
+    const manual = roundMoney(line.discountAmount - sumAmounts(line.promotions));
+    if (line.promotions.length > 0 && Math.abs(manual) > TOTALS_TOLERANCE) {
+      throw new ValidationError(`${line.item.sku} cannot have both a promotion and a manual discount`);
+    }
+    return line.quantity > 0 && !line.priceOverride && !line.item.isGiftCard && Math.abs(manual) <= TOTALS_TOLERANCE;
+  });
+  const applied = applyPromotions(
+    lines.map((line, i) => ({
+      itemId: line.item.id,
+      categoryId: line.item.categoryId,
+      quantity: promotable[i] ? line.quantity : 0,
+      unitPrice: line.unitPrice,
+    })),
+    promotions.map(toPromotionInput),
+    { locationId, customerGroup: customer?.group, at: soldAt, timeZone: tenant.timezone }
+  );
+
+  lines.forEach((line, i) => {
+    if (!promotable[i]) return;
+    const expected = sumAmounts(applied[i]);
+    if (Math.abs(line.discountAmount - expected) > TOTALS_TOLERANCE) {
+      throw new ValidationError(
+        `Promotions on ${line.item.sku} come to ${expected.toFixed(2)}, not ${line.discountAmount.toFixed(2)}`
+      );
+    }
+    line.promotions = applied[i];
+  });
+
+  const lineDiscounts = lines.reduce((sum, line) => sum + line.discountAmount, 0);
+  const cartDiscount = roundMoney((Number(discountTotal) || 0) - lineDiscounts);
+
+  if (cartDiscount < 0) {
+    throw new ValidationError('discountTotal is less than the sum of line discounts');
+  }
+
+  if (cartDiscount > 0 && lines.some((line) => line.item.isGiftCard)) {
+    throw new ValidationError('Gift cards are sold at full value; ring them up apart from cart discounts and coupons');
+  }
+
+  // Coupons come off the cart before any discount given by hand, each up to
+  // what is left of the sold lines
+  const spend = couponSpend(lines);
+  let left = spend;
+  const redemptions: { coupon: Coupon; amount: number }[] = [];
+  for (const claimed of coupons) {
+    // Valid now, whatever time the register sent
+    const coupon = await findUsableCoupon(prisma, tenantId, claimed.code, {
+      locationId,
+      customerId,
+      spend,
+      at: new Date(),
     });
+    if (redemptions.some((redemption) => redemption.coupon.id === coupon.id)) {
+      throw new ValidationError(`Coupon ${coupon.code} is on the sale twice`);
+    }
+    const amount = couponAmount({ discountType: coupon.discountType, value: Number(coupon.value) }, spend, left);
+    if (Math.abs(amount - Number(claimed.amount)) > TOTALS_TOLERANCE) {
+      throw new ValidationError(`Coupon ${coupon.code} takes off ${amount.toFixed(2)}, not ${Number(claimed.amount).toFixed(2)}`);
+    }
+    left = roundMoney(left - amount);
+    redemptions.push({ coupon, amount });
+  }
 
-    // Update inventory
-    for (const item of items) {
-      await prisma.inventoryLevel.updateMany({
-        where: {
-          itemId: item.itemId,
-          locationId: req.user!.locationId!,
-        },
+  const couponTotal = roundMoney(redemptions.reduce((sum, redemption) => sum + redemption.amount, 0));
+  if (couponTotal > cartDiscount + TOTALS_TOLERANCE) {
+    throw new ValidationError('discountTotal is less than the coupons on the sale');
+  }
+
+  const computed = computeTotals(lines, cartDiscount, parseTenantSettings(tenant.settings).taxRounding);
+
+  const mismatches = (
+    [
+      ['subtotal', subtotal],
+      ['discountTotal', discountTotal || 0],
+      ['taxTotal', taxTotal],
+      ['total', total],
+    ] as const
+  )
+    .filter(([field, value]) => Math.abs(Number(value) - computed[field]) > TOTALS_TOLERANCE)
+    .map(([field, value]) => `${field} ${Number(value).toFixed(2)} should be ${computed[field].toFixed(2)}`);
+
+  if (mismatches.length > 0) {
+    throw new ValidationError(`Totals do not match: ${mismatches.join(', ')}`);
+  }
+
+  // An even exchange has nothing to pay
+  if (computed.total !== 0 && payments.length === 0) {
+    throw new ValidationError('Transaction must have at least one payment');
+  }
+
+  const paid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  if (computed.total > 0 && paid < computed.total - TOTALS_TOLERANCE) {
+    throw new ValidationError(`Payments of ${paid.toFixed(2)} do not cover the total of ${computed.total.toFixed(2)}`);
+  }
+
+  if (computed.total < 0) {
+    await validateRefundPayments(prisma, payments, computed.total, customer, original);
+  }
+
+  // Anything paid over the total is change handed back from cash tendered
+  let change = computed.total > 0 ? Math.max(roundMoney(paid - computed.total), 0) : 0;
+  const changeAmounts = payments.map((payment) => {
+    if (change === 0 || payment.method.toUpperCase() !== 'CASH') {
+      return undefined;
+    }
+    const given = Math.min(change, Number(payment.amount));
+    change = roundMoney(change - given);
+    return given;
+  });
+
+  let transaction;
+  let refunds: Refund[];
+
+  try {
+    ({ transaction, refunds } = await prisma.$transaction(async (tx) => {
+      // Sales queued offline by older clients carry their own receipt number and no sequence
+      const receipt = offline && receiptSequence === undefined && receiptNumber
+        ? { receiptNumber }
+        : await assignReceiptNumber(tx, tenantId, registerId, receiptSequence, receiptNumber);
+
+      // Checked inside the transaction so two returns of one sale can't both pass
+      await checkReturnableQuantities(tx, original?.id, lines);
+
+      // Gift card balances are checked on cards locked until the sale is saved
+      const giftCards = await lockGiftCardPayments(tx, tenantId, payments);
+
+      const created = await tx.transaction.create({
         data: {
-          quantityOnHand: { decrement: item.quantity },
-          quantityAvailable: { decrement: item.quantity },
+          id: id || undefined,
+          tenantId,
+          type: transactionType,
+          status: 'COMPLETED' as TransactionStatus,
+          registerId,
+          locationId,
+          userId: req.user!.id,
+          customerId,
+          originalTransactionId,
+          idempotencyKey,
+          taxExemptCertificate: exemptCertificate,
+          ...receipt,
+          subtotal: computed.subtotal,
+          taxTotal: computed.taxTotal,
+          discountTotal: computed.discountTotal,
+          total: computed.total,
+          notes,
+          ...(offline && { createdAt: offline.soldAt, receivedAt: new Date() }),
+          items: {
+            create: lines.map((line, i) => ({
+              itemId: line.item.id,
+              itemName: line.item.name,
+              sku: line.item.sku,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              discountAmount: computed.lines[i].discountAmount,
+              taxAmount: computed.lines[i].taxAmount,
+              taxes: computed.lines[i].taxes as unknown as Prisma.InputJsonArray,
+              taxIncluded: line.taxIncluded,
+              promotions: line.promotions.length > 0
+                ? (line.promotions as unknown as Prisma.InputJsonArray)
+                : undefined,
+              lineTotal: computed.lines[i].lineTotal,
+              originalItemId: line.originalItemId,
+              disposition: line.disposition,
+            })),
+          },
+          payments: {
+            create: payments.map((payment, i) => ({
+              method: payment.method.toUpperCase() as PaymentMethod,
+              amount: payment.amount,
+              reference: payment.reference,
+              cardLast4: payment.cardLast4,
+              cardBrand: payment.cardBrand,
+              giftCardId: giftCards[i]?.id,
+              changeAmount: changeAmounts[i],
+              status: 'COMPLETED' as PaymentStatus,
+            })),
+          },
         },
       });
+
+      await checkOverrides(tx, {
+        tenantId,
+        userId: req.user!.id,
+        permissions: req.user!.permissions,
+        approvalIds,
+        entityType: 'Transaction',
+        entityId: created.id,
+      }, lines, computed, Math.max(roundMoney(cartDiscount - couponTotal), 0));
+
+      await redeemCoupons(tx, tenantId, redemptions, created.id, customerId);
+
+      // Gift cards sold are loaded, and gift card payments taken off their cards
+      const expiresAt = giftCardExpiry(parseTenantSettings(tenant.settings).giftCardExpiryMonths);
+      for (const line of lines) {
+        if (line.giftCardNumber) {
+          await loadGiftCard(tx, line.giftCardNumber, line.unitPrice, {
+            tenantId,
+            transactionId: created.id,
+            userId: req.user!.id,
+            customerId,
+            expiresAt,
+          });
+        }
+      }
+      for (const [i, card] of giftCards.entries()) {
+        if (card) {
+          await moveGiftCardBalance(tx, card.id, -Number(payments[i].amount), {
+            tenantId,
+            type: 'REDEMPTION',
+            transactionId: created.id,
+            userId: req.user!.id,
+          });
+        }
+      }
+
+      await applyStoreCredit(tx, customerId, payments);
+
+      // Refunds come out of the original sale's payments
+      const refunds = original
+        ? await reserveReturnRefunds(tx, original.id, payments, {
+            tenantId,
+            userId: req.user!.id,
+            reason: `Return ${receipt.receiptNumber}`,
+            transactionId: created.id,
+          })
+        : [];
+
+      // Sold lines leave stock, returned (negative) lines come back unless
+      // they were damaged or discarded
+      const stockLines = lines.filter(
+        (l) => l.item.trackInventory && (!l.disposition || l.disposition === 'RESTOCK')
+      );
+      for (const line of stockLines) {
+        await tx.inventoryLevel.updateMany({
+          where: {
+            itemId: line.item.id,
+            locationId,
+          },
+          data: {
+            quantityOnHand: { decrement: line.quantity },
+            quantityAvailable: { decrement: line.quantity },
+          },
+        });
+      }
+
+      await enqueueSync(tenantId, 'transaction', 'create', {
+        transactionId: created.id,
+      }, tx);
+
+      // NetSuite refunds put returned items back in stock, so damaged and
+      // discarded ones are adjusted out again
+      for (const adjustment of dispositionAdjustments(lines, locationId, receipt.receiptNumber)) {
+        await enqueueSync(tenantId, 'inventory_adjustment', 'create', adjustment, tx);
+      }
+
+      return { transaction: created, refunds };
+    }));
+  } catch (error) {
+    // A concurrent retry with the same key committed first
+    if (
+      idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      const existing = await prisma.transaction.findUnique({
+        where: { tenantId_idempotencyKey: { tenantId, idempotencyKey } },
+      });
+      if (existing) {
+        return { transaction: existing, refunds: [], replayed: true };
+      }
     }
+    throw error;
+  }
 
-    // Emit real-time update
-    const io = req.app.get('io') as SocketServer;
-    io.to(`location:${req.user!.locationId}`).emit('transaction:created', {
-      transactionId: transaction.id,
-      receiptNumber: transaction.receiptNumber,
-      total: Number(transaction.total),
-    });
+  // Card refunds are paid out once the return is saved. A declined one is
+  // reported back so the cashier can refund it another way.
+  const settled: Refund[] = [];
+  for (const refund of refunds) {
+    settled.push(await settleRefund(prisma, refund));
+  }
 
-    res.status(201).json({
-      success: true,
-      data: {
-        transaction: {
-          id: transaction.id,
-          receiptNumber: transaction.receiptNumber,
-          status: transaction.status.toLowerCase(),
-          total: Number(transaction.total),
-        },
-      },
-    });
+  // Emit real-time update
+  const io = req.app.get('io') as SocketServer;
+  io.to(`location:${locationId}`).emit('transaction:created', {
+    transactionId: transaction.id,
+    receiptNumber: transaction.receiptNumber,
+    total: Number(transaction.total),
+  });
+
+  return { transaction, refunds: settled, replayed: false };
+}
+
+// Create transaction. An Idempotency-Key header makes retries return the
+// original sale.
+router.post('/', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { transaction, refunds, replayed } = await recordTransaction(req);
+
+    if (replayed) {
+      res.set('Idempotent-Replayed', 'true').json(createdResponse(transaction));
+      return;
+    }
+
+    res.status(201).json(createdResponse(transaction, refunds));
   } catch (error) {
     next(error);
   }
 });
 
-// Void transaction
-router.post('/:id/void', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// Void transaction. Inventory is put back and every payment is refunded to
+// its tender; a voided return takes back the refunds it gave out.
+router.post('/:id/void', requirePermission('transaction.void'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { reason } = req.body;
+    const { reason, approvalId } = req.body;
     const tenantId = req.user!.tenantId!;
 
     const transaction = await prisma.transaction.findFirst({
       where: { id, tenantId },
-      include: { items: true },
+      include: {
+        items: true,
+        payments: true,
+        returns: { where: { status: { not: 'VOIDED' } }, select: { receiptNumber: true } },
+      },
     });
 
     if (!transaction) {
@@ -294,38 +1070,109 @@ router.post('/:id/void', async (req: AuthenticatedRequest, res: Response, next:
       throw new ValidationError('Transaction already voided');
     }
 
-    // Void the transaction
-    const voidedTransaction = await prisma.transaction.update({
-      where: { id },
-      data: {
-        status: 'VOIDED',
-        notes: transaction.notes
-          ? `${transaction.notes}\nVoided: ${reason}`
-          : `Voided: ${reason}`,
-      },
-    });
+    if (transaction.returns.length > 0) {
+      throw new ValidationError(
+        `Void return ${transaction.returns.map((r) => r.receiptNumber).join(', ')} first`
+      );
+    }
 
-    // Restore inventory
-    for (const item of transaction.items) {
-      await prisma.inventoryLevel.updateMany({
-        where: {
-          itemId: item.itemId,
-          locationId: transaction.locationId,
-        },
+    const reserved = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.transaction.updateMany({
+        where: { id, status: { not: 'VOIDED' } },
         data: {
-          quantityOnHand: { increment: Number(item.quantity) },
-          quantityAvailable: { increment: Number(item.quantity) },
+          status: 'VOIDED',
+          notes: transaction.notes
+            ? `${transaction.notes}\nVoided: ${reason}`
+            : `Voided: ${reason}`,
         },
       });
+
+      if (count === 0) {
+        throw new ValidationError('Transaction already voided');
+      }
+
+      await requireApproval(tx, {
+        tenantId,
+        userId: req.user!.id,
+        permissions: req.user!.permissions,
+        action: 'VOID',
+        approvalIds: approvalId ? [approvalId] : [],
+        entityType: 'Transaction',
+        entityId: id,
+        details: { receiptNumber: transaction.receiptNumber, total: Number(transaction.total), reason },
+      });
+
+      // Sold items come back into stock and restocked returns go out again
+      const stockItems = transaction.items.filter(
+        (item) => !item.disposition || item.disposition === 'RESTOCK'
+      );
+      for (const item of stockItems) {
+        await tx.inventoryLevel.updateMany({
+          where: {
+            itemId: item.itemId,
+            locationId: transaction.locationId,
+          },
+          data: {
+            quantityOnHand: { increment: Number(item.quantity) },
+            quantityAvailable: { increment: Number(item.quantity) },
+          },
+        });
+      }
+
+      await reverseRefunds(tx, transaction.id);
+
+      // Gift cards the sale sold are taken back off the cards
+      await reverseGiftCardLoads(tx, tenantId, transaction.id, req.user!.id);
+
+      // Coupons the sale used can be used again
+      await tx.couponRedemption.deleteMany({ where: { transactionId: transaction.id } });
+
+      // Store credit issued by a return is taken back
+      const issuedCredit = transaction.payments
+        .filter((payment) => payment.method === 'STORE_CREDIT' && Number(payment.amount) < 0)
+        .map((payment) => ({ method: payment.method, amount: -Number(payment.amount) }));
+      await applyStoreCredit(tx, transaction.customerId ?? undefined, issuedCredit);
+
+      // Never give back more than the total, whatever was tendered. Cash goes
+      // last since it may include change not recorded by offline registers.
+      const paid = transaction.payments.filter((payment) => Number(payment.amount) > 0);
+      let due = roundMoney(
+        paid.reduce((sum, payment) => sum - Number(payment.refundedAmount), Number(transaction.total))
+      );
+
+      const refunds: Refund[] = [];
+      for (const payment of [...paid].sort((a, b) => Number(a.method === 'CASH') - Number(b.method === 'CASH'))) {
+        const amount = Math.min(refundableAmount(payment), due);
+        if (payment.status === 'COMPLETED' && amount > 0) {
+          due = roundMoney(due - amount);
+          refunds.push(
+            await reserveRefund(tx, payment.id, {
+              tenantId,
+              userId: req.user!.id,
+              amount,
+              reason: `Void: ${reason}`,
+              transactionId: transaction.id,
+            })
+          );
+        }
+      }
+
+      return refunds;
+    });
+
+    const refunds: Refund[] = [];
+    for (const refund of reserved) {
+      refunds.push(await settleRefund(prisma, refund));
     }
 
     res.json({
       success: true,
       data: {
         transaction: {
-          id: voidedTransaction.id,
-          status: voidedTransaction.status.toLowerCase(),
+          id: transaction.id,
+          status: 'voided',
         },
+        refunds: refunds.map(formatRefund),
       },
     });
   } catch (error) {
@@ -333,15 +1180,24 @@ router.post('/:id/void', async (req: AuthenticatedRequest, res: Response, next:
   }
 });
 
-// Sync transaction (for offline transactions)
-router.post('/sync', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// Sync a sale made offline. It goes through the same checks as a sale made
+// online, as of when the register made it.
+router.post('/sync', requirePermission('pos.sell'), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const transactionData = req.body;
+    const { id, createdAt, items = [], payments = [] } = req.body as {
+      id?: string;
+      createdAt?: string;
+      items?: CreateTransactionLine[];
+      payments?: CreateTransactionPayment[];
+    };
     const tenantId = req.user!.tenantId!;
 
-    // Check if transaction already exists
+    if (!id) {
+      throw new ValidationError('Offline sales need their id');
+    }
+
     const existing = await prisma.transaction.findFirst({
-      where: { id: transactionData.id, tenantId },
+      where: { id, tenantId },
     });
 
     if (existing) {
@@ -355,37 +1211,15 @@ router.post('/sync', async (req: AuthenticatedRequest, res: Response, next: Next
       return;
     }
 
-    // Create the transaction
-    const transaction = await prisma.transaction.create({
-      data: {
-        id: transactionData.id,
-        tenantId,
-        type: transactionData.type.toUpperCase() as TransactionType,
-        status: 'SYNCED' as TransactionStatus,
-        registerId: transactionData.registerId,
-        locationId: transactionData.locationId,
-        userId: req.user!.id,
-        customerId: transactionData.customerId,
-        receiptNumber: transactionData.receiptNumber,
-        subtotal: transactionData.subtotal,
-        taxTotal: transactionData.taxTotal,
-        discountTotal: transactionData.discountTotal,
-        total: transactionData.total,
-        notes: transactionData.notes,
-        syncedAt: new Date(),
-        createdAt: new Date(transactionData.createdAt),
-        items: {
-          create: transactionData.items,
-        },
-        payments: {
-          create: transactionData.payments.map((p: { method: string }) => ({
-            ...p,
-            method: p.method.toUpperCase() as PaymentMethod,
-            status: 'COMPLETED' as PaymentStatus,
-          })),
-        },
-      },
-    });
+    // Gift card balances can only be checked online
+    if (
+      items.some((line) => line.giftCardNumber) ||
+      payments.some((payment) => payment.method.toUpperCase() === 'GIFT_CARD')
+    ) {
+      throw new ValidationError('Gift card sales and payments can\'t be recorded offline');
+    }
+
+    const { transaction } = await recordTransaction(req, { soldAt: offlineSaleTime(createdAt) });
 
     res.json({
       success: true,
@@ -399,11 +1233,4 @@ router.post('/sync', async (req: AuthenticatedRequest, res: Response, next: Next
   }
 });
 
-function generateReceiptNumber(): string {
-  const date = new Date();
-  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-  return `${dateStr}-${random}`;
-}
-
 export default router;
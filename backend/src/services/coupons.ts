@@ -0,0 +1,106 @@
+import { Coupon, Prisma } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { lockRow } from './tenantScope.js';
+
+// Coupons take a percent or an amount off the cart, worked out by
+// shared/src/coupons.ts like the register does.
+
+export interface CouponUse {
+  locationId: string;
+  customerId?: string | null;
+  // What the sold lines come to after line discounts
+  spend: number;
+  at: Date;
+}
+
+// Codes are matched in upper case, so customers can type them either way
+export const normalizeCouponCode = (code: unknown): string => String(code ?? '').trim().toUpperCase();
+
+// Whether a coupon has uses left, overall and for the customer
+async function checkLimits(
+  db: Prisma.TransactionClient,
+  coupon: Coupon,
+  customerId: string | null | undefined
+): Promise<void> {
+  if (coupon.maxRedemptions !== null) {
+    const used = await db.couponRedemption.count({ where: { couponId: coupon.id } });
+    if (used >= coupon.maxRedemptions) {
+      throw new ValidationError(
+        coupon.maxRedemptions === 1 ? `Coupon ${coupon.code} has already been used` : `Coupon ${coupon.code} has been used up`
+      );
+    }
+  }
+
+  if (coupon.perCustomerLimit !== null) {
+    if (!customerId) {
+      throw new ValidationError(`Add the customer to the sale to use coupon ${coupon.code}`);
+    }
+    const used = await db.couponRedemption.count({ where: { couponId: coupon.id, customerId } });
+    if (used >= coupon.perCustomerLimit) {
+      throw new ValidationError(`This customer has already used coupon ${coupon.code}`);
+    }
+  }
+}
+
+// The coupon for a code, if it can be used on this sale
+export async function findUsableCoupon(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  code: unknown,
+  use: CouponUse
+): Promise<Coupon> {
+  const normalized = normalizeCouponCode(code);
+  const coupon = normalized
+    ? await db.coupon.findUnique({ where: { tenantId_code: { tenantId, code: normalized } } })
+    : null;
+
+  if (!coupon || !coupon.isActive) {
+    throw new NotFoundError(`Coupon ${normalized} not found`);
+  }
+  if (coupon.startsAt && use.at < coupon.startsAt) {
+    throw new ValidationError(`Coupon ${coupon.code} can't be used until ${coupon.startsAt.toISOString().slice(0, 10)}`);
+  }
+  if (coupon.expiresAt && use.at >= coupon.expiresAt) {
+    throw new ValidationError(`Coupon ${coupon.code} has expired`);
+  }
+  if (coupon.locationIds.length > 0 && !coupon.locationIds.includes(use.locationId)) {
+    throw new ValidationError(`Coupon ${coupon.code} can't be used at this store`);
+  }
+  if (coupon.customerId && coupon.customerId !== use.customerId) {
+    throw new ValidationError(`Coupon ${coupon.code} can only be used by the customer it was sent to`);
+  }
+  if (coupon.minimumSpend !== null && use.spend < Number(coupon.minimumSpend)) {
+    throw new ValidationError(
+      `Coupon ${coupon.code} needs a spend of at least ${Number(coupon.minimumSpend).toFixed(2)}`
+    );
+  }
+
+  await checkLimits(db, coupon, use.customerId);
+
+  return coupon;
+}
+
+// Record the coupons a sale used. Each coupon is locked and its limits
+// checked again first, so two registers can't both take its last use.
+export async function redeemCoupons(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  redemptions: { coupon: Coupon; amount: number }[],
+  transactionId: string,
+  customerId: string | null | undefined
+): Promise<void> {
+  for (const { coupon, amount } of redemptions) {
+    await lockRow(tx, 'Coupon', coupon.id);
+    await checkLimits(tx, coupon, customerId);
+
+    await tx.couponRedemption.create({
+      data: {
+        tenantId,
+        couponId: coupon.id,
+        transactionId,
+        customerId,
+        amount,
+      },
+    });
+  }
+}
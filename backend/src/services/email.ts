@@ -213,3 +213,98 @@ This link will expire in 1 hour. If you didn't request a password reset, you can
     console.log('='.repeat(60));
   }
 }
+
+interface CouponEmailParams {
+  to: string;
+  firstName: string;
+  companyName: string;
+  code: string;
+  offer: string;
+  expiresAt: Date | null;
+}
+
+export async function sendCouponEmail({
+  to,
+  firstName,
+  companyName,
+  code,
+  offer,
+  expiresAt,
+}: CouponEmailParams): Promise<void> {
+  const subject = `${offer} at ${companyName}`;
+  const expiry = expiresAt ? `Valid until ${expiresAt.toDateString()}.` : '';
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${offer}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">${companyName}</h1>
+      </div>
+
+      <div style="background: #ffffff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+        <h2 style="color: #333; margin-top: 0;">${offer}</h2>
+
+        <p style="font-size: 16px; color: #555;">
+          Hi ${firstName},
+        </p>
+
+        <p style="font-size: 16px; color: #555;">
+          Show this code at the register to use your coupon:
+        </p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <span style="display: inline-block; border: 2px dashed #667eea; padding: 14px 30px; border-radius: 8px; font-weight: 600; font-size: 24px; letter-spacing: 2px;">
+            ${code}
+          </span>
+        </div>
+
+        <p style="font-size: 13px; color: #888; margin-bottom: 0;">
+          ${expiry} This coupon is for you only and can't be exchanged for cash.
+        </p>
+      </div>
+
+      <div style="text-align: center; padding: 20px; color: #888; font-size: 12px;">
+        <p>&copy; ${new Date().getFullYear()} ${companyName}. All rights reserved.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const textContent = `
+${offer}
+
+Hi ${firstName},
+
+Show this code at the register to use your coupon:
+
+${code}
+
+${expiry} This coupon is for you only and can't be exchanged for cash.
+
+- ${companyName}
+  `;
+
+  if (resend) {
+    await resend.emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to,
+      subject,
+      html: htmlContent,
+      text: textContent,
+    });
+  } else {
+    console.log('='.repeat(60));
+    console.log('EMAIL WOULD BE SENT (Resend not configured):');
+    console.log('='.repeat(60));
+    console.log(`To: ${to}`);
+    console.log(`Subject: ${subject}`);
+    console.log(`Coupon code: ${code}`);
+    console.log('='.repeat(60));
+  }
+}
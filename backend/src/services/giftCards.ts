@@ -0,0 +1,189 @@
+import { GiftCard, GiftCardEntryType, Prisma } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { lockRow } from './tenantScope.js';
+import { roundMoney } from 'shared/totals';
+
+// Gift card balances only change through moveGiftCardBalance, so every
+// change is in the card's ledger (GiftCardEntry) with the balance after it.
+
+interface EntryInput {
+  tenantId: string;
+  type: GiftCardEntryType;
+  // Sale, return or void moving the balance
+  transactionId?: string;
+  userId?: string;
+  note?: string;
+}
+
+// Numbers are matched without spaces and in upper case, however they were keyed in
+export const normalizeGiftCardNumber = (number: unknown): string =>
+  String(number ?? '').replace(/\s+/g, '').toUpperCase();
+
+const GIFT_CARD_NUMBER = /^[A-Z0-9-]{4,40}$/;
+
+// A number for a new card, normalized
+export function parseGiftCardNumber(number: unknown): string {
+  const normalized = normalizeGiftCardNumber(number);
+  if (!GIFT_CARD_NUMBER.test(normalized)) {
+    throw new ValidationError('Gift card numbers are 4 to 40 letters, digits and dashes');
+  }
+  return normalized;
+}
+
+// Enough of a number for a cashier or receipt to tell cards apart
+export const maskGiftCardNumber = (number: string): string => `****${number.slice(-4)}`;
+
+// When a card sold now expires, from the tenant's gift card expiry setting
+export function giftCardExpiry(months: number, from = new Date()): Date | null {
+  if (months <= 0) return null;
+  const expiresAt = new Date(from);
+  expiresAt.setMonth(expiresAt.getMonth() + months);
+  return expiresAt;
+}
+
+// Throws unless the card can be spent or reloaded
+export function checkGiftCardUsable(card: GiftCard, at = new Date()): void {
+  if (!card.isActive) {
+    throw new ValidationError(`Gift card ${maskGiftCardNumber(card.number)} is not active`);
+  }
+  if (card.expiresAt && at >= card.expiresAt) {
+    throw new ValidationError(`Gift card ${maskGiftCardNumber(card.number)} has expired`);
+  }
+}
+
+// Lock a card for the rest of the transaction so concurrent sales can't both
+// spend its balance
+export async function lockGiftCard(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  number: string
+): Promise<GiftCard | null> {
+  const card = await tx.giftCard.findFirst({ where: { tenantId, number }, select: { id: true } });
+  if (!card || !(await lockRow(tx, 'GiftCard', card.id))) {
+    return null;
+  }
+  return tx.giftCard.findUniqueOrThrow({ where: { id: card.id } });
+}
+
+// Add to a card's balance, or take from it with a negative amount, and record
+// it in the ledger. Returns null if the card doesn't have enough left.
+export async function moveGiftCardBalance(
+  tx: Prisma.TransactionClient,
+  giftCardId: string,
+  amount: number,
+  input: EntryInput
+): Promise<GiftCard | null> {
+  const { count } = await tx.giftCard.updateMany({
+    where: { id: giftCardId, tenantId: input.tenantId, ...(amount < 0 && { balance: { gte: -amount } }) },
+    data: { balance: { increment: amount } },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  const card = await tx.giftCard.findUniqueOrThrow({ where: { id: giftCardId } });
+  await tx.giftCardEntry.create({
+    data: {
+      tenantId: input.tenantId,
+      giftCardId,
+      type: input.type,
+      amount,
+      balance: card.balance,
+      transactionId: input.transactionId,
+      userId: input.userId,
+      note: input.note,
+    },
+  });
+
+  return card;
+}
+
+// Put the amount a card was sold for on it. A new number is activated; a card
+// already issued is reloaded.
+export async function loadGiftCard(
+  tx: Prisma.TransactionClient,
+  number: string,
+  amount: number,
+  input: Omit<EntryInput, 'type'> & { customerId?: string | null; expiresAt: Date | null }
+): Promise<GiftCard> {
+  const { customerId, expiresAt, ...entry } = input;
+  const existing = await lockGiftCard(tx, input.tenantId, number);
+
+  if (existing) {
+    checkGiftCardUsable(existing);
+  }
+
+  const card = existing ?? await tx.giftCard.create({
+    data: { tenantId: input.tenantId, number, balance: 0, originalAmount: amount, expiresAt, customerId },
+  });
+
+  return (await moveGiftCardBalance(tx, card.id, amount, {
+    ...entry,
+    type: existing ? 'RELOAD' : 'ACTIVATION',
+  }))!;
+}
+
+// The card each gift card payment is taken from, locked until the sale is
+// saved. Balances are checked across payments on the same card.
+export async function lockGiftCardPayments(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  payments: { method: string; amount: number; giftCardNumber?: string }[]
+): Promise<(GiftCard | undefined)[]> {
+  const owed = new Map<string, number>();
+  const cards: (GiftCard | undefined)[] = [];
+
+  for (const payment of payments) {
+    if (payment.method.toUpperCase() !== 'GIFT_CARD' || !(Number(payment.amount) > 0)) {
+      cards.push(undefined);
+      continue;
+    }
+
+    const number = normalizeGiftCardNumber(payment.giftCardNumber);
+    const card = number ? await lockGiftCard(tx, tenantId, number) : null;
+    if (!card) {
+      throw new NotFoundError(number ? `Gift card ${maskGiftCardNumber(number)} not found` : 'Gift card payments need a card number');
+    }
+    checkGiftCardUsable(card);
+
+    const total = roundMoney((owed.get(card.id) ?? 0) + Number(payment.amount));
+    if (total > Number(card.balance)) {
+      throw new ValidationError(
+        `Gift card ${maskGiftCardNumber(card.number)} only has ${Number(card.balance).toFixed(2)} left`
+      );
+    }
+    owed.set(card.id, total);
+    cards.push(card);
+  }
+
+  return cards;
+}
+
+// Take back what a voided sale put on gift cards. A card sold by the sale is
+// deactivated again; one already spent can't be voided.
+export async function reverseGiftCardLoads(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  transactionId: string,
+  userId: string
+): Promise<void> {
+  const loads = await tx.giftCardEntry.findMany({
+    where: { transactionId, type: { in: ['ACTIVATION', 'RELOAD'] } },
+    include: { giftCard: { select: { number: true } } },
+  });
+
+  for (const load of loads) {
+    const card = await moveGiftCardBalance(tx, load.giftCardId, -Number(load.amount), {
+      tenantId,
+      type: 'VOID',
+      transactionId,
+      userId,
+    });
+    if (!card) {
+      throw new ValidationError(`Gift card ${maskGiftCardNumber(load.giftCard.number)} has already been spent`);
+    }
+    if (load.type === 'ACTIVATION') {
+      await tx.giftCard.update({ where: { id: card.id }, data: { isActive: false } });
+    }
+  }
+}
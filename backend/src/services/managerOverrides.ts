@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { ManagerOverrideAction, Prisma } from '@prisma/client';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ValidationError,
+} from '../middleware/errorHandler.js';
+import { Permission, permissionsFor } from './permissions.js';
+import { assertPinNotLocked } from './pinLockout.js';
+
+// Sensitive POS actions a cashier needs a manager to approve. Each tenant
+// picks which actions need approval and, for discounts and returns, the size
+// above which they do. Anyone with the override.approve permission approves at
+// the register with their PIN or badge, and the approval is good for one use
+// by the cashier who asked, up to the discount or refund they approved. They
+// never need approval themselves.
+
+export interface OverrideRule {
+  required: boolean;
+  // Discounts: percent off a line or the cart. Returns: amount refunded.
+  threshold?: number;
+}
+
+export type OverridePolicy = Record<ManagerOverrideAction, OverrideRule>;
+
+export const DEFAULT_OVERRIDE_POLICY: OverridePolicy = {
+  VOID: { required: true },
+  DISCOUNT: { required: true, threshold: 10 },
+  PRICE_OVERRIDE: { required: true },
+  NO_SALE: { required: true },
+  RETURN: { required: true, threshold: 100 },
+};
+
+const THRESHOLD_ACTIONS: ManagerOverrideAction[] = ['DISCOUNT', 'RETURN'];
+
+const APPROVAL_TTL_MS = 15 * 60 * 1000;
+
+// Registers and the server round discount percentages and refunds differently
+const VALUE_TOLERANCE = 0.01;
+
+const ACTION_LABELS: Record<ManagerOverrideAction, string> = {
+  VOID: 'void a transaction',
+  DISCOUNT: 'give this discount',
+  PRICE_OVERRIDE: 'override a price',
+  NO_SALE: 'open the drawer without a sale',
+  RETURN: 'refund this return',
+};
+
+export const hashBadge = (badge: string) =>
+  crypto.createHash('sha256').update(badge.trim()).digest('hex');
+
+export function parseOverrideAction(action: unknown): ManagerOverrideAction {
+  const value = String(action || '').toUpperCase() as ManagerOverrideAction;
+  if (!Object.values(ManagerOverrideAction).includes(value)) {
+    throw new ValidationError(`Unknown override action: ${action}`);
+  }
+  return value;
+}
+
+// Stored policy merged over the defaults, so actions added later start out
+// needing approval
+export function parseOverridePolicy(stored: Prisma.JsonValue): OverridePolicy {
+  const rules = (stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {}) as
+    Record<string, Partial<OverrideRule>>;
+
+  return Object.fromEntries(
+    Object.values(ManagerOverrideAction).map((action) => [
+      action,
+      { ...DEFAULT_OVERRIDE_POLICY[action], ...rules[action] },
+    ])
+  ) as OverridePolicy;
+}
+
+// Check a policy sent by the settings screen, keyed by lowercase action
+export function validateOverridePolicy(input: unknown): OverridePolicy {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Policy must be an object of rules by action');
+  }
+
+  const policy = { ...DEFAULT_OVERRIDE_POLICY };
+  for (const [key, rule] of Object.entries(input as Record<string, Partial<OverrideRule>>)) {
+    const action = parseOverrideAction(key);
+    const threshold = rule?.threshold === undefined || rule.threshold === null
+      ? undefined
+      : Number(rule.threshold);
+
+    if (threshold !== undefined && (!THRESHOLD_ACTIONS.includes(action) || !(threshold >= 0))) {
+      throw new ValidationError(`Invalid threshold for ${key}`);
+    }
+    if (action === 'DISCOUNT' && threshold !== undefined && threshold > 100) {
+      throw new ValidationError('Discount threshold is a percentage');
+    }
+
+    policy[action] = {
+      required: Boolean(rule?.required),
+      threshold: THRESHOLD_ACTIONS.includes(action) ? threshold ?? 0 : undefined,
+    };
+  }
+  return policy;
+}
+
+export const formatOverridePolicy = (policy: OverridePolicy) =>
+  Object.fromEntries(
+    Object.entries(policy).map(([action, rule]) => [action.toLowerCase(), rule])
+  );
+
+export function needsApproval(
+  policy: OverridePolicy,
+  permissions: Permission[],
+  action: ManagerOverrideAction,
+  value = 0
+): boolean {
+  const rule = policy[action];
+  if (permissions.includes('override.approve') || !rule.required) {
+    return false;
+  }
+  return rule.threshold === undefined || value > rule.threshold;
+}
+
+// Check a manager's PIN or badge and record their approval. A PIN is checked
+// against the manager picked at the register, and is locked after too many
+// wrong tries like a PIN for switching users. The manager must be able to
+// approve overrides and work at the cashier's location or at every location.
+export async function approveOverride(
+  db: Prisma.TransactionClient,
+  request: {
+    tenantId: string;
+    locationId?: string | null;
+    requestedById: string;
+    action: ManagerOverrideAction;
+    approverId?: string;
+    pin?: string;
+    badge?: string;
+    // Discount percent or refund amount being approved
+    value?: number;
+    details?: Prisma.InputJsonValue;
+  }
+) {
+  const { tenantId, locationId, requestedById, action, approverId, pin, badge, details } = request;
+
+  if (!pin && !badge) {
+    throw new ValidationError('A manager PIN or badge is required');
+  }
+  if (pin && !badge && !approverId) {
+    throw new ValidationError('Choose the approving manager');
+  }
+
+  const value = THRESHOLD_ACTIONS.includes(action) ? Number(request.value) : undefined;
+  if (value !== undefined && !(value >= 0)) {
+    throw new ValidationError('The discount or refund being approved is required');
+  }
+
+  if (!badge) {
+    await assertPinNotLocked(db, tenantId, approverId!);
+  }
+
+  const candidates = (
+    await db.user.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        ...(locationId ? { OR: [{ locationId: null }, { locationId }] } : {}),
+        ...(badge ? { badgeHash: hashBadge(badge) } : { id: approverId, pinHash: { not: null } }),
+      },
+      include: { customRole: { select: { permissions: true } } },
+    })
+  ).filter((user) => permissionsFor(user.role, user.customRole).includes('override.approve'));
+
+  const [candidate] = candidates;
+  const approver = badge || (candidate && await bcrypt.compare(String(pin), candidate.pinHash!))
+    ? candidate
+    : undefined;
+
+  if (!approver) {
+    await db.auditLog.create({
+      data: {
+        tenantId,
+        userId: requestedById,
+        action: 'MANAGER_OVERRIDE_DENIED',
+        // A wrong PIN counts towards locking the manager's PIN
+        entityType: badge ? 'ManagerApproval' : 'User',
+        entityId: badge ? requestedById : approverId!,
+        newValue: { action, method: badge ? 'badge' : 'pin' },
+      },
+    });
+    throw new AuthenticationError(badge ? 'Badge not recognized' : 'Invalid manager PIN');
+  }
+
+  const approval = await db.managerApproval.create({
+    data: {
+      tenantId,
+      action,
+      requestedById,
+      approvedById: approver.id,
+      method: badge ? 'BADGE' : 'PIN',
+      details,
+      value,
+      expiresAt: new Date(Date.now() + APPROVAL_TTL_MS),
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      tenantId,
+      userId: approver.id,
+      action: 'MANAGER_OVERRIDE_APPROVED',
+      entityType: 'ManagerApproval',
+      entityId: approval.id,
+      newValue: { action, requestedById, method: approval.method, value, details },
+    },
+  });
+
+  return { approval, approver };
+}
+
+// Make sure an action the policy restricts carries an unused approval for it
+// that covers the value, and use the approval up. The audit entry names both cashier and approver.
+export async function requireApproval(
+  tx: Prisma.TransactionClient,
+  request: {
+    tenantId: string;
+    userId: string;
+    permissions: Permission[];
+    action: ManagerOverrideAction;
+    value?: number;
+    approvalIds?: string[];
+    entityType: string;
+    entityId: string;
+    details?: Prisma.InputJsonObject;
+  }
+): Promise<void> {
+  const { tenantId, userId, permissions, action, value, approvalIds = [], entityType, entityId, details } = request;
+
+  const tenant = await tx.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    select: { managerOverridePolicy: true },
+  });
+
+  if (!needsApproval(parseOverridePolicy(tenant.managerOverridePolicy), permissions, action, value)) {
+    return;
+  }
+
+  const approval = await tx.managerApproval.findFirst({
+    where: {
+      id: { in: approvalIds },
+      tenantId,
+      action,
+      requestedById: userId,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+      ...(value !== undefined && { value: { gte: value - VALUE_TOLERANCE } }),
+    },
+    // The smallest approval that covers it, leaving larger ones for later
+    orderBy: { value: 'asc' },
+  });
+
+  const { count } = approval
+    ? await tx.managerApproval.updateMany({
+        where: { id: approval.id, usedAt: null },
+        data: { usedAt: new Date(), entityId },
+      })
+    : { count: 0 };
+
+  if (!approval || count === 0) {
+    throw new AuthorizationError(`Manager approval is required to ${ACTION_LABELS[action]}`);
+  }
+
+  await tx.auditLog.create({
+    data: {
+      tenantId,
+      userId,
+      action: 'MANAGER_OVERRIDE_USED',
+      entityType,
+      entityId,
+      newValue: {
+        ...details,
+        action,
+        value,
+        approvalId: approval.id,
+        approvedById: approval.approvedById,
+      },
+    },
+  });
+}
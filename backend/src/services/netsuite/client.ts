@@ -1,9 +1,21 @@
 import crypto from 'crypto';
 import OAuth from 'oauth-1.0a';
-import { PrismaClient } from '@prisma/client';
+import { ValidationError } from '../../middleware/errorHandler.js';
 import { logger } from '../../utils/logger.js';
+import { decrypt } from '../../utils/encryption.js';
+import { resolveItemIds, resolveLocationId, resolvePaymentMethodIds } from './mapping.js';
+import { NetSuitePriceLevel, replacePriceLevels } from './priceLevels.js';
+import {
+  NetSuiteCustomerValues,
+  TRACKED_CUSTOMER_FIELDS,
+  applyNetSuiteCustomer,
+  trackedValues,
+} from './customerConflicts.js';
+import { NetSuiteHttpError, getScheduler } from './scheduler.js';
+import { createPrismaClient } from '../tenantScope.js';
+import { roundMoney } from 'shared/totals';
 
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 interface NetSuiteConfig {
   accountId: string;
@@ -12,6 +24,8 @@ interface NetSuiteConfig {
   tokenId: string;
   tokenSecret: string;
   restletUrl: string;
+  adjustmentAccountId: string | null;
+  concurrencyLimit: number;
 }
 
 interface NetSuiteResponse<T> {
@@ -20,26 +34,130 @@ interface NetSuiteResponse<T> {
   error?: string;
 }
 
+// Paging fields returned by the RESTlet's list actions
+interface PagedResult {
+  page: number;
+  pageCount: number;
+  hasMore: boolean;
+}
+
+export type SyncEntity = 'items' | 'customers' | 'inventory';
+
+export interface NetSuiteSubsidiary {
+  internalId: string;
+  name: string;
+  parentId: string | null;
+}
+
+export interface NetSuiteLocation {
+  internalId: string;
+  name: string;
+  subsidiary: string | null;
+  subsidiaryId: string | null;
+  address: string | null;
+}
+
+// A NetSuite location the owner chose to use, as a new POS location or
+// linked to an existing one
+export interface LocationImport {
+  netsuiteId: string;
+  locationId?: string;
+}
+
+interface NetSuiteCustomer {
+  internalId: string;
+  entityId: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  companyName: string | null;
+  priceLevel: string | null;
+  creditLimit: number;
+  balance: number;
+  lastModified: string | null;
+}
+
+const toCustomerValues = (customer: NetSuiteCustomer): NetSuiteCustomerValues => ({
+  firstName: customer.firstName,
+  lastName: customer.lastName,
+  email: customer.email,
+  phone: customer.phone,
+  company: customer.companyName,
+  priceLevel: customer.priceLevel || null,
+  creditLimit: customer.creditLimit,
+  balance: customer.balance,
+});
+
+export interface SyncOptions {
+  // Ignore the stored cursor and pull every record
+  full?: boolean;
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 500;
+// Item ids per getPriceLevels call, keeping the query string short
+const PRICE_LEVEL_BATCH_SIZE = 100;
+
 export class NetSuiteClient {
-  private config: NetSuiteConfig;
-  private oauth: OAuth;
-  private tenantId?: string;
+  private config: NetSuiteConfig | null = null;
+  private oauth: OAuth | null = null;
+  private tenantId: string;
 
-  constructor(tenantId?: string) {
+  constructor(tenantId: string) {
     this.tenantId = tenantId;
-    this.config = {
-      accountId: process.env.NETSUITE_ACCOUNT_ID || '',
-      consumerKey: process.env.NETSUITE_CONSUMER_KEY || '',
-      consumerSecret: process.env.NETSUITE_CONSUMER_SECRET || '',
-      tokenId: process.env.NETSUITE_TOKEN_ID || '',
-      tokenSecret: process.env.NETSUITE_TOKEN_SECRET || '',
-      restletUrl: process.env.NETSUITE_RESTLET_URL || '',
+  }
+
+  // Load and decrypt the tenant's credentials once per client instance
+  private async getConfig(): Promise<NetSuiteConfig> {
+    if (this.config) {
+      return this.config;
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: this.tenantId },
+      select: {
+        netsuiteAccountId: true,
+        netsuiteConsumerKey: true,
+        netsuiteConsumerSecret: true,
+        netsuiteTokenId: true,
+        netsuiteTokenSecret: true,
+        netsuiteRestletUrl: true,
+        netsuiteAdjustmentAccountId: true,
+        netsuiteConcurrencyLimit: true,
+      },
+    });
+
+    if (!tenant) {
+      throw new Error('Tenant not found');
+    }
+
+    if (
+      !tenant.netsuiteAccountId ||
+      !tenant.netsuiteRestletUrl ||
+      !tenant.netsuiteConsumerKey ||
+      !tenant.netsuiteConsumerSecret ||
+      !tenant.netsuiteTokenId ||
+      !tenant.netsuiteTokenSecret
+    ) {
+      throw new Error('NetSuite credentials are not configured for this account');
+    }
+
+    const config: NetSuiteConfig = {
+      accountId: tenant.netsuiteAccountId,
+      consumerKey: decrypt(tenant.netsuiteConsumerKey),
+      consumerSecret: decrypt(tenant.netsuiteConsumerSecret),
+      tokenId: decrypt(tenant.netsuiteTokenId),
+      tokenSecret: decrypt(tenant.netsuiteTokenSecret),
+      restletUrl: tenant.netsuiteRestletUrl,
+      adjustmentAccountId: tenant.netsuiteAdjustmentAccountId,
+      concurrencyLimit: tenant.netsuiteConcurrencyLimit,
     };
 
     this.oauth = new OAuth({
       consumer: {
-        key: this.config.consumerKey,
-        secret: this.config.consumerSecret,
+        key: config.consumerKey,
+        secret: config.consumerSecret,
       },
       signature_method: 'HMAC-SHA256',
       hash_function(base_string, key) {
@@ -49,21 +167,24 @@ export class NetSuiteClient {
           .digest('base64');
       },
     });
+    this.config = config;
+
+    return config;
   }
 
-  private getAuthHeader(url: string, method: string): string {
+  private getAuthHeader(config: NetSuiteConfig, url: string, method: string): string {
     const requestData = {
       url,
       method,
     };
 
     const token = {
-      key: this.config.tokenId,
-      secret: this.config.tokenSecret,
+      key: config.tokenId,
+      secret: config.tokenSecret,
     };
 
-    const authorization = this.oauth.authorize(requestData, token);
-    const realm = this.config.accountId.replace('-', '_').toUpperCase();
+    const authorization = this.oauth!.authorize(requestData, token);
+    const realm = config.accountId.replace('-', '_').toUpperCase();
 
     const authParts = [
       `OAuth realm="${realm}"`,
@@ -79,24 +200,16 @@ export class NetSuiteClient {
     return authParts.join(', ');
   }
 
-  async testConnection(): Promise<boolean> {
-    try {
-      if (!this.config.restletUrl) {
-        logger.warn('NetSuite RESTlet URL not configured');
-        return false;
-      }
+  // Calls the RESTlet's testConnection action with the tenant's credentials
+  async testConnection(): Promise<{ connected: boolean; message?: string; error?: string }> {
+    const response = await this.request<{ message?: string }>('testConnection');
 
-      // In a real implementation, this would make an API call
-      // For now, just check if config is present
-      return !!(
-        this.config.accountId &&
-        this.config.consumerKey &&
-        this.config.tokenId
-      );
-    } catch (error) {
-      logger.error('NetSuite connection test failed:', error);
-      return false;
+    if (!response.success) {
+      logger.warn(`NetSuite connection test failed for tenant ${this.tenantId}: ${response.error}`);
+      return { connected: false, error: response.error };
     }
+
+    return { connected: true, message: response.data?.message };
   }
 
   async request<T>(
@@ -105,23 +218,14 @@ export class NetSuiteClient {
     data?: Record<string, unknown>
   ): Promise<NetSuiteResponse<T>> {
     try {
-      const url = `${this.config.restletUrl}?action=${action}`;
-      const authHeader = this.getAuthHeader(url, method);
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: authHeader,
-        },
-        body: method === 'POST' ? JSON.stringify(data) : undefined,
-      });
+      const config = await this.getConfig();
+      const scheduler = getScheduler(this.tenantId);
+      scheduler.setConcurrencyLimit(config.concurrencyLimit);
 
-      if (!response.ok) {
-        throw new Error(`NetSuite API error: ${response.status}`);
-      }
+      const result = await scheduler.execute(method, (signal) =>
+        this.send<T>(config, action, method, data, signal)
+      );
 
-      const result = await response.json() as T;
       return { success: true, data: result };
     } catch (error) {
       logger.error('NetSuite request failed:', error);
@@ -132,208 +236,498 @@ export class NetSuiteClient {
     }
   }
 
-  async syncItems(): Promise<{ count: number }> {
-    try {
-      if (!this.tenantId) {
-        throw new Error('TenantId is required for item sync');
+  // One HTTP attempt. Each attempt is signed afresh, since OAuth nonces are single use.
+  private async send<T>(
+    config: NetSuiteConfig,
+    action: string,
+    method: 'GET' | 'POST',
+    data: Record<string, unknown> | undefined,
+    signal: AbortSignal
+  ): Promise<T> {
+    // The deployment URL already carries script/deploy query params
+    const requestUrl = new URL(config.restletUrl);
+    requestUrl.searchParams.set('action', action);
+
+    // GET RESTlets only receive query parameters
+    if (method === 'GET' && data) {
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined && value !== null) {
+          requestUrl.searchParams.set(key, String(value));
+        }
       }
+    }
+    const url = requestUrl.toString();
+    const authHeader = this.getAuthHeader(config, url, method);
 
-      const response = await this.request<{
-        items: Array<{
-          internalId: string;
-          itemId: string;
-          displayName: string;
-          description: string;
-          upcCode: string;
-          salesPrice: number;
-          cost: number;
-          isInactive: boolean;
-        }>;
-      }>('getItems');
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: authHeader,
+      },
+      body: method === 'POST' ? JSON.stringify(data) : undefined,
+      signal,
+    });
 
-      if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to fetch items');
+    if (!response.ok) {
+      // NetSuite error bodies look like { error: { code, message } }
+      const body = await response.json().catch(() => null) as { error?: { code?: string; message?: string } } | null;
+      const retryAfter = Number(response.headers.get('retry-after'));
+
+      throw new NetSuiteHttpError(
+        `NetSuite API error: ${response.status}${body?.error?.message ? ` ${body.error.message}` : ''}`,
+        response.status,
+        body?.error?.code,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+
+    const result = await response.json() as T & { success?: boolean; error?: string };
+
+    // RESTlets report business errors with a 200 and { success: false }
+    if (result && result.success === false) {
+      const message = result.error || `NetSuite action ${action} failed`;
+
+      // Governance limits hit inside the script surface the same way
+      if (message.includes('SSS_REQUEST_LIMIT_EXCEEDED')) {
+        throw new NetSuiteHttpError(message, response.status, 'SSS_REQUEST_LIMIT_EXCEEDED');
       }
+      throw new Error(message);
+    }
 
-      const items = response.data.items;
+    return result;
+  }
 
-      for (const item of items) {
-        await prisma.item.upsert({
-          where: {
-            tenantId_netsuiteId: {
+  // Pull a RESTlet list action page by page from the tenant's cursor. Pages are
+  // ordered by lastModified, so the cursor is saved after every page and a run
+  // that times out resumes where it stopped instead of starting over.
+  private async pullPages<T extends object>(
+    entity: SyncEntity,
+    action: string,
+    listKey: string,
+    options: SyncOptions & { params?: Record<string, unknown> },
+    handlePage: (records: T[]) => Promise<void>
+  ): Promise<{ count: number }> {
+    const where = { tenantId_entity: { tenantId: this.tenantId, entity } };
+    const startedAt = new Date();
+
+    const state = await prisma.syncCursor.upsert({
+      where,
+      update: { lastAttemptAt: startedAt },
+      create: { tenantId: this.tenantId, entity, lastAttemptAt: startedAt },
+    });
+
+    const since = options.full ? null : state.cursor;
+    let cursor = since;
+    let count = 0;
+    let page = 0;
+
+    try {
+      for (;;) {
+        const response = await this.request<PagedResult & Record<string, unknown>>(action, 'GET', {
+          ...options.params,
+          lastModified: since?.toISOString(),
+          pageSize: options.pageSize || DEFAULT_PAGE_SIZE,
+          page,
+        });
+
+        if (!response.success || !response.data) {
+          throw new Error(response.error || `Failed to fetch ${entity}`);
+        }
+
+        const records = (response.data[listKey] || []) as T[];
+        await handlePage(records);
+        count += records.length;
+
+        for (const record of records as Array<{ lastModified?: string | null }>) {
+          const modified = record.lastModified ? new Date(record.lastModified) : null;
+          if (modified && !isNaN(modified.getTime()) && (!cursor || modified > cursor)) {
+            cursor = modified;
+          }
+        }
+
+        await prisma.syncCursor.update({ where, data: { cursor } });
+
+        if (!response.data.hasMore) {
+          break;
+        }
+        page++;
+      }
+
+      await prisma.syncCursor.update({
+        where,
+        data: { lastSyncedAt: startedAt, lastRecordCount: count, lastError: null },
+      });
+
+      return { count };
+    } catch (error) {
+      await prisma.syncCursor.update({
+        where,
+        data: { lastError: error instanceof Error ? error.message : 'Unknown error' },
+      });
+      throw error;
+    }
+  }
+
+  async syncItems(options: SyncOptions = {}): Promise<{ count: number }> {
+    try {
+      const result = await this.pullPages<{
+        internalId: string;
+        itemId: string;
+        displayName: string;
+        description: string;
+        upcCode: string;
+        salesPrice: number;
+        cost: number;
+        taxSchedule: string | null;
+        isInactive: boolean;
+        isGiftCard?: boolean;
+        lastModified: string | null;
+      }>('items', 'getItems', 'items', options, async (items) => {
+        for (const item of items) {
+          await prisma.item.upsert({
+            where: {
+              tenantId_netsuiteId: {
+                tenantId: this.tenantId,
+                netsuiteId: item.internalId,
+              },
+            },
+            update: {
+              sku: item.itemId,
+              name: item.displayName,
+              description: item.description,
+              barcode: item.upcCode,
+              basePrice: item.salesPrice,
+              cost: item.cost,
+              taxCategory: item.taxSchedule || null,
+              isActive: !item.isInactive,
+              isGiftCard: !!item.isGiftCard,
+              updatedAt: new Date(),
+            },
+            create: {
               tenantId: this.tenantId,
               netsuiteId: item.internalId,
+              sku: item.itemId,
+              name: item.displayName,
+              description: item.description,
+              barcode: item.upcCode,
+              basePrice: item.salesPrice,
+              cost: item.cost,
+              taxCategory: item.taxSchedule || null,
+              isActive: !item.isInactive,
+              isGiftCard: !!item.isGiftCard,
+              trackInventory: !item.isGiftCard,
             },
-          },
-          update: {
-            sku: item.itemId,
-            name: item.displayName,
-            description: item.description,
-            barcode: item.upcCode,
-            basePrice: item.salesPrice,
-            cost: item.cost,
-            isActive: !item.isInactive,
-            updatedAt: new Date(),
-          },
-          create: {
-            tenantId: this.tenantId,
-            netsuiteId: item.internalId,
-            sku: item.itemId,
-            name: item.displayName,
-            description: item.description,
-            barcode: item.upcCode,
-            basePrice: item.salesPrice,
-            cost: item.cost,
-            isActive: !item.isInactive,
-          },
-        });
-      }
+          });
+        }
 
-      logger.info(`Synced ${items.length} items from NetSuite`);
-      return { count: items.length };
+        await this.syncPriceLevels(items.map((item) => item.internalId));
+      });
+
+      logger.info(`Synced ${result.count} items from NetSuite`);
+      return result;
     } catch (error) {
       logger.error('Item sync failed:', error);
       throw error;
     }
   }
 
-  async syncCustomers(): Promise<{ count: number }> {
-    try {
-      if (!this.tenantId) {
-        throw new Error('TenantId is required for customer sync');
-      }
+  // Price levels are fetched for a page of items at a time rather than per item
+  private async syncPriceLevels(netsuiteItemIds: string[]): Promise<void> {
+    for (let i = 0; i < netsuiteItemIds.length; i += PRICE_LEVEL_BATCH_SIZE) {
+      const batch = netsuiteItemIds.slice(i, i + PRICE_LEVEL_BATCH_SIZE);
 
       const response = await this.request<{
-        customers: Array<{
-          internalId: string;
-          entityId: string;
-          firstName: string;
-          lastName: string;
-          email: string;
-          phone: string;
-          companyName: string;
-          balance: number;
-        }>;
-      }>('getCustomers');
+        priceLevels: Array<NetSuitePriceLevel & { itemId: string }>;
+      }>('getPriceLevels', 'GET', { itemIds: batch.join(',') });
 
       if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to fetch customers');
+        throw new Error(response.error || 'Failed to fetch price levels');
       }
 
-      const customers = response.data.customers;
+      const items = await prisma.item.findMany({
+        where: { tenantId: this.tenantId, netsuiteId: { in: batch } },
+        select: { id: true, netsuiteId: true },
+      });
 
-      for (const customer of customers) {
-        await prisma.customer.upsert({
-          where: {
-            tenantId_netsuiteId: {
-              tenantId: this.tenantId,
-              netsuiteId: customer.internalId,
-            },
-          },
-          update: {
-            firstName: customer.firstName,
-            lastName: customer.lastName,
-            email: customer.email,
-            phone: customer.phone,
-            company: customer.companyName,
-            balance: customer.balance,
-            updatedAt: new Date(),
-          },
-          create: {
-            tenantId: this.tenantId,
-            netsuiteId: customer.internalId,
-            firstName: customer.firstName,
-            lastName: customer.lastName,
-            email: customer.email,
-            phone: customer.phone,
-            company: customer.companyName,
-            balance: customer.balance,
-          },
-        });
+      for (const item of items) {
+        const levels = response.data.priceLevels.filter((level) => level.itemId === item.netsuiteId);
+        await prisma.$transaction((tx) => replacePriceLevels(tx, item.id, levels));
       }
+    }
+  }
 
-      logger.info(`Synced ${customers.length} customers from NetSuite`);
-      return { count: customers.length };
+  // Customers edited in the POS since the last sync are merged field by
+  // field; edits made on both sides become conflicts for an admin to resolve
+  async syncCustomers(options: SyncOptions = {}): Promise<{ count: number; conflicts: number }> {
+    let conflicts = 0;
+
+    try {
+      const result = await this.pullPages<NetSuiteCustomer>(
+        'customers',
+        'getCustomers',
+        'customers',
+        options,
+        async (customers) => {
+          for (const customer of customers) {
+            const applied = await prisma.$transaction((tx) =>
+              applyNetSuiteCustomer(
+                tx,
+                this.tenantId,
+                customer.internalId,
+                toCustomerValues(customer),
+                customer.lastModified ? new Date(customer.lastModified) : null
+              )
+            );
+
+            if (applied === 'conflict') {
+              conflicts++;
+            }
+          }
+        }
+      );
+
+      logger.info(`Synced ${result.count} customers from NetSuite (${conflicts} conflicts)`);
+      return { ...result, conflicts };
     } catch (error) {
       logger.error('Customer sync failed:', error);
       throw error;
     }
   }
 
-  async syncInventory(locationId?: string | null): Promise<{ count: number }> {
-    try {
-      const response = await this.request<{
-        inventory: Array<{
-          itemId: string;
-          locationId: string;
-          quantityOnHand: number;
-          quantityAvailable: number;
-          quantityCommitted: number;
-        }>;
-      }>('getInventory', 'GET');
+  // Inventory rows carry no lastModified, so every run pulls current levels,
+  // but still in pages and with its run recorded alongside the other entities.
+  async syncInventory(
+    locationId?: string | null,
+    options: SyncOptions = {}
+  ): Promise<{ count: number; unlinkedLocations: string[] }> {
+    // NetSuite locations with stock but no POS location; reported rather than dropped silently
+    const unlinkedLocations = new Set<string>();
 
-      if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to fetch inventory');
-      }
+    try {
+      const netsuiteLocationId = locationId
+        ? await resolveLocationId(this.tenantId, locationId)
+        : undefined;
 
-      const inventory = response.data.inventory.filter(
-        (inv) => !locationId || inv.locationId === locationId
-      );
+      const result = await this.pullPages<{
+        itemId: string;
+        locationId: string;
+        quantityOnHand: number;
+        quantityAvailable: number;
+        quantityCommitted: number;
+      }>('inventory', 'getInventory', 'inventory', {
+        ...options,
+        params: { locationId: netsuiteLocationId },
+      }, async (inventory) => {
+        for (const inv of inventory) {
+          const item = await prisma.item.findFirst({
+            where: { tenantId: this.tenantId, netsuiteId: inv.itemId },
+          });
 
-      for (const inv of inventory) {
-        const item = await prisma.item.findFirst({
-          where: { netsuiteId: inv.itemId },
-        });
+          const location = await prisma.location.findFirst({
+            where: { tenantId: this.tenantId, netsuiteId: inv.locationId },
+          });
 
-        const location = await prisma.location.findFirst({
-          where: { netsuiteId: inv.locationId },
-        });
+          if (!location) {
+            unlinkedLocations.add(inv.locationId);
+          }
 
-        if (item && location) {
-          await prisma.inventoryLevel.upsert({
-            where: {
-              itemId_locationId: {
+          if (item && location) {
+            await prisma.inventoryLevel.upsert({
+              where: {
+                itemId_locationId: {
+                  itemId: item.id,
+                  locationId: location.id,
+                },
+              },
+              update: {
+                quantityOnHand: inv.quantityOnHand,
+                quantityAvailable: inv.quantityAvailable,
+                quantityCommitted: inv.quantityCommitted,
+                lastSyncedAt: new Date(),
+              },
+              create: {
                 itemId: item.id,
                 locationId: location.id,
+                quantityOnHand: inv.quantityOnHand,
+                quantityAvailable: inv.quantityAvailable,
+                quantityCommitted: inv.quantityCommitted,
+                lastSyncedAt: new Date(),
               },
-            },
-            update: {
-              quantityOnHand: inv.quantityOnHand,
-              quantityAvailable: inv.quantityAvailable,
-              quantityCommitted: inv.quantityCommitted,
-              lastSyncedAt: new Date(),
-            },
-            create: {
-              itemId: item.id,
-              locationId: location.id,
-              quantityOnHand: inv.quantityOnHand,
-              quantityAvailable: inv.quantityAvailable,
-              quantityCommitted: inv.quantityCommitted,
-              lastSyncedAt: new Date(),
-            },
-          });
+            });
+          }
         }
+      });
+
+      if (unlinkedLocations.size > 0) {
+        logger.warn(
+          `Skipped inventory for NetSuite locations not linked to a POS location: ${[...unlinkedLocations].join(', ')}`
+        );
       }
 
-      logger.info(`Synced ${inventory.length} inventory records from NetSuite`);
-      return { count: inventory.length };
+      logger.info(`Synced ${result.count} inventory records from NetSuite`);
+      return { ...result, unlinkedLocations: [...unlinkedLocations] };
     } catch (error) {
       logger.error('Inventory sync failed:', error);
       throw error;
     }
   }
 
+  async fetchLocations(): Promise<{
+    subsidiaries: NetSuiteSubsidiary[];
+    locations: NetSuiteLocation[];
+  }> {
+    const [locations, subsidiaries] = await Promise.all([
+      this.request<{ locations: NetSuiteLocation[] }>('getLocations', 'GET'),
+      this.request<{ subsidiaries: NetSuiteSubsidiary[] }>('getSubsidiaries', 'GET'),
+    ]);
+
+    if (!locations.success || !locations.data) {
+      throw new Error(locations.error || 'Failed to fetch locations');
+    }
+
+    if (!subsidiaries.success || !subsidiaries.data) {
+      throw new Error(subsidiaries.error || 'Failed to fetch subsidiaries');
+    }
+
+    return {
+      subsidiaries: subsidiaries.data.subsidiaries,
+      locations: locations.data.locations,
+    };
+  }
+
+  // Refresh the NetSuite details of linked POS locations. Unlinked NetSuite
+  // locations are left for the owner to import.
+  async syncLocations(): Promise<{ count: number; missing: string[] }> {
+    try {
+      const { locations } = await this.fetchLocations();
+      const byId = new Map(locations.map((location) => [location.internalId, location]));
+
+      const linked = await prisma.location.findMany({
+        where: { tenantId: this.tenantId, netsuiteId: { not: null } },
+      });
+
+      const missing: string[] = [];
+      let count = 0;
+
+      for (const location of linked) {
+        const netsuiteLocation = byId.get(location.netsuiteId!);
+
+        if (!netsuiteLocation) {
+          missing.push(location.name);
+          continue;
+        }
+
+        await prisma.location.update({
+          where: { id: location.id },
+          data: {
+            subsidiary: netsuiteLocation.subsidiary,
+            address: location.address || netsuiteLocation.address,
+          },
+        });
+        count++;
+      }
+
+      if (missing.length > 0) {
+        logger.warn(`POS locations linked to inactive or deleted NetSuite locations: ${missing.join(', ')}`);
+      }
+
+      logger.info(`Synced ${count} locations from NetSuite`);
+      return { count, missing };
+    } catch (error) {
+      logger.error('Location sync failed:', error);
+      throw error;
+    }
+  }
+
+  // Create or link POS locations for the NetSuite locations the owner selected
+  async importLocations(imports: LocationImport[]): Promise<{ created: number; linked: number }> {
+    const { locations } = await this.fetchLocations();
+    const byId = new Map(locations.map((location) => [location.internalId, location]));
+
+    for (const selection of imports) {
+      if (!byId.has(selection.netsuiteId)) {
+        throw new ValidationError(`NetSuite location ${selection.netsuiteId} not found or inactive`);
+      }
+    }
+
+    let created = 0;
+    let linked = 0;
+
+    await prisma.$transaction(async (tx) => {
+      for (const selection of imports) {
+        const netsuiteLocation = byId.get(selection.netsuiteId)!;
+
+        const current = await tx.location.findUnique({
+          where: { tenantId_netsuiteId: { tenantId: this.tenantId, netsuiteId: selection.netsuiteId } },
+        });
+
+        if (current && current.id !== selection.locationId) {
+          if (selection.locationId) {
+            throw new ValidationError(
+              `NetSuite location ${netsuiteLocation.name} is already linked to ${current.name}`
+            );
+          }
+          // Already imported; make sure it is active
+          await tx.location.update({ where: { id: current.id }, data: { isActive: true } });
+          continue;
+        }
+
+        if (selection.locationId) {
+          const location = await tx.location.findFirst({
+            where: { id: selection.locationId, tenantId: this.tenantId },
+          });
+
+          if (!location) {
+            throw new ValidationError(`Location ${selection.locationId} not found`);
+          }
+
+          await tx.location.update({
+            where: { id: location.id },
+            data: {
+              netsuiteId: netsuiteLocation.internalId,
+              subsidiary: netsuiteLocation.subsidiary,
+              address: location.address || netsuiteLocation.address,
+              isActive: true,
+            },
+          });
+          linked++;
+          continue;
+        }
+
+        await tx.location.create({
+          data: {
+            tenantId: this.tenantId,
+            netsuiteId: netsuiteLocation.internalId,
+            name: netsuiteLocation.name,
+            subsidiary: netsuiteLocation.subsidiary,
+            address: netsuiteLocation.address,
+          },
+        });
+        created++;
+      }
+    });
+
+    logger.info(`Imported NetSuite locations: ${created} created, ${linked} linked`);
+    return { created, linked };
+  }
+
+  // Push a POS transaction: sales become cash sales, returns become refunds
+  // against the original sale, and exchanges become a linked refund + sale pair.
   async pushTransaction(transactionId: string): Promise<{
     netsuiteId: string;
     tranId: string;
   }> {
     try {
-      const transaction = await prisma.transaction.findUnique({
-        where: { id: transactionId },
+      const transaction = await prisma.transaction.findFirst({
+        where: { id: transactionId, tenantId: this.tenantId },
         include: {
           items: true,
           payments: true,
           customer: true,
+          originalTransaction: {
+            include: { payments: true },
+          },
         },
       });
 
@@ -341,23 +735,109 @@ export class NetSuiteClient {
         throw new Error('Transaction not found');
       }
 
+      if (transaction.status === 'VOIDED') {
+        throw new Error(`Transaction ${transaction.receiptNumber} was voided and is not sent to NetSuite`);
+      }
+
+      // A customer created offline may still be waiting in the sync queue
+      if (transaction.customer && !transaction.customer.netsuiteId) {
+        throw new Error(`Customer ${transaction.customer.id} has not been synced to NetSuite yet`);
+      }
+
+      const original = transaction.originalTransaction;
+      if (original && !original.netsuiteId) {
+        throw new Error(`Original transaction ${original.receiptNumber} has not been synced to NetSuite yet`);
+      }
+
+      // Returned lines carry negative quantities; a RETURN may only contain returned lines
+      const returnedLines = transaction.items.filter(
+        (item) => transaction.type === 'RETURN' || Number(item.quantity) < 0
+      );
+      const soldLines = transaction.items.filter((item) => !returnedLines.includes(item));
+
+      const [itemIds, location, paymentMethodIds] = await Promise.all([
+        resolveItemIds(this.tenantId, transaction.items.map((item) => item.itemId)),
+        resolveLocationId(this.tenantId, transaction.locationId),
+        resolvePaymentMethodIds(this.tenantId, [
+          ...transaction.payments.map((payment) => payment.method),
+          ...(original?.payments.map((payment) => payment.method) || []),
+        ]),
+      ]);
+
+      // Lines go over at what the customer paid for them: after line, cart,
+      // promotion and coupon discounts, which are all in the line's
+      // discountAmount, so NetSuite's totals match the POS. NetSuite adds tax
+      // to the amount, so tax is left out, including tax in prices (VAT).
+      const toLines = (lines: typeof transaction.items) =>
+        lines.map((item) => {
+          const quantity = Math.abs(Number(item.quantity));
+          const amount = Math.abs(roundMoney(Number(item.lineTotal) - Number(item.taxAmount)));
+          return {
+            item: itemIds.get(item.itemId),
+            quantity,
+            rate: quantity > 0 ? Math.round((amount / quantity) * 10000) / 10000 : 0,
+            amount,
+          };
+        });
+
+      // NetSuite records carry a single payment method; use the largest tender
+      const primaryMethod = (payments: typeof transaction.payments) => {
+        const primary = [...payments].sort(
+          (a, b) => Math.abs(Number(b.amount)) - Math.abs(Number(a.amount))
+        )[0];
+        return primary ? paymentMethodIds.get(primary.method) : undefined;
+      };
+
+      const entity = transaction.customer?.netsuiteId;
+      let refund: { internalId: string; tranId: string } | null = null;
+
+      if (transaction.type === 'RETURN' || transaction.type === 'EXCHANGE') {
+        // An earlier attempt at an exchange may have created the refund already
+        if (transaction.netsuiteRefundId) {
+          refund = { internalId: transaction.netsuiteRefundId, tranId: transaction.netsuiteRefundId };
+        } else {
+          refund = await this.createRefund({
+            externalId: transaction.id,
+            entity,
+            location,
+            createdFrom: original?.netsuiteId || undefined,
+            items: toLines(returnedLines),
+            paymentMethod: primaryMethod(transaction.payments) || primaryMethod(original?.payments || []),
+            memo: `POS ${transaction.type === 'RETURN' ? 'Return' : 'Exchange'}: ${transaction.receiptNumber}`,
+          });
+
+          if (transaction.type === 'EXCHANGE') {
+            await prisma.transaction.update({
+              where: { id: transactionId },
+              data: { netsuiteRefundId: refund.internalId },
+            });
+          }
+        }
+
+        if (transaction.type === 'RETURN') {
+          await this.markTransactionSynced(transactionId, refund.internalId);
+          logger.info(`Pushed return ${transactionId} to NetSuite: ${refund.tranId}`);
+          return { netsuiteId: refund.internalId, tranId: refund.tranId };
+        }
+      }
+
       const response = await this.request<{
         internalId: string;
         tranId: string;
       }>('createCashSale', 'POST', {
         data: {
-          entity: transaction.customer?.netsuiteId,
-          location: transaction.locationId,
-          items: transaction.items.map((item) => ({
-            item: item.itemId,
-            quantity: Number(item.quantity),
-            rate: Number(item.unitPrice),
-          })),
+          externalId: transaction.id,
+          entity,
+          location,
+          items: toLines(soldLines),
+          paymentMethod: primaryMethod(transaction.payments),
           payments: transaction.payments.map((payment) => ({
-            method: payment.method,
+            method: paymentMethodIds.get(payment.method),
             amount: Number(payment.amount),
           })),
-          memo: `POS Transaction: ${transaction.receiptNumber}`,
+          memo: refund
+            ? `POS Exchange: ${transaction.receiptNumber} (refund ${refund.tranId}, original ${original?.receiptNumber || 'none'})`
+            : `POS Transaction: ${transaction.receiptNumber}`,
         },
       });
 
@@ -365,15 +845,7 @@ export class NetSuiteClient {
         throw new Error(response.error || 'Failed to create transaction in NetSuite');
       }
 
-      // Update local transaction with NetSuite ID
-      await prisma.transaction.update({
-        where: { id: transactionId },
-        data: {
-          netsuiteId: response.data.internalId,
-          status: 'SYNCED',
-          syncedAt: new Date(),
-        },
-      });
+      await this.markTransactionSynced(transactionId, response.data.internalId);
 
       logger.info(`Pushed transaction ${transactionId} to NetSuite: ${response.data.tranId}`);
       return {
@@ -386,6 +858,104 @@ export class NetSuiteClient {
     }
   }
 
+  // Create the refund side of a return or exchange using the tenant's return flow
+  private async createRefund(data: {
+    externalId: string;
+    entity?: string | null;
+    location: string;
+    createdFrom?: string;
+    items: Array<{ item?: string; quantity: number; rate: number; amount: number }>;
+    paymentMethod?: string;
+    memo: string;
+  }): Promise<{ internalId: string; tranId: string }> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: this.tenantId },
+      select: { netsuiteReturnFlow: true },
+    });
+
+    const action = tenant?.netsuiteReturnFlow === 'RETURN_AUTHORIZATION'
+      ? 'createReturnAuthorization'
+      : 'createCashRefund';
+
+    const response = await this.request<{
+      internalId: string;
+      tranId: string;
+      refundId?: string;
+      refundTranId?: string;
+    }>(action, 'POST', { data });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create refund in NetSuite');
+    }
+
+    // The return authorization flow finishes with a cash refund; link that record
+    return {
+      internalId: response.data.refundId || response.data.internalId,
+      tranId: response.data.refundTranId || response.data.tranId,
+    };
+  }
+
+  // A sale voided while it was being pushed stays voided
+  private async markTransactionSynced(transactionId: string, netsuiteId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.transaction.update({
+        where: { id: transactionId },
+        data: { netsuiteId, syncedAt: new Date() },
+      }),
+      prisma.transaction.updateMany({
+        where: { id: transactionId, status: { not: 'VOIDED' } },
+        data: { status: 'SYNCED' },
+      }),
+    ]);
+  }
+
+  async pushInventoryAdjustment(adjustment: {
+    itemId: string;
+    locationId: string;
+    adjustQty: number;
+    memo?: string;
+  }): Promise<{ netsuiteId: string }> {
+    try {
+      const [itemIds, location] = await Promise.all([
+        resolveItemIds(this.tenantId, [adjustment.itemId]),
+        resolveLocationId(this.tenantId, adjustment.locationId),
+      ]);
+
+      const { adjustmentAccountId: adjustmentAccount } = await this.getConfig();
+      if (!adjustmentAccount) {
+        throw new Error('NetSuite inventory adjustment account not configured');
+      }
+
+      const response = await this.request<{ internalId: string }>(
+        'adjustInventory',
+        'POST',
+        {
+          data: {
+            adjustmentAccount,
+            location,
+            memo: adjustment.memo,
+            items: [
+              {
+                itemId: itemIds.get(adjustment.itemId),
+                adjustQty: adjustment.adjustQty,
+              },
+            ],
+          },
+        }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to create inventory adjustment in NetSuite');
+      }
+
+      logger.info(`Pushed inventory adjustment for item ${adjustment.itemId} to NetSuite: ${response.data.internalId}`);
+      return { netsuiteId: response.data.internalId };
+    } catch (error) {
+      logger.error('Inventory adjustment push failed:', error);
+      throw error;
+    }
+  }
+
   async pushCustomer(customerId: string): Promise<{ netsuiteId: string }> {
     try {
       const customer = await prisma.customer.findUnique({
@@ -396,7 +966,7 @@ export class NetSuiteClient {
         throw new Error('Customer not found');
       }
 
-      const response = await this.request<{ internalId: string }>(
+      const response = await this.request<{ internalId: string; lastModified: string | null }>(
         'createCustomer',
         'POST',
         {
@@ -414,11 +984,14 @@ export class NetSuiteClient {
         throw new Error(response.error || 'Failed to create customer in NetSuite');
       }
 
-      // Update local customer with NetSuite ID
+      // Update local customer with NetSuite ID; what was sent is the NetSuite baseline
       await prisma.customer.update({
         where: { id: customerId },
         data: {
           netsuiteId: response.data.internalId,
+          netsuiteValues: trackedValues(customer),
+          netsuiteModifiedAt: response.data.lastModified ? new Date(response.data.lastModified) : null,
+          pendingFields: [],
         },
       });
 
@@ -429,4 +1002,86 @@ export class NetSuiteClient {
       throw error;
     }
   }
+
+  // Push fields edited in the POS. NetSuite rejects the update if the record
+  // changed since it was last pulled; the current record is then merged like
+  // a pull, which either records a conflict or lets a retry push again.
+  async pushCustomerUpdate(customerId: string): Promise<{ pushed: string[] }> {
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+      include: { syncConflicts: { where: { status: 'OPEN' }, select: { id: true } } },
+    });
+
+    if (!customer?.netsuiteId) {
+      throw new Error('Customer not found or not linked to NetSuite');
+    }
+
+    // Resolving the conflict queues the push again
+    if (customer.pendingFields.length === 0 || customer.syncConflicts.length > 0) {
+      return { pushed: [] };
+    }
+
+    const values = trackedValues(customer);
+    const fields: Record<string, string | null> = Object.fromEntries(
+      TRACKED_CUSTOMER_FIELDS
+        .filter((field) => customer.pendingFields.includes(field))
+        .map((field) => [field, values[field]])
+    );
+
+    const response = await this.request<{
+      updated: boolean;
+      lastModified: string | null;
+      customer?: NetSuiteCustomer;
+    }>('updateCustomer', 'POST', {
+      data: {
+        internalId: customer.netsuiteId,
+        expectedLastModified: customer.netsuiteModifiedAt?.toISOString(),
+        fields,
+      },
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update customer in NetSuite');
+    }
+
+    if (!response.data.updated && response.data.customer) {
+      const current = response.data.customer;
+      const applied = await prisma.$transaction((tx) =>
+        applyNetSuiteCustomer(
+          tx,
+          this.tenantId,
+          customer.netsuiteId!,
+          toCustomerValues(current),
+          current.lastModified ? new Date(current.lastModified) : null
+        )
+      );
+
+      if (applied === 'conflict') {
+        return { pushed: [] };
+      }
+      throw new Error('Customer changed in NetSuite since the last sync; will push again');
+    }
+
+    // Fields edited again while the push was in flight stay pending
+    await prisma.$transaction(async (tx) => {
+      const latest = await tx.customer.findUniqueOrThrow({ where: { id: customerId } });
+      const latestValues: Record<string, string | null> = trackedValues(latest);
+
+      await tx.customer.update({
+        where: { id: customerId },
+        data: {
+          netsuiteValues: { ...((latest.netsuiteValues || {}) as object), ...fields },
+          netsuiteModifiedAt: response.data!.lastModified
+            ? new Date(response.data!.lastModified)
+            : latest.netsuiteModifiedAt,
+          pendingFields: latest.pendingFields.filter(
+            (field) => !(field in fields) || latestValues[field] !== fields[field]
+          ),
+        },
+      });
+    });
+
+    logger.info(`Pushed customer ${customerId} changes to NetSuite: ${Object.keys(fields).join(', ')}`);
+    return { pushed: Object.keys(fields) };
+  }
 }
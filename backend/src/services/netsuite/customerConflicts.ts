@@ -0,0 +1,264 @@
+import { Customer, Prisma, SyncConflictResolution } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../../middleware/errorHandler.js';
+import { logger } from '../../utils/logger.js';
+
+// Fields that both the POS and NetSuite edit. Changes to these are compared
+// field by field against the values last seen in NetSuite; other customer
+// fields are owned by one side and simply overwritten.
+export const TRACKED_CUSTOMER_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'company'] as const;
+
+export type TrackedCustomerField = (typeof TRACKED_CUSTOMER_FIELDS)[number];
+
+export type TrackedCustomerValues = Partial<Record<TrackedCustomerField, string | null>>;
+
+// A customer as read from NetSuite, in POS field names. Omitted fields are left alone.
+export interface NetSuiteCustomerValues extends TrackedCustomerValues {
+  priceLevel?: string | null;
+  balance?: number;
+  creditLimit?: number;
+}
+
+export interface ConflictField {
+  field: TrackedCustomerField;
+  baseValue: string | null;
+  posValue: string | null;
+  netsuiteValue: string | null;
+}
+
+export type ApplyResult = 'created' | 'updated' | 'unchanged' | 'conflict';
+
+const normalize = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+// firstName and lastName are required columns
+const columnValue = (field: TrackedCustomerField, value: string | null) =>
+  field === 'firstName' || field === 'lastName' ? value || '' : value;
+
+export function trackedValues(customer: Customer): Record<TrackedCustomerField, string | null> {
+  return Object.fromEntries(
+    TRACKED_CUSTOMER_FIELDS.map((field) => [field, normalize(customer[field])])
+  ) as Record<TrackedCustomerField, string | null>;
+}
+
+// Work out which tracked fields a POS edit changes. The first edit of a
+// customer synced before tracking existed records its current values as the
+// NetSuite baseline.
+export function trackLocalEdit(
+  customer: Customer,
+  changes: Record<string, unknown>
+): Pick<Prisma.CustomerUpdateInput, 'pendingFields' | 'netsuiteValues'> {
+  if (!customer.netsuiteId) {
+    return {};
+  }
+
+  const pending = new Set(customer.pendingFields);
+  for (const field of TRACKED_CUSTOMER_FIELDS) {
+    if (changes[field] !== undefined && normalize(changes[field]) !== normalize(customer[field])) {
+      pending.add(field);
+    }
+  }
+
+  return {
+    pendingFields: [...pending],
+    ...(!customer.netsuiteValues && { netsuiteValues: trackedValues(customer) }),
+  };
+}
+
+// Apply a customer read from NetSuite (sync pull, webhook or a rejected push).
+// Fields NetSuite changed that the POS did not are applied, fields only the
+// POS changed are kept for the next push, and fields both sides changed to
+// different values are recorded as an open conflict.
+export async function applyNetSuiteCustomer(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  netsuiteId: string,
+  values: NetSuiteCustomerValues,
+  lastModified: Date | null
+): Promise<ApplyResult> {
+  const owned = {
+    priceLevel: values.priceLevel,
+    balance: values.balance,
+    creditLimit: values.creditLimit,
+  };
+
+  const existing = await tx.customer.findUnique({
+    where: { tenantId_netsuiteId: { tenantId, netsuiteId } },
+  });
+
+  if (!existing) {
+    const tracked = Object.fromEntries(
+      TRACKED_CUSTOMER_FIELDS.map((field) => [field, normalize(values[field])])
+    ) as Record<TrackedCustomerField, string | null>;
+
+    await tx.customer.create({
+      data: {
+        ...tracked,
+        ...owned,
+        tenantId,
+        netsuiteId,
+        firstName: tracked.firstName || '',
+        lastName: tracked.lastName || '',
+        netsuiteValues: tracked,
+        netsuiteModifiedAt: lastModified,
+      },
+    });
+    return 'created';
+  }
+
+  // NetSuite has not changed the record since it was last applied
+  if (lastModified && existing.netsuiteModifiedAt && lastModified <= existing.netsuiteModifiedAt) {
+    await tx.customer.update({ where: { id: existing.id }, data: owned });
+    return 'unchanged';
+  }
+
+  const base = (existing.netsuiteValues || {}) as TrackedCustomerValues;
+  const newBase: TrackedCustomerValues = { ...base };
+  const pending = new Set(existing.pendingFields);
+  const updates: Record<string, string | null> = {};
+  const conflicts: ConflictField[] = [];
+
+  for (const field of TRACKED_CUSTOMER_FIELDS) {
+    if (values[field] === undefined) {
+      continue;
+    }
+
+    const netsuiteValue = normalize(values[field]);
+    const posValue = normalize(existing[field]);
+    const baseValue = field in base ? normalize(base[field]) : posValue;
+
+    if (!pending.has(field)) {
+      if (netsuiteValue !== posValue) {
+        updates[field] = columnValue(field, netsuiteValue);
+      }
+      newBase[field] = netsuiteValue;
+      continue;
+    }
+
+    if (netsuiteValue === posValue) {
+      // Both sides made the same change
+      pending.delete(field);
+      newBase[field] = netsuiteValue;
+    } else if (netsuiteValue !== baseValue) {
+      // The baseline stays put so the conflict is found again until resolved
+      conflicts.push({ field, baseValue, posValue, netsuiteValue });
+    }
+  }
+
+  await tx.customer.update({
+    where: { id: existing.id },
+    data: {
+      ...updates,
+      ...owned,
+      netsuiteValues: newBase,
+      pendingFields: [...pending],
+      // Left behind while in conflict, so pushes stay blocked and pulls re-check
+      ...(conflicts.length === 0 && lastModified && { netsuiteModifiedAt: lastModified }),
+    },
+  });
+
+  const open = await tx.customerSyncConflict.findFirst({
+    where: { customerId: existing.id, status: 'OPEN' },
+  });
+
+  if (conflicts.length === 0) {
+    // NetSuite now agrees with the POS on every field that was in conflict
+    if (open) {
+      await tx.customerSyncConflict.update({
+        where: { id: open.id },
+        data: { status: 'RESOLVED', resolution: 'NETSUITE', resolvedAt: new Date() },
+      });
+    }
+    return Object.keys(updates).length > 0 ? 'updated' : 'unchanged';
+  }
+
+  const conflictData = {
+    fields: conflicts as unknown as Prisma.InputJsonArray,
+    netsuiteModifiedAt: lastModified,
+  };
+
+  if (open) {
+    await tx.customerSyncConflict.update({ where: { id: open.id }, data: conflictData });
+  } else {
+    await tx.customerSyncConflict.create({
+      data: { ...conflictData, tenantId, customerId: existing.id },
+    });
+  }
+
+  logger.warn(
+    `Sync conflict on customer ${existing.id}: ${conflicts.map((c) => c.field).join(', ')}`
+  );
+  return 'conflict';
+}
+
+// Settle an open conflict with the POS values, the NetSuite values, or
+// merged values given per field. Returns the fields still to be pushed.
+export async function resolveConflict(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  conflictId: string,
+  resolution: SyncConflictResolution,
+  resolvedById: string,
+  mergedValues: Record<string, unknown> = {}
+): Promise<{ customerId: string; pendingFields: string[] }> {
+  const conflict = await tx.customerSyncConflict.findFirst({
+    where: { id: conflictId, tenantId, status: 'OPEN' },
+    include: { customer: true },
+  });
+
+  if (!conflict) {
+    throw new NotFoundError('Open conflict not found');
+  }
+
+  const { customer } = conflict;
+  const fields = conflict.fields as unknown as ConflictField[];
+  const base = { ...((customer.netsuiteValues || {}) as TrackedCustomerValues) };
+  const pending = new Set(customer.pendingFields);
+  const data: Record<string, string | null> = {};
+
+  for (const { field, posValue, netsuiteValue } of fields) {
+    let value: string | null;
+
+    if (resolution === 'POS') {
+      value = posValue;
+    } else if (resolution === 'NETSUITE') {
+      value = netsuiteValue;
+    } else {
+      if (mergedValues[field] === undefined) {
+        throw new ValidationError(`A merged value is required for ${field}`);
+      }
+      value = normalize(mergedValues[field]);
+    }
+
+    data[field] = columnValue(field, value);
+    base[field] = netsuiteValue;
+
+    // Anything that differs from NetSuite is pushed on the next sync
+    if (value === netsuiteValue) {
+      pending.delete(field);
+    } else {
+      pending.add(field);
+    }
+  }
+
+  await tx.customer.update({
+    where: { id: customer.id },
+    data: {
+      ...data,
+      netsuiteValues: base,
+      pendingFields: [...pending],
+      netsuiteModifiedAt: conflict.netsuiteModifiedAt ?? customer.netsuiteModifiedAt,
+    },
+  });
+
+  await tx.customerSyncConflict.update({
+    where: { id: conflict.id },
+    data: {
+      status: 'RESOLVED',
+      resolution,
+      resolvedById,
+      resolvedAt: new Date(),
+    },
+  });
+
+  return { customerId: customer.id, pendingFields: [...pending] };
+}
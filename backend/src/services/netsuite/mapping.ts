@@ -0,0 +1,80 @@
+import { PaymentMethod } from '@prisma/client';
+import { ValidationError } from '../../middleware/errorHandler.js';
+import { createPrismaClient } from '../tenantScope.js';
+
+const prisma = createPrismaClient();
+
+// A POS record has no NetSuite counterpart. Retrying will not help until an
+// admin links the record, so the sync queue dead-letters these immediately.
+export class NetSuiteMappingError extends ValidationError {}
+
+// Resolve POS item ids to NetSuite internal ids
+export async function resolveItemIds(
+  tenantId: string,
+  itemIds: string[]
+): Promise<Map<string, string>> {
+  const uniqueIds = [...new Set(itemIds)];
+
+  const items = await prisma.item.findMany({
+    where: { tenantId, id: { in: uniqueIds } },
+    select: { id: true, sku: true, netsuiteId: true },
+  });
+
+  const found = new Map(items.map((item) => [item.id, item]));
+  const missing: string[] = [];
+  const mapped = new Map<string, string>();
+
+  for (const id of uniqueIds) {
+    const item = found.get(id);
+    if (item?.netsuiteId) {
+      mapped.set(id, item.netsuiteId);
+    } else {
+      missing.push(item ? item.sku : id);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new NetSuiteMappingError(`Items not linked to NetSuite: ${missing.join(', ')}`);
+  }
+
+  return mapped;
+}
+
+// Resolve a POS location id to its NetSuite internal id
+export async function resolveLocationId(tenantId: string, locationId: string): Promise<string> {
+  const location = await prisma.location.findFirst({
+    where: { id: locationId, tenantId },
+    select: { name: true, netsuiteId: true },
+  });
+
+  if (!location?.netsuiteId) {
+    throw new NetSuiteMappingError(
+      `Location ${location?.name || locationId} is not linked to NetSuite`
+    );
+  }
+
+  return location.netsuiteId;
+}
+
+// Resolve POS payment methods to the tenant's NetSuite payment method ids
+export async function resolvePaymentMethodIds(
+  tenantId: string,
+  methods: PaymentMethod[]
+): Promise<Map<PaymentMethod, string>> {
+  const uniqueMethods = [...new Set(methods)];
+
+  const mappings = await prisma.netSuitePaymentMethodMapping.findMany({
+    where: { tenantId, method: { in: uniqueMethods } },
+  });
+
+  const mapped = new Map(mappings.map((m) => [m.method, m.netsuiteId]));
+  const missing = uniqueMethods.filter((method) => !mapped.has(method));
+
+  if (missing.length > 0) {
+    throw new NetSuiteMappingError(
+      `No NetSuite payment method mapped for: ${missing.map((m) => m.toLowerCase()).join(', ')}`
+    );
+  }
+
+  return mapped;
+}
@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+
+// NetSuite's default price level; its price is also the item's basePrice
+export const BASE_PRICE_LEVEL = 'Base Price';
+
+export interface NetSuitePriceLevel {
+  priceLevel: string;
+  price: number;
+}
+
+// Make an item's PriceLevel rows match NetSuite's price list, dropping
+// levels that no longer have a price on the item
+export async function replacePriceLevels(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  levels: NetSuitePriceLevel[]
+): Promise<void> {
+  const priced = levels.filter(
+    (level) => level.priceLevel && level.price !== null && !isNaN(Number(level.price))
+  );
+
+  await tx.priceLevel.deleteMany({
+    where: {
+      itemId,
+      name: { notIn: priced.map((level) => level.priceLevel) },
+    },
+  });
+
+  for (const level of priced) {
+    await tx.priceLevel.upsert({
+      where: { itemId_name: { itemId, name: level.priceLevel } },
+      update: {
+        price: Number(level.price),
+        isDefault: level.priceLevel === BASE_PRICE_LEVEL,
+      },
+      create: {
+        itemId,
+        name: level.priceLevel,
+        price: Number(level.price),
+        isDefault: level.priceLevel === BASE_PRICE_LEVEL,
+      },
+    });
+  }
+}
@@ -0,0 +1,190 @@
+import { logger } from '../../utils/logger.js';
+
+export const DEFAULT_CONCURRENCY_LIMIT = 5;
+
+const REQUEST_TIMEOUT_MS = Number(process.env.NETSUITE_REQUEST_TIMEOUT_MS) || 30 * 1000;
+const MAX_RETRIES = Number(process.env.NETSUITE_MAX_RETRIES) || 4;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// NetSuite's concurrency governance error, returned as a 429 or inside a RESTlet error body
+const REQUEST_LIMIT_CODE = 'SSS_REQUEST_LIMIT_EXCEEDED';
+
+export class NetSuiteHttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'NetSuiteHttpError';
+  }
+
+  get isThrottled(): boolean {
+    return this.status === 429 || this.code === REQUEST_LIMIT_CODE;
+  }
+
+  get isTimeout(): boolean {
+    return this.code === 'TIMEOUT';
+  }
+
+  // 502/503/504s and the like, usually NetSuite under load
+  get isServerError(): boolean {
+    return this.status >= 500;
+  }
+}
+
+export interface SchedulerMetrics {
+  concurrencyLimit: number;
+  active: number;
+  queued: number;
+  requests: number;
+  succeeded: number;
+  failed: number;
+  retries: number;
+  throttled: number;
+  timeouts: number;
+  lastThrottledAt: Date | null;
+}
+
+// Full jitter: a random delay up to the exponential ceiling, so throttled
+// requests from one tenant do not retry in lockstep
+function retryDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs) {
+    return retryAfterMs;
+  }
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.floor(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Queues one tenant's NetSuite requests so no more than the account's
+// concurrency limit are in flight, and retries throttled requests
+export class RequestScheduler {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private metrics: Omit<SchedulerMetrics, 'concurrencyLimit' | 'active' | 'queued'> = {
+    requests: 0,
+    succeeded: 0,
+    failed: 0,
+    retries: 0,
+    throttled: 0,
+    timeouts: 0,
+    lastThrottledAt: null,
+  };
+
+  constructor(
+    private tenantId: string,
+    private concurrencyLimit: number = DEFAULT_CONCURRENCY_LIMIT
+  ) {}
+
+  setConcurrencyLimit(limit: number): void {
+    this.concurrencyLimit = Math.max(1, limit);
+    this.drain();
+  }
+
+  getMetrics(): SchedulerMetrics {
+    return {
+      ...this.metrics,
+      concurrencyLimit: this.concurrencyLimit,
+      active: this.active,
+      queued: this.waiting.length,
+    };
+  }
+
+  // Run a request in a slot, with a timeout. Throttled requests are retried
+  // for any method since NetSuite rejected them before doing any work;
+  // timeouts and server errors are only retried for GETs, as a POST may
+  // already have run.
+  async execute<T>(
+    method: 'GET' | 'POST',
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    this.metrics.requests++;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      let error: unknown;
+
+      try {
+        const result = await task(controller.signal);
+        this.metrics.succeeded++;
+        return result;
+      } catch (caught) {
+        error = controller.signal.aborted
+          ? new NetSuiteHttpError(`NetSuite request timed out after ${REQUEST_TIMEOUT_MS}ms`, 0, 'TIMEOUT')
+          : caught;
+      } finally {
+        // The slot is given back before any retry wait so other requests can use it
+        clearTimeout(timer);
+        this.release();
+      }
+
+      if (!(error instanceof NetSuiteHttpError)) {
+        this.metrics.failed++;
+        throw error;
+      }
+
+      if (error.isThrottled) {
+        this.metrics.throttled++;
+        this.metrics.lastThrottledAt = new Date();
+      }
+      if (error.isTimeout) {
+        this.metrics.timeouts++;
+      }
+
+      const retryable = error.isThrottled || ((error.isTimeout || error.isServerError) && method === 'GET');
+
+      if (!retryable || attempt >= MAX_RETRIES) {
+        this.metrics.failed++;
+        throw error;
+      }
+
+      this.metrics.retries++;
+      const delay = retryDelay(attempt, error.retryAfterMs);
+      const reason = error.isThrottled ? 'throttled' : error.isTimeout ? 'timed out' : `failed with ${error.status}`;
+      logger.warn(
+        `NetSuite request for tenant ${this.tenantId} ${reason}, ` +
+        `retry ${attempt + 1}/${MAX_RETRIES} in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrencyLimit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrencyLimit && this.waiting.length > 0) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+}
+
+const schedulers = new Map<string, RequestScheduler>();
+
+// One scheduler per tenant, shared by every NetSuiteClient in the process
+export function getScheduler(tenantId: string): RequestScheduler {
+  let scheduler = schedulers.get(tenantId);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(tenantId);
+    schedulers.set(tenantId, scheduler);
+  }
+  return scheduler;
+}
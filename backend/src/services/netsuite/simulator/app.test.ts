@@ -0,0 +1,138 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { encrypt } from '../../../utils/encryption.js';
+import { RESTLET_PATH, createSimulator } from './app.js';
+
+// NetSuiteClient talks to the simulator over HTTP, with the tenant's
+// settings and POS records coming from stand-ins for the database.
+
+const CREDENTIALS = {
+  accountId: 'TSTDRV0000000',
+  consumerKey: 'test-consumer-key',
+  consumerSecret: 'test-consumer-secret',
+  tokenId: 'test-token-id',
+  tokenSecret: 'test-token-secret',
+};
+
+const tenants = new Map<string, Record<string, unknown>>();
+
+const db = vi.hoisted(() => ({
+  tenant: { findUnique: async ({ where }: { where: { id: string } }) => tenants.get(where.id) ?? null },
+  // Two mugs sold for cash at the main store
+  transaction: {
+    findFirst: async () => ({
+      id: 'sale-1',
+      receiptNumber: 'R-0001',
+      type: 'SALE',
+      status: 'COMPLETED',
+      locationId: 'main-store',
+      customer: null,
+      originalTransaction: null,
+      items: [{ itemId: 'mug', quantity: 2, lineTotal: 20, taxAmount: 0 }],
+      payments: [{ method: 'CASH', amount: 20 }],
+    }),
+    update: vi.fn(async () => ({})),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+  item: {
+    findMany: async () => [{ id: 'mug', sku: 'MUG', netsuiteId: '101' }],
+    findFirst: async () => ({ id: 'mug' }),
+  },
+  location: { findFirst: async () => ({ id: 'main-store', name: 'Main Store', netsuiteId: '1' }) },
+  netSuitePaymentMethodMapping: { findMany: async () => [{ method: 'CASH', netsuiteId: '7' }] },
+  syncCursor: { upsert: async () => ({ cursor: null }), update: async () => ({}) },
+  inventoryLevel: { upsert: vi.fn(async () => ({})) },
+  $transaction: async (queries: Promise<unknown>[]) => Promise.all(queries),
+}));
+
+vi.mock('../../tenantScope.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../tenantScope.js')>()),
+  createPrismaClient: () => db,
+}));
+
+const { NetSuiteClient } = await import('../client.js');
+
+const simulator = createSimulator({
+  credentials: CREDENTIALS,
+  seed: {
+    locations: [{ internalId: '1', name: 'Main Store' }],
+    items: [{ internalId: '101', itemId: 'MUG', salesPrice: 10 }],
+    inventory: [{ itemId: '101', locationId: '1', quantityOnHand: 12, quantityCommitted: 0 }],
+  },
+});
+
+let server: Server;
+
+// A tenant whose NetSuite settings point at the simulator
+function connectTenant(tenantId: string, credentials = CREDENTIALS) {
+  const { port } = server.address() as AddressInfo;
+  tenants.set(tenantId, {
+    netsuiteAccountId: credentials.accountId,
+    netsuiteConsumerKey: encrypt(credentials.consumerKey),
+    netsuiteConsumerSecret: encrypt(credentials.consumerSecret),
+    netsuiteTokenId: encrypt(credentials.tokenId),
+    netsuiteTokenSecret: encrypt(credentials.tokenSecret),
+    netsuiteRestletUrl: `http://127.0.0.1:${port}${RESTLET_PATH}?script=1&deploy=1`,
+    netsuiteAdjustmentAccountId: null,
+    netsuiteConcurrencyLimit: 5,
+    netsuiteReturnFlow: 'CASH_REFUND',
+  });
+  return new NetSuiteClient(tenantId);
+}
+
+beforeAll(async () => {
+  process.env.CREDENTIALS_ENCRYPTION_KEY = 'simulator-test-key';
+  server = simulator.app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('NetSuiteClient against the simulator', () => {
+  it('signs requests the simulator accepts', async () => {
+    const client = connectTenant('tenant-signed');
+
+    expect(await client.testConnection()).toEqual({ connected: true, message: 'Connected to NetSuite' });
+  });
+
+  it('is turned away when signing with the wrong secret', async () => {
+    const client = connectTenant('tenant-wrong-secret', { ...CREDENTIALS, tokenSecret: 'not-the-secret' });
+
+    expect(await client.testConnection()).toEqual({
+      connected: false,
+      error: 'NetSuite API error: 401 Invalid login attempt. Invalid signature',
+    });
+  });
+
+  it('pushes a sale and pulls back the stock it used', async () => {
+    const client = connectTenant('tenant-round-trip');
+
+    const pushed = await client.pushTransaction('sale-1');
+
+    const [sale] = simulator.state.dataset.transactions;
+    expect(pushed).toEqual({ netsuiteId: sale.internalId, tranId: sale.tranId });
+    expect(sale).toMatchObject({
+      type: 'cashsale',
+      data: {
+        externalId: 'sale-1',
+        location: '1',
+        items: [{ item: '101', quantity: 2, rate: 10, amount: 20 }],
+        paymentMethod: '7',
+      },
+    });
+    expect(db.transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ netsuiteId: sale.internalId }) })
+    );
+
+    await client.syncInventory();
+
+    expect(db.inventoryLevel.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ quantityOnHand: 10, quantityAvailable: 10 }),
+      })
+    );
+  });
+});
@@ -0,0 +1,559 @@
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import OAuth from 'oauth-1.0a';
+import {
+  SimDataset,
+  SimSeed,
+  SimTransaction,
+  SimTransactionType,
+  buildDataset,
+} from './dataset.js';
+
+export const RESTLET_PATH = '/app/site/hosting/restlet.nl';
+
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+export interface SimulatorCredentials {
+  accountId: string;
+  consumerKey: string;
+  consumerSecret: string;
+  tokenId: string;
+  tokenSecret: string;
+}
+
+export interface SimulatorOptions {
+  credentials: SimulatorCredentials;
+  seed?: SimSeed;
+  // Public URL the client signs requests for, when it differs from the Host header
+  baseUrl?: string;
+  // Requests beyond this many in flight get NetSuite's 429 SSS_REQUEST_LIMIT_EXCEEDED
+  concurrencyLimit?: number;
+  // Added to every RESTlet call so concurrent requests overlap
+  latencyMs?: number;
+}
+
+type Params = Record<string, unknown>;
+
+// Business errors: the RESTlet answers 200 with { success: false, error }
+class SimulatorError extends Error {}
+
+const TRAN_PREFIXES: Record<SimTransactionType, string> = {
+  cashsale: 'CS',
+  salesorder: 'SO',
+  cashrefund: 'CR',
+  returnauthorization: 'RA',
+  itemreceipt: 'IR',
+  customerpayment: 'PYMT',
+  inventoryadjustment: 'ADJ',
+};
+
+function parseAuthHeader(header: string | undefined): Record<string, string> | null {
+  if (!header?.startsWith('OAuth ')) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const part of header.slice('OAuth '.length).split(',')) {
+    const match = part.trim().match(/^(\w+)="(.*)"$/);
+    if (match) {
+      params[match[1]] = decodeURIComponent(match[2]);
+    }
+  }
+
+  return params;
+}
+
+export function createSimulator(options: SimulatorOptions) {
+  const { credentials } = options;
+  const state: { dataset: SimDataset } = { dataset: buildDataset(options.seed) };
+  const seenNonces = new Map<string, number>();
+  let nextId = 1000;
+
+  const oauth = new OAuth({
+    consumer: { key: credentials.consumerKey, secret: credentials.consumerSecret },
+    signature_method: 'HMAC-SHA256',
+    hash_function(baseString, key) {
+      return crypto.createHmac('sha256', key).update(baseString).digest('base64');
+    },
+  });
+
+  // Check the header NetSuiteClient.getAuthHeader builds; returns a reason on failure
+  function verifyAuth(req: Request): string | null {
+    const params = parseAuthHeader(req.headers.authorization);
+
+    if (!params) {
+      return 'Missing OAuth authorization header';
+    }
+
+    if (params.realm !== credentials.accountId.replace('-', '_').toUpperCase()) {
+      return 'Realm does not match account';
+    }
+
+    if (params.oauth_consumer_key !== credentials.consumerKey || params.oauth_token !== credentials.tokenId) {
+      return 'Unknown consumer key or token';
+    }
+
+    if (params.oauth_signature_method !== 'HMAC-SHA256') {
+      return 'Unsupported signature method';
+    }
+
+    const timestamp = Number(params.oauth_timestamp);
+    const now = Math.floor(Date.now() / 1000);
+    if (!timestamp || Math.abs(now - timestamp) > MAX_CLOCK_SKEW_SECONDS) {
+      return 'Timestamp outside the allowed window';
+    }
+
+    // Forget nonces once their timestamp can no longer pass the window check
+    for (const [nonce, seenAt] of seenNonces) {
+      if (now - seenAt > MAX_CLOCK_SKEW_SECONDS) {
+        seenNonces.delete(nonce);
+      }
+    }
+
+    if (seenNonces.has(params.oauth_nonce)) {
+      return 'Nonce already used';
+    }
+
+    const url = `${options.baseUrl || `${req.protocol}://${req.get('host')}`}${req.originalUrl}`;
+    const expected = oauth.getSignature({ url, method: req.method }, credentials.tokenSecret, {
+      oauth_consumer_key: params.oauth_consumer_key,
+      oauth_nonce: params.oauth_nonce,
+      oauth_signature_method: params.oauth_signature_method,
+      oauth_timestamp: timestamp,
+      oauth_version: params.oauth_version,
+      oauth_token: params.oauth_token,
+    });
+
+    if (expected !== params.oauth_signature) {
+      return 'Invalid signature';
+    }
+
+    seenNonces.set(params.oauth_nonce, timestamp);
+    return null;
+  }
+
+  // ============== Helpers ==============
+
+  const findItem = (internalId: unknown) => {
+    const item = state.dataset.items.find((i) => i.internalId === String(internalId));
+    if (!item) {
+      throw new SimulatorError(`Invalid item reference key ${internalId}.`);
+    }
+    return item;
+  };
+
+  const findLocation = (internalId: unknown) => {
+    const location = state.dataset.locations.find((l) => l.internalId === String(internalId));
+    if (!location) {
+      throw new SimulatorError(`Invalid location reference key ${internalId}.`);
+    }
+    return location;
+  };
+
+  const findCustomer = (internalId: unknown) => {
+    const customer = state.dataset.customers.find((c) => c.internalId === String(internalId));
+    if (!customer) {
+      throw new SimulatorError(`Invalid entity reference key ${internalId}.`);
+    }
+    return customer;
+  };
+
+  const adjustStock = (itemId: string, locationId: string, delta: { onHand?: number; committed?: number }) => {
+    let level = state.dataset.inventory.find((l) => l.itemId === itemId && l.locationId === locationId);
+    if (!level) {
+      level = { itemId, locationId, quantityOnHand: 0, quantityCommitted: 0 };
+      state.dataset.inventory.push(level);
+    }
+    level.quantityOnHand += delta.onHand || 0;
+    level.quantityCommitted += delta.committed || 0;
+  };
+
+  const record = (type: SimTransactionType, data: Params, createdFrom?: string): SimTransaction => {
+    const internalId = String(nextId++);
+    const transaction: SimTransaction = {
+      internalId,
+      tranId: `${TRAN_PREFIXES[type]}${internalId}`,
+      type,
+      createdFrom,
+      data,
+      createdAt: new Date().toISOString(),
+    };
+    state.dataset.transactions.push(transaction);
+    return transaction;
+  };
+
+  // Same as findByExternalId in pos_api.js: the record an earlier attempt saved
+  const findByExternalId = (type: SimTransactionType, data: Params) =>
+    data.externalId === undefined
+      ? undefined
+      : state.dataset.transactions.find(
+          (t) => t.type === type && t.data.externalId === data.externalId
+        );
+
+  const itemLines = (data: Params) => {
+    const items = data.items as
+      | Array<{ item: unknown; quantity: unknown; rate?: unknown; amount?: unknown }>
+      | undefined;
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new SimulatorError('You must enter at least one line item for this transaction.');
+    }
+    return items.map((line) => ({
+      item: findItem(line.item).internalId,
+      quantity: Number(line.quantity),
+      rate: line.rate === undefined ? undefined : Number(line.rate),
+      amount: line.amount === undefined ? undefined : Number(line.amount),
+    }));
+  };
+
+  // Same paging contract as runPage in pos_api.js
+  const page = <T>(records: T[], params: Params) => {
+    const pageSize = Math.min(Math.max(parseInt(String(params.pageSize)) || 1000, 5), 1000);
+    const pageIndex = parseInt(String(params.page)) || 0;
+    const pageCount = Math.ceil(records.length / pageSize);
+
+    return {
+      records: records.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize),
+      page: pageIndex,
+      pageCount,
+      hasMore: pageIndex + 1 < pageCount,
+    };
+  };
+
+  // ============== GET Actions ==============
+
+  const getActions: Record<string, (params: Params) => unknown> = {
+    getItems(params) {
+      const since = params.lastModified ? new Date(String(params.lastModified)) : null;
+      const items = state.dataset.items
+        .filter((item) => (since ? new Date(item.lastModified) >= since : !item.isInactive))
+        .sort((a, b) => a.lastModified.localeCompare(b.lastModified));
+
+      const result = page(items, params);
+      return {
+        success: true,
+        items: result.records.map(({ priceLevels: _priceLevels, ...item }) => item),
+        count: result.records.length,
+        page: result.page,
+        pageCount: result.pageCount,
+        hasMore: result.hasMore,
+      };
+    },
+
+    getCustomers(params) {
+      const since = params.lastModified ? new Date(String(params.lastModified)) : null;
+      const customers = state.dataset.customers
+        .filter((customer) => !customer.isInactive && (!since || new Date(customer.lastModified) >= since))
+        .sort((a, b) => a.lastModified.localeCompare(b.lastModified));
+
+      const result = page(customers, params);
+      return {
+        success: true,
+        customers: result.records.map(({ isInactive: _isInactive, ...customer }) => customer),
+        count: result.records.length,
+        page: result.page,
+        pageCount: result.pageCount,
+        hasMore: result.hasMore,
+      };
+    },
+
+    getInventory(params) {
+      const activeItems = new Set(state.dataset.items.filter((i) => !i.isInactive).map((i) => i.internalId));
+      const levels = state.dataset.inventory
+        .filter((level) => activeItems.has(level.itemId))
+        .filter((level) => !params.locationId || level.locationId === String(params.locationId))
+        .sort((a, b) => Number(a.itemId) - Number(b.itemId));
+
+      const result = page(levels, params);
+      return {
+        success: true,
+        inventory: result.records.map((level) => ({
+          ...level,
+          quantityAvailable: level.quantityOnHand - level.quantityCommitted,
+        })),
+        count: result.records.length,
+        page: result.page,
+        pageCount: result.pageCount,
+        hasMore: result.hasMore,
+      };
+    },
+
+    getLocations() {
+      return {
+        success: true,
+        locations: state.dataset.locations
+          .filter((location) => !location.isInactive)
+          .map(({ isInactive: _isInactive, ...location }) => location),
+      };
+    },
+
+    getSubsidiaries() {
+      return { success: true, subsidiaries: state.dataset.subsidiaries };
+    },
+
+    getPriceLevels(params) {
+      const itemIds = String(params.itemIds || params.itemId || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+
+      if (itemIds.length === 0) {
+        return { success: false, error: 'Item ID required' };
+      }
+
+      return {
+        success: true,
+        priceLevels: itemIds.flatMap((itemId) =>
+          findItem(itemId).priceLevels.map((level) => ({ itemId, ...level }))
+        ),
+      };
+    },
+
+    testConnection() {
+      return { success: true, message: 'Connected to NetSuite' };
+    },
+  };
+
+  // ============== POST Actions ==============
+
+  const postActions: Record<string, (data: Params) => unknown> = {
+    createCashSale(data) {
+      const existing = findByExternalId('cashsale', data);
+      if (existing) {
+        return { success: true, internalId: existing.internalId, tranId: existing.tranId };
+      }
+
+      if (data.entity) findCustomer(data.entity);
+      const location = findLocation(data.location).internalId;
+      const lines = itemLines(data);
+
+      lines.forEach((line) => adjustStock(line.item, location, { onHand: -line.quantity }));
+      const sale = record('cashsale', data);
+      return { success: true, internalId: sale.internalId, tranId: sale.tranId };
+    },
+
+    createSalesOrder(data) {
+      findCustomer(data.entity);
+      const location = findLocation(data.location).internalId;
+      const lines = itemLines(data);
+
+      lines.forEach((line) => adjustStock(line.item, location, { committed: line.quantity }));
+      const order = record('salesorder', data);
+      return { success: true, internalId: order.internalId, tranId: order.tranId };
+    },
+
+    createCashRefund(data) {
+      const existing = findByExternalId('cashrefund', data);
+      if (existing) {
+        return { success: true, internalId: existing.internalId, tranId: existing.tranId };
+      }
+
+      const original = data.createdFrom ? findTransaction(data.createdFrom, 'cashsale') : undefined;
+      const location = findLocation(data.location).internalId;
+      const lines = itemLines(data);
+
+      lines.forEach((line) => adjustStock(line.item, location, { onHand: line.quantity }));
+      const refund = record('cashrefund', data, original?.internalId);
+      return { success: true, internalId: refund.internalId, tranId: refund.tranId };
+    },
+
+    createReturnAuthorization(data) {
+      // All three records are saved together here, so a retry finds them all
+      const existing = findByExternalId('returnauthorization', data);
+      if (existing) {
+        const linked = (type: SimTransactionType) =>
+          state.dataset.transactions.find((t) => t.type === type && t.createdFrom === existing.internalId)!;
+        const refund = linked('cashrefund');
+        return {
+          success: true,
+          internalId: existing.internalId,
+          tranId: existing.tranId,
+          itemReceiptId: linked('itemreceipt').internalId,
+          refundId: refund.internalId,
+          refundTranId: refund.tranId,
+        };
+      }
+
+      const original = data.createdFrom ? findTransaction(data.createdFrom, 'cashsale') : undefined;
+      const location = findLocation(data.location).internalId;
+      const lines = itemLines(data);
+      const { externalId } = data;
+
+      const returnAuth = record('returnauthorization', data, original?.internalId);
+      lines.forEach((line) => adjustStock(line.item, location, { onHand: line.quantity }));
+      const receipt = record('itemreceipt', { externalId, items: lines, location }, returnAuth.internalId);
+      const refund = record('cashrefund', { externalId, paymentMethod: data.paymentMethod }, returnAuth.internalId);
+
+      return {
+        success: true,
+        internalId: returnAuth.internalId,
+        tranId: returnAuth.tranId,
+        itemReceiptId: receipt.internalId,
+        refundId: refund.internalId,
+        refundTranId: refund.tranId,
+      };
+    },
+
+    createCustomer(data) {
+      if (!data.lastName && !data.company) {
+        throw new SimulatorError('Please enter value(s) for: Last Name');
+      }
+
+      const internalId = String(nextId++);
+      const lastModified = new Date().toISOString();
+      state.dataset.customers.push({
+        internalId,
+        entityId: `CUST-${internalId}`,
+        firstName: String(data.firstName || ''),
+        lastName: String(data.lastName || ''),
+        email: data.email ? String(data.email) : undefined,
+        phone: data.phone ? String(data.phone) : undefined,
+        companyName: data.company ? String(data.company) : undefined,
+        creditLimit: 0,
+        balance: 0,
+        loyaltyPoints: 0,
+        isInactive: false,
+        lastModified,
+      });
+      return { success: true, internalId, lastModified };
+    },
+
+    updateCustomer(data) {
+      const customer = findCustomer(data.internalId);
+
+      // Same optimistic check as pos_api.js: refuse to overwrite newer changes
+      if (
+        data.expectedLastModified &&
+        new Date(customer.lastModified) > new Date(String(data.expectedLastModified))
+      ) {
+        const { isInactive: _isInactive, ...current } = customer;
+        return { success: true, updated: false, lastModified: customer.lastModified, customer: current };
+      }
+
+      const fields = (data.fields || {}) as Record<string, unknown>;
+      const text = (value: unknown) => (value === null || value === undefined || value === '' ? undefined : String(value));
+
+      customer.firstName = 'firstName' in fields ? text(fields.firstName) || '' : customer.firstName;
+      customer.lastName = 'lastName' in fields ? text(fields.lastName) || '' : customer.lastName;
+      customer.email = 'email' in fields ? text(fields.email) : customer.email;
+      customer.phone = 'phone' in fields ? text(fields.phone) : customer.phone;
+      customer.companyName = 'company' in fields ? text(fields.company) : customer.companyName;
+
+      // Keep lastModified strictly increasing so back-to-back saves are distinguishable
+      customer.lastModified = new Date(
+        Math.max(Date.now(), new Date(customer.lastModified).getTime() + 1000)
+      ).toISOString();
+
+      return { success: true, updated: true, internalId: customer.internalId, lastModified: customer.lastModified };
+    },
+
+    createCustomerPayment(data) {
+      const customer = findCustomer(data.customerId);
+      customer.balance -= Number(data.amount) || 0;
+      customer.lastModified = new Date().toISOString();
+
+      const payment = record('customerpayment', data);
+      return { success: true, internalId: payment.internalId };
+    },
+
+    adjustInventory(data) {
+      if (!data.adjustmentAccount) {
+        throw new SimulatorError('Please enter value(s) for: Adjustment Account');
+      }
+      const location = findLocation(data.location).internalId;
+      const items = (data.items || []) as Array<{ itemId: unknown; location?: unknown; adjustQty: unknown }>;
+
+      items.forEach((line) => {
+        const item = findItem(line.itemId).internalId;
+        const lineLocation = line.location ? findLocation(line.location).internalId : location;
+        adjustStock(item, lineLocation, { onHand: Number(line.adjustQty) });
+      });
+
+      const adjustment = record('inventoryadjustment', data);
+      return { success: true, internalId: adjustment.internalId };
+    },
+  };
+
+  function findTransaction(internalId: unknown, type: SimTransactionType) {
+    const transaction = state.dataset.transactions.find(
+      (t) => t.internalId === String(internalId) && t.type === type
+    );
+    if (!transaction) {
+      throw new SimulatorError(`Invalid createdfrom reference key ${internalId}.`);
+    }
+    return transaction;
+  }
+
+  // ============== HTTP ==============
+
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  const run = (res: Response, handler: (() => unknown) | undefined, action: unknown) => {
+    if (!handler) {
+      res.json({ success: false, error: 'Unknown action: ' + action });
+      return;
+    }
+
+    try {
+      res.json(handler());
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        res.json({ success: false, error: error.message });
+        return;
+      }
+      throw error;
+    }
+  };
+
+  let inFlight = 0;
+
+  app.all(RESTLET_PATH, (req, res, next) => {
+    const reason = verifyAuth(req);
+    if (reason) {
+      res.status(401).json({
+        error: { code: 'INVALID_LOGIN_ATTEMPT', message: `Invalid login attempt. ${reason}` },
+      });
+      return;
+    }
+
+    if (options.concurrencyLimit && inFlight >= options.concurrencyLimit) {
+      res.status(429).json({
+        error: {
+          code: 'SSS_REQUEST_LIMIT_EXCEEDED',
+          message: 'Request limit exceeded. Too many concurrent requests.',
+        },
+      });
+      return;
+    }
+
+    inFlight++;
+    res.on('finish', () => inFlight--);
+    setTimeout(next, options.latencyMs || 0);
+  });
+
+  app.get(RESTLET_PATH, (req, res) => {
+    const params = req.query as Params;
+    const handler = getActions[String(params.action)];
+    run(res, handler && (() => handler(params)), params.action);
+  });
+
+  app.post(RESTLET_PATH, (req, res) => {
+    // NetSuiteClient sends the action in the query string and the payload as { data }
+    const action = req.body?.action || req.query.action;
+    const handler = postActions[String(action)];
+    run(res, handler && (() => handler((req.body?.data || {}) as Params)), action);
+  });
+
+  // Control endpoints for tests and local development
+  app.get('/__simulator/state', (_req, res) => {
+    res.json(state.dataset);
+  });
+
+  app.post('/__simulator/seed', (req, res) => {
+    state.dataset = buildDataset(req.body as SimSeed);
+    seenNonces.clear();
+    res.json({ success: true });
+  });
+
+  return { app, state };
+}
@@ -0,0 +1,205 @@
+// In-memory records served by the NetSuite RESTlet simulator. Field names
+// follow the JSON returned by netsuite-scripts/restlets/pos_api.js.
+
+export interface SimItem {
+  internalId: string;
+  itemId: string;
+  displayName: string;
+  description?: string;
+  upcCode?: string;
+  salesPrice: number;
+  cost: number;
+  isInactive: boolean;
+  isGiftCard?: boolean;
+  category?: string;
+  priceLevels: Array<{ priceLevel: string; price: number }>;
+  lastModified: string;
+}
+
+export interface SimCustomer {
+  internalId: string;
+  entityId: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+  companyName?: string;
+  priceLevel?: string;
+  creditLimit: number;
+  balance: number;
+  loyaltyPoints: number;
+  isInactive: boolean;
+  lastModified: string;
+}
+
+export interface SimSubsidiary {
+  internalId: string;
+  name: string;
+  parentId: string | null;
+}
+
+export interface SimLocation {
+  internalId: string;
+  name: string;
+  subsidiary: string;
+  subsidiaryId: string;
+  address?: string;
+  isInactive: boolean;
+}
+
+export interface SimInventoryLevel {
+  itemId: string;
+  locationId: string;
+  quantityOnHand: number;
+  quantityCommitted: number;
+}
+
+export type SimTransactionType =
+  | 'cashsale'
+  | 'salesorder'
+  | 'cashrefund'
+  | 'returnauthorization'
+  | 'itemreceipt'
+  | 'customerpayment'
+  | 'inventoryadjustment';
+
+export interface SimTransaction {
+  internalId: string;
+  tranId: string;
+  type: SimTransactionType;
+  createdFrom?: string;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface SimDataset {
+  items: SimItem[];
+  customers: SimCustomer[];
+  subsidiaries: SimSubsidiary[];
+  locations: SimLocation[];
+  inventory: SimInventoryLevel[];
+  transactions: SimTransaction[];
+}
+
+// Seed files may omit any collection and most fields
+export interface SimSeed {
+  items?: Array<Partial<SimItem> & { internalId: string; itemId: string }>;
+  customers?: Array<Partial<SimCustomer> & { internalId: string }>;
+  subsidiaries?: Array<Partial<SimSubsidiary> & { internalId: string; name: string }>;
+  locations?: Array<Partial<SimLocation> & { internalId: string; name: string }>;
+  inventory?: SimInventoryLevel[];
+  transactions?: SimTransaction[];
+}
+
+export function buildDataset(seed: SimSeed = {}): SimDataset {
+  const now = new Date().toISOString();
+  const subsidiaries = (seed.subsidiaries || [{ internalId: '1', name: 'Parent Company' }]).map(
+    (subsidiary) => ({ parentId: null, ...subsidiary })
+  );
+
+  return {
+    items: (seed.items || []).map((item) => ({
+      displayName: item.itemId,
+      salesPrice: 0,
+      cost: 0,
+      isInactive: false,
+      priceLevels: [],
+      lastModified: now,
+      ...item,
+    })),
+    customers: (seed.customers || []).map((customer) => ({
+      entityId: customer.internalId,
+      firstName: '',
+      lastName: '',
+      creditLimit: 0,
+      balance: 0,
+      loyaltyPoints: 0,
+      isInactive: false,
+      lastModified: now,
+      ...customer,
+    })),
+    subsidiaries,
+    locations: (seed.locations || []).map((location) => {
+      const subsidiaryId = location.subsidiaryId || subsidiaries[0]?.internalId || '1';
+      return {
+        subsidiaryId,
+        subsidiary: subsidiaries.find((s) => s.internalId === subsidiaryId)?.name || 'Parent Company',
+        isInactive: false,
+        ...location,
+      };
+    }),
+    inventory: (seed.inventory || []).map((level) => ({ ...level })),
+    transactions: (seed.transactions || []).map((transaction) => ({ ...transaction })),
+  };
+}
+
+// Small catalog so a fresh simulator can be synced without a seed file
+export const DEFAULT_SEED: SimSeed = {
+  locations: [
+    { internalId: '1', name: 'Main Store', address: '100 Main St' },
+    { internalId: '2', name: 'Warehouse', address: '200 Industrial Rd' },
+  ],
+  items: [
+    {
+      internalId: '101',
+      itemId: 'TSHIRT-BLK-M',
+      displayName: 'T-Shirt Black M',
+      upcCode: '012345678905',
+      salesPrice: 19.99,
+      cost: 6.5,
+      priceLevels: [
+        { priceLevel: 'Base Price', price: 19.99 },
+        { priceLevel: 'Wholesale', price: 12.99 },
+      ],
+    },
+    {
+      internalId: '102',
+      itemId: 'MUG-LOGO',
+      displayName: 'Logo Mug',
+      upcCode: '012345678912',
+      salesPrice: 12.5,
+      cost: 3.25,
+      priceLevels: [{ priceLevel: 'Base Price', price: 12.5 }],
+    },
+    {
+      internalId: '103',
+      itemId: 'GIFT-WRAP',
+      displayName: 'Gift Wrap',
+      salesPrice: 2,
+      cost: 0.4,
+    },
+    {
+      internalId: '104',
+      itemId: 'GIFT-CARD',
+      displayName: 'Gift Card',
+      salesPrice: 25,
+      cost: 0,
+      isGiftCard: true,
+    },
+  ],
+  customers: [
+    {
+      internalId: '501',
+      entityId: 'CUST-501',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      phone: '555-0101',
+    },
+    {
+      internalId: '502',
+      entityId: 'CUST-502',
+      firstName: '',
+      lastName: '',
+      companyName: 'Acme Corp',
+      email: 'buyer@acme.example.com',
+      priceLevel: 'Wholesale',
+      creditLimit: 5000,
+    },
+  ],
+  inventory: [
+    { itemId: '101', locationId: '1', quantityOnHand: 40, quantityCommitted: 0 },
+    { itemId: '101', locationId: '2', quantityOnHand: 200, quantityCommitted: 10 },
+    { itemId: '102', locationId: '1', quantityOnHand: 25, quantityCommitted: 0 },
+  ],
+};
@@ -0,0 +1,38 @@
+// Local stand-in for the NetSuite POS RESTlet. Point a tenant's NetSuite
+// settings at it to run sync and push flows without a NetSuite account:
+//
+//   npm run netsuite:simulator --workspace=backend
+//
+//   RESTlet URL:  http://localhost:4010/app/site/hosting/restlet.nl?script=1&deploy=1
+//   Account ID / keys / tokens: the SIMULATOR_* values below
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { logger } from '../../../utils/logger.js';
+import { DEFAULT_SEED, SimSeed } from './dataset.js';
+import { RESTLET_PATH, createSimulator } from './app.js';
+
+dotenv.config();
+
+const port = Number(process.env.SIMULATOR_PORT) || 4010;
+
+const seed: SimSeed = process.env.SIMULATOR_SEED_FILE
+  ? JSON.parse(fs.readFileSync(process.env.SIMULATOR_SEED_FILE, 'utf8'))
+  : DEFAULT_SEED;
+
+const { app } = createSimulator({
+  credentials: {
+    accountId: process.env.SIMULATOR_ACCOUNT_ID || 'TSTDRV0000000',
+    consumerKey: process.env.SIMULATOR_CONSUMER_KEY || 'simulator-consumer-key',
+    consumerSecret: process.env.SIMULATOR_CONSUMER_SECRET || 'simulator-consumer-secret',
+    tokenId: process.env.SIMULATOR_TOKEN_ID || 'simulator-token-id',
+    tokenSecret: process.env.SIMULATOR_TOKEN_SECRET || 'simulator-token-secret',
+  },
+  seed,
+  baseUrl: process.env.SIMULATOR_BASE_URL,
+  concurrencyLimit: Number(process.env.SIMULATOR_CONCURRENCY_LIMIT) || undefined,
+  latencyMs: Number(process.env.SIMULATOR_LATENCY_MS) || undefined,
+});
+
+app.listen(port, () => {
+  logger.info(`NetSuite simulator listening on http://localhost:${port}${RESTLET_PATH}?script=1&deploy=1`);
+});
@@ -0,0 +1,250 @@
+import { Prisma, SyncQueueItem } from '@prisma/client';
+import { NetSuiteClient } from './client.js';
+import { NetSuiteMappingError } from './mapping.js';
+import { PLAN_LIMITS, PlanType } from '../../middleware/tenant.js';
+import { logger } from '../../utils/logger.js';
+import { createPrismaClient, runWithTenant } from '../tenantScope.js';
+
+const prisma = createPrismaClient();
+
+export const MAX_SYNC_ATTEMPTS = 5;
+
+const BASE_BACKOFF_MS = 30 * 1000; // 30 seconds
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // 1 hour
+const BATCH_SIZE = 25;
+
+export type SyncQueueType = 'transaction' | 'customer' | 'inventory_adjustment';
+
+export interface SyncResult {
+  id: string;
+  type: string;
+  status: 'success' | 'error' | 'dead_letter';
+  error?: string;
+}
+
+// Thrown for items that can never succeed, so they skip the retry schedule
+class PermanentSyncError extends Error {}
+
+// Delay before the next attempt: 30s, 1m, 2m, 4m ... capped at 1h
+export function getBackoffDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+}
+
+// Queue a record for delivery to NetSuite. Tenants without the NetSuite
+// sync feature are skipped so their queue never fills with dead letters.
+export async function enqueueSync(
+  tenantId: string,
+  type: SyncQueueType,
+  action: string,
+  data: Prisma.InputJsonObject,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { plan: true },
+  });
+
+  if (!tenant || !PLAN_LIMITS[tenant.plan as PlanType].features.netsuiteSync) {
+    return;
+  }
+
+  await db.syncQueueItem.create({
+    data: { tenantId, type, action, data },
+  });
+}
+
+async function dispatch(client: NetSuiteClient, item: SyncQueueItem): Promise<void> {
+  const data = (item.data || {}) as Record<string, unknown>;
+
+  switch (item.type) {
+    case 'transaction': {
+      const transactionId = String(data.transactionId ?? data.id);
+      const transaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+        select: { netsuiteId: true, status: true },
+      });
+
+      if (!transaction) {
+        throw new PermanentSyncError(`Transaction ${transactionId} not found`);
+      }
+
+      // Already delivered by an earlier attempt or a manual push
+      if (transaction.netsuiteId) {
+        return;
+      }
+
+      // Voided before it synced, so there is nothing for NetSuite to record
+      if (transaction.status === 'VOIDED') {
+        logger.info(`Skipped syncing voided transaction ${transactionId}`);
+        return;
+      }
+
+      await client.pushTransaction(transactionId);
+      return;
+    }
+
+    case 'customer': {
+      const customerId = String(data.customerId ?? data.id);
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+        select: { netsuiteId: true },
+      });
+
+      if (!customer) {
+        throw new PermanentSyncError(`Customer ${customerId} not found`);
+      }
+
+      // Once created in NetSuite, later items push the fields edited in the POS
+      if (customer.netsuiteId) {
+        await client.pushCustomerUpdate(customerId);
+        return;
+      }
+
+      await client.pushCustomer(customerId);
+      return;
+    }
+
+    case 'inventory_adjustment':
+      await client.pushInventoryAdjustment({
+        itemId: String(data.itemId),
+        locationId: String(data.locationId),
+        adjustQty: Number(data.adjustQty),
+        memo: data.memo ? String(data.memo) : undefined,
+      });
+      return;
+
+    default:
+      throw new PermanentSyncError(`Unknown sync queue type: ${item.type}`);
+  }
+}
+
+async function recordFailure(item: SyncQueueItem, error: unknown): Promise<SyncResult> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const attempts = item.attempts + 1;
+  const now = new Date();
+  const isDead =
+    error instanceof PermanentSyncError ||
+    error instanceof NetSuiteMappingError ||
+    attempts >= MAX_SYNC_ATTEMPTS;
+
+  await prisma.syncQueueItem.update({
+    where: { id: item.id },
+    data: isDead
+      ? {
+          status: 'DEAD_LETTER',
+          attempts,
+          lastAttempt: now,
+          nextAttemptAt: null,
+          deadLetteredAt: now,
+          error: message,
+        }
+      : {
+          status: 'PENDING',
+          attempts,
+          lastAttempt: now,
+          nextAttemptAt: new Date(now.getTime() + getBackoffDelay(attempts)),
+          error: message,
+        },
+  });
+
+  if (isDead) {
+    logger.error(`Sync item ${item.id} (${item.type}) moved to dead letter: ${message}`);
+  }
+
+  return {
+    id: item.id,
+    type: item.type,
+    status: isDead ? 'dead_letter' : 'error',
+    error: message,
+  };
+}
+
+// Deliver due queue items to NetSuite, optionally for a single tenant
+export async function processSyncQueue(tenantId?: string): Promise<SyncResult[]> {
+  const now = new Date();
+
+  const dueItems = await prisma.syncQueueItem.findMany({
+    where: {
+      ...(tenantId ? { tenantId } : {}),
+      status: 'PENDING',
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  const clients = new Map<string, NetSuiteClient>();
+  const results: SyncResult[] = [];
+
+  for (const item of dueItems) {
+    // Claim the item so a manual /process call and the worker never push it twice
+    const claimed = await prisma.syncQueueItem.updateMany({
+      where: { id: item.id, status: 'PENDING' },
+      data: { status: 'PROCESSING' },
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const client = clients.get(item.tenantId) ?? new NetSuiteClient(item.tenantId);
+    clients.set(item.tenantId, client);
+
+    try {
+      await runWithTenant(item.tenantId, () => dispatch(client, item));
+      await prisma.syncQueueItem.delete({ where: { id: item.id } });
+      results.push({ id: item.id, type: item.type, status: 'success' });
+    } catch (error) {
+      results.push(await recordFailure(item, error));
+    }
+  }
+
+  return results;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+export function startSyncWorker(
+  intervalMs: number = Number(process.env.SYNC_WORKER_INTERVAL_MS) || 60 * 1000
+): void {
+  if (workerTimer) {
+    return;
+  }
+
+  // Items left PROCESSING by a previous crash would otherwise never be retried
+  prisma.syncQueueItem
+    .updateMany({
+      where: { status: 'PROCESSING' },
+      data: { status: 'PENDING' },
+    })
+    .catch((error) => logger.error('Failed to release stale sync claims:', error));
+
+  workerTimer = setInterval(async () => {
+    if (isProcessing) {
+      return;
+    }
+
+    isProcessing = true;
+    try {
+      const results = await processSyncQueue();
+      if (results.length > 0) {
+        const failed = results.filter((r) => r.status !== 'success').length;
+        logger.info(`Sync worker processed ${results.length} items (${failed} failed)`);
+      }
+    } catch (error) {
+      logger.error('Sync worker run failed:', error);
+    } finally {
+      isProcessing = false;
+    }
+  }, intervalMs);
+
+  logger.info(`NetSuite sync worker started (every ${intervalMs}ms)`);
+}
+
+export function stopSyncWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
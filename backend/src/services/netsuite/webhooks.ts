@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { logger } from '../../utils/logger.js';
+import { NetSuitePriceLevel, replacePriceLevels } from './priceLevels.js';
+import { applyNetSuiteCustomer } from './customerConflicts.js';
+
+export const SIGNATURE_HEADER = 'x-pos-signature';
+
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  accountId?: string;
+  timestamp?: string;
+  data: Record<string, unknown>;
+}
+
+// Signature format: "sha256=<hex HMAC of the raw request body>"
+export function verifySignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+  // Invalid hex decodes to fewer bytes, which timingSafeEqual would throw on
+  const received = Buffer.from(signature.slice('sha256='.length), 'hex');
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+const optionalString = (value: unknown): string | undefined =>
+  value === undefined || value === null ? undefined : String(value);
+
+const optionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+async function applyItemUpdated(tx: Prisma.TransactionClient, tenantId: string, data: Record<string, unknown>) {
+  const netsuiteId = String(data.internalId);
+
+  const fields = {
+    sku: optionalString(data.itemId),
+    name: optionalString(data.displayName),
+    description: optionalString(data.description),
+    barcode: optionalString(data.upcCode),
+    basePrice: optionalNumber(data.salesPrice),
+    cost: optionalNumber(data.cost),
+    isActive: data.isInactive === undefined ? undefined : !data.isInactive,
+    isGiftCard: data.isGiftCard === undefined ? undefined : !!data.isGiftCard,
+  };
+
+  const existing = await tx.item.findUnique({
+    where: { tenantId_netsuiteId: { tenantId, netsuiteId } },
+  });
+
+  const priceLevels = Array.isArray(data.priceLevels)
+    ? (data.priceLevels as NetSuitePriceLevel[])
+    : undefined;
+
+  if (existing) {
+    await tx.item.update({ where: { id: existing.id }, data: fields });
+    if (priceLevels) {
+      await replacePriceLevels(tx, existing.id, priceLevels);
+    }
+    return;
+  }
+
+  // New items need the same fields a full sync would provide
+  if (!fields.sku || fields.basePrice === undefined) {
+    logger.warn(`Ignoring item.updated for unknown NetSuite item ${netsuiteId} without sku/price`);
+    return;
+  }
+
+  const item = await tx.item.create({
+    data: {
+      ...fields,
+      tenantId,
+      netsuiteId,
+      sku: fields.sku,
+      name: fields.name || fields.sku,
+      basePrice: fields.basePrice,
+    },
+  });
+
+  if (priceLevels) {
+    await replacePriceLevels(tx, item.id, priceLevels);
+  }
+}
+
+async function applyCustomerUpdated(tx: Prisma.TransactionClient, tenantId: string, data: Record<string, unknown>) {
+  const lastModified = data.lastModified ? new Date(String(data.lastModified)) : null;
+
+  await applyNetSuiteCustomer(tx, tenantId, String(data.internalId), {
+    firstName: optionalString(data.firstName),
+    lastName: optionalString(data.lastName),
+    email: optionalString(data.email),
+    phone: optionalString(data.phone),
+    company: optionalString(data.companyName),
+    // An empty string clears the customer's price level
+    priceLevel: data.priceLevel === undefined ? undefined : optionalString(data.priceLevel) || null,
+    balance: optionalNumber(data.balance),
+    creditLimit: optionalNumber(data.creditLimit),
+  }, lastModified && !isNaN(lastModified.getTime()) ? lastModified : null);
+}
+
+async function applyInventoryUpdated(tx: Prisma.TransactionClient, tenantId: string, data: Record<string, unknown>) {
+  // Accept a single level or a batch under "levels"
+  const levels = (Array.isArray(data.levels) ? data.levels : [data]) as Array<Record<string, unknown>>;
+
+  for (const level of levels) {
+    const [item, location] = await Promise.all([
+      tx.item.findUnique({
+        where: { tenantId_netsuiteId: { tenantId, netsuiteId: String(level.itemId) } },
+      }),
+      tx.location.findUnique({
+        where: { tenantId_netsuiteId: { tenantId, netsuiteId: String(level.locationId) } },
+      }),
+    ]);
+
+    if (!item || !location) {
+      logger.warn(`Ignoring inventory.updated for unlinked item ${level.itemId} / location ${level.locationId}`);
+      continue;
+    }
+
+    const quantities = {
+      quantityOnHand: optionalNumber(level.quantityOnHand) ?? 0,
+      quantityAvailable: optionalNumber(level.quantityAvailable) ?? optionalNumber(level.quantityOnHand) ?? 0,
+      quantityCommitted: optionalNumber(level.quantityCommitted) ?? 0,
+      lastSyncedAt: new Date(),
+    };
+
+    await tx.inventoryLevel.upsert({
+      where: { itemId_locationId: { itemId: item.id, locationId: location.id } },
+      update: quantities,
+      create: { itemId: item.id, locationId: location.id, ...quantities },
+    });
+  }
+}
+
+// Apply a verified webhook to the tenant's local records. Returns false for
+// events we do not handle so they are acknowledged without side effects.
+export async function applyWebhookEvent(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  payload: WebhookPayload
+): Promise<boolean> {
+  switch (payload.event) {
+    case 'item.updated':
+      await applyItemUpdated(tx, tenantId, payload.data);
+      return true;
+    case 'customer.updated':
+      await applyCustomerUpdated(tx, tenantId, payload.data);
+      return true;
+    case 'inventory.updated':
+      await applyInventoryUpdated(tx, tenantId, payload.data);
+      return true;
+    default:
+      return false;
+  }
+}
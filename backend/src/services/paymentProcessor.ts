@@ -0,0 +1,76 @@
+import Stripe from 'stripe';
+import { PaymentProcessorError } from '../middleware/errorHandler.js';
+import { logger } from '../utils/logger.js';
+
+// Card processor adapter. PAYMENT_PROCESSOR picks the implementation:
+// "stripe" refunds Stripe Terminal payment intents, anything else simulates
+// the processor like POST /payments/process does.
+
+export interface ProcessorRefundRequest {
+  paymentReference: string | null;
+  amount: number;
+  currency: string;
+  // Sent to the processor so a retried refund is only paid out once
+  idempotencyKey: string;
+}
+
+export interface ProcessorRefundResult {
+  reference: string;
+}
+
+export interface PaymentProcessor {
+  readonly name: string;
+  refund(request: ProcessorRefundRequest): Promise<ProcessorRefundResult>;
+}
+
+class SimulatedProcessor implements PaymentProcessor {
+  readonly name = 'simulated';
+
+  async refund(): Promise<ProcessorRefundResult> {
+    return { reference: `REF-${Date.now()}` };
+  }
+}
+
+class StripeProcessor implements PaymentProcessor {
+  readonly name = 'stripe';
+  private stripe: Stripe;
+
+  constructor(secretKey: string) {
+    this.stripe = new Stripe(secretKey, { apiVersion: '2023-10-16' });
+  }
+
+  async refund(request: ProcessorRefundRequest): Promise<ProcessorRefundResult> {
+    if (!request.paymentReference) {
+      throw new PaymentProcessorError('Card payment has no processor reference to refund');
+    }
+
+    try {
+      const refund = await this.stripe.refunds.create(
+        {
+          payment_intent: request.paymentReference,
+          amount: Math.round(request.amount * 100),
+        },
+        { idempotencyKey: request.idempotencyKey }
+      );
+      return { reference: refund.id };
+    } catch (error) {
+      logger.error('Stripe refund failed:', error);
+      throw new PaymentProcessorError(
+        error instanceof Error ? `Card refund failed: ${error.message}` : 'Card refund failed'
+      );
+    }
+  }
+}
+
+let processor: PaymentProcessor | undefined;
+
+export function getPaymentProcessor(): PaymentProcessor {
+  if (!processor) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    processor =
+      process.env.PAYMENT_PROCESSOR === 'stripe' && secretKey
+        ? new StripeProcessor(secretKey)
+        : new SimulatedProcessor();
+  }
+  return processor;
+}
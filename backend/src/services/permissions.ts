@@ -0,0 +1,88 @@
+import { UserRole } from '@prisma/client';
+import { ValidationError } from '../middleware/errorHandler.js';
+
+// What a user may do. Each role has a default set of permissions; a tenant
+// can define custom roles with their own set and give them to users, who
+// keep their role for everything else (which screens they land on, etc.).
+
+export const PERMISSIONS = {
+  'pos.sell': 'Ring up sales and take payments',
+  'pos.no_sale': 'Open the cash drawer without a sale',
+  'transaction.void': 'Void transactions',
+  'transaction.return': 'Process returns and exchanges',
+  'payment.refund': 'Refund payments outside a return',
+  'override.approve': 'Approve discounts, voids and other cashier overrides',
+  'shift.close_any': 'Close shifts opened by someone else',
+  'customer.edit': 'Add and edit customers',
+  'customer.edit_credit_limit': 'Change customer credit limits',
+  'inventory.adjust': 'Adjust stock levels',
+  'inventory.transfer': 'Transfer stock between locations',
+  'reports.view': 'View reports',
+  'reports.view_all_locations': 'View reports for every location',
+  'sync.manage': 'Run NetSuite syncs and retry or clear failed ones',
+  'settings.manage': 'Change store settings, approval policy and receipt numbering',
+  'promotions.manage': 'Create and edit promotions',
+  'coupons.manage': 'Create coupons and view campaign results',
+  'giftcards.manage': 'Issue, adjust and deactivate gift cards',
+  'netsuite.manage': 'Configure the NetSuite connection',
+  'users.manage': 'Invite users and manage roles',
+  'billing.manage': 'Manage the subscription',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+const CASHIER_PERMISSIONS: Permission[] = [
+  'pos.sell',
+  'pos.no_sale',
+  'transaction.void',
+  'transaction.return',
+  'customer.edit',
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...CASHIER_PERMISSIONS,
+  'payment.refund',
+  'override.approve',
+  'shift.close_any',
+  'customer.edit_credit_limit',
+  'inventory.adjust',
+  'inventory.transfer',
+  'reports.view',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  SUPER_ADMIN: ALL_PERMISSIONS,
+  OWNER: ALL_PERMISSIONS,
+  ADMIN: ALL_PERMISSIONS.filter((permission) => permission !== 'billing.manage'),
+  MANAGER: MANAGER_PERMISSIONS,
+  CASHIER: CASHIER_PERMISSIONS,
+};
+
+// A user's permissions. Owners always have every permission so a tenant
+// can't lock itself out.
+export function permissionsFor(
+  role: UserRole,
+  customRole?: { permissions: string[] } | null
+): Permission[] {
+  if (role === 'OWNER' || role === 'SUPER_ADMIN' || !customRole) {
+    return ROLE_PERMISSIONS[role];
+  }
+  return customRole.permissions.filter((permission): permission is Permission =>
+    permission in PERMISSIONS
+  );
+}
+
+// Check permissions sent by the roles screen
+export function validatePermissions(input: unknown): Permission[] {
+  if (!Array.isArray(input)) {
+    throw new ValidationError('Permissions must be a list');
+  }
+
+  const unknown = input.filter((permission) => !(String(permission) in PERMISSIONS));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown permissions: ${unknown.join(', ')}`);
+  }
+  return [...new Set(input as Permission[])];
+}
@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client';
+import { TooManyAttemptsError } from '../middleware/errorHandler.js';
+
+// PIN routes are rate limited per IP, which doesn't stop guesses at one
+// user's PIN from several registers. So after too many wrong PINs for a user
+// within the lockout period, their PIN is refused until the oldest of those
+// tries is that long ago. Wrong PINs are the audit rows naming the user as
+// their entity; signing in with the right PIN starts the count over.
+
+const PIN_DENIED_ACTIONS = ['USER_SWITCH_DENIED', 'MANAGER_OVERRIDE_DENIED'];
+const PIN_ACCEPTED_ACTIONS = ['USER_SWITCHED', 'MANAGER_OVERRIDE_APPROVED'];
+
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+export async function assertPinNotLocked(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string
+): Promise<void> {
+  const windowStart = new Date(Date.now() - PIN_LOCKOUT_MS);
+
+  const lastAccepted = await db.auditLog.findFirst({
+    where: { tenantId, userId, action: { in: PIN_ACCEPTED_ACTIONS }, createdAt: { gt: windowStart } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  const failures = await db.auditLog.findMany({
+    where: {
+      tenantId,
+      action: { in: PIN_DENIED_ACTIONS },
+      entityType: 'User',
+      entityId: userId,
+      createdAt: { gt: lastAccepted?.createdAt ?? windowStart },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_PIN_FAILURES,
+    select: { createdAt: true },
+  });
+
+  if (failures.length < MAX_PIN_FAILURES) {
+    return;
+  }
+
+  const unlocksAt = failures[MAX_PIN_FAILURES - 1].createdAt.getTime() + PIN_LOCKOUT_MS;
+  const minutes = Math.max(1, Math.ceil((unlocksAt - Date.now()) / 60000));
+  throw new TooManyAttemptsError(
+    `Too many wrong PINs for this user. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+  );
+}
@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+
+// Receipt numbers are a gap-free sequence per register, e.g. MAIN-REG1-000123.
+// Registers reserve blocks of the sequence so they can keep numbering sales
+// while offline; sales made online without a reserved number take the next
+// one directly.
+
+export const DEFAULT_RECEIPT_FORMAT = '{location}-{register}-{sequence:6}';
+export const DEFAULT_BLOCK_SIZE = 100;
+export const MAX_BLOCK_SIZE = 1000;
+
+const SEQUENCE_TOKEN = /\{sequence(?::(\d+))?\}/g;
+const TOKEN = /\{([^}]*)\}/g;
+const CODE = /^[A-Z0-9]{1,10}$/;
+
+export function validateReceiptFormat(format: string): void {
+  const sequenceTokens = format.match(SEQUENCE_TOKEN) || [];
+  if (sequenceTokens.length !== 1) {
+    throw new ValidationError('Receipt format must contain {sequence} exactly once');
+  }
+
+  // Every register counts from 1, and register codes are only unique within
+  // their location, so numbers need both to be unique across the tenant
+  if (!format.includes('{location}') || !format.includes('{register}')) {
+    throw new ValidationError('Receipt format must contain {location} and {register}');
+  }
+
+  for (const [, token] of format.matchAll(TOKEN)) {
+    if (!['location', 'register'].includes(token) && !/^sequence(:\d{1,2})?$/.test(token)) {
+      throw new ValidationError(`Unknown receipt format token {${token}}`);
+    }
+  }
+
+  if (format.length > 50) {
+    throw new ValidationError('Receipt format must be 50 characters or fewer');
+  }
+}
+
+export function normalizeCode(code: unknown): string | null {
+  if (code === null || code === undefined || code === '') {
+    return null;
+  }
+
+  const normalized = String(code).trim().toUpperCase();
+  if (!CODE.test(normalized)) {
+    throw new ValidationError('Codes must be 1-10 letters or digits');
+  }
+  return normalized;
+}
+
+// Locations and registers without a code fall back to their name
+const codeFor = (entity: { code: string | null; name: string }) =>
+  entity.code || entity.name.replace(/[^A-Za-z0-9]/g, '').toUpperCase().slice(0, 10);
+
+// Fill in everything but the sequence number
+export function receiptTemplate(
+  format: string,
+  location: { code: string | null; name: string },
+  register: { code: string | null; name: string }
+): string {
+  return format
+    .replace(/\{location\}/g, codeFor(location))
+    .replace(/\{register\}/g, codeFor(register));
+}
+
+export function formatReceiptNumber(template: string, sequence: number): string {
+  return template.replace(SEQUENCE_TOKEN, (_match, width?: string) =>
+    String(sequence).padStart(width ? Number(width) : 0, '0')
+  );
+}
+
+async function loadRegister(tx: Prisma.TransactionClient, tenantId: string, registerId: string) {
+  const register = await tx.register.findFirst({
+    where: { id: registerId, location: { tenantId } },
+    include: { location: { include: { tenant: { select: { receiptNumberFormat: true } } } } },
+  });
+
+  if (!register) {
+    throw new NotFoundError('Register not found');
+  }
+
+  return {
+    register,
+    template: receiptTemplate(register.location.tenant.receiptNumberFormat, register.location, register),
+  };
+}
+
+// Hand out the next `size` numbers of the register's sequence. The format in
+// force now is kept with the block so numbers issued offline don't change if
+// the format is edited later.
+export async function reserveReceiptBlock(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  registerId: string,
+  size: number,
+  reservedById: string
+) {
+  const { template } = await loadRegister(tx, tenantId, registerId);
+
+  const { receiptSequence: end } = await tx.register.update({
+    where: { id: registerId },
+    data: { receiptSequence: { increment: size } },
+  });
+
+  return tx.receiptNumberBlock.create({
+    data: {
+      registerId,
+      template,
+      start: end - size + 1,
+      end,
+      reservedById,
+    },
+  });
+}
+
+// Work out the receipt number for a sale. A sequence number from a reserved
+// block is checked against that block, and must not have been spoiled;
+// otherwise the next number is taken.
+export async function assignReceiptNumber(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  registerId: string,
+  receiptSequence?: number,
+  receiptNumber?: string
+): Promise<{ receiptNumber: string; receiptSequence: number }> {
+  if (receiptSequence === undefined || receiptSequence === null) {
+    const { template } = await loadRegister(tx, tenantId, registerId);
+    const { receiptSequence: next } = await tx.register.update({
+      where: { id: registerId },
+      data: { receiptSequence: { increment: 1 } },
+    });
+    return { receiptNumber: formatReceiptNumber(template, next), receiptSequence: next };
+  }
+
+  const expected = await reservedReceiptNumber(tx, tenantId, registerId, receiptSequence, receiptNumber);
+
+  const spoiled = await tx.spoiledReceipt.findUnique({
+    where: { tenantId_receiptNumber: { tenantId, receiptNumber: expected } },
+  });
+  if (spoiled) {
+    throw new ValidationError(`Receipt number ${expected} was spoiled`);
+  }
+
+  return { receiptNumber: expected, receiptSequence };
+}
+
+// The receipt number for a sequence number the register reserved
+async function reservedReceiptNumber(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  registerId: string,
+  receiptSequence: number,
+  receiptNumber?: string
+): Promise<string> {
+  const block = await tx.receiptNumberBlock.findFirst({
+    where: {
+      registerId,
+      register: { location: { tenantId } },
+      start: { lte: receiptSequence },
+      end: { gte: receiptSequence },
+    },
+  });
+
+  if (!block) {
+    throw new ValidationError(`Receipt sequence ${receiptSequence} was not reserved by this register`);
+  }
+
+  const expected = formatReceiptNumber(block.template, receiptSequence);
+  if (receiptNumber && receiptNumber !== expected) {
+    throw new ValidationError(`Receipt number ${receiptNumber} should be ${expected}`);
+  }
+
+  return expected;
+}
+
+// Record a number the register took for a sale that was never recorded, e.g.
+// one the server rejected. Returns null if the sale was recorded after all,
+// which happens when the register lost the response. Reporting the same
+// number again is harmless.
+export async function spoilReceiptNumber(
+  tx: Prisma.TransactionClient,
+  input: {
+    tenantId: string;
+    registerId: string;
+    receiptSequence: number;
+    receiptNumber?: string;
+    reason?: string;
+    userId: string;
+  }
+) {
+  const { tenantId, registerId, receiptSequence, reason, userId } = input;
+  const receiptNumber = await reservedReceiptNumber(tx, tenantId, registerId, receiptSequence, input.receiptNumber);
+
+  const recorded = await tx.transaction.findUnique({
+    where: { tenantId_receiptNumber: { tenantId, receiptNumber } },
+    select: { id: true },
+  });
+  if (recorded) {
+    return null;
+  }
+
+  return tx.spoiledReceipt.upsert({
+    where: { tenantId_receiptNumber: { tenantId, receiptNumber } },
+    create: { tenantId, registerId, receiptNumber, receiptSequence, reason, userId },
+    update: {},
+  });
+}
@@ -0,0 +1,272 @@
+import { Payment, PaymentMethod, Prisma, PrismaClient, Refund } from '@prisma/client';
+import { NotFoundError, PaymentProcessorError, ValidationError } from '../middleware/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { moveGiftCardBalance } from './giftCards.js';
+import { getPaymentProcessor } from './paymentProcessor.js';
+import { lockRow } from './tenantScope.js';
+import { roundMoney } from 'shared/totals';
+
+// Refunds give money back against a captured payment. They are reserved in
+// the database first, restoring gift card and store credit balances straight
+// away; card refunds then go to the processor and are released again if it
+// declines them.
+
+interface RefundInput {
+  tenantId: string;
+  userId: string;
+  amount: number;
+  reason?: string;
+  // Return or void giving the money back
+  transactionId?: string;
+}
+
+// What the customer actually paid with a payment, less change given
+export const capturedAmount = (payment: Payment) =>
+  roundMoney(Number(payment.amount) - Number(payment.changeAmount || 0));
+
+export const refundableAmount = (payment: Payment) =>
+  roundMoney(capturedAmount(payment) - Number(payment.refundedAmount));
+
+export const formatRefund = (refund: Refund) => ({
+  id: refund.id,
+  paymentId: refund.paymentId,
+  transactionId: refund.transactionId,
+  amount: Number(refund.amount),
+  reason: refund.reason,
+  status: refund.status.toLowerCase(),
+  processorReference: refund.processorReference,
+  error: refund.error,
+  createdAt: refund.createdAt,
+});
+
+export async function reserveRefund(
+  tx: Prisma.TransactionClient,
+  paymentId: string,
+  input: RefundInput
+): Promise<Refund> {
+  // Locked so concurrent refunds can't both take the last of the payment
+  await lockRow(tx, 'Payment', paymentId);
+
+  const payment = await tx.payment.findFirst({
+    where: { id: paymentId, transaction: { tenantId: input.tenantId } },
+    include: { transaction: { select: { customerId: true } } },
+  });
+
+  if (!payment) {
+    throw new NotFoundError('Payment not found');
+  }
+
+  if (payment.status !== 'COMPLETED' || Number(payment.amount) <= 0) {
+    throw new ValidationError(`A ${payment.status.toLowerCase()} payment can't be refunded`);
+  }
+
+  const amount = roundMoney(input.amount);
+  const remaining = refundableAmount(payment);
+
+  if (!(amount > 0)) {
+    throw new ValidationError('Refund amount must be greater than zero');
+  }
+
+  if (amount > remaining) {
+    throw new ValidationError(`Only ${Math.max(remaining, 0).toFixed(2)} of this payment can still be refunded`);
+  }
+
+  await tx.payment.update({
+    where: { id: paymentId },
+    data: {
+      refundedAmount: { increment: amount },
+      status: amount === remaining ? 'REFUNDED' : undefined,
+    },
+  });
+
+  if (payment.method === 'GIFT_CARD') {
+    const card = payment.giftCardId
+      ? await moveGiftCardBalance(tx, payment.giftCardId, amount, {
+          tenantId: input.tenantId,
+          type: 'REFUND',
+          transactionId: input.transactionId,
+          userId: input.userId,
+        })
+      : null;
+    if (!card) {
+      throw new ValidationError('The gift card this payment used no longer exists');
+    }
+  }
+
+  if (payment.method === 'STORE_CREDIT') {
+    if (!payment.transaction.customerId) {
+      throw new ValidationError('This store credit payment has no customer to refund');
+    }
+    await tx.customer.update({
+      where: { id: payment.transaction.customerId },
+      data: { storeCredit: { increment: amount } },
+    });
+  }
+
+  return tx.refund.create({
+    data: {
+      tenantId: input.tenantId,
+      paymentId,
+      transactionId: input.transactionId,
+      amount,
+      reason: input.reason,
+      status: payment.method === 'CARD' ? 'PENDING' : 'COMPLETED',
+      userId: input.userId,
+    },
+  });
+}
+
+// Have the processor pay out a pending card refund. A declined refund is
+// marked failed and its amount released so it can be tried again.
+export async function settleRefund(db: PrismaClient, refund: Refund): Promise<Refund> {
+  if (refund.status !== 'PENDING') {
+    return refund;
+  }
+
+  const payment = await db.payment.findUniqueOrThrow({
+    where: { id: refund.paymentId },
+    include: { transaction: { select: { tenant: { select: { currency: true } } } } },
+  });
+
+  try {
+    const result = await getPaymentProcessor().refund({
+      paymentReference: payment.reference,
+      amount: Number(refund.amount),
+      currency: payment.transaction.tenant.currency,
+      idempotencyKey: refund.id,
+    });
+
+    return await db.refund.update({
+      where: { id: refund.id },
+      data: { status: 'COMPLETED', processorReference: result.reference },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Card refund failed';
+    logger.error(`Refund ${refund.id} of payment ${payment.id} failed:`, error);
+
+    return db.$transaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { refundedAmount: { decrement: refund.amount }, status: 'COMPLETED' },
+      });
+      return tx.refund.update({
+        where: { id: refund.id },
+        data: { status: 'FAILED', error: message },
+      });
+    });
+  }
+}
+
+// Refund part or all of a single payment
+export async function refundPayment(
+  db: PrismaClient,
+  paymentId: string,
+  input: RefundInput
+): Promise<Refund> {
+  const reserved = await db.$transaction((tx) => reserveRefund(tx, paymentId, input));
+  const refund = await settleRefund(db, reserved);
+
+  if (refund.status === 'FAILED') {
+    throw new PaymentProcessorError(refund.error || 'Card refund failed');
+  }
+
+  return refund;
+}
+
+// Reserve the refunds for a return against the original sale's payments of
+// each tender, oldest first. Store credit is issued to the customer instead
+// (see applyStoreCredit) so it isn't taken from a payment.
+export async function reserveReturnRefunds(
+  tx: Prisma.TransactionClient,
+  originalTransactionId: string,
+  payments: { method: string; amount: number }[],
+  input: Omit<RefundInput, 'amount'>
+): Promise<Refund[]> {
+  const due = new Map<PaymentMethod, number>();
+  for (const payment of payments) {
+    const method = payment.method.toUpperCase() as PaymentMethod;
+    if (method !== 'STORE_CREDIT' && Number(payment.amount) < 0) {
+      due.set(method, roundMoney((due.get(method) || 0) - Number(payment.amount)));
+    }
+  }
+
+  const refunds: Refund[] = [];
+
+  for (const [method, amount] of due) {
+    const sources = await tx.payment.findMany({
+      where: { transactionId: originalTransactionId, method, status: 'COMPLETED', amount: { gt: 0 } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let remaining = amount;
+    for (const source of sources) {
+      const take = Math.min(remaining, refundableAmount(source));
+      if (take > 0) {
+        refunds.push(await reserveRefund(tx, source.id, { ...input, amount: take }));
+        remaining = roundMoney(remaining - take);
+      }
+    }
+
+    if (remaining > 0) {
+      throw new ValidationError(
+        `Only ${roundMoney(amount - remaining).toFixed(2)} can be refunded to ${method.toLowerCase()}`
+      );
+    }
+  }
+
+  return refunds;
+}
+
+// Take back the refunds a voided return gave out. Money already paid out
+// to a card can't be recovered, so such returns can't be voided.
+export async function reverseRefunds(
+  tx: Prisma.TransactionClient,
+  transactionId: string
+): Promise<void> {
+  const refunds = await tx.refund.findMany({
+    where: {
+      transactionId,
+      status: { in: ['PENDING', 'COMPLETED'] },
+      payment: { transactionId: { not: transactionId } },
+    },
+    include: { payment: { include: { transaction: { select: { customerId: true } } } } },
+  });
+
+  if (refunds.some((refund) => refund.payment.method === 'CARD')) {
+    throw new ValidationError("A return refunded to a card can't be voided");
+  }
+
+  for (const refund of refunds) {
+    const { payment } = refund;
+
+    if (payment.method === 'GIFT_CARD' && payment.giftCardId) {
+      const card = await moveGiftCardBalance(tx, payment.giftCardId, -Number(refund.amount), {
+        tenantId: refund.tenantId,
+        type: 'VOID',
+        transactionId,
+      });
+      if (!card) {
+        throw new ValidationError('The gift card refund has already been spent');
+      }
+    }
+
+    if (payment.method === 'STORE_CREDIT' && payment.transaction.customerId) {
+      const { count } = await tx.customer.updateMany({
+        where: { id: payment.transaction.customerId, storeCredit: { gte: refund.amount } },
+        data: { storeCredit: { decrement: refund.amount } },
+      });
+      if (count === 0) {
+        throw new ValidationError('The store credit refund has already been spent');
+      }
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { refundedAmount: { decrement: refund.amount }, status: 'COMPLETED' },
+    });
+    await tx.refund.update({
+      where: { id: refund.id },
+      data: { status: 'VOIDED' },
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { checkReturnableQuantities } from './returns.js';
+
+// Three mugs were sold on one line; `returnedBefore` of them came back on
+// earlier returns
+function saleOfThreeMugs(returnedBefore = 0) {
+  return {
+    transaction: { findFirst: async () => ({ id: 'sale-1' }) },
+    $queryRawUnsafe: async () => [],
+    transactionItem: {
+      findMany: async () => [{ id: 'sold-mugs', sku: 'MUG', quantity: 3 }],
+      groupBy: async () =>
+        returnedBefore > 0 ? [{ originalItemId: 'sold-mugs', _sum: { quantity: -returnedBefore } }] : [],
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+const mugs = (quantity: number) => ({
+  item: { id: 'mug', sku: 'MUG', trackInventory: true },
+  quantity,
+  originalItemId: 'sold-mugs',
+  disposition: 'RESTOCK' as const,
+});
+
+describe('checkReturnableQuantities', () => {
+  it('allows returning what was sold', async () => {
+    await expect(checkReturnableQuantities(saleOfThreeMugs(), 'sale-1', [mugs(-3)])).resolves.toBeUndefined();
+  });
+
+  it('rejects returning more than was sold', async () => {
+    await expect(checkReturnableQuantities(saleOfThreeMugs(), 'sale-1', [mugs(-4)])).rejects.toThrow(
+      new ValidationError('Only 3 of MUG can still be returned')
+    );
+  });
+
+  it('counts what earlier returns took back', async () => {
+    await expect(checkReturnableQuantities(saleOfThreeMugs(2), 'sale-1', [mugs(-1)])).resolves.toBeUndefined();
+    await expect(checkReturnableQuantities(saleOfThreeMugs(2), 'sale-1', [mugs(-2)])).rejects.toThrow(
+      'Only 1 of MUG can still be returned'
+    );
+    await expect(checkReturnableQuantities(saleOfThreeMugs(3), 'sale-1', [mugs(-1)])).rejects.toThrow(
+      'Only 0 of MUG can still be returned'
+    );
+  });
+
+  it('adds up lines returning the same sold line', async () => {
+    await expect(checkReturnableQuantities(saleOfThreeMugs(), 'sale-1', [mugs(-2), mugs(-2)])).rejects.toThrow(
+      'Only 3 of MUG can still be returned'
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { Customer, PaymentMethod, Prisma, ReturnDisposition, Transaction } from '@prisma/client';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { refundableAmount } from './refunds.js';
+import { lockRow } from './tenantScope.js';
+import { roundMoney } from 'shared/totals';
+
+// Rules for returned lines and the refunds paid out for them. Returned lines
+// carry negative quantities and link to the sold line they return.
+
+interface ReturnLine {
+  item: { id: string; sku: string; trackInventory: boolean };
+  quantity: number;
+  originalItemId?: string;
+  disposition: ReturnDisposition | null;
+}
+
+interface RefundPayment {
+  method: string;
+  amount: number;
+}
+
+// Tenders a refund may go to without the original receipt
+const BLIND_REFUND_METHODS: PaymentMethod[] = ['CASH', 'STORE_CREDIT'];
+
+// Quantity of each sold line already returned by earlier, non-voided returns
+export async function returnedQuantities(
+  db: Prisma.TransactionClient,
+  soldItemIds: string[]
+): Promise<Map<string, number>> {
+  const returned = await db.transactionItem.groupBy({
+    by: ['originalItemId'],
+    where: {
+      originalItemId: { in: soldItemIds },
+      transaction: { status: { not: 'VOIDED' } },
+    },
+    _sum: { quantity: true },
+  });
+
+  return new Map(
+    returned.map((row) => [row.originalItemId!, Math.abs(Number(row._sum.quantity || 0))])
+  );
+}
+
+// Make sure no sold line is returned more times than it was sold. The
+// original sale is locked first so concurrent returns are checked in turn.
+export async function checkReturnableQuantities(
+  tx: Prisma.TransactionClient,
+  originalTransactionId: string | undefined,
+  lines: ReturnLine[]
+): Promise<void> {
+  const returning = new Map<string, number>();
+  for (const line of lines) {
+    if (line.originalItemId) {
+      returning.set(line.originalItemId, (returning.get(line.originalItemId) || 0) - line.quantity);
+    }
+  }
+
+  if (!originalTransactionId || returning.size === 0) {
+    return;
+  }
+
+  await lockRow(tx, 'Transaction', originalTransactionId);
+
+  const [sold, returned] = await Promise.all([
+    tx.transactionItem.findMany({ where: { id: { in: [...returning.keys()] } } }),
+    returnedQuantities(tx, [...returning.keys()]),
+  ]);
+
+  for (const soldLine of sold) {
+    const available = Number(soldLine.quantity) - (returned.get(soldLine.id) || 0);
+    if (returning.get(soldLine.id)! > available) {
+      throw new ValidationError(
+        `Only ${Math.max(available, 0)} of ${soldLine.sku} can still be returned`
+      );
+    }
+  }
+}
+
+// Refunds are negative payments that add up to the (negative) total. They go
+// back to tenders used on the original sale, up to what each tender paid less
+// earlier refunds, or to store credit.
+export async function validateRefundPayments(
+  db: Prisma.TransactionClient,
+  payments: RefundPayment[],
+  total: number,
+  customer: Customer | null,
+  original: Transaction | null
+): Promise<void> {
+  const byMethod = new Map<PaymentMethod, number>();
+
+  for (const payment of payments) {
+    const amount = Number(payment.amount);
+    if (amount > 0) {
+      throw new ValidationError('Refund payments must be negative amounts');
+    }
+    const method = payment.method.toUpperCase() as PaymentMethod;
+    byMethod.set(method, roundMoney((byMethod.get(method) || 0) - amount));
+  }
+
+  const refunded = [...byMethod.values()].reduce((sum, amount) => sum + amount, 0);
+  if (Math.abs(refunded + total) > 0.01) {
+    throw new ValidationError(
+      `Refunds of ${refunded.toFixed(2)} do not match the total of ${(-total).toFixed(2)}`
+    );
+  }
+
+  if (byMethod.has('STORE_CREDIT') && !customer) {
+    throw new ValidationError('A customer is required to refund to store credit');
+  }
+
+  if (!original) {
+    const method = [...byMethod.keys()].find((m) => !BLIND_REFUND_METHODS.includes(m));
+    if (method) {
+      throw new ValidationError(`Returns without a receipt can't be refunded to ${method.toLowerCase()}`);
+    }
+    return;
+  }
+
+  const tendered = await db.payment.findMany({
+    where: { transactionId: original.id, status: 'COMPLETED', amount: { gt: 0 } },
+  });
+
+  for (const [method, amount] of byMethod) {
+    if (method === 'STORE_CREDIT') {
+      continue;
+    }
+
+    const remaining = roundMoney(
+      tendered
+        .filter((payment) => payment.method === method)
+        .reduce((sum, payment) => sum + refundableAmount(payment), 0)
+    );
+    if (amount > remaining + 0.01) {
+      throw new ValidationError(
+        `Only ${Math.max(remaining, 0).toFixed(2)} can be refunded to ${method.toLowerCase()}`
+      );
+    }
+  }
+}
+
+// Spend or issue store credit for STORE_CREDIT payments. Positive amounts pay
+// for a sale, negative amounts are refunds credited to the customer.
+export async function applyStoreCredit(
+  tx: Prisma.TransactionClient,
+  customerId: string | undefined,
+  payments: RefundPayment[]
+): Promise<void> {
+  const amount = roundMoney(
+    payments
+      .filter((payment) => payment.method.toUpperCase() === 'STORE_CREDIT')
+      .reduce((sum, payment) => sum + Number(payment.amount), 0)
+  );
+
+  if (amount === 0) {
+    return;
+  }
+
+  if (!customerId) {
+    throw new ValidationError('A customer is required to use store credit');
+  }
+
+  if (amount < 0) {
+    await tx.customer.update({
+      where: { id: customerId },
+      data: { storeCredit: { increment: -amount } },
+    });
+    return;
+  }
+
+  const { count } = await tx.customer.updateMany({
+    where: { id: customerId, storeCredit: { gte: amount } },
+    data: { storeCredit: { decrement: amount } },
+  });
+
+  if (count === 0) {
+    throw new ValidationError('Insufficient store credit');
+  }
+}
+
+// NetSuite inventory adjustments taking damaged and discarded returns back
+// out of stock
+export function dispositionAdjustments(
+  lines: ReturnLine[],
+  locationId: string,
+  receiptNumber: string
+): Prisma.InputJsonObject[] {
+  return lines
+    .filter(
+      (line) =>
+        line.item.trackInventory &&
+        (line.disposition === 'DAMAGED' || line.disposition === 'DISCARD')
+    )
+    .map((line) => ({
+      itemId: line.item.id,
+      locationId,
+      adjustQty: line.quantity,
+      memo: `POS return ${receiptNumber}: ${line.disposition!.toLowerCase()}`,
+    }));
+}
@@ -0,0 +1,313 @@
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AuthorizationError } from '../middleware/errorHandler.js';
+import { lockRow, runWithTenant, tenantScope } from './tenantScope.js';
+
+// The scoped client runs against an in-memory stand-in for the database,
+// added after tenantScope so it sees each query as the scope left it.
+
+type Row = Record<string, unknown>;
+
+const MODELS = new Map(Prisma.dmmf.datamodel.models.map((model) => [model.name, model]));
+
+let tables: Map<string, Row[]>;
+let rawSql: unknown[];
+
+function table(model: string): Row[] {
+  if (!tables.has(model)) tables.set(model, []);
+  return tables.get(model)!;
+}
+
+function relation(model: string, name: string) {
+  return MODELS.get(model)!.fields.find((field) => field.name === name && field.kind === 'object');
+}
+
+function matches(model: string, row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) return true;
+    if (key === 'AND') {
+      return ([] as Row[]).concat(filter as Row).every((and) => matches(model, row, and));
+    }
+    const field = relation(model, key);
+    if (field) {
+      const [from] = field.relationFromFields!;
+      const [to] = field.relationToFields!;
+      const parent = table(field.type).find((candidate) => candidate[to] === row[from]);
+      return parent !== undefined && matches(field.type, parent, filter as Row);
+    }
+    return row[key] === filter;
+  });
+}
+
+function write(model: string, row: Row, data: Row): Row {
+  for (const [key, value] of Object.entries(data)) {
+    const field = relation(model, key);
+    if (!field) {
+      row[key] = value;
+      continue;
+    }
+    const { connect, create } = value as Row;
+    if (connect) {
+      const parent = table(field.type).find((candidate) => matches(field.type, candidate, connect as Row));
+      if (!parent) throw new Error(`No ${field.type} found to connect`);
+      row[field.relationFromFields![0]] = parent[field.relationToFields![0]];
+    }
+    if (create) {
+      const back = MODELS.get(field.type)!.fields.find(
+        (candidate) => candidate.relationName === field.relationName && candidate !== field
+      )!;
+      for (const child of ([] as Row[]).concat(create as Row)) {
+        insert(field.type, { ...child, [back.relationFromFields![0]]: row[back.relationToFields![0]] });
+      }
+    }
+  }
+  return row;
+}
+
+function insert(model: string, data: Row): Row {
+  const row = write(model, { id: randomUUID() }, data);
+  table(model).push(row);
+  return row;
+}
+
+function found(model: string, row: Row | undefined): Row {
+  if (!row) throw new Error(`${model} not found`);
+  return row;
+}
+
+const fakeDatabase = Prisma.defineExtension({
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args }) {
+        const { where, data, create, update } = args as Row;
+        const rows = table(model).filter((row) => matches(model, row, where as Row));
+        switch (operation) {
+          case 'findUnique':
+          case 'findFirst':
+            return rows[0] ?? null;
+          case 'findMany':
+            return rows;
+          case 'create':
+            return insert(model, data as Row);
+          case 'createMany':
+            return { count: (data as Row[]).map((record) => insert(model, record)).length };
+          case 'update':
+            return write(model, found(model, rows[0]), data as Row);
+          case 'upsert':
+            return rows[0] ? write(model, rows[0], update as Row) : insert(model, create as Row);
+          case 'delete':
+            table(model).splice(table(model).indexOf(found(model, rows[0])), 1);
+            return rows[0];
+        }
+        throw new Error(`${operation} is not supported by the fake database`);
+      },
+    },
+    async $queryRaw({ args }) {
+      rawSql.push(args);
+      return [];
+    },
+    async $queryRawUnsafe({ args }) {
+      rawSql.push(args);
+      return [];
+    },
+  },
+});
+
+const prisma = new PrismaClient().$extends(tenantScope).$extends(fakeDatabase) as unknown as PrismaClient;
+
+const asA = <T>(fn: () => Promise<T>) => runWithTenant('tenant-a', fn);
+
+// Records of one tenant's, each with its own id
+function seedTenant(tenantId: string) {
+  const location = insert('Location', { tenantId, name: `${tenantId} store` });
+  const register = insert('Register', { locationId: location.id, name: 'Register 1' });
+  const item = insert('Item', { tenantId, name: 'Coffee' });
+  const customer = insert('Customer', { tenantId, firstName: 'Sam' });
+  const transaction = insert('Transaction', {
+    tenantId,
+    registerId: register.id,
+    locationId: location.id,
+    customerId: customer.id,
+  });
+  const payment = insert('Payment', { transactionId: transaction.id, amount: 10 });
+  return { location, register, item, customer, transaction, payment };
+}
+
+let a: ReturnType<typeof seedTenant>;
+let b: ReturnType<typeof seedTenant>;
+
+beforeEach(() => {
+  tables = new Map();
+  rawSql = [];
+  insert('Tenant', { id: 'tenant-a' });
+  insert('Tenant', { id: 'tenant-b' });
+  a = seedTenant('tenant-a');
+  b = seedTenant('tenant-b');
+});
+
+describe('tenantScope reads', () => {
+  it("doesn't find another tenant's records", async () => {
+    await asA(async () => {
+      expect(await prisma.transaction.findUnique({ where: { id: b.transaction.id as string } })).toBeNull();
+      expect(await prisma.payment.findFirst({ where: { id: b.payment.id as string } })).toBeNull();
+      expect(await prisma.register.findMany()).toEqual([a.register]);
+    });
+  });
+
+  it("finds the tenant's own records", async () => {
+    await asA(async () => {
+      expect(await prisma.transaction.findUnique({ where: { id: a.transaction.id as string } })).toEqual(
+        a.transaction
+      );
+    });
+  });
+});
+
+describe('tenantScope writes', () => {
+  it("can't update or delete another tenant's records", async () => {
+    await asA(async () => {
+      await expect(
+        prisma.transaction.update({ where: { id: b.transaction.id as string }, data: { notes: 'mine' } })
+      ).rejects.toThrow('not found');
+      await expect(prisma.payment.delete({ where: { id: b.payment.id as string } })).rejects.toThrow(
+        'not found'
+      );
+    });
+    expect(b.transaction.notes).toBeUndefined();
+    expect(table('Payment')).toContain(b.payment);
+  });
+
+  it('refuses creating or moving records into another tenant', async () => {
+    await asA(async () => {
+      await expect(
+        prisma.customer.create({ data: { tenantId: 'tenant-b', firstName: 'Eve', lastName: 'Doe' } })
+      ).rejects.toThrow(AuthorizationError);
+      await expect(
+        prisma.customer.update({ where: { id: a.customer.id as string }, data: { tenantId: 'tenant-b' } })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  it('fills in the tenant on new records', async () => {
+    await asA(async () => {
+      const customer = await prisma.customer.create({
+        data: { firstName: 'Alex', lastName: 'Kim' } as Prisma.CustomerUncheckedCreateInput,
+      });
+      expect(customer.tenantId).toBe('tenant-a');
+    });
+  });
+
+  it("can't create records under another tenant's parent", async () => {
+    await asA(async () => {
+      await expect(
+        prisma.register.create({ data: { locationId: b.location.id as string, name: 'Sneaky' } })
+      ).rejects.toThrow('No Location found');
+      await expect(
+        prisma.payment.create({
+          data: { transactionId: b.transaction.id as string, method: 'CASH', amount: 5 },
+        })
+      ).rejects.toThrow('No Transaction found');
+      await expect(
+        prisma.priceLevel.upsert({
+          where: { id: 'new' },
+          create: { itemId: b.item.id as string, name: 'Wholesale', price: 1 },
+          update: {},
+        })
+      ).rejects.toThrow('No Item found');
+    });
+    expect(table('Register')).toHaveLength(2);
+    expect(table('Payment')).toHaveLength(2);
+  });
+
+  it("creates records under the tenant's own parent", async () => {
+    await asA(async () => {
+      const register = await prisma.register.create({
+        data: { locationId: a.location.id as string, name: 'Register 2' },
+      });
+      expect(register.locationId).toBe(a.location.id);
+    });
+  });
+
+  it("can't connect a record to another tenant's", async () => {
+    await asA(async () => {
+      await expect(
+        prisma.transaction.create({
+          data: {
+            tenantId: 'tenant-a',
+            registerId: a.register.id as string,
+            locationId: a.location.id as string,
+            customerId: b.customer.id as string,
+          } as Prisma.TransactionUncheckedCreateInput,
+        })
+      ).rejects.toThrow('No Customer found');
+      await expect(
+        prisma.transaction.update({
+          where: { id: a.transaction.id as string },
+          data: { customer: { connect: { id: b.customer.id as string } } },
+        })
+      ).rejects.toThrow('No Customer found');
+    });
+    expect(a.transaction.customerId).toBe(a.customer.id);
+  });
+
+  it('checks records created through a relation', async () => {
+    await asA(async () => {
+      await expect(
+        prisma.transaction.update({
+          where: { id: a.transaction.id as string },
+          data: {
+            items: {
+              create: { itemId: b.item.id as string } as Prisma.TransactionItemUncheckedCreateWithoutTransactionInput,
+            },
+          },
+        })
+      ).rejects.toThrow('No Item found');
+      await expect(
+        prisma.customer.update({
+          where: { id: a.customer.id as string },
+          data: {
+            coupons: {
+              create: { tenantId: 'tenant-b', code: 'FREE' } as Prisma.CouponUncheckedCreateWithoutCustomerInput,
+            },
+          },
+        })
+      ).rejects.toThrow(AuthorizationError);
+    });
+    expect(table('TransactionItem')).toHaveLength(0);
+    expect(table('Coupon')).toHaveLength(0);
+  });
+
+  it('refuses bulk creates of records that belong to a parent', async () => {
+    await asA(async () => {
+      await expect(
+        prisma.payment.createMany({
+          data: [{ transactionId: b.transaction.id as string, method: 'CASH', amount: 5 }],
+        })
+      ).rejects.toThrow(AuthorizationError);
+    });
+    expect(table('Payment')).toHaveLength(2);
+  });
+});
+
+describe('tenantScope raw SQL', () => {
+  it('refuses raw SQL while running as a tenant', async () => {
+    await asA(async () => {
+      await expect(prisma.$queryRaw`SELECT id FROM "Payment"`).rejects.toThrow(AuthorizationError);
+    });
+    expect(rawSql).toHaveLength(0);
+  });
+
+  it('allows raw SQL without a tenant', async () => {
+    await prisma.$queryRaw`SELECT 1`;
+    expect(rawSql).toHaveLength(1);
+  });
+
+  it("locks the tenant's own rows only", async () => {
+    await asA(async () => {
+      expect(await lockRow(prisma, 'Payment', a.payment.id as string)).toBe(true);
+      expect(await lockRow(prisma, 'Payment', b.payment.id as string)).toBe(false);
+    });
+    expect(rawSql).toEqual([['SELECT id FROM "Payment" WHERE id = $1 FOR UPDATE', a.payment.id]]);
+  });
+});
@@ -0,0 +1,358 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuthorizationError } from '../middleware/errorHandler.js';
+
+// Keeps every query made on behalf of a tenant inside that tenant.
+// authMiddleware runs the rest of the request with the user's tenant, and the
+// Prisma extension below adds it to the where of every query on a
+// tenant-owned model, so a record id from another tenant is simply not found.
+// Writes are checked too: new records get the tenant, records they connect
+// to must be the tenant's, and raw SQL, which can't be scoped, is refused.
+// Code that runs without a tenant (login, webhooks until they know their
+// tenant, super admin routes) is not scoped and must filter by tenantId itself.
+
+const tenantContext = new AsyncLocalStorage<{ tenantId: string; rawSql?: boolean }>();
+
+// Run fn, and everything it awaits, as the given tenant
+export function runWithTenant<T>(tenantId: string, fn: () => T): T {
+  return tenantContext.run({ tenantId }, fn);
+}
+
+export function currentTenantId(): string | undefined {
+  return tenantContext.getStore()?.tenantId;
+}
+
+type Scope = (tenantId: string) => Record<string, unknown>;
+
+const byTenantId: Scope = (tenantId) => ({ tenantId });
+
+// How each model belongs to a tenant. Models without a tenantId are scoped
+// through their parent. null marks models shared by every tenant.
+const SCOPES: Record<Prisma.ModelName, Scope | null> = {
+  Tenant: (tenantId) => ({ id: tenantId }),
+  PlanLimits: null,
+  User: byTenantId,
+  CustomRole: byTenantId,
+  ManagerApproval: byTenantId,
+  Invitation: byTenantId,
+  Location: byTenantId,
+  Register: (tenantId) => ({ location: { tenantId } }),
+  ReceiptNumberBlock: (tenantId) => ({ register: { location: { tenantId } } }),
+  SpoiledReceipt: byTenantId,
+  Shift: (tenantId) => ({ register: { location: { tenantId } } }),
+  Category: byTenantId,
+  Item: byTenantId,
+  InventoryLevel: (tenantId) => ({ location: { tenantId } }),
+  PriceLevel: (tenantId) => ({ item: { tenantId } }),
+  TaxRule: byTenantId,
+  Promotion: byTenantId,
+  Coupon: byTenantId,
+  CouponRedemption: byTenantId,
+  Customer: byTenantId,
+  CustomerSyncConflict: byTenantId,
+  CustomerAddress: (tenantId) => ({ customer: { tenantId } }),
+  Transaction: byTenantId,
+  TransactionItem: (tenantId) => ({ transaction: { tenantId } }),
+  Payment: (tenantId) => ({ transaction: { tenantId } }),
+  Refund: byTenantId,
+  NetSuitePaymentMethodMapping: byTenantId,
+  GiftCard: byTenantId,
+  GiftCardEntry: byTenantId,
+  SyncQueueItem: byTenantId,
+  NetSuiteWebhookEvent: byTenantId,
+  SyncCursor: byTenantId,
+  AuditLog: byTenantId,
+};
+
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+type Args = Record<string, unknown>;
+
+// Add the tenant to a where, keeping any unique fields at the top level
+function scopeWhere(where: unknown, scope: Args): Args {
+  const current = (where ?? {}) as Args;
+  const and = current.AND === undefined ? [] : ([] as unknown[]).concat(current.AND);
+  return { ...current, AND: [...and, scope] };
+}
+
+// Fill in the tenant on new records and refuse records for another tenant
+function withTenant(data: unknown, tenantId: string): Args {
+  const record = (data ?? {}) as Args;
+  const tenant = record.tenant as { connect?: Args } | undefined;
+  if (
+    (record.tenantId !== undefined && record.tenantId !== tenantId) ||
+    (tenant !== undefined && tenant.connect?.id !== tenantId)
+  ) {
+    throw new AuthorizationError('Cannot write records for another tenant');
+  }
+  return tenant === undefined ? { ...record, tenantId } : record;
+}
+
+// Refuse moving a record to another tenant
+function assertSameTenant(data: unknown, tenantId: string): void {
+  const tenantIdUpdate = (data as Args | undefined)?.tenantId;
+  if (tenantIdUpdate !== undefined && tenantIdUpdate !== tenantId) {
+    throw new AuthorizationError('Cannot move records to another tenant');
+  }
+}
+
+const RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    model.fields.filter((field) => field.kind === 'object'),
+  ])
+);
+
+function scopeOf(model: string, tenantId: string): Args | undefined {
+  return SCOPES[model as Prisma.ModelName]?.(tenantId);
+}
+
+// Only records of the tenant's can be connected to
+function connectWhere(model: string, where: unknown, tenantId: string): Args {
+  const scope = scopeOf(model, tenantId);
+  return scope ? scopeWhere(where, scope) : (where as Args);
+}
+
+// Nested writes take one record or a list of them
+function mapWrites(value: unknown, fn: (write: Args) => Args): unknown {
+  return Array.isArray(value) ? value.map(fn) : fn(value as Args);
+}
+
+// Prisma takes a record's relations as foreign keys or as connects but not a
+// mix, so every foreign key becomes a connect, scoped to the tenant when it
+// points at a tenant's record. A record id from another tenant then isn't
+// found, the same as it isn't for reads.
+function connectForeignKeys(model: string, data: Args, tenantId: string, update: boolean): Args {
+  const result: Args = { ...data };
+  for (const field of RELATIONS.get(model) ?? []) {
+    const [key] = field.relationFromFields ?? [];
+    const [referenced] = field.relationToFields ?? [];
+    if (key === undefined || data[key] === undefined) continue;
+
+    const set = data[key] as { set?: unknown } | null;
+    const value = set !== null && typeof set === 'object' ? set.set : set;
+    delete result[key];
+    if (value === null) {
+      if (update) result[field.name] = { disconnect: true };
+      continue;
+    }
+    result[field.name] = { connect: connectWhere(field.type, { [referenced]: value }, tenantId) };
+  }
+  return result;
+}
+
+// Bulk writes can't connect, so foreign keys are refused where they decide
+// which tenant a record belongs to. Foreign keys on tenant-owned models are
+// written as given; callers load those records through the scoped client.
+function assertNoParentKeys(model: string, data: unknown): void {
+  const record = (data ?? {}) as Args;
+  const parentKeys = (RELATIONS.get(model) ?? []).flatMap((field) => field.relationFromFields ?? []);
+  if (parentKeys.some((key) => record[key] !== undefined)) {
+    throw new AuthorizationError(`${model} records must be written one at a time`);
+  }
+}
+
+function scopeCreate(model: string, data: unknown, tenantId: string, parentKeys: string[] = []): Args {
+  // Records created under the tenant itself get it from the parent
+  const record =
+    SCOPES[model as Prisma.ModelName] === byTenantId && !parentKeys.includes('tenantId')
+      ? withTenant(data, tenantId)
+      : ((data ?? {}) as Args);
+  return connectForeignKeys(model, scopeRelations(model, record, tenantId), tenantId, false);
+}
+
+function scopeUpdate(model: string, data: unknown, tenantId: string): Args {
+  if (SCOPES[model as Prisma.ModelName] === byTenantId) {
+    assertSameTenant(data, tenantId);
+  }
+  return connectForeignKeys(model, scopeRelations(model, (data ?? {}) as Args, tenantId), tenantId, true);
+}
+
+function checkBulkWrite(model: string, data: unknown, tenantId: string, create: boolean): Args {
+  const scope = SCOPES[model as Prisma.ModelName];
+  if (scope !== byTenantId) {
+    assertNoParentKeys(model, data);
+    return data as Args;
+  }
+  if (create) {
+    return withTenant(data, tenantId);
+  }
+  assertSameTenant(data, tenantId);
+  return data as Args;
+}
+
+// Apply the checks above to records written through a record's relations.
+// Disconnects and deletes only reach records already linked to this one.
+function scopeRelations(model: string, data: Args, tenantId: string): Args {
+  const result: Args = { ...data };
+  for (const field of RELATIONS.get(model) ?? []) {
+    const writes = data[field.name] as Args | undefined;
+    if (writes === undefined || writes === null) continue;
+
+    const related = field.type;
+    // The back relation's foreign keys are filled in from this record
+    const parentKeys =
+      (RELATIONS.get(related) ?? []).find(
+        (back) => back.relationName === field.relationName && back !== field
+      )?.relationFromFields ?? [];
+    const create = (record: unknown) => scopeCreate(related, record, tenantId, [...parentKeys]);
+    const update = (record: unknown) => scopeUpdate(related, record, tenantId);
+    const where = (record: unknown) => connectWhere(related, record, tenantId);
+    const scoped: Args = { ...writes };
+
+    for (const [operation, value] of Object.entries(writes)) {
+      switch (operation) {
+        case 'create':
+          scoped.create = mapWrites(value, create);
+          break;
+        case 'createMany': {
+          const createMany = value as Args;
+          scoped.createMany = {
+            ...createMany,
+            data: mapWrites(createMany.data, (record) =>
+              parentKeys.includes('tenantId')
+                ? record
+                : checkBulkWrite(related, record, tenantId, true)
+            ),
+          };
+          break;
+        }
+        case 'connect':
+        case 'set':
+          scoped[operation] = mapWrites(value, where);
+          break;
+        case 'connectOrCreate':
+          scoped.connectOrCreate = mapWrites(value, (write) => ({
+            where: where(write.where),
+            create: create(write.create),
+          }));
+          break;
+        case 'update':
+          // A single related record can be updated with just its data
+          scoped.update =
+            field.isList || 'where' in (value as Args) || 'data' in (value as Args)
+              ? mapWrites(value, (write) => ({ ...write, data: update(write.data) }))
+              : update(value);
+          break;
+        case 'updateMany':
+          scoped.updateMany = mapWrites(value, (write) => ({
+            ...write,
+            data: checkBulkWrite(related, write.data, tenantId, false),
+          }));
+          break;
+        case 'upsert':
+          scoped.upsert = mapWrites(value, (write) => ({
+            ...write,
+            create: create(write.create),
+            update: update(write.update),
+          }));
+          break;
+      }
+    }
+    result[field.name] = scoped;
+  }
+  return result;
+}
+
+// Raw SQL skips the extension, so it's refused while running as a tenant.
+// Use lockRow for the row locks it's needed for.
+function refuseRawSql({ args, query }: { args: unknown; query: (args: unknown) => Promise<unknown> }) {
+  const context = tenantContext.getStore();
+  if (context && !context.rawSql) {
+    throw new AuthorizationError('Raw SQL is not scoped to the tenant');
+  }
+  return query(args);
+}
+
+export const tenantScope = Prisma.defineExtension({
+  name: 'tenantScope',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const tenantId = currentTenantId();
+        const scope = SCOPES[model as Prisma.ModelName];
+
+        if (!tenantId || !scope) {
+          return query(args);
+        }
+
+        const scoped: Args = { ...(args as Args) };
+
+        if (FILTERED_OPERATIONS.has(operation)) {
+          scoped.where = scopeWhere(scoped.where, scope(tenantId));
+        }
+
+        switch (operation) {
+          case 'create':
+            scoped.data = scopeCreate(model, scoped.data, tenantId);
+            break;
+          case 'createMany':
+          case 'createManyAndReturn':
+            scoped.data = ([] as unknown[])
+              .concat(scoped.data)
+              .map((record) => checkBulkWrite(model, record, tenantId, true));
+            break;
+          case 'upsert':
+            scoped.create = scopeCreate(model, scoped.create, tenantId);
+            scoped.update = scopeUpdate(model, scoped.update, tenantId);
+            break;
+          case 'update':
+            scoped.data = scopeUpdate(model, scoped.data, tenantId);
+            break;
+          case 'updateMany':
+            scoped.data = checkBulkWrite(model, scoped.data, tenantId, false);
+            break;
+        }
+
+        return query(scoped as typeof args);
+      },
+    },
+    $queryRaw: refuseRawSql,
+    $executeRaw: refuseRawSql,
+    $queryRawUnsafe: refuseRawSql,
+    $executeRawUnsafe: refuseRawSql,
+  },
+});
+
+// Lock a row for the rest of the transaction, e.g. so concurrent sales can't
+// both spend the same balance. The row is looked up through the scoped client
+// first; returns false if the tenant has no such row.
+export async function lockRow(
+  tx: Prisma.TransactionClient,
+  model: Prisma.ModelName,
+  id: string
+): Promise<boolean> {
+  const delegate = tx[(model.charAt(0).toLowerCase() + model.slice(1)) as Uncapitalize<Prisma.ModelName>] as unknown as {
+    findFirst(args: Args): Promise<unknown>;
+  };
+  if (!(await delegate.findFirst({ where: { id }, select: { id: true } }))) {
+    return false;
+  }
+
+  const lock = async () => {
+    await tx.$queryRawUnsafe(`SELECT id FROM "${model}" WHERE id = $1 FOR UPDATE`, id);
+  };
+  const context = tenantContext.getStore();
+  await (context ? tenantContext.run({ ...context, rawSql: true }, lock) : lock());
+  return true;
+}
+
+// A Prisma client with the tenant scope applied. Query extensions don't
+// change the client's types, so it can be used anywhere a PrismaClient is.
+export function createPrismaClient(): PrismaClient {
+  return new PrismaClient().$extends(tenantScope) as unknown as PrismaClient;
+}
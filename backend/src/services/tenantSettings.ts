@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { TaxRounding } from 'shared/taxes';
+
+// Register and checkout behaviour each tenant can tune, kept in Tenant.settings
+
+export interface TenantSettings {
+  // Minutes without a touch, click or key press before the register locks;
+  // 0 turns auto-lock off
+  idleLockMinutes: number;
+  // Round tax on each line or once per tax on the invoice total
+  taxRounding: TaxRounding;
+  // Months a gift card sold at the register stays usable; 0 means it never expires
+  giftCardExpiryMonths: number;
+}
+
+export const DEFAULT_TENANT_SETTINGS: TenantSettings = {
+  idleLockMinutes: 5,
+  taxRounding: 'line',
+  giftCardExpiryMonths: 0,
+};
+
+const TAX_ROUNDING: TaxRounding[] = ['line', 'invoice'];
+
+const MAX_IDLE_LOCK_MINUTES = 240;
+
+const MAX_GIFT_CARD_EXPIRY_MONTHS = 120;
+
+// Stored settings merged over the defaults
+export function parseTenantSettings(stored: Prisma.JsonValue | null | undefined): TenantSettings {
+  const values = (stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {}) as
+    Partial<TenantSettings>;
+
+  return { ...DEFAULT_TENANT_SETTINGS, ...values };
+}
+
+// Check settings sent by the settings screen and merge them over the current ones
+export function validateTenantSettings(input: unknown, current: TenantSettings): TenantSettings {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Settings must be an object');
+  }
+
+  const { idleLockMinutes, taxRounding, giftCardExpiryMonths } = input as Partial<Record<keyof TenantSettings, unknown>>;
+  const settings = { ...current };
+
+  if (idleLockMinutes !== undefined) {
+    const minutes = Number(idleLockMinutes);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_IDLE_LOCK_MINUTES) {
+      throw new ValidationError(`Idle lock must be 0 to ${MAX_IDLE_LOCK_MINUTES} minutes`);
+    }
+    settings.idleLockMinutes = minutes;
+  }
+
+  if (taxRounding !== undefined) {
+    if (!TAX_ROUNDING.includes(taxRounding as TaxRounding)) {
+      throw new ValidationError(`Tax rounding must be one of: ${TAX_ROUNDING.join(', ')}`);
+    }
+    settings.taxRounding = taxRounding as TaxRounding;
+  }
+
+  if (giftCardExpiryMonths !== undefined) {
+    const months = Number(giftCardExpiryMonths);
+    if (!Number.isInteger(months) || months < 0 || months > MAX_GIFT_CARD_EXPIRY_MONTHS) {
+      throw new ValidationError(`Gift card expiry must be 0 to ${MAX_GIFT_CARD_EXPIRY_MONTHS} months`);
+    }
+    settings.giftCardExpiryMonths = months;
+  }
+
+  return settings;
+}
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+function getKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY not configured');
+  }
+
+  // Accept any length secret; hash it down to a 256-bit key
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+// Encrypt a secret for storage. Output format: iv:authTag:ciphertext (base64)
+export function encrypt(plainText: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted].map((part) => part.toString('base64')).join(':');
+}
+
+export function decrypt(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// Show only the last few characters of a secret, e.g. for settings screens
+export function maskSecret(value: string | null | undefined, visible = 4): string | null {
+  if (!value) {
+    return null;
+  }
+  return `${'•'.repeat(8)}${value.slice(-visible)}`;
+}
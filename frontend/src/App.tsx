@@ -10,6 +10,7 @@ import SettingsPage from './components/common/SettingsPage';
 
 // POS components
 import POSScreen from './components/pos/POSScreen';
+import LockScreen from './components/pos/LockScreen';
 import InventoryManagement from './components/inventory/InventoryManagement';
 import CustomerManagement from './components/customers/CustomerManagement';
 import ReportsDashboard from './components/reports/ReportsDashboard';
@@ -268,6 +269,9 @@ function App() {
         {/* Fallback */}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
+
+      {/* Shared registers lock when idle or when the cashier steps away */}
+      <LockScreen />
     </AuthInitializer>
   );
 }
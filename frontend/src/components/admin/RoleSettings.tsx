@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import { api, endpoints } from '../../services/api';
+import type { CustomRole, Permission } from '../../types';
+import toast from 'react-hot-toast';
+
+interface PermissionInfo {
+  key: Permission;
+  description: string;
+}
+
+interface TeamMember {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  customRoleId: string | null;
+  isActive: boolean;
+}
+
+const emptyRole = { id: '', name: '', description: '', permissions: [] as Permission[] };
+
+// Custom roles give users a set of permissions other than their role's
+// defaults, e.g. shift leads who can approve overrides but not adjust stock
+export default function RoleSettings() {
+  const { can } = useAuthStore();
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [users, setUsers] = useState<TeamMember[]>([]);
+  const [editing, setEditing] = useState<typeof emptyRole | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('users.manage');
+
+  const load = useCallback(async () => {
+    const [catalog, roleList, userList] = await Promise.all([
+      api.get<{ permissions: PermissionInfo[] }>(endpoints.rolePermissions),
+      api.get<{ roles: CustomRole[] }>(endpoints.roles),
+      api.get<{ users: TeamMember[] }>(endpoints.roleUsers),
+    ]);
+    setPermissions(catalog.data.permissions);
+    setRoles(roleList.data.roles);
+    setUsers(userList.data.users);
+  }, []);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    load().catch(() => toast.error('Failed to load roles'));
+  }, [canEdit, load]);
+
+  if (!canEdit) {
+    return null;
+  }
+
+  const togglePermission = (permission: Permission) => {
+    if (!editing) return;
+    const selected = editing.permissions.includes(permission)
+      ? editing.permissions.filter((p) => p !== permission)
+      : [...editing.permissions, permission];
+    setEditing({ ...editing, permissions: selected });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setIsSaving(true);
+    try {
+      const body = {
+        name: editing.name,
+        description: editing.description,
+        permissions: editing.permissions,
+      };
+      if (editing.id) {
+        await api.put(endpoints.roleById(editing.id), body);
+      } else {
+        await api.post(endpoints.roles, body);
+      }
+      await load();
+      setEditing(null);
+      toast.success('Role saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save role');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: CustomRole) => {
+    if (!confirm(`Delete the ${role.name} role? Its users go back to their default permissions.`)) {
+      return;
+    }
+    try {
+      await api.delete(endpoints.roleById(role.id));
+      await load();
+      toast.success('Role deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete role');
+    }
+  };
+
+  const handleAssign = async (member: TeamMember, customRoleId: string) => {
+    try {
+      await api.put(endpoints.roleUser(member.id), { customRoleId: customRoleId || null });
+      setUsers(users.map((u) => (u.id === member.id ? { ...u, customRoleId: customRoleId || null } : u)));
+      toast.success('Role updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update role');
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold">Roles &amp; Permissions</h2>
+        <button onClick={() => setEditing({ ...emptyRole })} className="btn-secondary">
+          New Role
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        A custom role replaces the permissions a user&apos;s role gives them. Owners always
+        have every permission.
+      </p>
+
+      {editing && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Name</label>
+              <input
+                className="input"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Description</label>
+              <input
+                className="input"
+                value={editing.description}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {permissions.map((permission) => (
+              <label key={permission.key} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={editing.permissions.includes(permission.key)}
+                  disabled={!can(permission.key)}
+                  onChange={() => togglePermission(permission.key)}
+                />
+                {permission.description}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => setEditing(null)} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={isSaving || !editing.name} className="btn-primary">
+              {isSaving ? 'Saving...' : 'Save Role'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {roles.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {roles.map((role) => (
+            <div key={role.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div>
+                <p className="font-medium">{role.name}</p>
+                <p className="text-sm text-gray-500">
+                  {role.permissions.length} permissions &middot; {role.userCount ?? 0} users
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() =>
+                    setEditing({
+                      id: role.id,
+                      name: role.name,
+                      description: role.description ?? '',
+                      permissions: role.permissions,
+                    })
+                  }
+                  className="btn-ghost text-sm"
+                >
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(role)} className="btn-ghost p-2">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Team</h3>
+      <div className="space-y-2">
+        {users.map((member) => (
+          <div key={member.id} className="flex items-center justify-between">
+            <div>
+              <span className={member.isActive ? '' : 'text-gray-400'}>
+                {member.firstName} {member.lastName}
+              </span>
+              <span className="text-sm text-gray-500 capitalize ml-2">{member.role}</span>
+            </div>
+            {member.role !== 'owner' && (
+              <select
+                className="input w-48"
+                value={member.customRoleId ?? ''}
+                onChange={(e) => handleAssign(member, e.target.value)}
+              >
+                <option value="">Role defaults</option>
+                {roles.map((role) => (
+                  <option key={role.id} value={role.id}>
+                    {role.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
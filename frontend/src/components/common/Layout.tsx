@@ -11,24 +11,29 @@ import {
 } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../../stores/authStore';
 import { useSyncStore } from '../../stores/syncStore';
+import type { Permission } from '../../types';
 
-const allNavItems = [
-  { to: '/app/pos', icon: ShoppingCartIcon, label: 'POS', roles: ['owner', 'admin', 'manager', 'cashier'] },
-  { to: '/app/inventory', icon: CubeIcon, label: 'Inventory', roles: ['owner', 'admin', 'manager'] },
-  { to: '/app/customers', icon: UsersIcon, label: 'Customers', roles: ['owner', 'admin', 'manager'] },
-  { to: '/app/reports', icon: ChartBarIcon, label: 'Reports', roles: ['owner', 'admin', 'manager'] },
-  { to: '/app/settings', icon: Cog6ToothIcon, label: 'Settings', roles: ['owner', 'admin'] },
+// Each item shows for users with any of its permissions
+const allNavItems: { to: string; icon: typeof CubeIcon; label: string; permissions: Permission[] }[] = [
+  { to: '/app/pos', icon: ShoppingCartIcon, label: 'POS', permissions: ['pos.sell'] },
+  { to: '/app/inventory', icon: CubeIcon, label: 'Inventory', permissions: ['inventory.adjust', 'inventory.transfer'] },
+  { to: '/app/customers', icon: UsersIcon, label: 'Customers', permissions: ['customer.edit'] },
+  { to: '/app/reports', icon: ChartBarIcon, label: 'Reports', permissions: ['reports.view'] },
+  {
+    to: '/app/settings',
+    icon: Cog6ToothIcon,
+    label: 'Settings',
+    permissions: ['settings.manage', 'netsuite.manage', 'users.manage', 'sync.manage'],
+  },
 ];
 
 export default function Layout() {
   const location = useLocation();
-  const { user, tenant, location: posLocation, register, logout } = useAuthStore();
+  const { user, tenant, location: posLocation, register, logout, can } = useAuthStore();
   const { status } = useSyncStore();
 
-  // Filter nav items based on user role
-  const navItems = allNavItems.filter(item =>
-    user?.role && item.roles.includes(user.role)
-  );
+  // Filter nav items based on user permissions
+  const navItems = allNavItems.filter(item => item.permissions.some(can));
 
   const handleLogout = async () => {
     try {
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Tab } from '@headlessui/react';
 import { Link } from 'react-router-dom';
 import {
@@ -10,19 +10,35 @@ import {
   ArrowPathIcon,
   TrashIcon,
   BanknotesIcon,
+  LinkIcon,
+  TagIcon,
+  TicketIcon,
+  GiftIcon,
 } from '@heroicons/react/24/outline';
 import { useHardwareStore } from '../../stores/hardwareStore';
 import { useSyncStore } from '../../stores/syncStore';
 import { useAuthStore } from '../../stores/authStore';
+import { useOverrideStore } from '../../stores/overrideStore';
 import { dbUtils } from '../../services/offlineDb';
+import { api, endpoints } from '../../services/api';
+import RoleSettings from '../admin/RoleSettings';
+import CouponSettings from '../coupons/CouponSettings';
+import GiftCardSettings from '../giftCards/GiftCardSettings';
+import PromotionSettings from '../promotions/PromotionSettings';
+import TaxSettings from '../taxes/TaxSettings';
+import type { OverrideAction, OverridePolicy, Permission, TenantSettings } from '../../types';
 import toast from 'react-hot-toast';
 
-const tabs = [
+const tabs: { name: string; icon: typeof LinkIcon; permission?: Permission }[] = [
   { name: 'General', icon: BuildingStorefrontIcon },
   { name: 'Hardware', icon: PrinterIcon },
   { name: 'Payments', icon: CreditCardIcon },
   { name: 'Users', icon: UserGroupIcon },
+  { name: 'Promotions', icon: TagIcon, permission: 'promotions.manage' },
+  { name: 'Coupons', icon: TicketIcon, permission: 'coupons.manage' },
+  { name: 'Gift Cards', icon: GiftIcon, permission: 'giftcards.manage' },
   { name: 'Sync', icon: CloudArrowDownIcon },
+  { name: 'NetSuite', icon: LinkIcon, permission: 'netsuite.manage' },
 ];
 
 function classNames(...classes: string[]) {
@@ -30,13 +46,16 @@ function classNames(...classes: string[]) {
 }
 
 export default function SettingsPage() {
+  const { can } = useAuthStore();
+  const visibleTabs = tabs.filter((tab) => !tab.permission || can(tab.permission));
+
   return (
     <div className="p-6">
       <Tab.Group>
         <div className="flex gap-6">
           {/* Sidebar tabs */}
           <Tab.List className="w-48 flex flex-col gap-1">
-            {tabs.map((tab) => (
+            {visibleTabs.map((tab) => (
               <Tab
                 key={tab.name}
                 className={({ selected }) =>
@@ -56,8 +75,9 @@ export default function SettingsPage() {
 
           {/* Tab panels */}
           <Tab.Panels className="flex-1">
-            <Tab.Panel>
+            <Tab.Panel className="space-y-6">
               <GeneralSettings />
+              <TaxSettings />
             </Tab.Panel>
             <Tab.Panel>
               <HardwareSettings />
@@ -65,12 +85,41 @@ export default function SettingsPage() {
             <Tab.Panel>
               <PaymentSettings />
             </Tab.Panel>
-            <Tab.Panel>
+            <Tab.Panel className="space-y-6">
               <UserSettings />
+              <ApprovalCredentials />
+              <RoleSettings />
+              <RegisterLockSettings />
+              <OverridePolicySettings />
             </Tab.Panel>
+            {can('promotions.manage') && (
+              <Tab.Panel>
+                <PromotionSettings />
+              </Tab.Panel>
+            )}
+            {can('coupons.manage') && (
+              <Tab.Panel>
+                <CouponSettings />
+              </Tab.Panel>
+            )}
+            {can('giftcards.manage') && (
+              <Tab.Panel>
+                <GiftCardSettings />
+              </Tab.Panel>
+            )}
             <Tab.Panel>
               <SyncSettings />
             </Tab.Panel>
+            {can('netsuite.manage') && (
+              <Tab.Panel className="space-y-6">
+                <NetSuiteSettings />
+                <NetSuiteWebhook />
+                <NetSuitePaymentMethods />
+                <NetSuiteLocations />
+                <NetSuiteConflicts />
+                <NetSuiteMetrics />
+              </Tab.Panel>
+            )}
           </Tab.Panels>
         </div>
       </Tab.Group>
@@ -360,6 +409,259 @@ function UserSettings() {
   );
 }
 
+// Managers set the PIN and badge they approve overrides with
+function ApprovalCredentials() {
+  const { user, setPin: savePin, can } = useAuthStore();
+  const [password, setPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [badge, setBadge] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!user) {
+    return null;
+  }
+
+  const isApprover = can('override.approve');
+
+  const save = async (request: () => Promise<unknown>, done: string) => {
+    setIsSaving(true);
+    try {
+      await request();
+      toast.success(done);
+      setPassword('');
+      setPin('');
+      setBadge('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveBadge = (value: string | null, done: string) =>
+    save(() => api.put(endpoints.authBadge, { password, badge: value }), done);
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">{isApprover ? 'PIN & Badge' : 'PIN'}</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Your PIN unlocks the register and switches it to you.
+        {isApprover && ' Your PIN or badge also approves voids, discounts and other overrides.'}
+      </p>
+
+      <div className="space-y-4 max-w-md">
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Current password</label>
+          <input
+            type="password"
+            className="input"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">New PIN (4-8 digits)</label>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              inputMode="numeric"
+              className="input flex-1"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              maxLength={8}
+            />
+            <button
+              onClick={() => save(() => savePin(password, pin), 'PIN updated')}
+              disabled={isSaving || !password || pin.length < 4}
+              className="btn-primary"
+            >
+              Set PIN
+            </button>
+          </div>
+        </div>
+
+        {isApprover && (
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Badge (scan or type)</label>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                className="input flex-1"
+                value={badge}
+                onChange={(e) => setBadge(e.target.value)}
+              />
+              <button
+                onClick={() => saveBadge(badge, 'Badge updated')}
+                disabled={isSaving || !password || badge.length < 4}
+                className="btn-primary"
+              >
+                Set Badge
+              </button>
+              <button
+                onClick={() => saveBadge(null, 'Badge removed')}
+                disabled={isSaving || !password}
+                className="btn-secondary"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Owners and admins choose how long an idle register waits before locking
+function RegisterLockSettings() {
+  const { can, setTenantSettings } = useAuthStore();
+  const [settings, setSettings] = useState<TenantSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('settings.manage');
+
+  useEffect(() => {
+    if (!canEdit) return;
+    api
+      .get<{ settings: TenantSettings }>(endpoints.tenantSettings)
+      .then((response) => setSettings(response.data.settings))
+      .catch(() => toast.error('Failed to load register lock settings'));
+  }, [canEdit]);
+
+  if (!canEdit || !settings) {
+    return null;
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await api.put<{ settings: TenantSettings }>(endpoints.tenantSettings, {
+        settings: { idleLockMinutes: settings.idleLockMinutes },
+      });
+      setTenantSettings(response.data.settings);
+      toast.success('Register lock saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save register lock');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Register Lock</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Lock registers after they sit idle. Anyone with a PIN can unlock a register as
+        themselves without closing the shift.
+      </p>
+
+      <div className="flex items-center gap-4">
+        <label className="text-sm text-gray-600">Lock after (minutes, 0 = never)</label>
+        <input
+          type="number"
+          className="input w-28"
+          min="0"
+          max="240"
+          value={settings.idleLockMinutes}
+          onChange={(e) => setSettings({ ...settings, idleLockMinutes: Number(e.target.value) })}
+        />
+      </div>
+
+      <button onClick={handleSave} disabled={isSaving} className="btn-primary mt-6">
+        {isSaving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  );
+}
+
+const OVERRIDE_ACTIONS: { action: OverrideAction; label: string; threshold?: string }[] = [
+  { action: 'void', label: 'Void a transaction' },
+  { action: 'discount', label: 'Discount', threshold: 'Above (%)' },
+  { action: 'price_override', label: 'Override a price' },
+  { action: 'no_sale', label: 'Open drawer without a sale' },
+  { action: 'return', label: 'Return', threshold: 'Refunds above ($)' },
+];
+
+// Owners and admins choose which cashier actions need a manager's approval
+function OverridePolicySettings() {
+  const { can } = useAuthStore();
+  const { loadPolicy } = useOverrideStore();
+  const [policy, setPolicy] = useState<OverridePolicy | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('settings.manage');
+
+  useEffect(() => {
+    if (!canEdit) return;
+    api
+      .get<{ policy: OverridePolicy }>(endpoints.overridePolicy)
+      .then((response) => setPolicy(response.data.policy))
+      .catch(() => toast.error('Failed to load approval policy'));
+  }, [canEdit]);
+
+  if (!canEdit || !policy) {
+    return null;
+  }
+
+  const update = (action: OverrideAction, changes: Partial<OverridePolicy[OverrideAction]>) => {
+    setPolicy({ ...policy, [action]: { ...policy[action], ...changes } });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await api.put(endpoints.overridePolicy, { policy });
+      await loadPolicy();
+      toast.success('Approval policy saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save approval policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Manager Approvals</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose what cashiers need a manager&apos;s PIN or badge for. Managers, admins and
+        owners never need approval.
+      </p>
+
+      <div className="space-y-3">
+        {OVERRIDE_ACTIONS.map(({ action, label, threshold }) => (
+          <div key={action} className="flex items-center gap-4">
+            <label className="flex items-center gap-2 w-64">
+              <input
+                type="checkbox"
+                checked={policy[action].required}
+                onChange={(e) => update(action, { required: e.target.checked })}
+              />
+              {label}
+            </label>
+            {threshold && (
+              <>
+                <span className="text-sm text-gray-600">{threshold}</span>
+                <input
+                  type="number"
+                  className="input w-28"
+                  min="0"
+                  value={policy[action].threshold ?? 0}
+                  disabled={!policy[action].required}
+                  onChange={(e) => update(action, { threshold: Number(e.target.value) })}
+                />
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button onClick={handleSave} disabled={isSaving} className="btn-primary mt-6">
+        {isSaving ? 'Saving...' : 'Save Policy'}
+      </button>
+    </div>
+  );
+}
+
 function SyncSettings() {
   const { status, fullSync, retryFailed, clearErrors } = useSyncStore();
   const [dbStats, setDbStats] = useState<{
@@ -512,3 +814,762 @@ function SyncSettings() {
     </div>
   );
 }
+
+interface NetSuiteSettingsData {
+  accountId: string | null;
+  restletUrl: string | null;
+  adjustmentAccountId: string | null;
+  returnFlow: 'cash_refund' | 'return_authorization';
+  concurrencyLimit: number;
+  consumerKey: string | null;
+  tokenId: string | null;
+  hasConsumerSecret: boolean;
+  hasTokenSecret: boolean;
+  hasWebhookSecret: boolean;
+  webhookPath: string;
+  updatedAt: string | null;
+}
+
+const emptyNetSuiteForm = {
+  accountId: '',
+  restletUrl: '',
+  adjustmentAccountId: '',
+  returnFlow: 'cash_refund',
+  concurrencyLimit: '5',
+  consumerKey: '',
+  consumerSecret: '',
+  tokenId: '',
+  tokenSecret: '',
+};
+
+function NetSuiteSettings() {
+  const [saved, setSaved] = useState<NetSuiteSettingsData | null>(null);
+  const [form, setForm] = useState(emptyNetSuiteForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const loadSettings = async () => {
+    try {
+      const response = await api.get<{ settings: NetSuiteSettingsData }>(endpoints.netsuiteSettings);
+      const settings = response.data?.settings || null;
+      setSaved(settings);
+      setForm({
+        ...emptyNetSuiteForm,
+        accountId: settings?.accountId || '',
+        restletUrl: settings?.restletUrl || '',
+        adjustmentAccountId: settings?.adjustmentAccountId || '',
+        returnFlow: settings?.returnFlow || 'cash_refund',
+        concurrencyLimit: String(settings?.concurrencyLimit || 5),
+      });
+    } catch {
+      toast.error('Failed to load NetSuite settings');
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const handleChange = (field: keyof typeof emptyNetSuiteForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      setForm({ ...form, [field]: e.target.value });
+    };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await api.put(endpoints.netsuiteSettings, {
+        ...form,
+        concurrencyLimit: Number(form.concurrencyLimit),
+      });
+      toast.success('NetSuite settings saved');
+      await loadSettings();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const response = await api.post<{ connected: boolean; error?: string }>(
+        endpoints.netsuiteSettingsTest
+      );
+      if (response.data?.connected) {
+        toast.success('Connected to NetSuite');
+      } else {
+        toast.error(response.data?.error || 'Connection failed');
+      }
+    } catch {
+      toast.error('Connection test failed');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const secretPlaceholder = (isSet: boolean | undefined) =>
+    isSet ? 'Saved - leave blank to keep' : 'Required';
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold">NetSuite Connection</h2>
+        {saved?.updatedAt && (
+          <span className="text-sm text-gray-500">
+            Last updated {new Date(saved.updatedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Account ID</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="1234567_SB1"
+              value={form.accountId}
+              onChange={handleChange('accountId')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Adjustment Account ID</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="Inventory adjustment GL account"
+              value={form.adjustmentAccountId}
+              onChange={handleChange('adjustmentAccountId')}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Record Returns As</label>
+            <select
+              className="input"
+              value={form.returnFlow}
+              onChange={handleChange('returnFlow')}
+            >
+              <option value="cash_refund">Cash Refund</option>
+              <option value="return_authorization">Return Authorization + Item Receipt</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Concurrent Requests</label>
+            <input
+              type="number"
+              min="1"
+              className="input"
+              value={form.concurrencyLimit}
+              onChange={handleChange('concurrencyLimit')}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">RESTlet URL</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="https://1234567.restlets.api.netsuite.com/app/site/hosting/restlet.nl?script=123&deploy=1"
+            value={form.restletUrl}
+            onChange={handleChange('restletUrl')}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Consumer Key</label>
+            <input
+              type="password"
+              className="input"
+              placeholder={saved?.consumerKey || 'Required'}
+              value={form.consumerKey}
+              onChange={handleChange('consumerKey')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Consumer Secret</label>
+            <input
+              type="password"
+              className="input"
+              placeholder={secretPlaceholder(saved?.hasConsumerSecret)}
+              value={form.consumerSecret}
+              onChange={handleChange('consumerSecret')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Token ID</label>
+            <input
+              type="password"
+              className="input"
+              placeholder={saved?.tokenId || 'Required'}
+              value={form.tokenId}
+              onChange={handleChange('tokenId')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Token Secret</label>
+            <input
+              type="password"
+              className="input"
+              placeholder={secretPlaceholder(saved?.hasTokenSecret)}
+              value={form.tokenSecret}
+              onChange={handleChange('tokenSecret')}
+            />
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Credentials are encrypted before they are stored. To rotate a token, enter the
+          new Token ID and Token Secret and save.
+        </p>
+
+        <div className="flex gap-2">
+          <button onClick={handleSave} disabled={isSaving} className="btn-primary">
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={isTesting || !saved?.accountId}
+            className="btn-secondary flex items-center gap-2"
+          >
+            <ArrowPathIcon className={classNames('w-5 h-5', isTesting ? 'animate-spin' : '')} />
+            Test Connection
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface PaymentMethodMapping {
+  method: string;
+  netsuiteId: string | null;
+}
+
+function NetSuitePaymentMethods() {
+  const [mappings, setMappings] = useState<PaymentMethodMapping[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    api
+      .get<{ mappings: PaymentMethodMapping[] }>(endpoints.netsuitePaymentMethods)
+      .then((response) => setMappings(response.data?.mappings || []))
+      .catch(() => toast.error('Failed to load payment method mappings'));
+  }, []);
+
+  const handleChange = (method: string, netsuiteId: string) => {
+    setMappings(mappings.map((m) => (m.method === method ? { ...m, netsuiteId } : m)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await api.put(endpoints.netsuitePaymentMethods, { mappings });
+      toast.success('Payment method mappings saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save mappings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Payment Methods</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Enter the NetSuite internal ID of the payment method to use for each POS tender.
+        Sales paid with an unmapped tender cannot be pushed to NetSuite.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        {mappings.map((mapping) => (
+          <div key={mapping.method}>
+            <label className="block text-sm text-gray-600 mb-1 capitalize">
+              {mapping.method.replace('_', ' ')}
+            </label>
+            <input
+              type="text"
+              className="input"
+              placeholder="Not mapped"
+              value={mapping.netsuiteId || ''}
+              onChange={(e) => handleChange(mapping.method, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <button onClick={handleSave} disabled={isSaving} className="btn-primary mt-6">
+        {isSaving ? 'Saving...' : 'Save Mappings'}
+      </button>
+    </div>
+  );
+}
+
+interface NetSuiteLocationsData {
+  subsidiaries: Array<{ internalId: string; name: string }>;
+  locations: Array<{
+    internalId: string;
+    name: string;
+    subsidiary: string | null;
+    subsidiaryId: string | null;
+    address: string | null;
+    linkedLocationId: string | null;
+  }>;
+  posLocations: Array<{ id: string; name: string; netsuiteId: string | null }>;
+}
+
+function NetSuiteLocations() {
+  const [data, setData] = useState<NetSuiteLocationsData | null>(null);
+  // NetSuite location id -> POS location to link ('' creates a new one)
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadLocations = async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get<NetSuiteLocationsData>(endpoints.netsuiteLocations);
+      setData(response.data || null);
+      setSelected({});
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load NetSuite locations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (netsuiteId: string) => {
+    const next = { ...selected };
+    if (netsuiteId in next) {
+      delete next[netsuiteId];
+    } else {
+      next[netsuiteId] = '';
+    }
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const locations = Object.entries(selected).map(([netsuiteId, locationId]) => ({
+        netsuiteId,
+        locationId: locationId || undefined,
+      }));
+      const response = await api.post<{ created: number; linked: number }>(
+        endpoints.netsuiteLocationsImport,
+        { locations }
+      );
+      toast.success(
+        `${response.data?.created || 0} locations created, ${response.data?.linked || 0} linked`
+      );
+      await loadLocations();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import locations');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Group by subsidiary; accounts without OneWorld end up with a single group
+  const subsidiaryIds = new Set(data?.subsidiaries.map((s) => s.internalId));
+  const groups = data
+    ? [
+        ...data.subsidiaries.map((subsidiary) => ({
+          name: subsidiary.name,
+          locations: data.locations.filter((l) => l.subsidiaryId === subsidiary.internalId),
+        })),
+        {
+          name: data.subsidiaries.length > 0 ? 'Other' : 'Locations',
+          locations: data.locations.filter((l) => !l.subsidiaryId || !subsidiaryIds.has(l.subsidiaryId)),
+        },
+      ]
+    : [];
+
+  const unlinkedPosLocations = data?.posLocations.filter((l) => !l.netsuiteId) || [];
+  const posLocationName = (id: string) => data?.posLocations.find((l) => l.id === id)?.name;
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold">Locations</h2>
+        <button
+          onClick={loadLocations}
+          disabled={isLoading}
+          className="btn-secondary flex items-center gap-2"
+        >
+          <ArrowPathIcon className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+          {data ? 'Refresh' : 'Load from NetSuite'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose which NetSuite locations to use as POS locations, either as new locations or
+        linked to ones you already created. Inventory is only synced for linked locations.
+      </p>
+
+      {data && (
+        <div className="space-y-6">
+          {groups
+            .filter((group) => group.locations.length > 0)
+            .map((group) => (
+              <div key={group.name}>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">{group.name}</h3>
+                <div className="space-y-2">
+                  {group.locations.map((location) => (
+                    <div
+                      key={location.internalId}
+                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                    >
+                      <label className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={!!location.linkedLocationId || location.internalId in selected}
+                          disabled={!!location.linkedLocationId}
+                          onChange={() => toggle(location.internalId)}
+                        />
+                        <span>
+                          <span className="font-medium">{location.name}</span>
+                          {location.address && (
+                            <span className="block text-sm text-gray-500">{location.address}</span>
+                          )}
+                        </span>
+                      </label>
+
+                      {location.linkedLocationId ? (
+                        <span className="text-sm text-green-600">
+                          Linked to {posLocationName(location.linkedLocationId)}
+                        </span>
+                      ) : (
+                        location.internalId in selected && (
+                          <select
+                            className="input w-56"
+                            value={selected[location.internalId]}
+                            onChange={(e) =>
+                              setSelected({ ...selected, [location.internalId]: e.target.value })
+                            }
+                          >
+                            <option value="">Create new location</option>
+                            {unlinkedPosLocations.map((l) => (
+                              <option key={l.id} value={l.id}>
+                                Link to {l.name}
+                              </option>
+                            ))}
+                          </select>
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+          <button
+            onClick={handleImport}
+            disabled={isImporting || Object.keys(selected).length === 0}
+            className="btn-primary"
+          >
+            {isImporting ? 'Activating...' : 'Activate Selected'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CustomerConflict {
+  id: string;
+  customer: { id: string; firstName: string; lastName: string; company: string | null };
+  fields: Array<{
+    field: string;
+    baseValue: string | null;
+    posValue: string | null;
+    netsuiteValue: string | null;
+  }>;
+  updatedAt: string;
+}
+
+const conflictFieldLabels: Record<string, string> = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Email',
+  phone: 'Phone',
+  company: 'Company',
+};
+
+function NetSuiteConflicts() {
+  const [conflicts, setConflicts] = useState<CustomerConflict[]>([]);
+  // Conflict id -> field -> merged value being edited
+  const [merged, setMerged] = useState<Record<string, Record<string, string>>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadConflicts = () => {
+    api
+      .get<{ conflicts: CustomerConflict[] }>(endpoints.netsuiteConflicts)
+      .then((response) => setConflicts(response.data?.conflicts || []))
+      .catch(() => undefined);
+  };
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const mergedValue = (conflict: CustomerConflict, field: string, posValue: string | null) =>
+    merged[conflict.id]?.[field] ?? posValue ?? '';
+
+  const handleResolve = async (conflict: CustomerConflict, resolution: 'pos' | 'netsuite' | 'merged') => {
+    setResolvingId(conflict.id);
+    try {
+      const values =
+        resolution === 'merged'
+          ? Object.fromEntries(
+              conflict.fields.map((f) => [f.field, mergedValue(conflict, f.field, f.posValue)])
+            )
+          : undefined;
+
+      await api.post(endpoints.netsuiteConflictResolve(conflict.id), { resolution, values });
+      toast.success('Conflict resolved');
+      setConflicts(conflicts.filter((c) => c.id !== conflict.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold">Sync Conflicts</h2>
+        <button onClick={loadConflicts} className="btn-secondary flex items-center gap-2">
+          <ArrowPathIcon className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Customers edited in both the POS and NetSuite since the last sync. Choose which values
+        to keep; anything that differs from NetSuite is pushed back on the next sync.
+      </p>
+
+      {conflicts.length === 0 ? (
+        <p className="text-sm text-gray-500">No open conflicts.</p>
+      ) : (
+        <div className="space-y-6">
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <p className="font-medium">
+                  {conflict.customer.company ||
+                    `${conflict.customer.firstName} ${conflict.customer.lastName}`.trim()}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {new Date(conflict.updatedAt).toLocaleString()}
+                </p>
+              </div>
+
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="py-1">Field</th>
+                    <th className="py-1">POS</th>
+                    <th className="py-1">NetSuite</th>
+                    <th className="py-1">Merged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflict.fields.map((f) => (
+                    <tr key={f.field} className="border-t border-gray-100">
+                      <td className="py-2">{conflictFieldLabels[f.field] || f.field}</td>
+                      <td className="py-2">{f.posValue || <span className="text-gray-400">empty</span>}</td>
+                      <td className="py-2">{f.netsuiteValue || <span className="text-gray-400">empty</span>}</td>
+                      <td className="py-2">
+                        <input
+                          type="text"
+                          className="input"
+                          value={mergedValue(conflict, f.field, f.posValue)}
+                          onChange={(e) =>
+                            setMerged({
+                              ...merged,
+                              [conflict.id]: { ...merged[conflict.id], [f.field]: e.target.value },
+                            })
+                          }
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleResolve(conflict, 'pos')}
+                  disabled={resolvingId === conflict.id}
+                  className="btn-secondary"
+                >
+                  Keep POS
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict, 'netsuite')}
+                  disabled={resolvingId === conflict.id}
+                  className="btn-secondary"
+                >
+                  Use NetSuite
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict, 'merged')}
+                  disabled={resolvingId === conflict.id}
+                  className="btn-primary"
+                >
+                  Save Merged
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NetSuiteWebhook() {
+  const [settings, setSettings] = useState<NetSuiteSettingsData | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    api
+      .get<{ settings: NetSuiteSettingsData }>(endpoints.netsuiteSettings)
+      .then((response) => setSettings(response.data?.settings || null))
+      .catch(() => undefined);
+  }, []);
+
+  // The API may be served from another origin than the app
+  const apiUrl = import.meta.env.VITE_API_URL;
+  const apiOrigin = apiUrl?.startsWith('http') ? new URL(apiUrl).origin : window.location.origin;
+  const webhookUrl = settings ? `${apiOrigin}${settings.webhookPath}` : '';
+
+  const handleGenerate = async () => {
+    if (settings?.hasWebhookSecret && !confirm('Replace the current webhook secret? NetSuite must be updated with the new one.')) {
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const response = await api.post<{ secret: string }>(endpoints.netsuiteWebhookSecret);
+      setSecret(response.data?.secret || null);
+      setSettings(settings ? { ...settings, hasWebhookSecret: true } : settings);
+    } catch {
+      toast.error('Failed to generate webhook secret');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Webhooks</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        NetSuite sends item, customer and inventory updates to this URL, signed with the
+        webhook secret.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Webhook URL</label>
+          <input type="text" className="input" value={webhookUrl} readOnly />
+        </div>
+
+        {secret ? (
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Webhook Secret</label>
+            <input type="text" className="input font-mono" value={secret} readOnly />
+            <p className="text-sm text-yellow-600 mt-1">
+              Copy this secret into NetSuite now. It will not be shown again.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            {settings?.hasWebhookSecret ? 'A webhook secret is configured.' : 'No webhook secret yet.'}
+          </p>
+        )}
+
+        <button onClick={handleGenerate} disabled={isGenerating} className="btn-secondary">
+          {settings?.hasWebhookSecret ? 'Rotate Secret' : 'Generate Secret'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface NetSuiteMetricsData {
+  concurrencyLimit: number;
+  active: number;
+  queued: number;
+  requests: number;
+  succeeded: number;
+  failed: number;
+  retries: number;
+  throttled: number;
+  timeouts: number;
+  lastThrottledAt: string | null;
+}
+
+function NetSuiteMetrics() {
+  const [metrics, setMetrics] = useState<NetSuiteMetricsData | null>(null);
+
+  const loadMetrics = () => {
+    api
+      .get<{ metrics: NetSuiteMetricsData }>(endpoints.netsuiteMetrics)
+      .then((response) => setMetrics(response.data?.metrics || null))
+      .catch(() => undefined);
+  };
+
+  useEffect(() => {
+    loadMetrics();
+  }, []);
+
+  if (!metrics) {
+    return null;
+  }
+
+  const stats = [
+    { label: 'Requests', value: metrics.requests },
+    { label: 'Failed', value: metrics.failed },
+    { label: 'Throttled', value: metrics.throttled },
+    { label: 'Retries', value: metrics.retries },
+    { label: 'Timeouts', value: metrics.timeouts },
+    { label: 'In Flight', value: `${metrics.active} / ${metrics.concurrencyLimit}` },
+  ];
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">API Usage</h2>
+        <button onClick={loadMetrics} className="btn-secondary flex items-center gap-2">
+          <ArrowPathIcon className="w-5 h-5" />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">{stat.label}</p>
+            <p className="text-2xl font-bold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600 mt-4">
+        {metrics.lastThrottledAt
+          ? `Last throttled by NetSuite at ${new Date(metrics.lastThrottledAt).toLocaleString()}`
+          : 'Not throttled by NetSuite since the server started.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import { api, endpoints } from '../../services/api';
+import type { Coupon, CouponCampaign, TaxLocation } from '../../types';
+import toast from 'react-hot-toast';
+
+type CouponMode = 'code' | 'print' | 'email';
+
+const emptyCouponForm = {
+  mode: 'code' as CouponMode,
+  code: '',
+  quantity: 100,
+  prefix: '',
+  customerGroup: '',
+  campaign: '',
+  discountType: 'percent' as Coupon['discountType'],
+  value: 10,
+  minimumSpend: '',
+  maxRedemptions: '',
+  perCustomerLimit: '',
+  startsAt: '',
+  expiresAt: '',
+  locationIds: [] as string[],
+};
+
+// Coupon codes: one code to share, codes generated for printing, or a code
+// emailed to each customer in a group. Campaign results show how each did.
+export default function CouponSettings() {
+  const { can } = useAuthStore();
+  const [campaigns, setCampaigns] = useState<CouponCampaign[]>([]);
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [locations, setLocations] = useState<TaxLocation[]>([]);
+  const [form, setForm] = useState(emptyCouponForm);
+  const [generated, setGenerated] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('coupons.manage');
+
+  const load = useCallback(async () => {
+    const [campaignResults, recent] = await Promise.all([
+      api.get<{ campaigns: CouponCampaign[] }>(endpoints.couponCampaigns),
+      api.get<{ coupons: Coupon[] }>(endpoints.coupons),
+    ]);
+    setCampaigns(campaignResults.data.campaigns);
+    setCoupons(recent.data.coupons);
+  }, []);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    Promise.all([load(), api.get<{ locations: TaxLocation[] }>(endpoints.taxes)])
+      .then(([, taxes]) => setLocations(taxes.data.locations))
+      .catch(() => toast.error('Failed to load coupons'));
+  }, [canEdit, load]);
+
+  if (!canEdit) {
+    return null;
+  }
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const terms = {
+        campaign: form.campaign,
+        discountType: form.discountType,
+        value: form.value,
+        minimumSpend: form.minimumSpend === '' ? null : Number(form.minimumSpend),
+        perCustomerLimit: form.perCustomerLimit === '' ? null : Number(form.perCustomerLimit),
+        startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+        locationIds: form.locationIds,
+      };
+
+      if (form.mode === 'email') {
+        const response = await api.post<{ sent: number; failed: number }>(endpoints.couponEmail, {
+          ...terms,
+          customerGroup: form.customerGroup,
+          prefix: form.prefix,
+        });
+        const { sent, failed } = response.data;
+        toast.success(`Emailed ${sent} coupons${failed ? `, ${failed} failed` : ''}`);
+        setGenerated([]);
+      } else {
+        const response = await api.post<{ coupons: Coupon[] }>(endpoints.coupons, {
+          ...terms,
+          ...(form.mode === 'print'
+            ? { quantity: form.quantity, prefix: form.prefix }
+            : { code: form.code, maxRedemptions: form.maxRedemptions === '' ? null : Number(form.maxRedemptions) }),
+        });
+        setGenerated(form.mode === 'print' ? response.data.coupons.map((coupon) => coupon.code) : []);
+        toast.success(form.mode === 'print' ? `Created ${response.data.coupons.length} codes` : 'Coupon created');
+      }
+
+      setForm({ ...emptyCouponForm, mode: form.mode });
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create coupons');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (coupon: Coupon) => {
+    try {
+      await api.put(endpoints.couponById(coupon.id), { ...coupon, isActive: !coupon.isActive });
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update coupon');
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+    try {
+      await api.delete(endpoints.couponById(coupon.id));
+      await load();
+      toast.success('Coupon deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete coupon');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6">
+        <h2 className="text-lg font-semibold mb-2">Campaign Results</h2>
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-gray-600">No coupon campaigns yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Campaign</th>
+                <th className="pb-2 font-medium text-right">Codes</th>
+                <th className="pb-2 font-medium text-right">Used</th>
+                <th className="pb-2 font-medium text-right">Redemptions</th>
+                <th className="pb-2 font-medium text-right">Customers</th>
+                <th className="pb-2 font-medium text-right">Discount</th>
+                <th className="pb-2 font-medium text-right">Sales</th>
+              </tr>
+            </thead>
+            <tbody>
+              {campaigns.map((campaign) => (
+                <tr key={campaign.campaign} className="border-t border-gray-100">
+                  <td className="py-2">{campaign.campaign}</td>
+                  <td className="py-2 text-right">{campaign.codes}</td>
+                  <td className="py-2 text-right">
+                    {campaign.codesUsed} ({((campaign.codesUsed / campaign.codes) * 100).toFixed(1)}%)
+                  </td>
+                  <td className="py-2 text-right">{campaign.redemptions}</td>
+                  <td className="py-2 text-right">{campaign.customers}</td>
+                  <td className="py-2 text-right">${campaign.discountTotal.toFixed(2)}</td>
+                  <td className="py-2 text-right">${campaign.salesTotal.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card p-6">
+        <h2 className="text-lg font-semibold mb-2">New Coupons</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Coupons take a percent or an amount off the sale, after any promotions. Printed and
+          emailed codes can each be used once. Give codes a campaign to see how it did.
+        </p>
+
+        <div className="space-y-4">
+          <select
+            className="input w-72"
+            value={form.mode}
+            onChange={(e) => setForm({ ...form, mode: e.target.value as CouponMode })}
+          >
+            <option value="code">One code to share</option>
+            <option value="print">Codes to print</option>
+            <option value="email">Email a code to each customer in a group</option>
+          </select>
+
+          <div className="grid grid-cols-2 gap-4">
+            {form.mode === 'code' ? (
+              <input
+                type="text"
+                className="input"
+                placeholder="Code, e.g. SUMMER10"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              />
+            ) : (
+              <input
+                type="text"
+                className="input"
+                placeholder="Code prefix (optional)"
+                value={form.prefix}
+                onChange={(e) => setForm({ ...form, prefix: e.target.value.toUpperCase() })}
+              />
+            )}
+            {form.mode === 'print' && (
+              <input
+                type="number"
+                className="input"
+                min="1"
+                placeholder="Number of codes"
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: Number(e.target.value) })}
+              />
+            )}
+            {form.mode === 'email' && (
+              <input
+                type="text"
+                className="input"
+                placeholder="Customer group, e.g. vip"
+                value={form.customerGroup}
+                onChange={(e) => setForm({ ...form, customerGroup: e.target.value })}
+              />
+            )}
+            {form.mode === 'code' && (
+              <input
+                type="number"
+                className="input"
+                min="1"
+                placeholder="Uses (blank for no limit)"
+                value={form.maxRedemptions}
+                onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+              />
+            )}
+            <input
+              type="text"
+              className="input"
+              placeholder="Campaign, e.g. Spring Mailer"
+              value={form.campaign}
+              onChange={(e) => setForm({ ...form, campaign: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <select
+                className="input w-40"
+                value={form.discountType}
+                onChange={(e) => setForm({ ...form, discountType: e.target.value as Coupon['discountType'] })}
+              >
+                <option value="percent">Percent off</option>
+                <option value="fixed">Amount off</option>
+              </select>
+              <input
+                type="number"
+                className="input flex-1"
+                min="0"
+                step="0.01"
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: Number(e.target.value) })}
+              />
+            </div>
+            <input
+              type="number"
+              className="input"
+              min="0"
+              step="0.01"
+              placeholder="Minimum spend (optional)"
+              value={form.minimumSpend}
+              onChange={(e) => setForm({ ...form, minimumSpend: e.target.value })}
+            />
+            <input
+              type="number"
+              className="input"
+              min="1"
+              placeholder="Uses per customer (optional)"
+              value={form.perCustomerLimit}
+              onChange={(e) => setForm({ ...form, perCustomerLimit: e.target.value })}
+            />
+            <label className="text-sm text-gray-600">
+              Starts
+              <input
+                type="date"
+                className="input"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Expires
+              <input
+                type="date"
+                className="input"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Locations (none for all)</h3>
+            <div className="flex flex-wrap gap-4">
+              {locations.map((loc) => (
+                <label key={loc.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.locationIds.includes(loc.id)}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        locationIds: e.target.checked
+                          ? [...form.locationIds, loc.id]
+                          : form.locationIds.filter((id) => id !== loc.id),
+                      })
+                    }
+                  />
+                  {loc.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <button onClick={handleCreate} disabled={isSaving} className="btn-primary mt-6">
+          {isSaving ? 'Saving...' : form.mode === 'email' ? 'Send Coupons' : 'Create Coupons'}
+        </button>
+
+        {generated.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Codes to print</h3>
+            <textarea className="input h-40 font-mono" readOnly value={generated.join('\n')} />
+          </div>
+        )}
+      </div>
+
+      <div className="card p-6">
+        <h2 className="text-lg font-semibold mb-4">Recent Coupons</h2>
+        <div className="divide-y divide-gray-100">
+          {coupons.map((coupon) => (
+            <div key={coupon.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <span className="font-mono font-medium">{coupon.code}</span>
+                <span className="ml-3 text-gray-500">
+                  {coupon.discountType === 'percent' ? `${coupon.value}% off` : `$${coupon.value.toFixed(2)} off`}
+                  {coupon.campaign && ` · ${coupon.campaign}`}
+                  {` · used ${coupon.redemptions ?? 0}${coupon.maxRedemptions ? ` of ${coupon.maxRedemptions}` : ''}`}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => handleToggle(coupon)} className="btn-secondary">
+                  {coupon.isActive ? 'Deactivate' : 'Activate'}
+                </button>
+                {!coupon.redemptions && (
+                  <button onClick={() => handleDelete(coupon)} className="btn-ghost p-2 text-red-600">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   StarIcon,
 } from '@heroicons/react/24/outline';
 import { useCustomerStore } from '../../stores/customerStore';
+import { useAuthStore } from '../../stores/authStore';
 import type { Customer, Transaction } from '../../types';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
@@ -187,13 +188,18 @@ interface CustomerDetailsProps {
 
 function CustomerDetails({ customer, history }: CustomerDetailsProps) {
   const { updateCustomer } = useCustomerStore();
+  const { can } = useAuthStore();
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({
     firstName: customer.firstName,
     lastName: customer.lastName,
     email: customer.email || '',
     phone: customer.phone || '',
+    taxExempt: !!customer.taxExempt,
+    taxExemptCertificate: customer.taxExemptCertificate || '',
+    group: customer.group || '',
   });
+  const [creditLimit, setCreditLimit] = useState(customer.creditLimit?.toString() ?? '');
 
   useEffect(() => {
     setEditData({
@@ -201,12 +207,26 @@ function CustomerDetails({ customer, history }: CustomerDetailsProps) {
       lastName: customer.lastName,
       email: customer.email || '',
       phone: customer.phone || '',
+      taxExempt: !!customer.taxExempt,
+      taxExemptCertificate: customer.taxExemptCertificate || '',
+      group: customer.group || '',
     });
+    setCreditLimit(customer.creditLimit?.toString() ?? '');
   }, [customer]);
 
   const handleSave = async () => {
+    if (editData.taxExempt && !editData.taxExemptCertificate.trim()) {
+      toast.error('Tax exempt customers need a certificate number');
+      return;
+    }
+
     try {
-      await updateCustomer(customer.id, editData);
+      await updateCustomer(customer.id, {
+        ...editData,
+        ...(can('customer.edit_credit_limit') && {
+          creditLimit: creditLimit === '' ? undefined : Number(creditLimit),
+        }),
+      });
       toast.success('Customer updated');
       setIsEditing(false);
     } catch {
@@ -235,12 +255,14 @@ function CustomerDetails({ customer, history }: CustomerDetailsProps) {
           </div>
         </div>
 
-        <button
-          onClick={() => setIsEditing(!isEditing)}
-          className="btn-secondary"
-        >
-          {isEditing ? 'Cancel' : 'Edit'}
-        </button>
+        {can('customer.edit') && (
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="btn-secondary"
+          >
+            {isEditing ? 'Cancel' : 'Edit'}
+          </button>
+        )}
       </div>
 
       {/* Stats */}
@@ -326,6 +348,54 @@ function CustomerDetails({ customer, history }: CustomerDetailsProps) {
                 className="input"
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={editData.taxExempt}
+                  onChange={(e) =>
+                    setEditData({ ...editData, taxExempt: e.target.checked })
+                  }
+                />
+                Tax exempt
+              </label>
+              {editData.taxExempt && (
+                <input
+                  type="text"
+                  value={editData.taxExemptCertificate}
+                  onChange={(e) =>
+                    setEditData({ ...editData, taxExemptCertificate: e.target.value })
+                  }
+                  className="input"
+                  placeholder="Exemption certificate number"
+                />
+              )}
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Customer Group</label>
+              <input
+                type="text"
+                value={editData.group}
+                onChange={(e) =>
+                  setEditData({ ...editData, group: e.target.value })
+                }
+                className="input"
+                placeholder="For promotions, e.g. staff"
+              />
+            </div>
+            {can('customer.edit_credit_limit') && (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Credit Limit</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={creditLimit}
+                  onChange={(e) => setCreditLimit(e.target.value)}
+                  className="input"
+                />
+              </div>
+            )}
             <button onClick={handleSave} className="btn-primary">
               Save Changes
             </button>
@@ -340,6 +410,14 @@ function CustomerDetails({ customer, history }: CustomerDetailsProps) {
               <PhoneIcon className="w-5 h-5 text-gray-400" />
               <span>{customer.phone || 'No phone'}</span>
             </div>
+            {customer.taxExempt && (
+              <p className="text-sm text-gray-600">
+                Tax exempt, certificate {customer.taxExemptCertificate}
+              </p>
+            )}
+            {customer.group && (
+              <p className="text-sm text-gray-600">Customer group: {customer.group}</p>
+            )}
           </div>
         )}
       </div>
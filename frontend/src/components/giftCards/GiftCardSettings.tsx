@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../stores/authStore';
+import { api, endpoints } from '../../services/api';
+import type { GiftCard, GiftCardEntry, TenantSettings } from '../../types';
+import toast from 'react-hot-toast';
+
+// The gift card tab: expiry for cards sold at the register, and the cards themselves
+export default function GiftCardSettings() {
+  return (
+    <div className="space-y-6">
+      <GiftCardExpirySettings />
+      <GiftCardLookup />
+    </div>
+  );
+}
+
+// Owners and admins choose how long gift cards sold at the register last
+function GiftCardExpirySettings() {
+  const { can, setTenantSettings } = useAuthStore();
+  const [settings, setSettings] = useState<TenantSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('settings.manage');
+
+  useEffect(() => {
+    if (!canEdit) return;
+    api
+      .get<{ settings: TenantSettings }>(endpoints.tenantSettings)
+      .then((response) => setSettings(response.data.settings))
+      .catch(() => toast.error('Failed to load gift card settings'));
+  }, [canEdit]);
+
+  if (!canEdit || !settings) {
+    return null;
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await api.put<{ settings: TenantSettings }>(endpoints.tenantSettings, {
+        settings: { giftCardExpiryMonths: settings.giftCardExpiryMonths },
+      });
+      setTenantSettings(response.data.settings);
+      toast.success('Gift card expiry saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save gift card expiry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Gift Card Expiry</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Cards sold at the register expire this long after they're activated. Reloads don't
+        change when a card expires.
+      </p>
+
+      <div className="flex items-center gap-4">
+        <label className="text-sm text-gray-600">Expire after (months, 0 = never)</label>
+        <input
+          type="number"
+          className="input w-28"
+          min="0"
+          max="120"
+          value={settings.giftCardExpiryMonths}
+          onChange={(e) => setSettings({ ...settings, giftCardExpiryMonths: Number(e.target.value) })}
+        />
+        <button onClick={handleSave} disabled={isSaving} className="btn-primary">
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const emptyGiftCardForm = { number: '', amount: 25, expiresAt: '', note: '' };
+
+// Look up gift cards and their history, issue cards outside a sale, and
+// adjust or deactivate them
+function GiftCardLookup() {
+  const { can } = useAuthStore();
+  const [search, setSearch] = useState('');
+  const [giftCards, setGiftCards] = useState<GiftCard[]>([]);
+  const [selected, setSelected] = useState<{ giftCard: GiftCard; entries: GiftCardEntry[] } | null>(null);
+  const [form, setForm] = useState(emptyGiftCardForm);
+  const [adjustment, setAdjustment] = useState({ amount: '', note: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('giftcards.manage');
+
+  const load = useCallback(async (query: string) => {
+    const response = await api.get<{ giftCards: GiftCard[] }>(
+      `${endpoints.giftCards}?search=${encodeURIComponent(query)}`
+    );
+    setGiftCards(response.data.giftCards);
+  }, []);
+
+  const open = useCallback(async (id: string) => {
+    const response = await api.get<{ giftCard: GiftCard; entries: GiftCardEntry[] }>(endpoints.giftCardById(id));
+    setSelected(response.data);
+  }, []);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    load(search).catch(() => toast.error('Failed to load gift cards'));
+  }, [canEdit, search, load]);
+
+  if (!canEdit) {
+    return null;
+  }
+
+  const handleIssue = async () => {
+    setIsSaving(true);
+    try {
+      const response = await api.post<{ giftCard: GiftCard }>(endpoints.giftCardActivate, {
+        number: form.number,
+        amount: form.amount,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+        note: form.note,
+      });
+      toast.success(`Gift card ****${response.data.giftCard.number.slice(-4)} issued`);
+      setForm(emptyGiftCardForm);
+      await load(search);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to issue gift card');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (giftCard: GiftCard) => {
+    try {
+      await api.put(endpoints.giftCardById(giftCard.id), { isActive: !giftCard.isActive });
+      await Promise.all([load(search), open(giftCard.id)]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update gift card');
+    }
+  };
+
+  const handleAdjust = async (giftCard: GiftCard) => {
+    try {
+      await api.post(endpoints.giftCardAdjust(giftCard.id), {
+        amount: Number(adjustment.amount),
+        note: adjustment.note,
+      });
+      setAdjustment({ amount: '', note: '' });
+      await Promise.all([load(search), open(giftCard.id)]);
+      toast.success('Balance adjusted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to adjust balance');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6">
+        <h2 className="text-lg font-semibold mb-2">Gift Cards</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Cards are sold and reloaded at the register and spent as a tender. Every change to a
+          balance is kept in the card's history.
+        </p>
+
+        <input
+          type="text"
+          className="input mb-4"
+          placeholder="Search by card number"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        <div className="divide-y divide-gray-100">
+          {giftCards.map((giftCard) => (
+            <button
+              key={giftCard.id}
+              onClick={() => open(giftCard.id).catch(() => toast.error('Failed to load gift card'))}
+              className="w-full flex items-center justify-between py-2 text-sm text-left hover:bg-gray-50"
+            >
+              <span className="font-mono">{giftCard.number}</span>
+              <span className="text-gray-500">
+                ${giftCard.balance.toFixed(2)}
+                {!giftCard.isActive && ' · inactive'}
+                {giftCard.expiresAt && ` · expires ${format(new Date(giftCard.expiresAt), 'MMM d, yyyy')}`}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {selected && (
+        <div className="card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">
+              <span className="font-mono">{selected.giftCard.number}</span> · $
+              {selected.giftCard.balance.toFixed(2)}
+            </h2>
+            <button onClick={() => handleToggle(selected.giftCard)} className="btn-secondary">
+              {selected.giftCard.isActive ? 'Deactivate' : 'Activate'}
+            </button>
+          </div>
+
+          <div className="flex gap-2 mb-6">
+            <input
+              type="number"
+              className="input w-32"
+              step="0.01"
+              placeholder="+/- amount"
+              value={adjustment.amount}
+              onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+            />
+            <input
+              type="text"
+              className="input flex-1"
+              placeholder="Reason"
+              value={adjustment.note}
+              onChange={(e) => setAdjustment({ ...adjustment, note: e.target.value })}
+            />
+            <button
+              onClick={() => handleAdjust(selected.giftCard)}
+              disabled={!Number(adjustment.amount) || !adjustment.note.trim()}
+              className="btn-primary"
+            >
+              Adjust
+            </button>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Date</th>
+                <th className="pb-2 font-medium">Type</th>
+                <th className="pb-2 font-medium">Receipt / Note</th>
+                <th className="pb-2 font-medium text-right">Amount</th>
+                <th className="pb-2 font-medium text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.entries.map((entry) => (
+                <tr key={entry.id} className="border-t border-gray-100">
+                  <td className="py-2">{format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}</td>
+                  <td className="py-2 capitalize">{entry.type}</td>
+                  <td className="py-2 text-gray-500">{entry.receiptNumber ?? entry.note}</td>
+                  <td className={`py-2 text-right ${entry.amount < 0 ? 'text-red-600' : ''}`}>
+                    {entry.amount < 0 ? '-' : ''}${Math.abs(entry.amount).toFixed(2)}
+                  </td>
+                  <td className="py-2 text-right">${entry.balance.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="card p-6">
+        <h2 className="text-lg font-semibold mb-2">Issue a Card</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          For cards given away or replacing a lost one. Cards customers buy are sold at the
+          register instead.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <input
+            type="text"
+            className="input font-mono"
+            placeholder="Card number"
+            value={form.number}
+            onChange={(e) => setForm({ ...form, number: e.target.value.toUpperCase() })}
+          />
+          <input
+            type="number"
+            className="input"
+            min="0.01"
+            step="0.01"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: Number(e.target.value) })}
+          />
+          <label className="text-sm text-gray-600">
+            Expires (optional)
+            <input
+              type="date"
+              className="input"
+              value={form.expiresAt}
+              onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Reason
+            <input
+              type="text"
+              className="input"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+            />
+          </label>
+        </div>
+
+        <button onClick={handleIssue} disabled={isSaving || !form.number} className="btn-primary mt-6">
+          {isSaving ? 'Issuing...' : 'Issue Card'}
+        </button>
+      </div>
+    </div>
+  );
+}
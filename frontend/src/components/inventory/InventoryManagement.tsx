@@ -22,7 +22,7 @@ export default function InventoryManagement() {
 
   const { items, loadItems, loadInventory, refreshItems, isLoading, getInventoryLevel } =
     useItemStore();
-  const { location } = useAuthStore();
+  const { location, can } = useAuthStore();
 
   useEffect(() => {
     loadItems();
@@ -65,24 +65,28 @@ export default function InventoryManagement() {
         <div className="flex items-center justify-between mb-4">
           <h1 className="text-xl font-semibold">Inventory Management</h1>
           <div className="flex gap-2">
-            <button
-              onClick={() => setViewMode('adjust')}
-              className={`btn-secondary flex items-center gap-2 ${
-                viewMode === 'adjust' ? 'bg-primary-100' : ''
-              }`}
-            >
-              <AdjustmentsHorizontalIcon className="w-5 h-5" />
-              Adjust
-            </button>
-            <button
-              onClick={() => setViewMode('transfer')}
-              className={`btn-secondary flex items-center gap-2 ${
-                viewMode === 'transfer' ? 'bg-primary-100' : ''
-              }`}
-            >
-              <ArrowsRightLeftIcon className="w-5 h-5" />
-              Transfer
-            </button>
+            {can('inventory.adjust') && (
+              <button
+                onClick={() => setViewMode('adjust')}
+                className={`btn-secondary flex items-center gap-2 ${
+                  viewMode === 'adjust' ? 'bg-primary-100' : ''
+                }`}
+              >
+                <AdjustmentsHorizontalIcon className="w-5 h-5" />
+                Adjust
+              </button>
+            )}
+            {can('inventory.transfer') && (
+              <button
+                onClick={() => setViewMode('transfer')}
+                className={`btn-secondary flex items-center gap-2 ${
+                  viewMode === 'transfer' ? 'bg-primary-100' : ''
+                }`}
+              >
+                <ArrowsRightLeftIcon className="w-5 h-5" />
+                Transfer
+              </button>
+            )}
             <button
               onClick={handleRefresh}
               disabled={isLoading}
@@ -6,13 +6,77 @@ import {
   ReceiptPercentIcon,
 } from '@heroicons/react/24/outline';
 import { useCartStore } from '../../stores/cartStore';
-import type { CartItem } from '../../types';
+import { useOverrideStore } from '../../stores/overrideStore';
+import type { CartItem, ReturnDisposition } from '../../types';
 import toast from 'react-hot-toast';
 
 export default function Cart() {
-  const { cart, updateItemQuantity, removeItem, setItemDiscount, clearCart } =
-    useCartStore();
+  const {
+    cart,
+    updateItemQuantity,
+    removeItem,
+    setItemDiscount,
+    setItemPrice,
+    setReturnDisposition,
+    addApproval,
+    clearCart,
+    discounts,
+    applyCoupon,
+    removeDiscount,
+  } = useCartStore();
+  const { needsApproval, requestApproval } = useOverrideStore();
   const [editingItem, setEditingItem] = useState<string | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) return;
+    setIsApplyingCoupon(true);
+    try {
+      await applyCoupon(couponCode);
+      setCouponCode('');
+      toast.success('Coupon applied');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply coupon');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  // Discounts above the policy threshold need a manager's approval first
+  const handleDiscount = async (item: CartItem, type: 'percent' | 'fixed', value: number) => {
+    const base = item.quantity * item.unitPrice;
+    const percent = type === 'percent' ? value : base > 0 ? (value / base) * 100 : 0;
+
+    if (needsApproval('discount', percent)) {
+      const approval = await requestApproval({
+        action: 'discount',
+        description: `${percent.toFixed(1)}% discount on ${item.item.name}`,
+        value: percent,
+        details: { itemId: item.itemId, percent },
+      });
+      if (!approval) return false;
+      addApproval(approval.id);
+    }
+
+    setItemDiscount(item.id, type, value);
+    return true;
+  };
+
+  const handlePrice = async (item: CartItem, price: number) => {
+    if (needsApproval('price_override')) {
+      const approval = await requestApproval({
+        action: 'price_override',
+        description: `Change the price of ${item.item.name} from $${item.unitPrice.toFixed(2)} to $${price.toFixed(2)}`,
+        details: { itemId: item.itemId, from: item.unitPrice, to: price },
+      });
+      if (!approval) return false;
+      addApproval(approval.id);
+    }
+
+    setItemPrice(item.id, price);
+    return true;
+  };
 
   if (cart.items.length === 0) {
     return (
@@ -28,13 +92,20 @@ export default function Cart() {
     <div className="flex-1 flex flex-col overflow-hidden">
       {/* Cart items */}
       <div className="flex-1 overflow-auto">
+        {cart.originalReceiptNumber && (
+          <div className="px-4 py-2 bg-amber-50 text-sm text-amber-800">
+            Exchange for receipt #{cart.originalReceiptNumber}
+          </div>
+        )}
         {cart.items.map((item) => (
           <CartItemRow
             key={item.id}
             item={item}
             onQuantityChange={(qty) => updateItemQuantity(item.id, qty)}
             onRemove={() => removeItem(item.id)}
-            onDiscount={(type, value) => setItemDiscount(item.id, type, value)}
+            onDiscount={(type, value) => handleDiscount(item, type, value)}
+            onPrice={(price) => handlePrice(item, price)}
+            onDisposition={(disposition) => setReturnDisposition(item.id, disposition)}
             isEditing={editingItem === item.id}
             onEdit={() => setEditingItem(editingItem === item.id ? null : item.id)}
           />
@@ -43,6 +114,25 @@ export default function Cart() {
 
       {/* Totals */}
       <div className="p-4 bg-gray-50 border-t border-gray-200">
+        <form
+          className="flex gap-2 mb-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleApplyCoupon();
+          }}
+        >
+          <input
+            type="text"
+            value={couponCode}
+            onChange={(e) => setCouponCode(e.target.value)}
+            className="input flex-1"
+            placeholder="Coupon code"
+          />
+          <button type="submit" disabled={isApplyingCoupon} className="btn-secondary">
+            Apply
+          </button>
+        </form>
+
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
             <span className="text-gray-600">Subtotal</span>
@@ -56,14 +146,47 @@ export default function Cart() {
             </div>
           )}
 
+          {/* Coupons, including any the cart doesn't reach the minimum spend of yet */}
+          {discounts.filter((d) => d.coupon).map((d) => {
+            const applied = cart.coupons?.find((coupon) => coupon.code === d.coupon!.code);
+            return (
+              <div key={d.id} className="flex justify-between text-xs text-green-600 pl-3">
+                <span>
+                  Coupon {d.coupon!.code}
+                  <button
+                    onClick={() => removeDiscount(d.id)}
+                    className="ml-2 text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </span>
+                <span>
+                  {applied
+                    ? `-$${applied.amount.toFixed(2)}`
+                    : `Spend $${(d.coupon!.minimumSpend ?? 0).toFixed(2)}`}
+                </span>
+              </div>
+            );
+          })}
+
           <div className="flex justify-between">
-            <span className="text-gray-600">Tax</span>
+            <span className="text-gray-600">
+              {cart.items.some((item) => item.taxIncluded) ? 'Includes Tax' : 'Tax'}
+            </span>
             <span>${cart.taxTotal.toFixed(2)}</span>
           </div>
 
+          {/* Each tax charged where the location has several */}
+          {cart.taxes && cart.taxes.length > 1 && cart.taxes.map((tax) => (
+            <div key={tax.name} className="flex justify-between text-xs text-gray-500 pl-3">
+              <span>{tax.name}</span>
+              <span>${tax.amount.toFixed(2)}</span>
+            </div>
+          ))}
+
           <div className="flex justify-between text-lg font-semibold pt-2 border-t border-gray-200">
-            <span>Total</span>
-            <span>${cart.total.toFixed(2)}</span>
+            <span>{cart.total < 0 ? 'Refund Due' : 'Total'}</span>
+            <span>${Math.abs(cart.total).toFixed(2)}</span>
           </div>
         </div>
 
@@ -87,7 +210,9 @@ interface CartItemRowProps {
   item: CartItem;
   onQuantityChange: (quantity: number) => void;
   onRemove: () => void;
-  onDiscount: (type: 'percent' | 'fixed', value: number) => void;
+  onDiscount: (type: 'percent' | 'fixed', value: number) => Promise<boolean>;
+  onPrice: (price: number) => Promise<boolean>;
+  onDisposition: (disposition: ReturnDisposition) => void;
   isEditing: boolean;
   onEdit: () => void;
 }
@@ -97,13 +222,23 @@ function CartItemRow({
   onQuantityChange,
   onRemove,
   onDiscount,
+  onPrice,
+  onDisposition,
   isEditing,
   onEdit,
 }: CartItemRowProps) {
+  // Return lines hold negative quantities but are edited as a count
+  const returning = !!item.returnOf;
+  // Gift cards sell at the amount put on them, with no discount
+  const giftCard = !!item.giftCardNumber;
+  const quantity = Math.abs(item.quantity);
+  const changeQuantity = (value: number) => onQuantityChange(returning ? -value : value);
+
   const [discountType, setDiscountType] = useState<'percent' | 'fixed'>('percent');
   const [discountValue, setDiscountValue] = useState('');
+  const [priceValue, setPriceValue] = useState('');
 
-  const handleApplyDiscount = () => {
+  const handleApplyDiscount = async () => {
     const value = parseFloat(discountValue);
     if (isNaN(value) || value < 0) {
       toast.error('Invalid discount');
@@ -113,15 +248,28 @@ function CartItemRow({
       toast.error('Discount cannot exceed 100%');
       return;
     }
-    onDiscount(discountType, value);
+    if (!(await onDiscount(discountType, value))) return;
     setDiscountValue('');
     onEdit();
     toast.success('Discount applied');
   };
 
-  const handleRemoveDiscount = () => {
-    onDiscount('fixed', 0);
-    toast.success('Discount removed');
+  const handleRemoveDiscount = async () => {
+    if (await onDiscount('fixed', 0)) {
+      toast.success('Discount removed');
+    }
+  };
+
+  const handleApplyPrice = async () => {
+    const price = parseFloat(priceValue);
+    if (isNaN(price) || price < 0) {
+      toast.error('Invalid price');
+      return;
+    }
+    if (!(await onPrice(price))) return;
+    setPriceValue('');
+    onEdit();
+    toast.success('Price changed');
   };
 
   return (
@@ -131,11 +279,24 @@ function CartItemRow({
         onClick={onEdit}
       >
         <div className="flex-1 min-w-0">
-          <p className="font-medium truncate">{item.item.name}</p>
+          <p className="font-medium truncate">
+            {returning && <span className="text-amber-600 mr-1">Return</span>}
+            {item.item.name}
+          </p>
           <p className="text-sm text-gray-500">
-            ${item.unitPrice.toFixed(2)} x {item.quantity}
+            ${item.unitPrice.toFixed(2)}
+            {item.priceOverride && <span className="text-amber-600"> (override)</span>} x {quantity}
+            {item.returnOf && ` · ${item.returnOf.disposition}`}
           </p>
-          {item.discountAmount > 0 && (
+          {item.giftCardNumber && (
+            <p className="text-sm text-gray-500">Card ****{item.giftCardNumber.slice(-4)}</p>
+          )}
+          {item.promotions?.map((promotion) => (
+            <p key={promotion.id} className="text-sm text-green-600">
+              {promotion.name} -${promotion.amount.toFixed(2)}
+            </p>
+          ))}
+          {item.discountAmount > 0 && !item.promotions && (
             <p className="text-sm text-green-600">
               -{discountType === 'percent'
                 ? `${item.discountPercent}%`
@@ -152,88 +313,137 @@ function CartItemRow({
       {/* Expanded edit view */}
       {isEditing && (
         <div className="p-4 bg-gray-50 space-y-4">
-          {/* Quantity controls */}
-          <div>
-            <label className="block text-sm text-gray-600 mb-2">Quantity</label>
-            <div className="flex items-center gap-2">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onQuantityChange(item.quantity - 1);
-                }}
-                className="btn-secondary p-2"
-              >
-                <MinusIcon className="w-4 h-4" />
-              </button>
+          {/* Quantity controls; a gift card line is a single card */}
+          {!giftCard && (
+            <div>
+              <label className="block text-sm text-gray-600 mb-2">Quantity</label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    changeQuantity(quantity - 1);
+                  }}
+                  className="btn-secondary p-2"
+                >
+                  <MinusIcon className="w-4 h-4" />
+                </button>
 
-              <input
-                type="number"
-                value={item.quantity}
-                onChange={(e) => onQuantityChange(parseInt(e.target.value) || 0)}
-                onClick={(e) => e.stopPropagation()}
-                className="input w-20 text-center"
-                min="1"
-              />
-
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onQuantityChange(item.quantity + 1);
-                }}
-                className="btn-secondary p-2"
-              >
-                <PlusIcon className="w-4 h-4" />
-              </button>
+                <input
+                  type="number"
+                  value={quantity}
+                  onChange={(e) => changeQuantity(parseInt(e.target.value) || 0)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="input w-20 text-center"
+                  min="1"
+                />
+
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    changeQuantity(quantity + 1);
+                  }}
+                  className="btn-secondary p-2"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
-          {/* Discount controls */}
-          <div>
-            <label className="block text-sm text-gray-600 mb-2">Discount</label>
-            <div className="flex gap-2">
+          {/* Returned stock goes back on the shelf, aside as damaged, or in the bin */}
+          {item.returnOf && (
+            <div>
+              <label className="block text-sm text-gray-600 mb-2">Disposition</label>
               <select
-                value={discountType}
-                onChange={(e) =>
-                  setDiscountType(e.target.value as 'percent' | 'fixed')
-                }
+                value={item.returnOf.disposition}
+                onChange={(e) => onDisposition(e.target.value as ReturnDisposition)}
                 onClick={(e) => e.stopPropagation()}
-                className="input w-24"
+                className="input w-full"
               >
-                <option value="percent">%</option>
-                <option value="fixed">$</option>
+                <option value="restock">Restock</option>
+                <option value="damaged">Damaged</option>
+                <option value="discard">Discard</option>
               </select>
-              <input
-                type="number"
-                value={discountValue}
-                onChange={(e) => setDiscountValue(e.target.value)}
-                onClick={(e) => e.stopPropagation()}
-                placeholder="0"
-                className="input flex-1"
-                min="0"
-              />
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleApplyDiscount();
-                }}
-                className="btn-primary"
-              >
-                Apply
-              </button>
             </div>
+          )}
 
-            {item.discountAmount > 0 && (
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleRemoveDiscount();
-                }}
-                className="mt-2 text-sm text-red-600 hover:underline"
-              >
-                Remove discount
-              </button>
-            )}
-          </div>
+          {/* Discount controls */}
+          {!returning && !giftCard && (
+            <div>
+              <label className="block text-sm text-gray-600 mb-2">Discount</label>
+              <div className="flex gap-2">
+                <select
+                  value={discountType}
+                  onChange={(e) =>
+                    setDiscountType(e.target.value as 'percent' | 'fixed')
+                  }
+                  onClick={(e) => e.stopPropagation()}
+                  className="input w-24"
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">$</option>
+                </select>
+                <input
+                  type="number"
+                  value={discountValue}
+                  onChange={(e) => setDiscountValue(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  placeholder="0"
+                  className="input flex-1"
+                  min="0"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleApplyDiscount();
+                  }}
+                  className="btn-primary"
+                >
+                  Apply
+                </button>
+              </div>
+
+              {item.discountAmount > 0 && !item.promotions && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRemoveDiscount();
+                  }}
+                  className="mt-2 text-sm text-red-600 hover:underline"
+                >
+                  Remove discount
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Price override */}
+          {!returning && !giftCard && (
+            <div>
+              <label className="block text-sm text-gray-600 mb-2">Price</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={priceValue}
+                  onChange={(e) => setPriceValue(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  placeholder={item.unitPrice.toFixed(2)}
+                  className="input flex-1"
+                  min="0"
+                  step="0.01"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleApplyPrice();
+                  }}
+                  className="btn-primary"
+                >
+                  Set
+                </button>
+              </div>
+            </div>
+          )}
 
           {/* Remove button */}
           <button
@@ -12,10 +12,13 @@ import { useCartStore } from '../../stores/cartStore';
 import { useAuthStore } from '../../stores/authStore';
 import { useSyncStore } from '../../stores/syncStore';
 import { useHardwareStore } from '../../stores/hardwareStore';
+import { useOverrideStore } from '../../stores/overrideStore';
 import { receiptService } from '../../services/receiptService';
-import { api } from '../../services/api';
+import { api, endpoints, ApiError } from '../../services/api';
 import { db } from '../../services/offlineDb';
-import type { Transaction, PaymentMethod, Payment } from '../../types';
+import { takeReceiptNumber } from '../../services/receiptNumbers';
+import { warnFailedRefunds } from '../../services/refunds';
+import type { Transaction, PaymentMethod, Payment, Refund, GiftCard } from '../../types';
 import toast from 'react-hot-toast';
 import { v4 as uuid } from 'uuid';
 
@@ -29,15 +32,27 @@ export default function Checkout({ onBack }: CheckoutProps) {
   const [step, setStep] = useState<CheckoutStep>('payment');
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
   const [paymentAmount, setPaymentAmount] = useState('');
+  const [giftCardNumber, setGiftCardNumber] = useState('');
   const [completedTransaction, setCompletedTransaction] = useState<Transaction | null>(null);
+  const [exemptCertificate, setExemptCertificate] = useState(
+    () => useCartStore.getState().cart.customer?.taxExemptCertificate ?? ''
+  );
 
   const { cart, payments, addPayment, clearCart, getRemainingBalance, clearPayments } = useCartStore();
   const { user, location, register, shift } = useAuthStore();
   const { addToQueue } = useSyncStore();
   const { status, printReceipt, openCashDrawer } = useHardwareStore();
+  const { needsApproval, requestApproval } = useOverrideStore();
 
   const remainingBalance = getRemainingBalance();
   const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const hasReturns = cart.items.some((item) => item.returnOf);
+  const usesGiftCards =
+    cart.items.some((item) => item.giftCardNumber) || payments.some((p) => p.method === 'gift_card');
+  // An exchange for cheaper items ends with money going back to the customer
+  const isRefund = cart.total < 0;
+  const taxExempt = !!cart.customer?.taxExempt;
+  const refundMethods: PaymentMethod[] = ['cash', 'card', 'store_credit'];
 
   const paymentMethods: { method: PaymentMethod; label: string; icon: typeof BanknotesIcon }[] = [
     { method: 'cash', label: 'Cash', icon: BanknotesIcon },
@@ -71,6 +86,41 @@ export default function Checkout({ onBack }: CheckoutProps) {
         return;
       }
       addPayment('card', amount, result.reference);
+    } else if (selectedMethod === 'gift_card') {
+      // The server checks the balance again, and takes the payment off the
+      // card, when the sale is saved
+      const number = giftCardNumber.replace(/\s+/g, '').toUpperCase();
+      let card: GiftCard;
+      try {
+        const response = await api.get<{ giftCard: GiftCard }>(
+          endpoints.giftCardByNumber(encodeURIComponent(number))
+        );
+        card = response.data.giftCard;
+      } catch (error) {
+        toast.error(
+          error instanceof ApiError && error.status === 404
+            ? 'Gift card not found'
+            : 'Gift card balances can only be checked online'
+        );
+        return;
+      }
+
+      if (!card.isActive || (card.expiresAt && new Date(card.expiresAt) <= new Date())) {
+        toast.error(card.isActive ? 'This gift card has expired' : 'This gift card is not active');
+        return;
+      }
+
+      const used = payments
+        .filter((p) => p.giftCardNumber === card.number)
+        .reduce((sum, p) => sum + p.amount, 0);
+      const available = Math.round((card.balance - used) * 100) / 100;
+      if (available <= 0) {
+        toast.error('This gift card has no balance left');
+        return;
+      }
+      amount = Math.min(amount, available);
+      addPayment('gift_card', amount, undefined, card.number);
+      setGiftCardNumber('');
     } else {
       addPayment(selectedMethod, amount);
     }
@@ -78,27 +128,69 @@ export default function Checkout({ onBack }: CheckoutProps) {
     setPaymentAmount('');
     setSelectedMethod(null);
     toast.success(`${selectedMethod} payment added`);
-  }, [selectedMethod, paymentAmount, remainingBalance, addPayment]);
+  }, [selectedMethod, paymentAmount, giftCardNumber, remainingBalance, payments, addPayment]);
 
   const handleCompleteTransaction = useCallback(async () => {
-    if (remainingBalance > 0.01) {
+    if (remainingBalance > 0.01 || (isRefund && remainingBalance < -0.01)) {
       toast.error('Payment incomplete');
       return;
     }
 
+    if (taxExempt && !exemptCertificate.trim()) {
+      toast.error('Enter the customer\'s tax exemption certificate number');
+      return;
+    }
+
+    // Refunds for returned lines above the policy threshold need a manager
+    let approvalIds = cart.approvalIds || [];
+    const refunded = -cart.items
+      .filter((item) => item.quantity < 0)
+      .reduce((sum, item) => sum + item.lineTotal, 0);
+    if (refunded > 0 && needsApproval('return', refunded)) {
+      const approval = await requestApproval({
+        action: 'return',
+        description: `Refund $${refunded.toFixed(2)} for returned items`,
+        value: refunded,
+        details: { refunded },
+      });
+      if (!approval) return;
+      approvalIds = [...approvalIds, approval.id];
+    }
+
+    const receipt = await takeReceiptNumber(register?.id || '');
+    if (!receipt) {
+      toast.error('No receipt numbers left. Reconnect to reserve more.');
+      return;
+    }
+
+    // Every number taken ends up on a recorded sale or is reported as
+    // spoiled, so the register's sequence has no unexplained gaps
+    let numberUsed = false;
+    const spoilReceipt = async (reason: string) => {
+      numberUsed = true;
+      await addToQueue({
+        type: 'spoiled_receipt',
+        action: 'create',
+        data: { registerId: register?.id || '', ...receipt, reason },
+      }).catch(() => undefined);
+    };
+
     setStep('processing');
 
     try {
       // Create transaction
       const transaction: Transaction = {
         id: uuid(),
-        type: 'sale',
+        type: hasReturns
+          ? cart.items.some((item) => item.quantity > 0) ? 'exchange' : 'return'
+          : 'sale',
         status: 'completed',
         registerId: register?.id || '',
         locationId: location?.id || '',
         userId: user?.id || '',
         customerId: cart.customer?.id,
         customer: cart.customer,
+        originalTransactionId: cart.originalTransactionId,
         items: cart.items.map((item) => ({
           id: uuid(),
           itemId: item.itemId,
@@ -108,14 +200,25 @@ export default function Checkout({ onBack }: CheckoutProps) {
           unitPrice: item.unitPrice,
           discountAmount: item.discountAmount,
           taxAmount: item.taxAmount,
+          taxes: item.taxes,
+          taxIncluded: item.taxIncluded,
+          promotions: item.promotions,
           lineTotal: item.lineTotal,
+          priceOverride: item.priceOverride,
+          giftCardNumber: item.giftCardNumber,
+          originalItemId: item.returnOf?.originalItemId,
+          disposition: item.returnOf?.disposition,
         })),
         payments: payments.map((p) => ({ ...p, transactionId: '' })),
         subtotal: cart.subtotal,
         taxTotal: cart.taxTotal,
+        taxes: cart.taxes,
+        taxExemptCertificate: taxExempt ? exemptCertificate.trim() : undefined,
         discountTotal: cart.discountTotal,
+        coupons: cart.coupons,
         total: cart.total,
-        receiptNumber: generateReceiptNumber(),
+        ...receipt,
+        approvalIds,
         createdAt: new Date(),
       };
 
@@ -124,18 +227,35 @@ export default function Checkout({ onBack }: CheckoutProps) {
 
       // Try to sync immediately if online
       try {
-        const response = await api.post('/transactions', transaction);
+        // The key lets a retry after a lost response return the sale already recorded
+        const response = await api.post('/transactions', transaction, {
+          'Idempotency-Key': transaction.id,
+        });
+        numberUsed = true;
         transaction.netsuiteId = response.data.netsuiteId;
         transaction.status = 'synced';
         transaction.syncedAt = new Date();
         await db.transactions.put(transaction);
-      } catch {
+        warnFailedRefunds((response.data as { refunds?: Refund[] }).refunds);
+      } catch (error) {
+        // The server rejected the sale itself (stale prices, totals mismatch), so
+        // retrying won't help. Returns are checked against the original sale and
+        // gift cards against their balances, so neither is queued.
+        if ((error instanceof ApiError && error.status < 500) || hasReturns || usesGiftCards) {
+          await db.transactions.delete(transaction.id);
+          await spoilReceipt(error.message);
+          toast.error(error.message);
+          setStep('payment');
+          return;
+        }
+
         // Add to sync queue if failed
         await addToQueue({
           type: 'transaction',
           action: 'create',
           data: transaction,
         });
+        numberUsed = true;
       }
 
       // Open cash drawer for cash payments
@@ -158,16 +278,26 @@ export default function Checkout({ onBack }: CheckoutProps) {
       }, 100);
 
     } catch (error) {
+      if (!numberUsed) {
+        await spoilReceipt('Failed to complete transaction');
+      }
       toast.error('Failed to complete transaction');
       setStep('payment');
     }
   }, [
     remainingBalance,
+    isRefund,
+    hasReturns,
+    usesGiftCards,
+    taxExempt,
+    exemptCertificate,
     register,
     location,
     user,
     cart,
     payments,
+    needsApproval,
+    requestApproval,
     addToQueue,
     status,
     openCashDrawer,
@@ -272,26 +402,51 @@ export default function Checkout({ onBack }: CheckoutProps) {
       <div className="flex-1 flex overflow-hidden">
         {/* Payment methods */}
         <div className="w-80 p-4 border-r border-gray-200 overflow-auto">
-          <h3 className="font-medium mb-4">Payment Method</h3>
+          {/* Exempt sales are recorded against a certificate */}
+          {taxExempt && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tax Exemption Certificate
+              </label>
+              <input
+                type="text"
+                value={exemptCertificate}
+                onChange={(e) => setExemptCertificate(e.target.value)}
+                className="input"
+                placeholder="Certificate number"
+              />
+            </div>
+          )}
+
+          <h3 className="font-medium mb-4">{isRefund ? 'Refund To' : 'Payment Method'}</h3>
 
           <div className="space-y-2">
-            {paymentMethods.map(({ method, label, icon: Icon }) => (
-              <button
-                key={method}
-                onClick={() => {
-                  setSelectedMethod(method);
-                  setPaymentAmount(remainingBalance.toFixed(2));
-                }}
-                className={`w-full p-4 rounded-lg border-2 flex items-center gap-3 transition-colors ${
-                  selectedMethod === method
-                    ? 'border-primary-500 bg-primary-50'
-                    : 'border-gray-200 hover:border-gray-300'
-                }`}
-              >
-                <Icon className="w-6 h-6" />
-                <span className="font-medium">{label}</span>
-              </button>
-            ))}
+            {paymentMethods
+              .filter(({ method }) => !isRefund || refundMethods.includes(method))
+              .map(({ method, label, icon: Icon }) => (
+                <button
+                  key={method}
+                  onClick={() => {
+                    // Refunds go out in one amount to the chosen tender
+                    if (isRefund) {
+                      setSelectedMethod(method);
+                      clearPayments();
+                      addPayment(method, cart.total);
+                      return;
+                    }
+                    setSelectedMethod(method);
+                    setPaymentAmount(remainingBalance.toFixed(2));
+                  }}
+                  className={`w-full p-4 rounded-lg border-2 flex items-center gap-3 transition-colors ${
+                    selectedMethod === method
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="w-6 h-6" />
+                  <span className="font-medium">{label}</span>
+                </button>
+              ))}
           </div>
 
           {/* Applied payments */}
@@ -304,7 +459,10 @@ export default function Checkout({ onBack }: CheckoutProps) {
                     key={payment.id}
                     className="p-3 bg-gray-50 rounded-lg flex justify-between items-center"
                   >
-                    <span className="capitalize">{payment.method.replace('_', ' ')}</span>
+                    <span className="capitalize">
+                      {payment.method.replace('_', ' ')}
+                      {payment.giftCardNumber && ` ****${payment.giftCardNumber.slice(-4)}`}
+                    </span>
                     <span className="font-medium">${payment.amount.toFixed(2)}</span>
                   </div>
                 ))}
@@ -319,15 +477,29 @@ export default function Checkout({ onBack }: CheckoutProps) {
             {/* Remaining balance */}
             <div className="text-center mb-8">
               <p className="text-sm text-gray-600 mb-1">
-                {remainingBalance <= 0 ? 'Total Paid' : 'Remaining Balance'}
+                {isRefund ? 'Refund Due' : remainingBalance <= 0 ? 'Total Paid' : 'Remaining Balance'}
               </p>
               <p className={`text-5xl font-bold ${remainingBalance <= 0 ? 'text-green-600' : ''}`}>
-                ${Math.abs(remainingBalance).toFixed(2)}
+                ${Math.abs(isRefund ? cart.total : remainingBalance).toFixed(2)}
               </p>
             </div>
 
             {selectedMethod && remainingBalance > 0 && (
               <>
+                {/* Gift cards are scanned or typed in */}
+                {selectedMethod === 'gift_card' && (
+                  <div className="w-64 mb-4">
+                    <input
+                      type="text"
+                      value={giftCardNumber}
+                      onChange={(e) => setGiftCardNumber(e.target.value)}
+                      className="input font-mono text-center"
+                      placeholder="Gift card number"
+                      autoFocus
+                    />
+                  </div>
+                )}
+
                 {/* Amount input */}
                 <div className="w-64 mb-6">
                   <input
@@ -377,7 +549,11 @@ export default function Checkout({ onBack }: CheckoutProps) {
 
                 <button
                   onClick={handleAddPayment}
-                  disabled={!paymentAmount || parseFloat(paymentAmount) <= 0}
+                  disabled={
+                    !paymentAmount ||
+                    parseFloat(paymentAmount) <= 0 ||
+                    (selectedMethod === 'gift_card' && !giftCardNumber.trim())
+                  }
                   className="btn-primary w-64 py-3"
                 >
                   Add Payment
@@ -389,20 +565,13 @@ export default function Checkout({ onBack }: CheckoutProps) {
           {/* Complete button */}
           <button
             onClick={handleCompleteTransaction}
-            disabled={remainingBalance > 0.01}
+            disabled={remainingBalance > 0.01 || (isRefund && remainingBalance < -0.01)}
             className="btn-success w-full py-4 text-lg"
           >
-            Complete Sale
+            {hasReturns ? 'Complete Exchange' : 'Complete Sale'}
           </button>
         </div>
       </div>
     </div>
   );
 }
-
-function generateReceiptNumber(): string {
-  const date = new Date();
-  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-  return `${dateStr}-${random}`;
-}
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { XMarkIcon, GiftIcon } from '@heroicons/react/24/outline';
+import { useCartStore } from '../../stores/cartStore';
+import { useHardwareStore } from '../../stores/hardwareStore';
+import { api, endpoints, ApiError } from '../../services/api';
+import type { GiftCard, Item } from '../../types';
+import toast from 'react-hot-toast';
+
+interface GiftCardSaleProps {
+  item: Item;
+  onClose: () => void;
+}
+
+const quickAmounts = [25, 50, 100];
+
+// Sells a gift card item: a new card number activates the card when the sale
+// goes through, and a card already issued is reloaded
+export default function GiftCardSale({ item, onClose }: GiftCardSaleProps) {
+  const { addGiftCard } = useCartStore();
+  const { lastBarcode, clearBarcode } = useHardwareStore();
+  const [number, setNumber] = useState('');
+  const [amount, setAmount] = useState(item.basePrice > 0 ? item.basePrice.toFixed(2) : '');
+  const [existing, setExisting] = useState<GiftCard | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Card numbers can be scanned off the card
+  useEffect(() => {
+    if (lastBarcode) {
+      setNumber(lastBarcode);
+      clearBarcode();
+    }
+  }, [lastBarcode, clearBarcode]);
+
+  // Look the number up so the cashier knows whether it's a reload
+  useEffect(() => {
+    const cardNumber = number.replace(/\s+/g, '').toUpperCase();
+    setExisting(null);
+    if (cardNumber.length < 4) return;
+
+    let cancelled = false;
+    setIsChecking(true);
+    api
+      .get<{ giftCard: GiftCard }>(endpoints.giftCardByNumber(encodeURIComponent(cardNumber)))
+      .then((response) => {
+        if (!cancelled) setExisting(response.data.giftCard);
+      })
+      .catch((error) => {
+        if (!cancelled && !(error instanceof ApiError && error.status === 404)) {
+          toast.error(error.message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [number]);
+
+  const expired = !!existing?.expiresAt && new Date(existing.expiresAt) <= new Date();
+  const unusable = !!existing && (!existing.isActive || expired);
+
+  const handleAdd = () => {
+    const cardNumber = number.replace(/\s+/g, '').toUpperCase();
+    const value = parseFloat(amount);
+    if (!/^[A-Z0-9-]{4,40}$/.test(cardNumber)) {
+      toast.error('Enter or scan the card number');
+      return;
+    }
+    if (isNaN(value) || value <= 0) {
+      toast.error('Enter the amount to put on the card');
+      return;
+    }
+    if (useCartStore.getState().cart.items.some((ci) => ci.giftCardNumber === cardNumber)) {
+      toast.error('This card is already in the sale');
+      return;
+    }
+
+    addGiftCard(item, cardNumber, value);
+    toast.success(`${existing ? 'Reload' : 'Gift card'} of $${value.toFixed(2)} added`, { duration: 1500 });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-sm flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <GiftIcon className="w-5 h-5 text-primary-600" />
+            {item.name}
+          </h2>
+          <button onClick={onClose} className="btn-ghost p-2">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form
+          className="p-4 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Card Number</label>
+            <input
+              type="text"
+              value={number}
+              onChange={(e) => setNumber(e.target.value)}
+              className="input font-mono"
+              placeholder="Scan or type the card number"
+              autoFocus
+            />
+            <p className={`text-sm mt-1 ${unusable ? 'text-red-600' : 'text-gray-500'}`}>
+              {isChecking
+                ? 'Checking card...'
+                : !existing
+                  ? 'New card'
+                  : !existing.isActive
+                    ? 'This card is not active'
+                    : expired
+                      ? 'This card has expired'
+                      : `Reload · balance $${existing.balance.toFixed(2)}`}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Amount</label>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="input text-2xl text-center font-mono"
+              min="0.01"
+              step="0.01"
+            />
+            <div className="flex gap-2 mt-2">
+              {quickAmounts.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setAmount(value.toFixed(2))}
+                  className="btn-secondary flex-1"
+                >
+                  ${value}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button type="submit" disabled={isChecking || unusable} className="btn-primary w-full py-3">
+            Add to Sale
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { LockClosedIcon, BackspaceIcon, UserCircleIcon } from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import { api, endpoints } from '../../services/api';
+import type { RegisterUser } from '../../types';
+import toast from 'react-hot-toast';
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'wheel'] as const;
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+// Locks the register after the tenant's idle time and lets anyone with a PIN
+// pick themselves and unlock it, keeping the register, shift and cart
+export default function LockScreen() {
+  const navigate = useNavigate();
+  const { user, tenant, register, isAuthenticated, locked, lock, switchUser, logout } = useAuthStore();
+  const [pin, setPin] = useState('');
+  const [users, setUsers] = useState<RegisterUser[]>([]);
+  const [selected, setSelected] = useState<RegisterUser | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const idleLockMinutes = tenant?.settings?.idleLockMinutes ?? 0;
+  const canLock = isAuthenticated && !!register && !!user?.hasPin;
+
+  // Auto-lock after the idle time
+  useEffect(() => {
+    if (!canLock || locked || idleLockMinutes <= 0) return;
+
+    let timer = setTimeout(lock, idleLockMinutes * 60 * 1000);
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, idleLockMinutes * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+    };
+  }, [canLock, locked, idleLockMinutes, lock]);
+
+  // Who can unlock it, with whoever locked it picked to start with
+  useEffect(() => {
+    if (!locked || !register) return;
+
+    api
+      .get<{ users: RegisterUser[] }>(endpoints.registerUsers(register.id))
+      .then((response) => {
+        setUsers(response.data.users);
+        const lockedBy = useAuthStore.getState().user?.id;
+        setSelected(response.data.users.find((u) => u.id === lockedBy) ?? null);
+      })
+      .catch(() => toast.error('Failed to load users'));
+  }, [locked, register]);
+
+  if (!isAuthenticated || !locked || !register) {
+    return null;
+  }
+
+  const handleUnlock = async () => {
+    if (!selected || pin.length < 4) return;
+
+    setIsLoading(true);
+    try {
+      await switchUser(selected.id, pin);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid PIN');
+    } finally {
+      setPin('');
+      setIsLoading(false);
+    }
+  };
+
+  const handleKey = (key: string) => {
+    if (key === 'clear') {
+      setPin('');
+    } else if (key === 'back') {
+      setPin(pin.slice(0, -1));
+    } else if (pin.length < 8) {
+      setPin(pin + key);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      navigate('/login');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Logout failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-primary-900 flex items-center justify-center z-50">
+      <form
+        className="bg-white rounded-xl w-full max-w-xs p-6 space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleUnlock();
+        }}
+      >
+        <div className="text-center">
+          <LockClosedIcon className="w-10 h-10 mx-auto text-primary-600" />
+          <h2 className="text-lg font-semibold mt-2">{register.name} is locked</h2>
+          <p className="text-sm text-gray-600">
+            {selected ? `${selected.firstName}, enter your PIN to continue` : 'Who are you?'}
+          </p>
+        </div>
+
+        {!selected ? (
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {users.map((u) => (
+              <button
+                key={u.id}
+                type="button"
+                onClick={() => setSelected(u)}
+                className="btn-secondary w-full h-12 flex items-center gap-2"
+              >
+                <UserCircleIcon className="w-6 h-6" />
+                {u.firstName} {u.lastName}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+              className="input text-center text-2xl tracking-widest"
+              autoFocus
+            />
+
+            <div className="grid grid-cols-3 gap-2">
+              {KEYS.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => handleKey(key)}
+                  className="btn-secondary h-14 text-xl flex items-center justify-center"
+                >
+                  {key === 'back' ? <BackspaceIcon className="w-6 h-6" /> : key === 'clear' ? 'C' : key}
+                </button>
+              ))}
+            </div>
+
+            <button type="submit" disabled={pin.length < 4 || isLoading} className="btn-primary w-full h-12">
+              {isLoading ? 'Checking...' : 'Unlock'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setSelected(null);
+                setPin('');
+              }}
+              className="btn-ghost w-full text-sm"
+            >
+              Not {selected.firstName}?
+            </button>
+          </>
+        )}
+
+        <button type="button" onClick={handleLogout} className="btn-ghost w-full text-sm">
+          Sign out {user?.firstName}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { XMarkIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useOverrideStore } from '../../stores/overrideStore';
+import { useHardwareStore } from '../../stores/hardwareStore';
+import { useAuthStore } from '../../stores/authStore';
+import { api, endpoints } from '../../services/api';
+import type { RegisterUser } from '../../types';
+import toast from 'react-hot-toast';
+
+// Asks a manager to pick themselves and approve the pending override with
+// their PIN, or to scan their badge
+export default function ManagerApproval() {
+  const { pending, approve, cancel } = useOverrideStore();
+  const { lastBarcode, clearBarcode } = useHardwareStore();
+  const { register } = useAuthStore();
+  const [approvers, setApprovers] = useState<RegisterUser[]>([]);
+  const [approverId, setApproverId] = useState('');
+  const [pin, setPin] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const submit = useCallback(async (credentials: { approverId?: string; pin?: string; badge?: string }) => {
+    setIsLoading(true);
+    try {
+      await approve(credentials);
+      toast.success('Approved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Approval failed');
+    } finally {
+      setPin('');
+      setIsLoading(false);
+    }
+  }, [approve]);
+
+  // Badge scanners type like a keyboard, so a scan arrives as a barcode
+  useEffect(() => {
+    if (pending && lastBarcode) {
+      clearBarcode();
+      submit({ badge: lastBarcode });
+    }
+  }, [pending, lastBarcode, clearBarcode, submit]);
+
+  useEffect(() => {
+    if (!pending || !register) return;
+
+    api
+      .get<{ users: RegisterUser[] }>(endpoints.registerUsers(register.id))
+      .then((response) => {
+        const users = response.data.users.filter((u) => u.canApprove);
+        setApprovers(users);
+        setApproverId((current) => current || (users.length === 1 ? users[0].id : ''));
+      })
+      .catch(() => toast.error('Failed to load managers'));
+  }, [pending, register]);
+
+  if (!pending) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-sm flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <ShieldCheckIcon className="w-5 h-5 text-primary-600" />
+            Manager Approval
+          </h2>
+          <button onClick={cancel} className="btn-ghost p-2">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form
+          className="p-4 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (approverId && pin) submit({ approverId, pin });
+          }}
+        >
+          <p className="text-gray-700">{pending.description}</p>
+
+          <div>
+            <label className="block text-sm text-gray-600 mb-2">Manager</label>
+            <select
+              value={approverId}
+              onChange={(e) => setApproverId(e.target.value)}
+              className="input"
+            >
+              <option value="">Choose...</option>
+              {approvers.map((approver) => (
+                <option key={approver.id} value={approver.id}>
+                  {approver.firstName} {approver.lastName}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 mb-2">Manager PIN</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className="input text-center text-2xl tracking-widest"
+              maxLength={8}
+              autoFocus
+            />
+            <p className="text-sm text-gray-500 mt-2">Or scan a manager badge</p>
+          </div>
+
+          <div className="flex gap-2">
+            <button type="button" onClick={cancel} className="btn-secondary flex-1">
+              Cancel
+            </button>
+            <button type="submit" disabled={!approverId || !pin || isLoading} className="btn-primary flex-1">
+              {isLoading ? 'Checking...' : 'Approve'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
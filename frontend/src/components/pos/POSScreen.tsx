@@ -6,19 +6,31 @@ import {
   PauseIcon,
   ArrowPathIcon,
   ArrowRightOnRectangleIcon,
+  ArrowUturnLeftIcon,
+  InboxArrowDownIcon,
+  LockClosedIcon,
+  KeyIcon,
 } from '@heroicons/react/24/outline';
 import { useCartStore } from '../../stores/cartStore';
 import { useItemStore } from '../../stores/itemStore';
 import { useHardwareStore } from '../../stores/hardwareStore';
 import { useAuthStore } from '../../stores/authStore';
+import { useOverrideStore } from '../../stores/overrideStore';
+import { usePromotionStore } from '../../stores/promotionStore';
+import { api, endpoints, ApiError } from '../../services/api';
 import ProductGrid from './ProductGrid';
 import Cart from './Cart';
 import Checkout from './Checkout';
 import CustomerSearch from './CustomerSearch';
 import HeldCarts from './HeldCarts';
+import Returns from './Returns';
+import ManagerApproval from './ManagerApproval';
+import PinSetup from './PinSetup';
+import GiftCardSale from './GiftCardSale';
+import type { Item } from '../../types';
 import toast from 'react-hot-toast';
 
-type ViewMode = 'grid' | 'checkout' | 'held';
+type ViewMode = 'grid' | 'checkout' | 'held' | 'return';
 
 interface POSScreenProps {
   fullScreen?: boolean;
@@ -29,10 +41,14 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [searchQuery, setSearchQuery] = useState('');
   const [showCustomerSearch, setShowCustomerSearch] = useState(false);
-  const { cart, addItem, holdCart, loadHeldCarts, heldCarts } = useCartStore();
+  const [showPinSetup, setShowPinSetup] = useState(false);
+  const [giftCardItem, setGiftCardItem] = useState<Item | null>(null);
+  const { cart, addItem, holdCart, loadHeldCarts, heldCarts, calculateTotals, applyCoupon } = useCartStore();
   const { items, loadItems, loadCategories, searchItems, getItemByBarcode } = useItemStore();
-  const { lastBarcode, clearBarcode } = useHardwareStore();
-  const { user, tenant, location, logout } = useAuthStore();
+  const { lastBarcode, clearBarcode, openCashDrawer } = useHardwareStore();
+  const { user, tenant, location, register, logout, lock, can } = useAuthStore();
+  const { pending, loadPolicy, needsApproval, requestApproval } = useOverrideStore();
+  const { loadPromotions } = usePromotionStore();
 
   const handleLogout = async () => {
     try {
@@ -48,21 +64,38 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
     loadItems();
     loadCategories();
     loadHeldCarts();
-  }, [loadItems, loadCategories, loadHeldCarts]);
+    loadPolicy().catch(() => {
+      // Offline: keep the policy loaded last time
+    });
+    loadPromotions()
+      .then(calculateTotals)
+      .catch(() => {
+        // Offline: keep the promotions loaded last time
+      });
+  }, [loadItems, loadCategories, loadHeldCarts, loadPolicy, loadPromotions, calculateTotals]);
 
-  // Handle barcode scanning
+  // Handle barcode scanning (return mode scans receipts, and a manager
+  // approval takes badge scans)
   useEffect(() => {
-    if (lastBarcode) {
+    if (lastBarcode && viewMode !== 'return' && !pending && !giftCardItem) {
       const item = getItemByBarcode(lastBarcode);
-      if (item) {
+      if (item?.isGiftCard) {
+        setGiftCardItem(item);
+      } else if (item) {
         addItem(item);
         toast.success(`Added ${item.name}`);
       } else {
-        toast.error(`Item not found: ${lastBarcode}`);
+        // Printed coupons are scanned like items
+        const code = lastBarcode;
+        applyCoupon(code)
+          .then(() => toast.success(`Coupon ${code} applied`))
+          .catch((error) =>
+            toast.error(error instanceof ApiError && error.status === 404 ? `Item not found: ${code}` : error.message)
+          );
       }
       clearBarcode();
     }
-  }, [lastBarcode, getItemByBarcode, addItem, clearBarcode]);
+  }, [lastBarcode, viewMode, pending, giftCardItem, getItemByBarcode, addItem, applyCoupon, clearBarcode]);
 
   // Handle search
   useEffect(() => {
@@ -91,6 +124,43 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
     setViewMode('checkout');
   }, [cart.items.length]);
 
+  const handleReturn = useCallback(() => {
+    setViewMode('return');
+  }, []);
+
+  // Open the drawer without a sale, e.g. to give change
+  const handleNoSale = useCallback(async () => {
+    if (!register) return;
+
+    let approvalId: string | undefined;
+    if (needsApproval('no_sale')) {
+      const approval = await requestApproval({
+        action: 'no_sale',
+        description: 'Open the cash drawer without a sale',
+      });
+      if (!approval) return;
+      approvalId = approval.id;
+    }
+
+    try {
+      await api.post(endpoints.registerNoSale(register.id), { approvalId });
+      await openCashDrawer();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open cash drawer');
+    }
+  }, [register, needsApproval, requestApproval, openCashDrawer]);
+
+  // Lock the register when stepping away; the next person unlocks it with
+  // their own PIN
+  const handleLock = useCallback(() => {
+    if (!user?.hasPin) {
+      toast.error('Set a PIN first so you can unlock the register');
+      setShowPinSetup(true);
+      return;
+    }
+    lock();
+  }, [user, lock]);
+
   const handleBackToGrid = useCallback(() => {
     setViewMode('grid');
   }, []);
@@ -120,6 +190,13 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
               </div>
               <div className="text-xs text-primary-300 capitalize">{user?.role}</div>
             </div>
+            <button
+              onClick={() => setShowPinSetup(true)}
+              className="p-2 text-primary-300 hover:text-white hover:bg-primary-800 rounded-lg transition-colors"
+              title="Set PIN"
+            >
+              <KeyIcon className="w-5 h-5" />
+            </button>
             <button
               onClick={handleLogout}
               className="p-2 text-primary-300 hover:text-white hover:bg-primary-800 rounded-lg transition-colors"
@@ -138,6 +215,8 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
           <Checkout onBack={handleBackToGrid} />
         ) : viewMode === 'held' ? (
           <HeldCarts onBack={handleBackToGrid} />
+        ) : viewMode === 'return' ? (
+          <Returns onBack={handleBackToGrid} />
         ) : (
           <>
             {/* Search bar */}
@@ -161,7 +240,7 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
             </div>
 
             {/* Product grid */}
-            <ProductGrid />
+            <ProductGrid onGiftCard={setGiftCardItem} />
           </>
         )}
       </div>
@@ -173,6 +252,33 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
           <div className="flex items-center justify-between">
             <h2 className="font-semibold text-lg">Current Sale</h2>
             <div className="flex items-center gap-2">
+              {can('transaction.return') && (
+                <button
+                  onClick={handleReturn}
+                  className="btn-ghost p-2"
+                  title="Return"
+                >
+                  <ArrowUturnLeftIcon className="w-5 h-5" />
+                </button>
+              )}
+              {can('pos.no_sale') && (
+                <button
+                  onClick={handleNoSale}
+                  disabled={!register}
+                  className="btn-ghost p-2"
+                  title="No Sale"
+                >
+                  <InboxArrowDownIcon className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={handleLock}
+                disabled={!register}
+                className="btn-ghost p-2"
+                title="Lock Register"
+              >
+                <LockClosedIcon className="w-5 h-5" />
+              </button>
               <button
                 onClick={handleHoldCart}
                 disabled={cart.items.length === 0}
@@ -228,7 +334,7 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
             disabled={cart.items.length === 0}
             className="btn-success w-full py-4 text-lg"
           >
-            Checkout ${cart.total.toFixed(2)}
+            {cart.total < 0 ? 'Refund' : 'Checkout'} ${Math.abs(cart.total).toFixed(2)}
           </button>
         </div>
       </div>
@@ -238,6 +344,16 @@ export default function POSScreen({ fullScreen = false }: POSScreenProps) {
       {showCustomerSearch && (
         <CustomerSearch onClose={() => setShowCustomerSearch(false)} />
       )}
+
+      {/* Gift card sale modal */}
+      {giftCardItem && (
+        <GiftCardSale item={giftCardItem} onClose={() => setGiftCardItem(null)} />
+      )}
+
+      {/* PIN setup modal */}
+      {showPinSetup && <PinSetup onClose={() => setShowPinSetup(false)} />}
+
+      <ManagerApproval />
     </div>
   );
 }
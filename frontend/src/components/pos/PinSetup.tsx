@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { XMarkIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import toast from 'react-hot-toast';
+
+interface PinSetupProps {
+  onClose: () => void;
+}
+
+// Lets a cashier set the PIN they unlock and switch into the register with
+export default function PinSetup({ onClose }: PinSetupProps) {
+  const { setPin } = useAuthStore();
+  const [password, setPassword] = useState('');
+  const [pin, setNewPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await setPin(password, pin);
+      toast.success('PIN updated');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save PIN');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-sm flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <KeyIcon className="w-5 h-5 text-primary-600" />
+            Register PIN
+          </h2>
+          <button onClick={onClose} className="btn-ghost p-2">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form
+          className="p-4 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Current password</label>
+            <input
+              type="password"
+              className="input"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">New PIN (4-8 digits)</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              className="input"
+              value={pin}
+              onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+              maxLength={8}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !password || pin.length < 4}
+              className="btn-primary flex-1"
+            >
+              {isSaving ? 'Saving...' : 'Set PIN'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
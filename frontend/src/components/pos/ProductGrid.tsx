@@ -5,7 +5,12 @@ import { CubeIcon } from '@heroicons/react/24/outline';
 import type { Item } from '../../types';
 import toast from 'react-hot-toast';
 
-export default function ProductGrid() {
+interface ProductGridProps {
+  // Gift card items ask for the card and amount before they're added
+  onGiftCard: (item: Item) => void;
+}
+
+export default function ProductGrid({ onGiftCard }: ProductGridProps) {
   const { categories, selectedCategory, setCategory, getFilteredItems, isLoading } =
     useItemStore();
   const { addItem } = useCartStore();
@@ -14,7 +19,9 @@ export default function ProductGrid() {
   const items = getFilteredItems();
 
   const handleItemClick = (item: Item) => {
-    if (item.requiresWeight) {
+    if (item.isGiftCard) {
+      onGiftCard(item);
+    } else if (item.requiresWeight) {
       setSelectedItem(item);
     } else {
       addItem(item);
@@ -0,0 +1,531 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  ArrowLeftIcon,
+  ArrowUturnLeftIcon,
+  CheckCircleIcon,
+  MagnifyingGlassIcon,
+  PrinterIcon,
+} from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import { useCartStore, returnedLineTerms } from '../../stores/cartStore';
+import { useHardwareStore } from '../../stores/hardwareStore';
+import { useOverrideStore } from '../../stores/overrideStore';
+import { receiptService } from '../../services/receiptService';
+import { api, endpoints } from '../../services/api';
+import { db } from '../../services/offlineDb';
+import { warnFailedRefunds } from '../../services/refunds';
+import { computeLineTaxes, summarizeTaxes } from 'shared/taxes';
+import type {
+  Customer,
+  PaymentMethod,
+  Refund,
+  ReturnDisposition,
+  ReturnedLine,
+  Transaction,
+  TransactionItem,
+} from '../../types';
+import toast from 'react-hot-toast';
+import { v4 as uuid } from 'uuid';
+
+interface ReturnsProps {
+  onBack: () => void;
+}
+
+interface ReturnableItem extends TransactionItem {
+  returnedQuantity: number;
+}
+
+interface OriginalSale {
+  id: string;
+  receiptNumber: string;
+  customerId?: string;
+  customer?: Customer;
+  total: number;
+  createdAt: string;
+  items: ReturnableItem[];
+  payments: { id: string; method: PaymentMethod; amount: number; cardLast4?: string }[];
+}
+
+interface LineSelection {
+  quantity: number;
+  disposition: ReturnDisposition;
+}
+
+type RefundTo = 'original' | 'store_credit';
+
+const dispositions: { value: ReturnDisposition; label: string }[] = [
+  { value: 'restock', label: 'Restock' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'discard', label: 'Discard' },
+];
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toReturnedLine = (sold: ReturnableItem, disposition: ReturnDisposition): ReturnedLine => ({
+  originalItemId: sold.id,
+  soldQuantity: sold.quantity,
+  returnableQuantity: sold.quantity - sold.returnedQuantity,
+  soldDiscount: sold.discountAmount,
+  soldTax: sold.taxAmount,
+  soldTaxes: sold.taxes ?? undefined,
+  soldTaxIncluded: sold.taxIncluded,
+  disposition,
+});
+
+// Figures for returning `quantity` of a sold line, all negative. Tax is
+// worked out over all the returned lines together, see below.
+const returnLine = (sold: ReturnableItem, quantity: number) => {
+  const base = roundMoney(-quantity * sold.unitPrice);
+  const { discountAmount, taxes, taxIncluded } = returnedLineTerms(
+    toReturnedLine(sold, 'restock'),
+    sold.unitPrice,
+    -quantity
+  );
+
+  return { base, discountAmount, net: base - discountAmount, taxComponents: taxes, taxIncluded };
+};
+
+export default function Returns({ onBack }: ReturnsProps) {
+  const [receiptQuery, setReceiptQuery] = useState('');
+  const [sale, setSale] = useState<OriginalSale | null>(null);
+  const [selections, setSelections] = useState<Record<string, LineSelection>>({});
+  const [refundTo, setRefundTo] = useState<RefundTo>('original');
+  const [isLoading, setIsLoading] = useState(false);
+  const [completed, setCompleted] = useState<Transaction | null>(null);
+  const { user, tenant, location, register } = useAuthStore();
+  const { addReturnItem } = useCartStore();
+  const { lastBarcode, clearBarcode, status, printReceipt, openCashDrawer } = useHardwareStore();
+  const { needsApproval, requestApproval } = useOverrideStore();
+
+  const lookupReceipt = useCallback(async (receiptNumber: string) => {
+    if (!receiptNumber.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const response = await api.get<{ transaction: OriginalSale }>(
+        endpoints.transactionByReceipt(receiptNumber.trim())
+      );
+      setSale(response.data.transaction);
+      setSelections({});
+      setRefundTo('original');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Receipt not found');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Scanning the barcode printed on a receipt looks the sale up
+  useEffect(() => {
+    if (lastBarcode && !sale && !completed) {
+      setReceiptQuery(lastBarcode);
+      lookupReceipt(lastBarcode);
+      clearBarcode();
+    }
+  }, [lastBarcode, sale, completed, lookupReceipt, clearBarcode]);
+
+  const taxRounding = tenant?.settings?.taxRounding ?? 'line';
+
+  // Rounded the way the server rounds the return, per line or over the invoice
+  const lines = useMemo(() => {
+    if (!sale) return [];
+    const returned = sale.items
+      .filter((item) => (selections[item.id]?.quantity || 0) > 0)
+      .map((item) => ({
+        item,
+        ...selections[item.id],
+        ...returnLine(item, selections[item.id].quantity),
+      }));
+    const lineTaxes = computeLineTaxes(
+      returned.map((l) => l.net),
+      returned.map((l) => l.taxComponents),
+      returned.map((l) => l.taxIncluded),
+      taxRounding
+    );
+
+    return returned.map((l, i) => {
+      const taxAmount = roundMoney(lineTaxes[i].reduce((sum, tax) => sum + tax.amount, 0));
+      const lineTotal = roundMoney(l.taxIncluded ? l.net : l.net + taxAmount);
+      return { ...l, taxes: lineTaxes[i], taxAmount, lineTotal };
+    });
+  }, [sale, selections, taxRounding]);
+
+  const totals = useMemo(() => {
+    const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.base, 0));
+    const discountTotal = roundMoney(lines.reduce((sum, l) => sum + l.discountAmount, 0));
+    const taxTotal = roundMoney(lines.reduce((sum, l) => sum + l.taxAmount, 0));
+    // Tax included in the sold prices is already in the subtotal
+    const addedTax = roundMoney(lines.reduce((sum, l) => sum + (l.taxIncluded ? 0 : l.taxAmount), 0));
+    return {
+      subtotal,
+      discountTotal,
+      taxTotal,
+      taxes: summarizeTaxes(lines.map((l) => l.taxes)),
+      total: roundMoney(subtotal - discountTotal + addedTax),
+    };
+  }, [lines]);
+
+  const setQuantity = (item: ReturnableItem, quantity: number) => {
+    const available = item.quantity - item.returnedQuantity;
+    setSelections((current) => ({
+      ...current,
+      [item.id]: {
+        disposition: current[item.id]?.disposition || 'restock',
+        quantity: Math.min(Math.max(quantity, 0), available),
+      },
+    }));
+  };
+
+  const setDisposition = (item: ReturnableItem, disposition: ReturnDisposition) => {
+    setSelections((current) => ({
+      ...current,
+      [item.id]: { quantity: current[item.id]?.quantity || 0, disposition },
+    }));
+  };
+
+  // Refund to the tenders the sale was paid with, in the order they were used
+  const refundPayments = () => {
+    if (!sale) return [];
+
+    if (refundTo === 'store_credit') {
+      return [{ method: 'store_credit' as PaymentMethod, amount: totals.total }];
+    }
+
+    let remaining = -totals.total;
+    return sale.payments
+      .filter((p) => p.amount > 0)
+      .map((p) => {
+        const amount = roundMoney(Math.min(p.amount, remaining));
+        remaining = roundMoney(remaining - amount);
+        return { method: p.method, amount: -amount, cardLast4: p.cardLast4 };
+      })
+      .filter((p) => p.amount !== 0);
+  };
+
+  const handleCompleteReturn = async () => {
+    if (!sale || lines.length === 0) return;
+
+    // Refunds above the policy threshold need a manager
+    const refunded = -totals.total;
+    let approvalIds: string[] = [];
+    if (needsApproval('return', refunded)) {
+      const approval = await requestApproval({
+        action: 'return',
+        description: `Refund $${refunded.toFixed(2)} on receipt #${sale.receiptNumber}`,
+        value: refunded,
+        details: { receiptNumber: sale.receiptNumber, refunded },
+      });
+      if (!approval) return;
+      approvalIds = [approval.id];
+    }
+
+    setIsLoading(true);
+
+    const transaction: Transaction = {
+      id: uuid(),
+      type: 'return',
+      status: 'completed',
+      registerId: register?.id || '',
+      locationId: location?.id || '',
+      userId: user?.id || '',
+      customerId: sale.customerId,
+      customer: sale.customer,
+      originalTransactionId: sale.id,
+      items: lines.map((line) => ({
+        id: uuid(),
+        itemId: line.item.itemId,
+        itemName: line.item.itemName,
+        sku: line.item.sku,
+        quantity: -line.quantity,
+        unitPrice: line.item.unitPrice,
+        discountAmount: line.discountAmount,
+        taxAmount: line.taxAmount,
+        taxes: line.taxes,
+        taxIncluded: line.taxIncluded,
+        lineTotal: line.lineTotal,
+        originalItemId: line.item.id,
+        disposition: line.disposition,
+      })),
+      payments: refundPayments().map((p) => ({
+        ...p,
+        id: uuid(),
+        processedAt: new Date(),
+        status: 'completed' as const,
+      })),
+      ...totals,
+      // Numbered by the server once the return is accepted
+      receiptNumber: '',
+      approvalIds,
+      createdAt: new Date(),
+    };
+
+    try {
+      // Returns need the original sale's current state, so they are never queued offline
+      const response = await api.post<{ transaction: { receiptNumber: string }; refunds: Refund[] }>(
+        endpoints.transactions,
+        transaction,
+        { 'Idempotency-Key': transaction.id }
+      );
+      transaction.receiptNumber = response.data.transaction.receiptNumber;
+      transaction.status = 'synced';
+      transaction.syncedAt = new Date();
+      await db.transactions.put(transaction);
+
+      if (transaction.payments.some((p) => p.method === 'cash') && status.cashDrawer === 'connected') {
+        await openCashDrawer().catch(() => console.error('Failed to open cash drawer'));
+      }
+
+      setCompleted(transaction);
+      warnFailedRefunds(response.data.refunds);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to complete return');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Move the selected lines into the cart, where the new items are rung up
+  // and the exchange is checked out as one transaction
+  const handleExchange = async () => {
+    if (!sale || lines.length === 0) return;
+
+    try {
+      for (const line of lines) {
+        const item = await db.items.get(line.item.itemId);
+        if (!item) {
+          throw new Error(`${line.item.itemName} is no longer in the catalog`);
+        }
+        addReturnItem(
+          { id: sale.id, receiptNumber: sale.receiptNumber, customer: sale.customer },
+          item,
+          line.item.unitPrice,
+          toReturnedLine(line.item, line.disposition),
+          line.quantity
+        );
+      }
+      toast.success('Add the new items to complete the exchange');
+      onBack();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start exchange');
+    }
+  };
+
+  const handlePrintReceipt = async () => {
+    if (!completed || !location || !register) return;
+
+    try {
+      const receiptContent = receiptService.generateReceipt(completed, location, register);
+
+      if (status.printer === 'connected') {
+        await printReceipt(receiptContent);
+        toast.success('Receipt printed');
+      } else {
+        const printWindow = window.open('', '_blank');
+        if (printWindow) {
+          printWindow.document.write(`
+            <pre style="font-family: monospace; font-size: 12px;">${receiptContent}</pre>
+          `);
+          printWindow.document.close();
+          printWindow.print();
+        }
+      }
+    } catch (error) {
+      toast.error('Failed to print receipt');
+    }
+  };
+
+  if (completed) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center p-8">
+        <CheckCircleIcon className="w-24 h-24 text-green-500 mb-6" />
+        <h2 className="text-2xl font-bold mb-2">Return Complete</h2>
+        <p className="text-gray-600 mb-6">Receipt #{completed.receiptNumber}</p>
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6 mb-6 text-center">
+          <p className="text-yellow-800 text-sm mb-1">
+            {refundTo === 'store_credit' ? 'Store Credit Issued' : 'Refund Due'}
+          </p>
+          <p className="text-4xl font-bold text-yellow-900">${(-completed.total).toFixed(2)}</p>
+        </div>
+
+        <div className="flex gap-4">
+          <button onClick={handlePrintReceipt} className="btn-secondary flex items-center gap-2">
+            <PrinterIcon className="w-5 h-5" />
+            Print Receipt
+          </button>
+          <button onClick={onBack} className="btn-primary">
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <div className="p-4 bg-white border-b border-gray-200 flex items-center gap-4">
+        <button onClick={onBack} className="btn-ghost p-2">
+          <ArrowLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg font-semibold">Return</h2>
+      </div>
+
+      {/* Receipt lookup */}
+      <div className="p-4 bg-white border-b border-gray-200">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookupReceipt(receiptQuery);
+          }}
+          className="flex gap-4"
+        >
+          <div className="flex-1 relative">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Scan or enter receipt number..."
+              value={receiptQuery}
+              onChange={(e) => setReceiptQuery(e.target.value)}
+              className="input pl-10"
+              autoFocus
+            />
+          </div>
+          <button type="submit" disabled={isLoading} className="btn-secondary">
+            Find Sale
+          </button>
+        </form>
+      </div>
+
+      {!sale ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
+          <ArrowUturnLeftIcon className="w-16 h-16 mb-4" />
+          <p className="text-lg font-medium">Find the original sale</p>
+          <p className="text-sm">Scan the barcode on the customer's receipt</p>
+        </div>
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          {/* Sold lines */}
+          <div className="flex-1 overflow-auto p-4">
+            <div className="mb-4">
+              <p className="font-medium">Receipt #{sale.receiptNumber}</p>
+              <p className="text-sm text-gray-600">
+                {new Date(sale.createdAt).toLocaleString()}
+                {sale.customer && ` · ${sale.customer.firstName} ${sale.customer.lastName}`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              {sale.items.map((item) => {
+                const available = item.quantity - item.returnedQuantity;
+                const selection = selections[item.id];
+
+                return (
+                  <div key={item.id} className="card p-3 flex items-center gap-4">
+                    <div className="flex-1">
+                      <p className="font-medium">{item.itemName}</p>
+                      <p className="text-sm text-gray-500">
+                        {item.sku} · ${item.unitPrice.toFixed(2)} · sold {item.quantity}
+                        {item.returnedQuantity > 0 && `, returned ${item.returnedQuantity}`}
+                      </p>
+                    </div>
+                    {available > 0 ? (
+                      <>
+                        <input
+                          type="number"
+                          min={0}
+                          max={available}
+                          value={selection?.quantity || 0}
+                          onChange={(e) => setQuantity(item, Number(e.target.value))}
+                          className="input w-20"
+                        />
+                        <select
+                          value={selection?.disposition || 'restock'}
+                          onChange={(e) => setDisposition(item, e.target.value as ReturnDisposition)}
+                          className="input w-32"
+                        >
+                          {dispositions.map(({ value, label }) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500">Fully returned</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Refund summary */}
+          <div className="w-80 p-4 border-l border-gray-200 bg-white flex flex-col">
+            <h3 className="font-medium mb-4">Refund To</h3>
+            <div className="space-y-2 mb-6">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={refundTo === 'original'}
+                  onChange={() => setRefundTo('original')}
+                />
+                Original payment
+                <span className="text-sm text-gray-500 capitalize">
+                  ({sale.payments.map((p) => p.method.replace('_', ' ')).join(', ')})
+                </span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={refundTo === 'store_credit'}
+                  onChange={() => setRefundTo('store_credit')}
+                  disabled={!sale.customer}
+                />
+                Store credit
+                {!sale.customer && <span className="text-sm text-gray-500">(no customer)</span>}
+              </label>
+            </div>
+
+            <div className="space-y-1 text-sm mt-auto">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>${(-totals.subtotal).toFixed(2)}</span>
+              </div>
+              {totals.discountTotal !== 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Discounts</span>
+                  <span>-${(-totals.discountTotal).toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span>Tax</span>
+                <span>${(-totals.taxTotal).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-lg pt-2 border-t border-gray-200">
+                <span>Refund</span>
+                <span>${(-totals.total).toFixed(2)}</span>
+              </div>
+            </div>
+
+            <button
+              onClick={handleCompleteReturn}
+              disabled={lines.length === 0 || isLoading}
+              className="btn-success w-full py-4 text-lg mt-4"
+            >
+              Complete Return
+            </button>
+            <button
+              onClick={handleExchange}
+              disabled={lines.length === 0 || isLoading}
+              className="btn-secondary w-full mt-2"
+            >
+              Exchange for Other Items
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,528 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../stores/authStore';
+import { useItemStore } from '../../stores/itemStore';
+import { usePromotionStore } from '../../stores/promotionStore';
+import { api, endpoints } from '../../services/api';
+import type { Promotion, PromotionRules, PromotionType, TaxLocation } from '../../types';
+import toast from 'react-hot-toast';
+
+const PROMOTION_TYPES: { type: PromotionType; label: string }[] = [
+  { type: 'sale', label: 'Sale (percent or amount off)' },
+  { type: 'buy_x_get_y', label: 'Buy X get Y' },
+  { type: 'mix_and_match', label: 'Mix and match (any N for a price)' },
+  { type: 'quantity_break', label: 'Quantity break' },
+  { type: 'bundle', label: 'Bundle' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyPromotion: Promotion = {
+  id: '',
+  name: '',
+  type: 'sale',
+  rules: { percentOff: 10 },
+  itemIds: [],
+  categoryIds: [],
+  locationIds: [],
+  customerGroups: [],
+  startsAt: null,
+  endsAt: null,
+  daysOfWeek: [],
+  startTime: null,
+  endTime: null,
+  isActive: true,
+};
+
+// Starting settings when the type is changed
+const defaultRules: Record<PromotionType, PromotionRules> = {
+  sale: { percentOff: 10 },
+  buy_x_get_y: { buyQuantity: 1, getQuantity: 1, percentOff: 100 },
+  mix_and_match: { quantity: 2, price: 0 },
+  quantity_break: { breaks: [{ quantity: 2, percentOff: 10 }] },
+  bundle: { components: [], price: 0 },
+};
+
+const toLocalInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+const selectedValues = (select: HTMLSelectElement) => Array.from(select.selectedOptions, (option) => option.value);
+
+// Promotions the registers apply by themselves: what they cover, where and
+// for whom they run, and when (dates, weekdays and happy hours)
+export default function PromotionSettings() {
+  const { can } = useAuthStore();
+  const { items, categories, loadItems, loadCategories } = useItemStore();
+  const { setPromotions } = usePromotionStore();
+  const [promotions, setList] = useState<Promotion[]>([]);
+  const [locations, setLocations] = useState<TaxLocation[]>([]);
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('promotions.manage');
+
+  const load = useCallback(async () => {
+    const response = await api.get<{ promotions: Promotion[] }>(endpoints.promotions);
+    setList(response.data.promotions);
+    setPromotions(response.data.promotions);
+  }, [setPromotions]);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    loadItems();
+    loadCategories();
+    Promise.all([load(), api.get<{ locations: TaxLocation[] }>(endpoints.taxes)])
+      .then(([, taxes]) => setLocations(taxes.data.locations))
+      .catch(() => toast.error('Failed to load promotions'));
+  }, [canEdit, load, loadItems, loadCategories]);
+
+  if (!canEdit) {
+    return null;
+  }
+
+  const update = (changes: Partial<Promotion>) => {
+    if (editing) setEditing({ ...editing, ...changes });
+  };
+
+  const updateRules = (changes: Partial<PromotionRules>) => {
+    if (editing) setEditing({ ...editing, rules: { ...editing.rules, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      const promotion = {
+        ...editing,
+        customerGroups: editing.customerGroups.map((group) => group.trim()).filter(Boolean),
+      };
+      if (editing.id) {
+        await api.put(endpoints.promotionById(editing.id), promotion);
+      } else {
+        await api.post(endpoints.promotions, promotion);
+      }
+      await load();
+      setEditing(null);
+      toast.success('Promotion saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save promotion');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Delete ${promotion.name}?`)) return;
+    try {
+      await api.delete(endpoints.promotionById(promotion.id));
+      await load();
+      toast.success('Promotion deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete promotion');
+    }
+  };
+
+  const rules = editing?.rules ?? {};
+  const sortedItems = [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Promotions</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Registers apply the promotions worth the most to the customer on every change to the
+        cart, to lines without a manual discount or price. Each unit gets at most one promotion.
+        Promotions with no items or categories cover every item. Sales already made keep the
+        discounts they were given.
+      </p>
+
+      {!editing && (
+        <>
+          <div className="divide-y divide-gray-100">
+            {promotions.map((promotion) => (
+              <div key={promotion.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium">
+                    {promotion.name}
+                    {!promotion.isActive && <span className="ml-2 text-sm text-gray-400">(inactive)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {PROMOTION_TYPES.find((t) => t.type === promotion.type)?.label}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => setEditing(promotion)} className="btn-secondary">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(promotion)} className="btn-ghost p-2 text-red-600">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button onClick={() => setEditing({ ...emptyPromotion })} className="btn-primary mt-4">
+            New Promotion
+          </button>
+        </>
+      )}
+
+      {editing && (
+        <div className="space-y-4">
+          <div className="flex gap-4">
+            <input
+              type="text"
+              className="input flex-1"
+              placeholder="Name shown on receipts"
+              value={editing.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <select
+              className="input w-72"
+              value={editing.type}
+              onChange={(e) => {
+                const type = e.target.value as PromotionType;
+                update({ type, rules: defaultRules[type] });
+              }}
+            >
+              {PROMOTION_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={editing.isActive}
+                onChange={(e) => update({ isActive: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+
+          {editing.type === 'sale' && (
+            <div className="flex items-center gap-2 text-sm">
+              <select
+                className="input w-40"
+                value={rules.amountOff !== undefined ? 'amount' : 'percent'}
+                onChange={(e) =>
+                  update({ rules: e.target.value === 'amount' ? { amountOff: 1 } : { percentOff: 10 } })
+                }
+              >
+                <option value="percent">Percent off</option>
+                <option value="amount">Amount off each</option>
+              </select>
+              <input
+                type="number"
+                className="input w-28"
+                min="0"
+                step="0.01"
+                value={rules.amountOff ?? rules.percentOff ?? 0}
+                onChange={(e) =>
+                  update({
+                    rules: rules.amountOff !== undefined
+                      ? { amountOff: Number(e.target.value) }
+                      : { percentOff: Number(e.target.value) },
+                  })
+                }
+              />
+            </div>
+          )}
+
+          {editing.type === 'buy_x_get_y' && (
+            <div className="flex items-center gap-2 text-sm">
+              Buy
+              <input
+                type="number"
+                className="input w-20"
+                min="1"
+                value={rules.buyQuantity ?? 1}
+                onChange={(e) => updateRules({ buyQuantity: Number(e.target.value) })}
+              />
+              get
+              <input
+                type="number"
+                className="input w-20"
+                min="1"
+                value={rules.getQuantity ?? 1}
+                onChange={(e) => updateRules({ getQuantity: Number(e.target.value) })}
+              />
+              at
+              <input
+                type="number"
+                className="input w-20"
+                min="1"
+                max="100"
+                value={rules.percentOff ?? 100}
+                onChange={(e) => updateRules({ percentOff: Number(e.target.value) })}
+              />
+              % off
+            </div>
+          )}
+
+          {editing.type === 'mix_and_match' && (
+            <div className="flex items-center gap-2 text-sm">
+              Any
+              <input
+                type="number"
+                className="input w-20"
+                min="2"
+                value={rules.quantity ?? 2}
+                onChange={(e) => updateRules({ quantity: Number(e.target.value) })}
+              />
+              for $
+              <input
+                type="number"
+                className="input w-28"
+                min="0"
+                step="0.01"
+                value={rules.price ?? 0}
+                onChange={(e) => updateRules({ price: Number(e.target.value) })}
+              />
+            </div>
+          )}
+
+          {editing.type === 'quantity_break' && (
+            <div className="space-y-2 text-sm">
+              {(rules.breaks ?? []).map((b, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  Buy
+                  <input
+                    type="number"
+                    className="input w-20"
+                    min="1"
+                    value={b.quantity}
+                    onChange={(e) =>
+                      updateRules({
+                        breaks: rules.breaks?.map((x, i) => (i === index ? { ...x, quantity: Number(e.target.value) } : x)),
+                      })
+                    }
+                  />
+                  or more for
+                  <input
+                    type="number"
+                    className="input w-20"
+                    min="1"
+                    max="100"
+                    value={b.percentOff}
+                    onChange={(e) =>
+                      updateRules({
+                        breaks: rules.breaks?.map((x, i) => (i === index ? { ...x, percentOff: Number(e.target.value) } : x)),
+                      })
+                    }
+                  />
+                  % off each
+                  <button
+                    onClick={() => updateRules({ breaks: rules.breaks?.filter((_, i) => i !== index) })}
+                    className="btn-ghost p-2 text-red-600"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateRules({ breaks: [...(rules.breaks ?? []), { quantity: 2, percentOff: 10 }] })}
+                className="btn-secondary"
+              >
+                Add Break
+              </button>
+            </div>
+          )}
+
+          {editing.type === 'bundle' && (
+            <div className="space-y-2 text-sm">
+              {(rules.components ?? []).map((component, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    className="input w-20"
+                    min="1"
+                    value={component.quantity}
+                    onChange={(e) =>
+                      updateRules({
+                        components: rules.components?.map((c, i) =>
+                          i === index ? { ...c, quantity: Number(e.target.value) } : c
+                        ),
+                      })
+                    }
+                  />
+                  x
+                  <select
+                    className="input flex-1"
+                    value={component.itemId}
+                    onChange={(e) =>
+                      updateRules({
+                        components: rules.components?.map((c, i) => (i === index ? { ...c, itemId: e.target.value } : c)),
+                      })
+                    }
+                  >
+                    <option value="">Choose an item</option>
+                    {sortedItems.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name} ({item.sku})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => updateRules({ components: rules.components?.filter((_, i) => i !== index) })}
+                    className="btn-ghost p-2 text-red-600"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => updateRules({ components: [...(rules.components ?? []), { itemId: '', quantity: 1 }] })}
+                  className="btn-secondary"
+                >
+                  Add Item
+                </button>
+                for $
+                <input
+                  type="number"
+                  className="input w-28"
+                  min="0"
+                  step="0.01"
+                  value={rules.price ?? 0}
+                  onChange={(e) => updateRules({ price: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+
+          {editing.type !== 'bundle' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Items</h3>
+                <select
+                  multiple
+                  className="input h-40"
+                  value={editing.itemIds}
+                  onChange={(e) => update({ itemIds: selectedValues(e.target) })}
+                >
+                  {sortedItems.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name} ({item.sku})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Categories</h3>
+                <select
+                  multiple
+                  className="input h-40"
+                  value={editing.categoryIds}
+                  onChange={(e) => update({ categoryIds: selectedValues(e.target) })}
+                >
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Locations (none for all)</h3>
+            <div className="flex flex-wrap gap-4">
+              {locations.map((loc) => (
+                <label key={loc.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={editing.locationIds.includes(loc.id)}
+                    onChange={(e) =>
+                      update({
+                        locationIds: e.target.checked
+                          ? [...editing.locationIds, loc.id]
+                          : editing.locationIds.filter((id) => id !== loc.id),
+                      })
+                    }
+                  />
+                  {loc.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Customer groups (none for everyone)</h3>
+            <input
+              type="text"
+              className="input w-96"
+              placeholder="e.g. staff, vip"
+              value={editing.customerGroups.join(',')}
+              onChange={(e) => update({ customerGroups: e.target.value ? e.target.value.split(',') : [] })}
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Schedule</h3>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              From
+              <input
+                type="datetime-local"
+                className="input w-56"
+                value={toLocalInput(editing.startsAt)}
+                onChange={(e) => update({ startsAt: fromLocalInput(e.target.value) })}
+              />
+              until
+              <input
+                type="datetime-local"
+                className="input w-56"
+                value={toLocalInput(editing.endsAt)}
+                onChange={(e) => update({ endsAt: fromLocalInput(e.target.value) })}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mt-2 text-sm">
+              {WEEKDAYS.map((day, index) => (
+                <label key={day} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={editing.daysOfWeek.includes(index)}
+                    onChange={(e) =>
+                      update({
+                        daysOfWeek: e.target.checked
+                          ? [...editing.daysOfWeek, index].sort((a, b) => a - b)
+                          : editing.daysOfWeek.filter((d) => d !== index),
+                      })
+                    }
+                  />
+                  {day}
+                </label>
+              ))}
+              <span>between</span>
+              <input
+                type="time"
+                className="input w-32"
+                value={editing.startTime ?? ''}
+                onChange={(e) => update({ startTime: e.target.value || null })}
+              />
+              and
+              <input
+                type="time"
+                className="input w-32"
+                value={editing.endTime ?? ''}
+                onChange={(e) => update({ endTime: e.target.value || null })}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Days and times are in the store&apos;s time zone. Leave them empty to run all day, every day.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={isSaving} className="btn-primary">
+              {isSaving ? 'Saving...' : 'Save Promotion'}
+            </button>
+            <button onClick={() => setEditing(null)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import { api, endpoints } from '../../services/api';
+import type { TaxLocation, TaxRounding, TaxRule, TenantSettings } from '../../types';
+import toast from 'react-hot-toast';
+
+const emptyTaxRule: TaxRule = {
+  jurisdiction: '',
+  name: '',
+  taxCategory: null,
+  rate: 0,
+  compound: false,
+  priority: 0,
+};
+
+// Tax rules per jurisdiction (state, county, city...) and the jurisdiction each
+// location charges. Rates are entered as percentages and stored as fractions.
+export default function TaxSettings() {
+  const { can, setTenantSettings, setTaxes } = useAuthStore();
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [locations, setLocations] = useState<TaxLocation[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [rounding, setRounding] = useState<TaxRounding>('line');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('settings.manage');
+
+  useEffect(() => {
+    if (!canEdit) return;
+    Promise.all([
+      api.get<{ rules: TaxRule[]; locations: TaxLocation[]; categories: string[] }>(endpoints.taxes),
+      api.get<{ settings: TenantSettings }>(endpoints.tenantSettings),
+    ])
+      .then(([taxes, tenantSettings]) => {
+        setRules(taxes.data.rules);
+        setLocations(taxes.data.locations);
+        setCategories(taxes.data.categories);
+        setRounding(tenantSettings.data.settings.taxRounding);
+        setIsLoaded(true);
+      })
+      .catch(() => toast.error('Failed to load tax settings'));
+  }, [canEdit]);
+
+  if (!canEdit || !isLoaded) {
+    return null;
+  }
+
+  const updateRule = (index: number, changes: Partial<TaxRule>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const taxLocations = locations.map(({ id, taxJurisdiction, pricesIncludeTax }) => ({
+        id,
+        taxJurisdiction,
+        pricesIncludeTax,
+      }));
+      await api.put(endpoints.taxes, { rules, locations: taxLocations });
+      const response = await api.put<{ settings: TenantSettings }>(endpoints.tenantSettings, {
+        settings: { taxRounding: rounding },
+      });
+
+      // The server stores jurisdictions in upper case
+      const saved = await api.get<{ rules: TaxRule[]; locations: TaxLocation[] }>(endpoints.taxes);
+      setRules(saved.data.rules);
+      setLocations(saved.data.locations);
+      setTenantSettings(response.data.settings);
+      setTaxes(saved.data.rules, saved.data.locations);
+      toast.success('Tax settings saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save tax settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-2">Taxes</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Add a rule for each tax charged in a jurisdiction. A rule for a tax category replaces
+        the rule of the same name for items in that category. Locations without a jurisdiction
+        charge the item or store tax rate. At locations whose prices include tax (VAT) the tax
+        is backed out of the price instead of added. Sales already made keep the tax they were
+        charged.
+      </p>
+
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Rounding</h3>
+          <select
+            className="input w-64"
+            value={rounding}
+            onChange={(e) => setRounding(e.target.value as TaxRounding)}
+          >
+            <option value="line">Round tax on each line</option>
+            <option value="invoice">Round each tax on the invoice total</option>
+          </select>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Locations</h3>
+          <div className="space-y-2">
+            {locations.map((loc) => (
+              <div key={loc.id} className="flex items-center gap-4">
+                <span className="w-48 text-sm">{loc.name}</span>
+                <input
+                  type="text"
+                  className="input w-64"
+                  placeholder="e.g. US-TX-AUSTIN"
+                  value={loc.taxJurisdiction ?? ''}
+                  onChange={(e) =>
+                    setLocations(
+                      locations.map((l) =>
+                        l.id === loc.id ? { ...l, taxJurisdiction: e.target.value || null } : l
+                      )
+                    )
+                  }
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={loc.pricesIncludeTax}
+                    onChange={(e) =>
+                      setLocations(
+                        locations.map((l) =>
+                          l.id === loc.id ? { ...l, pricesIncludeTax: e.target.checked } : l
+                        )
+                      )
+                    }
+                  />
+                  Prices include tax
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Rules</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Jurisdiction</th>
+                <th className="pb-2 font-medium">Tax</th>
+                <th className="pb-2 font-medium">Category</th>
+                <th className="pb-2 font-medium">Rate (%)</th>
+                <th className="pb-2 font-medium">Order</th>
+                <th className="pb-2 font-medium">Compound</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      className="input"
+                      value={rule.jurisdiction}
+                      onChange={(e) => updateRule(index, { jurisdiction: e.target.value })}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      className="input"
+                      placeholder="e.g. State Tax"
+                      value={rule.name}
+                      onChange={(e) => updateRule(index, { name: e.target.value })}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <select
+                      className="input"
+                      value={rule.taxCategory ?? ''}
+                      onChange={(e) => updateRule(index, { taxCategory: e.target.value || null })}
+                    >
+                      <option value="">All items</option>
+                      {categories.map((category) => (
+                        <option key={category} value={category}>
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="number"
+                      className="input w-24"
+                      min="0"
+                      step="0.001"
+                      value={Math.round(rule.rate * 1e6) / 1e4}
+                      onChange={(e) =>
+                        updateRule(index, { rate: Math.round(Number(e.target.value) * 1e4) / 1e6 })
+                      }
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="number"
+                      className="input w-20"
+                      step="1"
+                      value={rule.priority}
+                      onChange={(e) => updateRule(index, { priority: Number(e.target.value) })}
+                    />
+                  </td>
+                  <td className="pr-2 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={rule.compound}
+                      onChange={(e) => updateRule(index, { compound: e.target.checked })}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                      className="btn-ghost p-2 text-red-600"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() => setRules([...rules, { ...emptyTaxRule }])}
+            className="btn-secondary mt-3"
+          >
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      <button onClick={handleSave} disabled={isSaving} className="btn-primary mt-6">
+        {isSaving ? 'Saving...' : 'Save Taxes'}
+      </button>
+    </div>
+  );
+}
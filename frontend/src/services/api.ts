@@ -3,6 +3,14 @@ import type { ApiResponse } from '../types';
 
 const BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
+// An error response from the API, as opposed to a network failure
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 class ApiService {
   private client: AxiosInstance;
   private authToken: string | null = null;
@@ -66,7 +74,7 @@ class ApiService {
           errorMessage = error.message;
         }
 
-        return Promise.reject(new Error(errorMessage));
+        return Promise.reject(new ApiError(errorMessage, error.response.status));
       }
     );
   }
@@ -80,8 +88,12 @@ class ApiService {
     return response.data;
   }
 
-  async post<T>(url: string, data?: unknown): Promise<ApiResponse<T>> {
-    const response = await this.client.post<ApiResponse<T>>(url, data);
+  async post<T>(
+    url: string,
+    data?: unknown,
+    headers?: Record<string, string>
+  ): Promise<ApiResponse<T>> {
+    const response = await this.client.post<ApiResponse<T>>(url, data, { headers });
     return response.data;
   }
 
@@ -110,6 +122,33 @@ export const endpoints = {
   logout: '/auth/logout',
   me: '/auth/me',
   refreshToken: '/auth/refresh',
+  authPin: '/auth/pin',
+  authBadge: '/auth/badge',
+  authSwitchUser: '/auth/switch-user',
+
+  // Tenant
+  tenantSettings: '/tenants/settings',
+
+  // Taxes
+  taxes: '/taxes',
+
+  // Promotions
+  promotions: '/promotions',
+  promotionById: (id: string) => `/promotions/${id}`,
+
+  // Coupons
+  coupons: '/coupons',
+  couponById: (id: string) => `/coupons/${id}`,
+  couponValidate: '/coupons/validate',
+  couponCampaigns: '/coupons/campaigns',
+  couponEmail: '/coupons/email',
+
+  // Roles
+  roles: '/roles',
+  roleById: (id: string) => `/roles/${id}`,
+  rolePermissions: '/roles/permissions',
+  roleUsers: '/roles/users',
+  roleUser: (userId: string) => `/roles/users/${userId}`,
 
   // Items
   items: '/items',
@@ -136,6 +175,8 @@ export const endpoints = {
   // Transactions
   transactions: '/transactions',
   transactionById: (id: string) => `/transactions/${id}`,
+  transactionByReceipt: (receiptNumber: string) =>
+    `/transactions/receipt/${encodeURIComponent(receiptNumber)}`,
   transactionVoid: (id: string) => `/transactions/${id}/void`,
   transactionRefund: (id: string) => `/transactions/${id}/refund`,
   transactionsSync: '/transactions/sync',
@@ -144,13 +185,14 @@ export const endpoints = {
   payments: '/payments',
   paymentProcess: '/payments/process',
   paymentRefund: (id: string) => `/payments/${id}/refund`,
+  paymentRefunds: (id: string) => `/payments/${id}/refunds`,
 
   // Gift Cards
   giftCards: '/gift-cards',
   giftCardById: (id: string) => `/gift-cards/${id}`,
   giftCardByNumber: (number: string) => `/gift-cards/number/${number}`,
   giftCardActivate: '/gift-cards/activate',
-  giftCardRedeem: '/gift-cards/redeem',
+  giftCardAdjust: (id: string) => `/gift-cards/${id}/adjust`,
 
   // Shifts
   shifts: '/shifts',
@@ -161,6 +203,12 @@ export const endpoints = {
   // Locations
   locations: '/locations',
   registers: (locationId: string) => `/locations/${locationId}/registers`,
+  registerNoSale: (id: string) => `/registers/${id}/no-sale`,
+  registerUsers: (id: string) => `/registers/${id}/users`,
+
+  // Manager overrides
+  overridePolicy: '/overrides/policy',
+  overrideApprove: '/overrides/approve',
 
   // Reports
   reportsDailySummary: '/reports/daily-summary',
@@ -172,4 +220,13 @@ export const endpoints = {
   // NetSuite
   netsuiteStatus: '/netsuite/status',
   netsuiteSync: '/netsuite/sync',
+  netsuiteSettings: '/netsuite/settings',
+  netsuiteSettingsTest: '/netsuite/settings/test',
+  netsuiteWebhookSecret: '/netsuite/settings/webhook-secret',
+  netsuitePaymentMethods: '/netsuite/payment-methods',
+  netsuiteMetrics: '/netsuite/metrics',
+  netsuiteLocations: '/netsuite/locations',
+  netsuiteLocationsImport: '/netsuite/locations/import',
+  netsuiteConflicts: '/netsuite/conflicts',
+  netsuiteConflictResolve: (id: string) => `/netsuite/conflicts/${id}/resolve`,
 };
@@ -8,6 +8,7 @@ import type {
   InventoryLevel,
   SyncQueueItem,
   GiftCard,
+  ReceiptNumberBlock,
 } from '../types';
 
 class POSDatabase extends Dexie {
@@ -19,6 +20,7 @@ class POSDatabase extends Dexie {
   inventory!: Table<InventoryLevel, string>;
   syncQueue!: Table<SyncQueueItem, string>;
   giftCards!: Table<GiftCard, string>;
+  receiptBlocks!: Table<ReceiptNumberBlock, string>;
 
   constructor() {
     super('NetSuitePOS');
@@ -33,6 +35,10 @@ class POSDatabase extends Dexie {
       syncQueue: 'id, type, action, attempts, createdAt',
       giftCards: 'id, number, customerId, isActive',
     });
+
+    this.version(2).stores({
+      receiptBlocks: 'id, registerId, start',
+    });
   }
 }
 
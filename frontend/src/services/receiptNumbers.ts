@@ -0,0 +1,69 @@
+import { api } from './api';
+import { db } from './offlineDb';
+import type { ReceiptNumberBlock } from '../types';
+
+// Receipt numbers come from blocks the register reserves from the server, so
+// sales stay sequentially numbered while offline. A new block is reserved
+// once fewer than LOW_WATER numbers are left.
+const BLOCK_SIZE = 100;
+const LOW_WATER = 20;
+
+const formatReceiptNumber = (template: string, sequence: number): string =>
+  template.replace(/\{sequence(?::(\d+))?\}/, (_match, width?: string) =>
+    String(sequence).padStart(width ? Number(width) : 0, '0')
+  );
+
+async function remaining(registerId: string): Promise<number> {
+  const blocks = await db.receiptBlocks.where('registerId').equals(registerId).toArray();
+  return blocks.reduce((sum, block) => sum + block.end - block.next + 1, 0);
+}
+
+export async function topUpReceiptNumbers(registerId: string): Promise<void> {
+  if (!navigator.onLine || (await remaining(registerId)) >= LOW_WATER) {
+    return;
+  }
+
+  const response = await api.post<{ block: Omit<ReceiptNumberBlock, 'next'> }>(
+    `/registers/${registerId}/receipt-blocks`,
+    { size: BLOCK_SIZE }
+  );
+  const { block } = response.data;
+  await db.receiptBlocks.put({ ...block, next: block.start });
+}
+
+// Take the next number, oldest block first. Returns null when the register
+// has run out, which only happens after a long stretch offline.
+export async function takeReceiptNumber(
+  registerId: string
+): Promise<{ receiptNumber: string; receiptSequence: number } | null> {
+  if ((await remaining(registerId)) === 0) {
+    await topUpReceiptNumbers(registerId).catch(() => undefined);
+  }
+
+  const taken = await db.transaction('rw', db.receiptBlocks, async () => {
+    const block = await db.receiptBlocks
+      .where('registerId')
+      .equals(registerId)
+      .sortBy('start')
+      .then((blocks) => blocks[0]);
+
+    if (!block) {
+      return null;
+    }
+
+    const receiptSequence = block.next;
+    if (receiptSequence >= block.end) {
+      await db.receiptBlocks.delete(block.id);
+    } else {
+      await db.receiptBlocks.update(block.id, { next: receiptSequence + 1 });
+    }
+
+    return { receiptNumber: formatReceiptNumber(block.template, receiptSequence), receiptSequence };
+  });
+
+  topUpReceiptNumbers(registerId).catch(() => {
+    // Retried after the next sale
+  });
+
+  return taken;
+}
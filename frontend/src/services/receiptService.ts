@@ -49,6 +49,9 @@ export class ReceiptService {
     lines.push(divider);
 
     // Transaction info
+    if (transaction.type === 'return') {
+      lines.push(this.center('RETURN', width));
+    }
     lines.push(`Receipt: ${transaction.receiptNumber}`);
     lines.push(`Date: ${format(new Date(transaction.createdAt), 'MM/dd/yyyy HH:mm')}`);
     lines.push(`Register: ${register.name}`);
@@ -60,8 +63,15 @@ export class ReceiptService {
     // Items
     transaction.items.forEach((item) => {
       lines.push(this.formatItemLine(item, width));
-      if (item.discountAmount > 0) {
-        lines.push(this.rightAlign(`  Discount: -$${item.discountAmount.toFixed(2)}`, width));
+      if (item.giftCardNumber) {
+        lines.push(`  Card ****${item.giftCardNumber.slice(-4)}`);
+      }
+      if (item.promotions?.length) {
+        item.promotions.forEach((promotion) => {
+          lines.push(this.rightAlign(`  ${promotion.name}: -$${promotion.amount.toFixed(2)}`, width));
+        });
+      } else if (item.discountAmount !== 0) {
+        lines.push(this.rightAlign(`  Discount: -$${Math.abs(item.discountAmount).toFixed(2)}`, width));
       }
     });
 
@@ -69,13 +79,31 @@ export class ReceiptService {
 
     // Totals
     lines.push(this.formatTotalLine('Subtotal:', transaction.subtotal, width));
-    if (transaction.discountTotal > 0) {
+    if (transaction.discountTotal !== 0) {
       lines.push(this.formatTotalLine('Discount:', -transaction.discountTotal, width));
+      transaction.coupons?.forEach((coupon) => {
+        lines.push(this.formatTotalLine(`  Coupon ${coupon.code}:`, -coupon.amount, width));
+      });
+    }
+    // Tax included in prices is shown as a breakdown under the total instead
+    const taxIncluded = transaction.items.some((item) => item.taxIncluded);
+    if (!taxIncluded) {
+      lines.push(this.formatTotalLine('Tax:', transaction.taxTotal, width));
+      if (transaction.taxes && transaction.taxes.length > 1) {
+        transaction.taxes.forEach((tax) => {
+          lines.push(this.formatTotalLine(`  ${tax.name}:`, tax.amount, width));
+        });
+      }
+    }
+    if (transaction.taxExemptCertificate) {
+      lines.push(`Tax exempt, certificate ${transaction.taxExemptCertificate}`);
     }
-    lines.push(this.formatTotalLine('Tax:', transaction.taxTotal, width));
     lines.push(divider);
     lines.push(this.formatTotalLine('TOTAL:', transaction.total, width, true));
     lines.push(divider);
+    if (taxIncluded) {
+      lines.push(...this.formatVatBreakdown(transaction.items, width));
+    }
 
     // Payments
     lines.push('');
@@ -239,6 +267,35 @@ export class ReceiptService {
     return `${name}\n${this.rightAlign(`${qtyPrice}  ${price}`, width)}`;
   }
 
+  // Net and tax by rate for prices that include tax, as VAT receipts need
+  private formatVatBreakdown(items: TransactionItem[], width: number): string[] {
+    const rates = new Map<string, { net: number; tax: number }>();
+
+    items
+      .filter((item) => item.taxIncluded)
+      .forEach((item) => {
+        const net = item.lineTotal - item.taxAmount;
+        (item.taxes ?? []).forEach((tax) => {
+          // Returned lines carry the rate they were sold at, to rounding
+          const rate = `${tax.name} ${(tax.rate * 100).toFixed(2)}%`;
+          const totals = rates.get(rate) ?? { net: 0, tax: 0 };
+          rates.set(rate, { net: totals.net + net, tax: totals.tax + tax.amount });
+        });
+      });
+
+    const column = (text: string) => text.padStart(10);
+    const header = 'Rate'.padEnd(width - 20) + column('Net') + column('Tax');
+
+    return [
+      header,
+      ...[...rates].map(([rate, totals]) =>
+        rate.substring(0, width - 20).padEnd(width - 20) +
+        column(`$${totals.net.toFixed(2)}`) +
+        column(`$${totals.tax.toFixed(2)}`)
+      ),
+    ];
+  }
+
   private formatTotalLine(
     label: string,
     amount: number,
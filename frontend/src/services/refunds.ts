@@ -0,0 +1,13 @@
+import toast from 'react-hot-toast';
+import type { Refund } from '../types';
+
+// Card refunds are paid out after the return is saved. One the processor
+// declined has to be given back another way.
+export function warnFailedRefunds(refunds: Refund[] = []): void {
+  for (const refund of refunds.filter((r) => r.status === 'failed')) {
+    toast.error(
+      `Card refund of $${refund.amount.toFixed(2)} was declined${refund.error ? `: ${refund.error}` : ''}. Refund it another way.`,
+      { duration: 10000 }
+    );
+  }
+}
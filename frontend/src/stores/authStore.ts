@@ -1,13 +1,18 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { User, Location, Register, Shift } from '../types';
-import { api } from '../services/api';
+import type { User, Location, Register, Shift, TenantSettings, Permission, TaxRule } from '../types';
+import { api, endpoints } from '../services/api';
+import { topUpReceiptNumbers } from '../services/receiptNumbers';
 
 interface Tenant {
   id: string;
   name: string;
   slug: string;
   plan: string;
+  taxRate?: number;
+  settings?: TenantSettings;
+  taxRules?: TaxRule[];
+  timezone?: string;
 }
 
 interface AuthState {
@@ -19,6 +24,8 @@ interface AuthState {
   shift: Shift | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  // Register is locked until someone enters their PIN
+  locked: boolean;
   error: string | null;
 }
 
@@ -31,6 +38,15 @@ interface AuthActions {
   openShift: (openingBalance: number) => Promise<void>;
   closeShift: (closingBalance: number) => Promise<void>;
   checkAuth: () => Promise<void>;
+  lock: () => void;
+  switchUser: (userId: string, pin: string) => Promise<void>;
+  setPin: (password: string, pin: string) => Promise<void>;
+  setTenantSettings: (settings: TenantSettings) => void;
+  setTaxes: (
+    taxRules: TaxRule[],
+    locations: Pick<Location, 'id' | 'taxJurisdiction' | 'pricesIncludeTax'>[]
+  ) => void;
+  can: (permission: Permission) => boolean;
   clearError: () => void;
 }
 
@@ -45,6 +61,7 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       shift: null,
       isAuthenticated: false,
       isLoading: true,
+      locked: false,
       error: null,
 
       login: async (email: string, password: string) => {
@@ -112,6 +129,7 @@ export const useAuthStore = create<AuthState & AuthActions>()(
           shift: null,
           isAuthenticated: false,
           isLoading: false,
+          locked: false,
         });
 
         api.setAuthToken(null);
@@ -138,6 +156,9 @@ export const useAuthStore = create<AuthState & AuthActions>()(
           });
 
           set({ shift: response.data });
+
+          // Have receipt numbers on hand in case the connection drops
+          topUpReceiptNumbers(register.id).catch(() => undefined);
         } catch (error) {
           throw error;
         }
@@ -161,7 +182,7 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       },
 
       checkAuth: async () => {
-        const { token } = get();
+        const { token, register: currentRegister } = get();
         if (!token) {
           set({ isLoading: false });
           return;
@@ -169,7 +190,8 @@ export const useAuthStore = create<AuthState & AuthActions>()(
 
         try {
           api.setAuthToken(token);
-          const response = await api.get('/auth/me');
+          // Someone who switched in at a register picks up its open shift
+          const response = await api.get('/auth/me', currentRegister ? { registerId: currentRegister.id } : undefined);
           const { user, tenant, location, register, shift } = response.data;
 
           set({
@@ -191,10 +213,84 @@ export const useAuthStore = create<AuthState & AuthActions>()(
             shift: null,
             isAuthenticated: false,
             isLoading: false,
+            locked: false,
           });
         }
       },
 
+      lock: () => {
+        set({ locked: true });
+      },
+
+      // Hand the register to the user picked, once their PIN checks out. The
+      // register, its shift and the cart stay put; new sales are made as the
+      // new user.
+      switchUser: async (userId: string, pin: string) => {
+        const { register, shift } = get();
+        if (!register) {
+          throw new Error('Register not selected');
+        }
+
+        const response = await api.post<{
+          user: User;
+          token: string;
+          tenant: Tenant;
+          shift: Shift | null;
+        }>(endpoints.authSwitchUser, {
+          userId,
+          pin,
+          registerId: register.id,
+        });
+        const { user, token, tenant } = response.data;
+
+        set({
+          user,
+          tenant,
+          token,
+          shift: response.data.shift ?? shift,
+          locked: false,
+        });
+
+        api.setAuthToken(token);
+      },
+
+      setPin: async (password: string, pin: string) => {
+        await api.put(endpoints.authPin, { password, pin });
+
+        const { user } = get();
+        if (user) {
+          set({ user: { ...user, hasPin: true } });
+        }
+      },
+
+      setTenantSettings: (settings: TenantSettings) => {
+        const { tenant } = get();
+        if (tenant) {
+          set({ tenant: { ...tenant, settings } });
+        }
+      },
+
+      // Keep the register's tax rules in step after they're changed in settings
+      setTaxes: (
+        taxRules: TaxRule[],
+        locations: Pick<Location, 'id' | 'taxJurisdiction' | 'pricesIncludeTax'>[]
+      ) => {
+        const { tenant, location } = get();
+        const current = locations.find((l) => l.id === location?.id);
+
+        set({
+          tenant: tenant ? { ...tenant, taxRules } : tenant,
+          location: location && current
+            ? { ...location, taxJurisdiction: current.taxJurisdiction, pricesIncludeTax: current.pricesIncludeTax }
+            : location,
+        });
+      },
+
+      // Whether the signed-in user has a permission, from their role or custom role
+      can: (permission: Permission) => {
+        return get().user?.permissions?.includes(permission) ?? false;
+      },
+
       clearError: () => {
         set({ error: null });
       },
@@ -206,6 +302,7 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         tenant: state.tenant,
         location: state.location,
         register: state.register,
+        locked: state.locked,
       }),
     }
   )
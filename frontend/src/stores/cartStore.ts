@@ -1,7 +1,25 @@
 import { create } from 'zustand';
 import { v4 as uuid } from 'uuid';
-import type { Cart, CartItem, Item, Customer, Discount, Payment, PaymentMethod } from '../types';
+import type {
+  Cart,
+  CartItem,
+  Coupon,
+  Item,
+  Customer,
+  Discount,
+  Payment,
+  PaymentMethod,
+  ReturnDisposition,
+  ReturnedLine,
+} from '../types';
 import { db } from '../services/offlineDb';
+import { api, endpoints } from '../services/api';
+import { resolveTaxComponents, returnedTaxComponents } from 'shared/taxes';
+import { applyPromotions } from 'shared/promotions';
+import { computeTotals, roundMoney } from 'shared/totals';
+import { couponAmount, couponSpend } from 'shared/coupons';
+import { useAuthStore } from './authStore';
+import { usePromotionStore } from './promotionStore';
 
 interface CartState {
   cart: Cart;
@@ -10,19 +28,38 @@ interface CartState {
   discounts: Discount[];
 }
 
+// The sale an exchange returns lines from
+export interface ExchangeSale {
+  id: string;
+  receiptNumber: string;
+  customer?: Customer;
+}
+
 interface CartActions {
   addItem: (item: Item, quantity?: number) => void;
+  addGiftCard: (item: Item, giftCardNumber: string, amount: number) => void;
+  addReturnItem: (
+    sale: ExchangeSale,
+    item: Item,
+    unitPrice: number,
+    returnOf: ReturnedLine,
+    quantity: number
+  ) => void;
+  setReturnDisposition: (cartItemId: string, disposition: ReturnDisposition) => void;
   updateItemQuantity: (cartItemId: string, quantity: number) => void;
   removeItem: (cartItemId: string) => void;
   setItemDiscount: (cartItemId: string, discountType: 'percent' | 'fixed', value: number) => void;
+  setItemPrice: (cartItemId: string, price: number) => void;
+  addApproval: (approvalId: string) => void;
   clearCart: () => void;
   setCustomer: (customer: Customer | null) => void;
   addDiscount: (discount: Discount) => void;
   removeDiscount: (discountId: string) => void;
+  applyCoupon: (code: string) => Promise<void>;
   holdCart: (name?: string) => void;
   recallCart: (cartId: string) => void;
   deleteHeldCart: (cartId: string) => void;
-  addPayment: (method: PaymentMethod, amount: number, reference?: string) => void;
+  addPayment: (method: PaymentMethod, amount: number, reference?: string, giftCardNumber?: string) => void;
   removePayment: (paymentId: string) => void;
   clearPayments: () => void;
   calculateTotals: () => void;
@@ -30,8 +67,6 @@ interface CartActions {
   loadHeldCarts: () => Promise<void>;
 }
 
-const TAX_RATE = 0.0825; // 8.25% default tax rate
-
 const createEmptyCart = (): Cart => ({
   id: uuid(),
   items: [],
@@ -46,20 +81,142 @@ const createEmptyCart = (): Cart => ({
   holdName: undefined,
 });
 
-const calculateItemTotals = (cartItem: CartItem): CartItem => {
-  const baseTotal = cartItem.quantity * cartItem.unitPrice;
-  const discountAmount = cartItem.discountPercent > 0
-    ? baseTotal * (cartItem.discountPercent / 100)
-    : cartItem.discountAmount;
-  const taxableAmount = baseTotal - discountAmount;
-  const taxAmount = taxableAmount * TAX_RATE;
-  const lineTotal = taxableAmount + taxAmount;
+// Customers with a NetSuite price level pay that level's price where the item has one
+export const getUnitPrice = (item: Item, customer?: Customer | null): number => {
+  const level = customer?.priceLevel
+    ? item.priceLevels?.find((pl) => pl.name === customer.priceLevel)
+    : undefined;
+
+  return level ? level.price : item.basePrice;
+};
+
+// A returned line gives back the same share of the sold line's discount
+// (as a negative amount) and of each tax the sale was charged
+export const returnedLineTerms = (returnOf: ReturnedLine, unitPrice: number, quantity: number) => {
+  const share = Math.abs(quantity) / returnOf.soldQuantity;
+  const soldNet = roundMoney(returnOf.soldQuantity * unitPrice) - returnOf.soldDiscount;
+  const soldTaxes = returnOf.soldTaxes ?? [{ name: 'Tax', rate: 0, amount: returnOf.soldTax }];
+  const taxIncluded = !!returnOf.soldTaxIncluded;
+
+  return {
+    discountAmount: -roundMoney(returnOf.soldDiscount * share),
+    taxes: returnedTaxComponents(soldTaxes, soldNet, taxIncluded),
+    taxIncluded,
+  };
+};
+
+// Totaled with shared/src/totals.ts, as the server checks it. Cart discounts
+// are spread over lines in proportion to their net amount, then taxed with the
+// location's tax rules. Where the location's prices include tax (VAT) the tax
+// is backed out of the line.
+// Promotions are worked out again on every change, for the lines the cashier
+// hasn't discounted or repriced by hand.
+const withTotals = (cart: Cart, discounts: Discount[]): Cart => {
+  const { tenant, location } = useAuthStore.getState();
+  const tenantTaxRate = tenant?.taxRate ?? 0;
+  const taxRules = location?.taxJurisdiction
+    ? (tenant?.taxRules ?? []).filter((rule) => rule.jurisdiction === location.taxJurisdiction)
+    : [];
+  const taxExempt = !!cart.customer?.taxExempt;
+  const pricesIncludeTax = !!location?.pricesIncludeTax;
+
+  // A line's discount is its promotions' unless the cashier keyed one in
+  const manualDiscount = (ci: CartItem) => (ci.promotions ? 0 : ci.discountAmount);
+  const promotable = cart.items.map(
+    (ci) =>
+      !ci.returnOf && !ci.priceOverride && !ci.giftCardNumber && ci.discountPercent === 0 && manualDiscount(ci) === 0
+  );
+  const promotions = applyPromotions(
+    cart.items.map((ci, i) => ({
+      itemId: ci.itemId,
+      categoryId: ci.item.categoryId,
+      quantity: promotable[i] ? ci.quantity : 0,
+      unitPrice: ci.unitPrice,
+    })),
+    usePromotionStore.getState().promotions,
+    {
+      locationId: location?.id ?? '',
+      customerGroup: cart.customer?.group,
+      at: new Date(),
+      timeZone: tenant?.timezone ?? 'America/New_York',
+    }
+  );
+
+  const lines = cart.items.map((ci, index) => {
+    const base = roundMoney(ci.quantity * ci.unitPrice);
+
+    if (ci.returnOf) {
+      const { discountAmount, taxes, taxIncluded } = returnedLineTerms(ci.returnOf, ci.unitPrice, ci.quantity);
+      return { ci, base, discountAmount, taxes, taxIncluded, promotions: undefined };
+    }
+
+    const linePromotions = promotable[index] ? promotions[index] : [];
+    const discountAmount = ci.discountPercent > 0
+      ? roundMoney(base * (ci.discountPercent / 100))
+      : linePromotions.length > 0
+        ? roundMoney(linePromotions.reduce((sum, p) => sum + p.amount, 0))
+        : manualDiscount(ci);
+    // Gift cards are taxed when they're spent, not when they're sold
+    const taxes = taxExempt || ci.giftCardNumber
+      ? []
+      : resolveTaxComponents(taxRules, ci.item.taxCategory, ci.item.taxRate ?? tenantTaxRate);
+    return {
+      ci,
+      base,
+      discountAmount,
+      taxes,
+      taxIncluded: pricesIncludeTax,
+      promotions: linePromotions.length > 0 ? linePromotions : undefined,
+    };
+  });
+
+  const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.base, 0));
+  const totalsLines = lines.map((l) => ({
+    quantity: l.ci.quantity,
+    unitPrice: l.ci.unitPrice,
+    discountAmount: l.discountAmount,
+    taxes: l.taxes,
+    taxIncluded: l.taxIncluded,
+  }));
+
+  // Coupons come off before discounts given by hand. One whose minimum spend
+  // the cart no longer reaches takes nothing off until it does.
+  const spend = couponSpend(totalsLines);
+  let left = spend;
+  const coupons = discounts
+    .filter((d) => d.type === 'coupon' && d.coupon)
+    .map((d) => {
+      const coupon = d.coupon!;
+      const amount = coupon.minimumSpend && spend < coupon.minimumSpend ? 0 : couponAmount(coupon, spend, left);
+      left = roundMoney(left - amount);
+      return { code: coupon.code, amount };
+    })
+    .filter((coupon) => coupon.amount > 0);
+
+  const requestedCartDiscount = coupons.reduce((sum, coupon) => sum + coupon.amount, 0) + discounts
+    .filter((d) => d.appliedTo === 'cart' && d.type !== 'coupon')
+    .reduce((sum, d) => sum + (d.type === 'percent' ? subtotal * (d.value / 100) : d.value), 0);
+  const cartDiscount = roundMoney(Math.min(requestedCartDiscount, spend));
+
+  const totals = computeTotals(totalsLines, cartDiscount, tenant?.settings?.taxRounding ?? 'line');
 
   return {
-    ...cartItem,
-    discountAmount,
-    taxAmount,
-    lineTotal,
+    ...cart,
+    items: lines.map((l, i) => ({
+      ...l.ci,
+      discountAmount: l.discountAmount,
+      promotions: l.promotions,
+      taxAmount: totals.lines[i].taxAmount,
+      taxes: totals.lines[i].taxes,
+      taxIncluded: l.taxIncluded,
+      lineTotal: totals.lines[i].lineTotal,
+    })),
+    subtotal: totals.subtotal,
+    discountTotal: totals.discountTotal,
+    taxTotal: totals.taxTotal,
+    taxes: totals.taxes,
+    coupons,
+    total: totals.total,
   };
 };
 
@@ -72,7 +229,7 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
   addItem: (item: Item, quantity = 1) => {
     set((state) => {
       const existingItemIndex = state.cart.items.findIndex(
-        (ci) => ci.itemId === item.id
+        (ci) => ci.itemId === item.id && !ci.returnOf && !ci.giftCardNumber
       );
 
       let newItems: CartItem[];
@@ -80,10 +237,7 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
       if (existingItemIndex >= 0) {
         newItems = state.cart.items.map((ci, index) =>
           index === existingItemIndex
-            ? calculateItemTotals({
-                ...ci,
-                quantity: ci.quantity + quantity,
-              })
+            ? { ...ci, quantity: ci.quantity + quantity }
             : ci
         );
       } else {
@@ -92,72 +246,133 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
           itemId: item.id,
           item,
           quantity,
-          unitPrice: item.basePrice,
+          unitPrice: getUnitPrice(item, state.cart.customer),
           discountAmount: 0,
           discountPercent: 0,
           taxAmount: 0,
           lineTotal: 0,
         };
-        newItems = [...state.cart.items, calculateItemTotals(newCartItem)];
+        newItems = [...state.cart.items, newCartItem];
       }
 
-      const subtotal = newItems.reduce(
-        (sum, ci) => sum + ci.quantity * ci.unitPrice,
-        0
+      return {
+        cart: withTotals({ ...state.cart, items: newItems }, state.discounts),
+      };
+    });
+  },
+
+  // Sell a gift card, or a reload of one, for the amount put on it. Each card
+  // is its own line.
+  addGiftCard: (item: Item, giftCardNumber: string, amount: number) => {
+    set((state) => {
+      const newCartItem: CartItem = {
+        id: uuid(),
+        itemId: item.id,
+        item,
+        quantity: 1,
+        unitPrice: roundMoney(amount),
+        discountAmount: 0,
+        discountPercent: 0,
+        taxAmount: 0,
+        lineTotal: 0,
+        giftCardNumber,
+      };
+
+      return {
+        cart: withTotals({ ...state.cart, items: [...state.cart.items, newCartItem] }, state.discounts),
+      };
+    });
+  },
+
+  addReturnItem: (sale, item, unitPrice, returnOf, quantity) => {
+    // An exchange returns lines from a single sale
+    const { cart } = get();
+    if (cart.originalTransactionId && cart.originalTransactionId !== sale.id) {
+      throw new Error(`The cart already has returns from receipt ${cart.originalReceiptNumber}`);
+    }
+
+    set((state) => {
+      const existing = state.cart.items.find(
+        (ci) => ci.returnOf?.originalItemId === returnOf.originalItemId
       );
-      const discountTotal = newItems.reduce(
-        (sum, ci) => sum + ci.discountAmount,
-        0
+      const returning = Math.min(
+        (existing ? -existing.quantity : 0) + quantity,
+        returnOf.returnableQuantity
       );
-      const taxTotal = newItems.reduce((sum, ci) => sum + ci.taxAmount, 0);
-      const total = subtotal - discountTotal + taxTotal;
+
+      const newItems: CartItem[] = existing
+        ? state.cart.items.map((ci) => (ci === existing ? { ...ci, quantity: -returning } : ci))
+        : [
+            ...state.cart.items,
+            {
+              id: uuid(),
+              itemId: item.id,
+              item,
+              quantity: -returning,
+              unitPrice,
+              discountAmount: 0,
+              discountPercent: 0,
+              taxAmount: 0,
+              lineTotal: 0,
+              returnOf,
+            },
+          ];
+
+      const customer = state.cart.customer ?? sale.customer;
 
       return {
-        cart: {
-          ...state.cart,
-          items: newItems,
-          subtotal,
-          discountTotal,
-          taxTotal,
-          total,
-        },
+        cart: withTotals(
+          {
+            ...state.cart,
+            customerId: customer?.id,
+            customer,
+            originalTransactionId: sale.id,
+            originalReceiptNumber: sale.receiptNumber,
+            items: newItems,
+          },
+          state.discounts
+        ),
       };
     });
   },
 
+  setReturnDisposition: (cartItemId: string, disposition: ReturnDisposition) => {
+    set((state) => ({
+      cart: {
+        ...state.cart,
+        items: state.cart.items.map((ci) =>
+          ci.id === cartItemId && ci.returnOf
+            ? { ...ci, returnOf: { ...ci.returnOf, disposition } }
+            : ci
+        ),
+      },
+    }));
+  },
+
   updateItemQuantity: (cartItemId: string, quantity: number) => {
-    if (quantity <= 0) {
+    const cartItem = get().cart.items.find((ci) => ci.id === cartItemId);
+
+    // Return lines count down from zero and stop at what is left to return
+    if (cartItem?.returnOf) {
+      if (quantity >= 0) {
+        get().removeItem(cartItemId);
+        return;
+      }
+      quantity = Math.max(quantity, -cartItem.returnOf.returnableQuantity);
+    } else if (quantity <= 0) {
       get().removeItem(cartItemId);
       return;
+    } else if (cartItem?.giftCardNumber) {
+      return;
     }
 
     set((state) => {
       const newItems = state.cart.items.map((ci) =>
-        ci.id === cartItemId
-          ? calculateItemTotals({ ...ci, quantity })
-          : ci
-      );
-
-      const subtotal = newItems.reduce(
-        (sum, ci) => sum + ci.quantity * ci.unitPrice,
-        0
-      );
-      const discountTotal = newItems.reduce(
-        (sum, ci) => sum + ci.discountAmount,
-        0
+        ci.id === cartItemId ? { ...ci, quantity } : ci
       );
-      const taxTotal = newItems.reduce((sum, ci) => sum + ci.taxAmount, 0);
-      const total = subtotal - discountTotal + taxTotal;
 
       return {
-        cart: {
-          ...state.cart,
-          items: newItems,
-          subtotal,
-          discountTotal,
-          taxTotal,
-          total,
-        },
+        cart: withTotals({ ...state.cart, items: newItems }, state.discounts),
       };
     });
   },
@@ -165,27 +380,18 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
   removeItem: (cartItemId: string) => {
     set((state) => {
       const newItems = state.cart.items.filter((ci) => ci.id !== cartItemId);
-
-      const subtotal = newItems.reduce(
-        (sum, ci) => sum + ci.quantity * ci.unitPrice,
-        0
-      );
-      const discountTotal = newItems.reduce(
-        (sum, ci) => sum + ci.discountAmount,
-        0
-      );
-      const taxTotal = newItems.reduce((sum, ci) => sum + ci.taxAmount, 0);
-      const total = subtotal - discountTotal + taxTotal;
+      const hasReturns = newItems.some((ci) => ci.returnOf);
 
       return {
-        cart: {
-          ...state.cart,
-          items: newItems,
-          subtotal,
-          discountTotal,
-          taxTotal,
-          total,
-        },
+        cart: withTotals(
+          {
+            ...state.cart,
+            items: newItems,
+            originalTransactionId: hasReturns ? state.cart.originalTransactionId : undefined,
+            originalReceiptNumber: hasReturns ? state.cart.originalReceiptNumber : undefined,
+          },
+          state.discounts
+        ),
       };
     });
   },
@@ -193,41 +399,44 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
   setItemDiscount: (cartItemId: string, discountType: 'percent' | 'fixed', value: number) => {
     set((state) => {
       const newItems = state.cart.items.map((ci) => {
-        if (ci.id !== cartItemId) return ci;
+        // Return lines carry the discount they were sold with, and gift cards take none
+        if (ci.id !== cartItemId || ci.returnOf || ci.giftCardNumber) return ci;
 
-        const updatedItem: CartItem = {
+        return {
           ...ci,
           discountPercent: discountType === 'percent' ? value : 0,
           discountAmount: discountType === 'fixed' ? value : 0,
+          promotions: undefined,
         };
-
-        return calculateItemTotals(updatedItem);
       });
 
-      const subtotal = newItems.reduce(
-        (sum, ci) => sum + ci.quantity * ci.unitPrice,
-        0
-      );
-      const discountTotal = newItems.reduce(
-        (sum, ci) => sum + ci.discountAmount,
-        0
+      return {
+        cart: withTotals({ ...state.cart, items: newItems }, state.discounts),
+      };
+    });
+  },
+
+  // Key in a price by hand; the sale then needs a manager's approval
+  setItemPrice: (cartItemId: string, price: number) => {
+    set((state) => {
+      const newItems = state.cart.items.map((ci) =>
+        ci.id === cartItemId && !ci.returnOf && !ci.giftCardNumber
+          ? { ...ci, unitPrice: roundMoney(price), priceOverride: true }
+          : ci
       );
-      const taxTotal = newItems.reduce((sum, ci) => sum + ci.taxAmount, 0);
-      const total = subtotal - discountTotal + taxTotal;
 
       return {
-        cart: {
-          ...state.cart,
-          items: newItems,
-          subtotal,
-          discountTotal,
-          taxTotal,
-          total,
-        },
+        cart: withTotals({ ...state.cart, items: newItems }, state.discounts),
       };
     });
   },
 
+  addApproval: (approvalId: string) => {
+    set((state) => ({
+      cart: { ...state.cart, approvalIds: [...(state.cart.approvalIds || []), approvalId] },
+    }));
+  },
+
   clearCart: () => {
     set({
       cart: createEmptyCart(),
@@ -237,12 +446,21 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
   },
 
   setCustomer: (customer: Customer | null) => {
+    // Reprice lines already rung up for the new customer's price level
     set((state) => ({
-      cart: {
-        ...state.cart,
-        customerId: customer?.id,
-        customer,
-      },
+      cart: withTotals(
+        {
+          ...state.cart,
+          customerId: customer?.id,
+          customer,
+          items: state.cart.items.map((ci) =>
+            ci.returnOf || ci.priceOverride || ci.giftCardNumber
+              ? ci
+              : { ...ci, unitPrice: getUnitPrice(ci.item, customer) }
+          ),
+        },
+        state.discounts
+      ),
     }));
   },
 
@@ -260,6 +478,32 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
     get().calculateTotals();
   },
 
+  // Check a coupon code with the server and take it off the cart
+  applyCoupon: async (code: string) => {
+    const { cart, discounts } = get();
+    const normalized = code.trim().toUpperCase();
+
+    if (discounts.some((d) => d.coupon?.code === normalized)) {
+      throw new Error(`Coupon ${normalized} is already on the sale`);
+    }
+
+    const response = await api.post<{ coupon: Coupon }>(endpoints.couponValidate, {
+      code: normalized,
+      customerId: cart.customerId,
+      spend: couponSpend(cart.items),
+    });
+    const { coupon } = response.data;
+
+    get().addDiscount({
+      id: uuid(),
+      type: 'coupon',
+      value: coupon.value,
+      code: coupon.code,
+      coupon,
+      appliedTo: 'cart',
+    });
+  },
+
   holdCart: async (name?: string) => {
     const { cart } = get();
     if (cart.items.length === 0) return;
@@ -306,12 +550,13 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
     }));
   },
 
-  addPayment: (method: PaymentMethod, amount: number, reference?: string) => {
+  addPayment: (method: PaymentMethod, amount: number, reference?: string, giftCardNumber?: string) => {
     const payment: Payment = {
       id: uuid(),
       method,
       amount,
       reference,
+      giftCardNumber,
       processedAt: new Date(),
       status: 'completed',
     };
@@ -332,48 +577,9 @@ export const useCartStore = create<CartState & CartActions>((set, get) => ({
   },
 
   calculateTotals: () => {
-    set((state) => {
-      const { items } = state.cart;
-      const { discounts } = state;
-
-      let subtotal = items.reduce(
-        (sum, ci) => sum + ci.quantity * ci.unitPrice,
-        0
-      );
-
-      // Apply item-level discounts
-      let itemDiscountTotal = items.reduce(
-        (sum, ci) => sum + ci.discountAmount,
-        0
-      );
-
-      // Apply cart-level discounts
-      let cartDiscountTotal = 0;
-      discounts
-        .filter((d) => d.appliedTo === 'cart')
-        .forEach((d) => {
-          if (d.type === 'percent') {
-            cartDiscountTotal += subtotal * (d.value / 100);
-          } else {
-            cartDiscountTotal += d.value;
-          }
-        });
-
-      const discountTotal = itemDiscountTotal + cartDiscountTotal;
-      const taxableAmount = subtotal - discountTotal;
-      const taxTotal = taxableAmount * TAX_RATE;
-      const total = taxableAmount + taxTotal;
-
-      return {
-        cart: {
-          ...state.cart,
-          subtotal,
-          discountTotal,
-          taxTotal,
-          total,
-        },
-      };
-    });
+    set((state) => ({
+      cart: withTotals(state.cart, state.discounts),
+    }));
   },
 
   getRemainingBalance: () => {
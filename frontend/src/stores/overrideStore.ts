@@ -0,0 +1,102 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ManagerApproval, OverrideAction, OverridePolicy } from '../types';
+import { api, endpoints } from '../services/api';
+import { useAuthStore } from './authStore';
+
+// Which actions a cashier needs a manager to approve. Until the tenant's
+// policy has been loaded everything that can be restricted is.
+const DEFAULT_POLICY: OverridePolicy = {
+  void: { required: true },
+  discount: { required: true, threshold: 0 },
+  price_override: { required: true },
+  no_sale: { required: true },
+  return: { required: true, threshold: 0 },
+};
+
+export interface ApprovalRequest {
+  action: OverrideAction;
+  description: string;
+  // Discount percent or refund amount; the approval covers up to this much
+  value?: number;
+  details?: Record<string, unknown>;
+}
+
+interface OverrideState {
+  policy: OverridePolicy | null;
+  // Request waiting for a manager at the register
+  pending: ApprovalRequest | null;
+}
+
+interface OverrideActions {
+  loadPolicy: () => Promise<void>;
+  needsApproval: (action: OverrideAction, value?: number) => boolean;
+  requestApproval: (request: ApprovalRequest) => Promise<ManagerApproval | null>;
+  approve: (credentials: { approverId?: string; pin?: string; badge?: string }) => Promise<void>;
+  cancel: () => void;
+}
+
+// Settles the promise returned by requestApproval
+let settle: ((approval: ManagerApproval | null) => void) | null = null;
+
+export const useOverrideStore = create<OverrideState & OverrideActions>()(
+  persist(
+    (set, get) => ({
+      policy: null,
+      pending: null,
+
+      loadPolicy: async () => {
+        const response = await api.get<{ policy: OverridePolicy }>(endpoints.overridePolicy);
+        set({ policy: response.data.policy });
+      },
+
+      needsApproval: (action: OverrideAction, value = 0) => {
+        const { user, can } = useAuthStore.getState();
+        const rule = (get().policy ?? DEFAULT_POLICY)[action];
+
+        // Anyone who can approve overrides doesn't need approval themselves
+        if (!user || can('override.approve') || !rule.required) {
+          return false;
+        }
+        return rule.threshold === undefined || value > rule.threshold;
+      },
+
+      // Ask for a manager's PIN or badge. Resolves with the approval, or null
+      // if the cashier cancels.
+      requestApproval: (request: ApprovalRequest) => {
+        settle?.(null);
+        set({ pending: request });
+
+        return new Promise<ManagerApproval | null>((resolve) => {
+          settle = resolve;
+        });
+      },
+
+      approve: async (credentials: { approverId?: string; pin?: string; badge?: string }) => {
+        const { pending } = get();
+        if (!pending) return;
+
+        const response = await api.post<{ approval: ManagerApproval }>(endpoints.overrideApprove, {
+          action: pending.action,
+          value: pending.value,
+          details: pending.details,
+          ...credentials,
+        });
+
+        set({ pending: null });
+        settle?.(response.data.approval);
+        settle = null;
+      },
+
+      cancel: () => {
+        set({ pending: null });
+        settle?.(null);
+        settle = null;
+      },
+    }),
+    {
+      name: 'pos-overrides',
+      partialize: (state) => ({ policy: state.policy }),
+    }
+  )
+);
@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Promotion } from '../types';
+import { api, endpoints } from '../services/api';
+
+interface PromotionState {
+  promotions: Promotion[];
+}
+
+interface PromotionActions {
+  loadPromotions: () => Promise<void>;
+  setPromotions: (promotions: Promotion[]) => void;
+}
+
+// The tenant's promotions, kept so the register can apply them offline
+export const usePromotionStore = create<PromotionState & PromotionActions>()(
+  persist(
+    (set) => ({
+      promotions: [],
+
+      loadPromotions: async () => {
+        const response = await api.get<{ promotions: Promotion[] }>(endpoints.promotions);
+        set({ promotions: response.data.promotions });
+      },
+
+      setPromotions: (promotions: Promotion[]) => {
+        set({ promotions });
+      },
+    }),
+    {
+      name: 'pos-promotions',
+    }
+  )
+);
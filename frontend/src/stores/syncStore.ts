@@ -97,6 +97,11 @@ export const useSyncStore = create<SyncState & SyncActions>((set, get) => ({
             case 'inventory_adjustment':
               await api.post('/inventory/sync', item.data);
               break;
+            case 'spoiled_receipt': {
+              const { registerId, ...receipt } = item.data as { registerId: string };
+              await api.post(`/registers/${registerId}/spoiled-receipts`, receipt);
+              break;
+            }
           }
 
           await db.syncQueue.delete(item.id);
@@ -10,16 +10,60 @@ export interface User {
   registerId?: string;
   onboardingStep?: number;
   onboardingComplete?: boolean;
+  hasPin?: boolean;
+  permissions?: Permission[];
+}
+
+// Someone who can sign in at a register with their PIN
+export interface RegisterUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  canApprove: boolean;
 }
 
 export type UserRole = 'super_admin' | 'owner' | 'admin' | 'manager' | 'cashier';
 
+export type Permission =
+  | 'pos.sell'
+  | 'pos.no_sale'
+  | 'transaction.void'
+  | 'transaction.return'
+  | 'payment.refund'
+  | 'override.approve'
+  | 'shift.close_any'
+  | 'customer.edit'
+  | 'customer.edit_credit_limit'
+  | 'inventory.adjust'
+  | 'inventory.transfer'
+  | 'reports.view'
+  | 'reports.view_all_locations'
+  | 'sync.manage'
+  | 'settings.manage'
+  | 'promotions.manage'
+  | 'coupons.manage'
+  | 'giftcards.manage'
+  | 'netsuite.manage'
+  | 'users.manage'
+  | 'billing.manage';
+
+// Tenant-defined role whose permissions replace a user's role defaults
+export interface CustomRole {
+  id: string;
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  userCount?: number;
+}
+
 export interface Location {
   id: string;
   netsuiteId: string;
   name: string;
   subsidiary: string;
   address?: string;
+  taxJurisdiction?: string | null;
+  pricesIncludeTax?: boolean; // Shelf prices include tax (VAT)
   isActive: boolean;
 }
 
@@ -31,6 +75,16 @@ export interface Register {
   currentShiftId?: string;
 }
 
+// Receipt numbers reserved from the server for offline numbering
+export interface ReceiptNumberBlock {
+  id: string;
+  registerId: string;
+  template: string;
+  start: number;
+  end: number;
+  next: number;
+}
+
 export interface Shift {
   id: string;
   registerId: string;
@@ -53,15 +107,19 @@ export interface Item {
   name: string;
   description?: string;
   barcode?: string;
+  categoryId?: string | null;
   category?: string;
   basePrice: number;
   cost?: number;
   taxRate?: number;
+  taxCategory?: string | null; // NetSuite tax schedule
   trackInventory: boolean;
   isActive: boolean;
   imageUrl?: string;
   unit?: string;
   requiresWeight?: boolean;
+  isGiftCard?: boolean; // Sold for the amount put on a gift card
+  priceLevels?: PriceLevel[];
 }
 
 export interface InventoryLevel {
@@ -101,8 +159,11 @@ export interface Customer {
   priceLevel?: string;
   creditLimit?: number;
   balance: number;
+  storeCredit?: number;
   loyaltyPoints: number;
   taxExempt?: boolean;
+  taxExemptCertificate?: string | null;
+  group?: string | null; // For promotions limited to customer groups
   notes?: string;
 }
 
@@ -129,8 +190,26 @@ export interface CartItem {
   discountAmount: number;
   discountPercent: number;
   taxAmount: number;
+  taxes?: LineTax[];
+  taxIncluded?: boolean; // unitPrice includes the taxes
+  promotions?: AppliedPromotion[]; // Make up discountAmount when set
   lineTotal: number;
   notes?: string;
+  returnOf?: ReturnedLine;
+  priceOverride?: boolean; // Price keyed in with a manager's approval
+  giftCardNumber?: string; // Card a gift card line puts its price on
+}
+
+// The sold line a (negative) return line in an exchange gives back
+export interface ReturnedLine {
+  originalItemId: string;
+  soldQuantity: number;
+  returnableQuantity: number;
+  soldDiscount: number;
+  soldTax: number;
+  soldTaxes?: LineTax[];
+  soldTaxIncluded?: boolean;
+  disposition: ReturnDisposition;
 }
 
 export interface Cart {
@@ -138,9 +217,15 @@ export interface Cart {
   items: CartItem[];
   customerId?: string;
   customer?: Customer;
+  originalTransactionId?: string; // Sale that return lines come from
+  originalReceiptNumber?: string;
+  approvalIds?: string[]; // Manager approvals given while ringing up the cart
+  taxExemptCertificate?: string; // Captured at the register for exempt customers
   subtotal: number;
   discountTotal: number;
   taxTotal: number;
+  taxes?: TaxSummary[];
+  coupons?: AppliedCoupon[]; // In discountTotal
   total: number;
   notes?: string;
   onHold: boolean;
@@ -152,11 +237,45 @@ export interface Discount {
   type: 'percent' | 'fixed' | 'coupon';
   value: number;
   code?: string;
+  coupon?: Coupon; // Terms of a coupon discount, as checked by the server
   reason?: string;
   appliedTo?: 'cart' | 'item';
   itemId?: string;
 }
 
+export interface Coupon {
+  id: string;
+  code: string;
+  campaign?: string | null;
+  discountType: 'percent' | 'fixed';
+  value: number;
+  maxRedemptions?: number | null; // 1 for single-use codes
+  perCustomerLimit?: number | null;
+  minimumSpend?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  locationIds: string[];
+  customerId?: string | null; // Emailed to this customer only
+  isActive: boolean;
+  redemptions?: number;
+}
+
+// A coupon's discount on a sale
+export interface AppliedCoupon {
+  code: string;
+  amount: number;
+}
+
+export interface CouponCampaign {
+  campaign: string;
+  codes: number;
+  codesUsed: number;
+  redemptions: number;
+  customers: number;
+  discountTotal: number;
+  salesTotal: number;
+}
+
 // Transaction types
 
 export interface Transaction {
@@ -169,14 +288,20 @@ export interface Transaction {
   userId: string;
   customerId?: string;
   customer?: Customer;
+  originalTransactionId?: string;
   items: TransactionItem[];
   payments: Payment[];
   subtotal: number;
   taxTotal: number;
+  taxes?: TaxSummary[];
+  taxExemptCertificate?: string | null;
   discountTotal: number;
+  coupons?: AppliedCoupon[];
   total: number;
   notes?: string;
   receiptNumber: string;
+  receiptSequence?: number;
+  approvalIds?: string[];
   createdAt: Date;
   syncedAt?: Date;
 }
@@ -193,9 +318,18 @@ export interface TransactionItem {
   unitPrice: number;
   discountAmount: number;
   taxAmount: number;
+  taxes?: LineTax[] | null;
+  taxIncluded?: boolean;
+  promotions?: AppliedPromotion[] | null;
   lineTotal: number;
+  priceOverride?: boolean;
+  originalItemId?: string;
+  disposition?: ReturnDisposition;
+  giftCardNumber?: string;
 }
 
+export type ReturnDisposition = 'restock' | 'damaged' | 'discard';
+
 // Payment types
 
 export interface Payment {
@@ -208,6 +342,7 @@ export interface Payment {
   cardBrand?: string;
   giftCardNumber?: string;
   changeAmount?: number;
+  refundedAmount?: number;
   processedAt: Date;
   status: PaymentStatus;
 }
@@ -215,6 +350,119 @@ export interface Payment {
 export type PaymentMethod = 'cash' | 'card' | 'gift_card' | 'store_credit' | 'check' | 'other';
 export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
 
+export interface Refund {
+  id: string;
+  paymentId: string;
+  transactionId?: string;
+  amount: number;
+  reason?: string;
+  status: RefundStatus;
+  processorReference?: string;
+  error?: string;
+  createdAt: Date;
+}
+
+export type RefundStatus = 'pending' | 'completed' | 'failed' | 'voided';
+
+// Manager override types
+
+export type OverrideAction = 'void' | 'discount' | 'price_override' | 'no_sale' | 'return';
+
+export interface OverrideRule {
+  required: boolean;
+  threshold?: number; // Percent for discounts, amount refunded for returns
+}
+
+export type OverridePolicy = Record<OverrideAction, OverrideRule>;
+
+export interface ManagerApproval {
+  id: string;
+  action: OverrideAction;
+  value?: number;
+  approverName: string;
+  expiresAt: Date;
+}
+
+// Tenant settings types
+
+export interface TenantSettings {
+  idleLockMinutes: number; // 0 turns auto-lock off
+  taxRounding: TaxRounding;
+  giftCardExpiryMonths: number; // 0 means cards sold never expire
+}
+
+// Tax types. See shared/src/taxes.ts.
+
+export interface TaxRule {
+  jurisdiction: string;
+  name: string;
+  taxCategory: string | null; // null for every item
+  rate: number;
+  compound: boolean;
+  priority: number;
+}
+
+export type TaxRounding = 'line' | 'invoice';
+
+// A location as the tax settings list it
+export interface TaxLocation {
+  id: string;
+  name: string;
+  taxJurisdiction: string | null;
+  pricesIncludeTax: boolean;
+}
+
+// One tax charged on a line
+export interface LineTax {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxSummary {
+  name: string;
+  amount: number;
+}
+
+// Promotion types
+
+export type PromotionType = 'buy_x_get_y' | 'mix_and_match' | 'quantity_break' | 'bundle' | 'sale';
+
+export interface PromotionRules {
+  buyQuantity?: number;
+  getQuantity?: number;
+  percentOff?: number;
+  amountOff?: number;
+  quantity?: number;
+  price?: number;
+  breaks?: { quantity: number; percentOff: number }[];
+  components?: { itemId: string; quantity: number }[];
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  rules: PromotionRules;
+  itemIds: string[]; // With no items or categories it covers every item
+  categoryIds: string[];
+  locationIds: string[]; // Empty for every location
+  customerGroups: string[]; // Empty for every customer
+  startsAt: string | null;
+  endsAt: string | null;
+  daysOfWeek: number[]; // 0 is Sunday; empty for every day
+  startTime: string | null; // "HH:MM" for happy hours
+  endTime: string | null;
+  isActive: boolean;
+}
+
+// A promotion's discount on a line
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  amount: number;
+}
+
 // Gift card types
 
 export interface GiftCard {
@@ -225,6 +473,22 @@ export interface GiftCard {
   expiresAt?: Date;
   isActive: boolean;
   customerId?: string;
+  createdAt?: string;
+}
+
+export type GiftCardEntryType = 'activation' | 'reload' | 'redemption' | 'refund' | 'void' | 'adjustment';
+
+// A change to a gift card's balance
+export interface GiftCardEntry {
+  id: string;
+  type: GiftCardEntryType;
+  amount: number; // Negative when taken off the card
+  balance: number; // Balance after the entry
+  transactionId?: string | null;
+  receiptNumber?: string;
+  userId?: string | null;
+  note?: string | null;
+  createdAt: string;
 }
 
 // Sync types
@@ -239,7 +503,7 @@ export interface SyncStatus {
 
 export interface SyncQueueItem {
   id: string;
-  type: 'transaction' | 'customer' | 'inventory_adjustment';
+  type: 'transaction' | 'customer' | 'inventory_adjustment' | 'spoiled_receipt';
   action: 'create' | 'update' | 'delete';
   data: unknown;
   attempts: number;
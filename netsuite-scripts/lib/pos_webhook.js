@@ -0,0 +1,81 @@
+/**
+ * @NApiVersion 2.1
+ * @NModuleScope Public
+ *
+ * POS Webhook Library
+ * Sends signed events to the POS webhook endpoint.
+ *
+ * Script parameters read from the calling script:
+ *   custscript_pos_webhook_url    - e.g. https://api.yourpos.com/api/netsuite/webhook/acme
+ *   custscript_pos_webhook_secret - script id of the API Secret holding the POS webhook secret
+ */
+
+define(['N/https', 'N/crypto', 'N/encode', 'N/runtime', 'N/log'],
+  (https, crypto, encode, runtime, log) => {
+
+  /**
+   * HMAC-SHA256 of the body, hex encoded, keyed with the API Secret
+   * @param {string} body
+   * @param {string} secretId
+   */
+  const sign = (body, secretId) => {
+    const key = crypto.createSecretKey({
+      secret: secretId,
+      encoding: encode.Encoding.UTF_8
+    });
+
+    const hmac = crypto.createHmac({
+      algorithm: crypto.HashAlg.SHA256,
+      key: key
+    });
+
+    hmac.update({ input: body, inputEncoding: encode.Encoding.UTF_8 });
+    return hmac.digest({ outputEncoding: encode.Encoding.HEX }).toLowerCase();
+  };
+
+  /**
+   * Send an event to the POS
+   * @param {string} event - e.g. item.updated
+   * @param {string} eventId - Stable id so retries are ignored by the POS
+   * @param {Object} data
+   */
+  const send = (event, eventId, data) => {
+    const script = runtime.getCurrentScript();
+    const webhookUrl = script.getParameter({ name: 'custscript_pos_webhook_url' });
+    const secretId = script.getParameter({ name: 'custscript_pos_webhook_secret' });
+
+    if (!webhookUrl || !secretId) {
+      return;
+    }
+
+    const body = JSON.stringify({
+      id: eventId,
+      event: event,
+      accountId: runtime.accountId,
+      timestamp: new Date().toISOString(),
+      data: data
+    });
+
+    try {
+      const response = https.post({
+        url: webhookUrl,
+        body: body,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-POS-Signature': 'sha256=' + sign(body, secretId)
+        }
+      });
+
+      if (response.code >= 400) {
+        log.error({ title: 'Webhook Rejected', details: event + ' ' + response.code + ': ' + response.body });
+      }
+    } catch (e) {
+      log.error({
+        title: 'Webhook Error',
+        details: e.message
+      });
+    }
+  };
+
+  return { send };
+});
@@ -7,8 +7,8 @@
  * Main API endpoint for POS system integration
  */
 
-define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
-  (search, record, query, runtime, error) => {
+define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error', 'N/format'],
+  (search, record, query, runtime, error, format) => {
 
   /**
    * Handle GET requests
@@ -27,6 +27,8 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
           return getInventory(context);
         case 'getLocations':
           return getLocations();
+        case 'getSubsidiaries':
+          return getSubsidiaries();
         case 'getPriceLevels':
           return getPriceLevels(context);
         case 'testConnection':
@@ -53,8 +55,14 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
           return createCashSale(context.data);
         case 'createSalesOrder':
           return createSalesOrder(context.data);
+        case 'createCashRefund':
+          return createCashRefund(context.data);
+        case 'createReturnAuthorization':
+          return createReturnAuthorization(context.data);
         case 'createCustomer':
           return createCustomer(context.data);
+        case 'updateCustomer':
+          return updateCustomer(context.data);
         case 'createCustomerPayment':
           return createCustomerPayment(context.data);
         case 'adjustInventory':
@@ -71,21 +79,66 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
   // ============== GET Functions ==============
 
   /**
-   * Get all active inventory items
+   * Run one page of a search
+   * @param {Object} searchObj - Search to page through
+   * @param {Object} context - Request context with page and pageSize
+   * @param {Function} mapResult - Maps a search result to a response record
+   */
+  const runPage = (searchObj, context, mapResult) => {
+    const pageSize = Math.min(Math.max(parseInt(context.pageSize) || 1000, 5), 1000);
+    const page = parseInt(context.page) || 0;
+
+    const pagedData = searchObj.runPaged({ pageSize: pageSize });
+    const pageCount = pagedData.pageRanges.length;
+    const records = [];
+
+    if (page < pageCount) {
+      pagedData.fetch({ index: page }).data.forEach((result) => {
+        records.push(mapResult(result));
+      });
+    }
+
+    return {
+      records: records,
+      page: page,
+      pageCount: pageCount,
+      hasMore: page + 1 < pageCount
+    };
+  };
+
+  /**
+   * Convert an ISO timestamp from the POS to a search filter value
+   */
+  const toFilterDate = (iso) => {
+    return format.format({ value: new Date(iso), type: format.Type.DATETIME });
+  };
+
+  /**
+   * Convert a lastmodifieddate column value to an ISO timestamp
+   */
+  const toIsoDate = (value) => {
+    if (!value) return null;
+    return format.parse({ value: value, type: format.Type.DATETIME }).toISOString();
+  };
+
+  /**
+   * Get inventory items, optionally only those modified since lastModified.
+   * Delta pulls include inactive items so deactivations reach the POS.
+   * Gift certificate items are sold at the POS as gift cards.
    */
   const getItems = (context) => {
     const lastModified = context.lastModified;
-    const pageSize = context.pageSize || 1000;
 
     const filters = [
-      ['isinactive', 'is', 'F'],
-      'AND',
-      ['type', 'anyof', 'InvtPart', 'NonInvtPart', 'Kit', 'Assembly']
+      ['type', 'anyof', 'InvtPart', 'NonInvtPart', 'Kit', 'Assembly', 'GiftCert']
     ];
 
     if (lastModified) {
       filters.push('AND');
-      filters.push(['lastmodifieddate', 'onorafter', lastModified]);
+      filters.push(['lastmodifieddate', 'onorafter', toFilterDate(lastModified)]);
+    } else {
+      filters.push('AND');
+      filters.push(['isinactive', 'is', 'F']);
     }
 
     const itemSearch = search.create({
@@ -94,6 +147,7 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
       columns: [
         search.createColumn({ name: 'internalid' }),
         search.createColumn({ name: 'itemid' }),
+        search.createColumn({ name: 'type' }),
         search.createColumn({ name: 'displayname' }),
         search.createColumn({ name: 'description' }),
         search.createColumn({ name: 'upccode' }),
@@ -103,52 +157,47 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
         search.createColumn({ name: 'isinactive' }),
         search.createColumn({ name: 'custitem_pos_category' }), // Custom field
         search.createColumn({ name: 'stockunit' }),
-        search.createColumn({ name: 'lastmodifieddate' })
+        search.createColumn({ name: 'lastmodifieddate', sort: search.Sort.ASC })
       ]
     });
 
-    const items = [];
-    let count = 0;
-
-    itemSearch.run().each((result) => {
-      items.push({
-        internalId: result.getValue('internalid'),
-        itemId: result.getValue('itemid'),
-        displayName: result.getValue('displayname') || result.getValue('itemid'),
-        description: result.getValue('description'),
-        upcCode: result.getValue('upccode'),
-        salesPrice: parseFloat(result.getValue('salesprice')) || 0,
-        cost: parseFloat(result.getValue('cost')) || 0,
-        taxSchedule: result.getValue('taxschedule'),
-        isInactive: result.getValue('isinactive') === 'T',
-        category: result.getValue('custitem_pos_category'),
-        stockUnit: result.getValue('stockunit'),
-        lastModified: result.getValue('lastmodifieddate')
-      });
-
-      count++;
-      return count < pageSize;
-    });
+    const result = runPage(itemSearch, context, (row) => ({
+      internalId: row.getValue('internalid'),
+      itemId: row.getValue('itemid'),
+      displayName: row.getValue('displayname') || row.getValue('itemid'),
+      description: row.getValue('description'),
+      upcCode: row.getValue('upccode'),
+      salesPrice: parseFloat(row.getValue('salesprice')) || 0,
+      cost: parseFloat(row.getValue('cost')) || 0,
+      taxSchedule: row.getValue('taxschedule'),
+      isInactive: row.getValue('isinactive') === true || row.getValue('isinactive') === 'T',
+      isGiftCard: row.getValue('type') === 'GiftCert',
+      category: row.getValue('custitem_pos_category'),
+      stockUnit: row.getValue('stockunit'),
+      lastModified: toIsoDate(row.getValue('lastmodifieddate'))
+    }));
 
     return {
       success: true,
-      items: items,
-      count: items.length
+      items: result.records,
+      count: result.records.length,
+      page: result.page,
+      pageCount: result.pageCount,
+      hasMore: result.hasMore
     };
   };
 
   /**
-   * Get all customers
+   * Get active customers, optionally only those modified since lastModified
    */
   const getCustomers = (context) => {
     const lastModified = context.lastModified;
-    const pageSize = context.pageSize || 1000;
 
     const filters = [['isinactive', 'is', 'F']];
 
     if (lastModified) {
       filters.push('AND');
-      filters.push(['lastmodifieddate', 'onorafter', lastModified]);
+      filters.push(['lastmodifieddate', 'onorafter', toFilterDate(lastModified)]);
     }
 
     const customerSearch = search.create({
@@ -165,41 +214,39 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
         search.createColumn({ name: 'pricelevel' }),
         search.createColumn({ name: 'creditlimit' }),
         search.createColumn({ name: 'balance' }),
-        search.createColumn({ name: 'custentity_loyalty_points' }) // Custom field
+        search.createColumn({ name: 'custentity_loyalty_points' }), // Custom field
+        search.createColumn({ name: 'lastmodifieddate', sort: search.Sort.ASC })
       ]
     });
 
-    const customers = [];
-    let count = 0;
-
-    customerSearch.run().each((result) => {
-      customers.push({
-        internalId: result.getValue('internalid'),
-        entityId: result.getValue('entityid'),
-        firstName: result.getValue('firstname') || '',
-        lastName: result.getValue('lastname') || '',
-        email: result.getValue('email'),
-        phone: result.getValue('phone'),
-        companyName: result.getValue('companyname'),
-        priceLevel: result.getValue('pricelevel'),
-        creditLimit: parseFloat(result.getValue('creditlimit')) || 0,
-        balance: parseFloat(result.getValue('balance')) || 0,
-        loyaltyPoints: parseInt(result.getValue('custentity_loyalty_points')) || 0
-      });
-
-      count++;
-      return count < pageSize;
-    });
+    const result = runPage(customerSearch, context, (row) => ({
+      internalId: row.getValue('internalid'),
+      entityId: row.getValue('entityid'),
+      firstName: row.getValue('firstname') || '',
+      lastName: row.getValue('lastname') || '',
+      email: row.getValue('email'),
+      phone: row.getValue('phone'),
+      companyName: row.getValue('companyname'),
+      // The level's name, which is what the POS matches against item price levels
+      priceLevel: row.getText('pricelevel'),
+      creditLimit: parseFloat(row.getValue('creditlimit')) || 0,
+      balance: parseFloat(row.getValue('balance')) || 0,
+      loyaltyPoints: parseInt(row.getValue('custentity_loyalty_points')) || 0,
+      lastModified: toIsoDate(row.getValue('lastmodifieddate'))
+    }));
 
     return {
       success: true,
-      customers: customers,
-      count: customers.length
+      customers: result.records,
+      count: result.records.length,
+      page: result.page,
+      pageCount: result.pageCount,
+      hasMore: result.hasMore
     };
   };
 
   /**
-   * Get inventory levels for a location
+   * Get inventory levels, optionally for a single location
    */
   const getInventory = (context) => {
     const locationId = context.locationId;
@@ -219,7 +266,7 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
       type: search.Type.ITEM,
       filters: filters,
       columns: [
-        search.createColumn({ name: 'internalid' }),
+        search.createColumn({ name: 'internalid', sort: search.Sort.ASC }),
         search.createColumn({ name: 'inventorylocation' }),
         search.createColumn({ name: 'locationquantityonhand' }),
         search.createColumn({ name: 'locationquantityavailable' }),
@@ -227,24 +274,21 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
       ]
     });
 
-    const inventory = [];
-
-    invSearch.run().each((result) => {
-      inventory.push({
-        itemId: result.getValue('internalid'),
-        locationId: result.getValue('inventorylocation'),
-        quantityOnHand: parseFloat(result.getValue('locationquantityonhand')) || 0,
-        quantityAvailable: parseFloat(result.getValue('locationquantityavailable')) || 0,
-        quantityCommitted: parseFloat(result.getValue('locationquantitycommitted')) || 0
-      });
-
-      return true;
-    });
+    const result = runPage(invSearch, context, (row) => ({
+      itemId: row.getValue('internalid'),
+      locationId: row.getValue('inventorylocation'),
+      quantityOnHand: parseFloat(row.getValue('locationquantityonhand')) || 0,
+      quantityAvailable: parseFloat(row.getValue('locationquantityavailable')) || 0,
+      quantityCommitted: parseFloat(row.getValue('locationquantitycommitted')) || 0
+    }));
 
     return {
       success: true,
-      inventory: inventory,
-      count: inventory.length
+      inventory: result.records,
+      count: result.records.length,
+      page: result.page,
+      pageCount: result.pageCount,
+      hasMore: result.hasMore
     };
   };
 
@@ -270,6 +314,7 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
         internalId: result.getValue('internalid'),
         name: result.getValue('name'),
         subsidiary: result.getText('subsidiary'),
+        subsidiaryId: result.getValue('subsidiary'),
         address: result.getValue('address')
       });
 
@@ -283,29 +328,89 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
   };
 
   /**
-   * Get price levels for an item
+   * Get active subsidiaries. Accounts without OneWorld have none.
+   */
+  const getSubsidiaries = () => {
+    if (!runtime.isFeatureInEffect({ feature: 'SUBSIDIARIES' })) {
+      return { success: true, subsidiaries: [] };
+    }
+
+    const subsidiarySearch = search.create({
+      type: search.Type.SUBSIDIARY,
+      filters: [['isinactive', 'is', 'F']],
+      columns: [
+        search.createColumn({ name: 'internalid' }),
+        search.createColumn({ name: 'namenohierarchy' }),
+        search.createColumn({ name: 'parent' })
+      ]
+    });
+
+    const subsidiaries = [];
+
+    subsidiarySearch.run().each((result) => {
+      subsidiaries.push({
+        internalId: result.getValue('internalid'),
+        name: result.getValue('namenohierarchy'),
+        parentId: result.getValue('parent') || null
+      });
+
+      return true;
+    });
+
+    return {
+      success: true,
+      subsidiaries: subsidiaries
+    };
+  };
+
+  /**
+   * Get price levels for one item (itemId) or several (comma-separated itemIds).
+   * Uses the item pricing join so non-inventory and kit items are covered too.
    */
   const getPriceLevels = (context) => {
-    const itemId = context.itemId;
+    const itemIds = String(context.itemIds || context.itemId || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
 
-    if (!itemId) {
+    if (itemIds.length === 0) {
       return { success: false, error: 'Item ID required' };
     }
 
-    const itemRecord = record.load({
-      type: record.Type.INVENTORY_ITEM,
-      id: itemId
+    const priceSearch = search.create({
+      type: search.Type.ITEM,
+      filters: [
+        ['internalid', 'anyof', itemIds],
+        'AND',
+        ['pricing.unitprice', 'isnotempty', '']
+      ],
+      columns: [
+        search.createColumn({ name: 'internalid' }),
+        search.createColumn({ name: 'pricelevel', join: 'pricing' }),
+        search.createColumn({ name: 'unitprice', join: 'pricing' }),
+        search.createColumn({ name: 'minimumquantity', join: 'pricing', sort: search.Sort.ASC })
+      ]
     });
 
+    // Quantity pricing returns a row per break; keep the single-unit price
+    const seen = {};
     const priceLevels = [];
-    const lineCount = itemRecord.getLineCount({ sublistId: 'price1' });
 
-    for (let i = 0; i < lineCount; i++) {
-      priceLevels.push({
-        priceLevel: itemRecord.getSublistText({ sublistId: 'price1', fieldId: 'pricelevel', line: i }),
-        price: itemRecord.getSublistValue({ sublistId: 'price1', fieldId: 'price_1_', line: i })
-      });
-    }
+    priceSearch.run().each((row) => {
+      const itemId = row.getValue('internalid');
+      const priceLevel = row.getText({ name: 'pricelevel', join: 'pricing' });
+      const key = itemId + ':' + priceLevel;
+
+      if (!seen[key]) {
+        seen[key] = true;
+        priceLevels.push({
+          itemId: itemId,
+          priceLevel: priceLevel,
+          price: parseFloat(row.getValue({ name: 'unitprice', join: 'pricing' })) || 0
+        });
+      }
+      return true;
+    });
 
     return {
       success: true,
@@ -315,6 +420,147 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
 
   // ============== POST Functions ==============
 
+  /**
+   * Add an item line to a dynamic record. The POS sends the rate and amount
+   * after discounts; a rate of 0 (a free item) is kept rather than replaced by
+   * the item's price.
+   */
+  const addItemLine = (rec, item) => {
+    rec.selectNewLine({ sublistId: 'item' });
+    rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'item', value: item.item });
+    rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'quantity', value: item.quantity });
+
+    if (item.rate !== undefined && item.rate !== null) {
+      rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'rate', value: item.rate });
+    }
+
+    if (item.amount !== undefined && item.amount !== null) {
+      rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'amount', value: item.amount });
+    }
+
+    if (item.description) {
+      rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'description', value: item.description });
+    }
+
+    rec.commitLine({ sublistId: 'item' });
+  };
+
+  /**
+   * Reduce the lines copied from the original sale to the returned quantities.
+   * Returned items that were not on the original sale are added as new lines.
+   */
+  const setReturnLines = (rec, items) => {
+    const remaining = items.map((item) => ({
+      item: String(item.item),
+      quantity: item.quantity,
+      rate: item.rate,
+      amount: item.amount
+    }));
+
+    // Walk backwards so removing a line does not shift the lines still to visit
+    for (let i = rec.getLineCount({ sublistId: 'item' }) - 1; i >= 0; i--) {
+      const lineItem = String(rec.getSublistValue({ sublistId: 'item', fieldId: 'item', line: i }));
+      const match = remaining.find((r) => r.item === lineItem && r.quantity > 0);
+
+      if (!match) {
+        rec.removeLine({ sublistId: 'item', line: i });
+        continue;
+      }
+
+      const lineQty = parseFloat(rec.getSublistValue({ sublistId: 'item', fieldId: 'quantity', line: i })) || 0;
+      const quantity = Math.min(lineQty, match.quantity);
+
+      rec.selectLine({ sublistId: 'item', line: i });
+      rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'quantity', value: quantity });
+      // Refund what was paid for the returned units, not the original line's rate
+      if (match.rate !== undefined && match.rate !== null) {
+        rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'rate', value: match.rate });
+      }
+      if (quantity === match.quantity && match.amount !== undefined && match.amount !== null) {
+        rec.setCurrentSublistValue({ sublistId: 'item', fieldId: 'amount', value: match.amount });
+      }
+      rec.commitLine({ sublistId: 'item' });
+
+      match.quantity -= quantity;
+      // The amount is for the whole returned quantity, so units split over
+      // several lines go at the rate
+      delete match.amount;
+    }
+
+    remaining
+      .filter((r) => r.quantity > 0)
+      .forEach((r) => addItemLine(rec, r));
+  };
+
+  /**
+   * Internal id of the record of this type saved under the POS's external id, if any
+   */
+  const findByExternalId = (type, externalId) => {
+    const results = search.create({
+      type: type,
+      filters: [['externalid', 'anyof', externalId], 'AND', ['mainline', 'is', 'T']]
+    }).run().getRange({ start: 0, end: 1 });
+
+    return results.length ? results[0].id : null;
+  };
+
+  /**
+   * Save a record under the POS's external id. The POS retries requests that
+   * timed out, so when an earlier attempt already saved the record, NetSuite's
+   * duplicate error means success and the existing record is returned.
+   */
+  const saveOnce = (rec, type, externalId) => {
+    if (!externalId) {
+      return rec.save();
+    }
+
+    rec.setValue({ fieldId: 'externalid', value: externalId });
+
+    try {
+      return rec.save();
+    } catch (e) {
+      const existingId = e.name === 'DUP_RCRD' ? findByExternalId(type, externalId) : null;
+      if (!existingId) {
+        throw e;
+      }
+      log.audit('Duplicate external id', type + ' ' + externalId + ' already saved as ' + existingId);
+      return existingId;
+    }
+  };
+
+  /**
+   * Start a return-side record, copied from the original cash sale when known
+   */
+  const createReturnRecord = (type, data) => {
+    let rec;
+
+    if (data.createdFrom) {
+      rec = record.transform({
+        fromType: record.Type.CASH_SALE,
+        fromId: data.createdFrom,
+        toType: type,
+        isDynamic: true
+      });
+      setReturnLines(rec, data.items);
+    } else {
+      rec = record.create({ type: type, isDynamic: true });
+
+      if (data.entity) {
+        rec.setValue({ fieldId: 'entity', value: data.entity });
+      }
+      data.items.forEach((item) => addItemLine(rec, item));
+    }
+
+    rec.setValue({ fieldId: 'location', value: data.location });
+    rec.setValue({ fieldId: 'trandate', value: new Date() });
+
+    if (data.memo) {
+      rec.setValue({ fieldId: 'memo', value: data.memo });
+    }
+
+    return rec;
+  };
+
   /**
    * Create a Cash Sale transaction
    */
@@ -337,28 +583,14 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
     }
 
     // Add line items
-    data.items.forEach((item) => {
-      cashSale.selectNewLine({ sublistId: 'item' });
-      cashSale.setCurrentSublistValue({ sublistId: 'item', fieldId: 'item', value: item.item });
-      cashSale.setCurrentSublistValue({ sublistId: 'item', fieldId: 'quantity', value: item.quantity });
-
-      if (item.rate) {
-        cashSale.setCurrentSublistValue({ sublistId: 'item', fieldId: 'rate', value: item.rate });
-      }
-
-      if (item.description) {
-        cashSale.setCurrentSublistValue({ sublistId: 'item', fieldId: 'description', value: item.description });
-      }
-
-      cashSale.commitLine({ sublistId: 'item' });
-    });
+    data.items.forEach((item) => addItemLine(cashSale, item));
 
     // Set payment method (optional - depends on your setup)
     if (data.paymentMethod) {
       cashSale.setValue({ fieldId: 'paymentmethod', value: data.paymentMethod });
     }
 
-    const cashSaleId = cashSale.save();
+    const cashSaleId = saveOnce(cashSale, record.Type.CASH_SALE, data.externalId);
 
     // Get the transaction number
     const savedRecord = record.load({
@@ -373,6 +605,98 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
     };
   };
 
+  /**
+   * Create a Cash Refund, from the original cash sale when createdFrom is given
+   */
+  const createCashRefund = (data) => {
+    const cashRefund = createReturnRecord(record.Type.CASH_REFUND, data);
+
+    if (data.paymentMethod) {
+      cashRefund.setValue({ fieldId: 'paymentmethod', value: data.paymentMethod });
+    }
+
+    const cashRefundId = saveOnce(cashRefund, record.Type.CASH_REFUND, data.externalId);
+
+    return {
+      success: true,
+      internalId: cashRefundId,
+      tranId: search.lookupFields({
+        type: search.Type.CASH_REFUND,
+        id: cashRefundId,
+        columns: ['tranid']
+      }).tranid
+    };
+  };
+
+  /**
+   * Create an approved Return Authorization, receive the goods with an
+   * Item Receipt, then refund the customer with a Cash Refund. Each record is
+   * saved under the POS's external id, so a retry picks up after the last
+   * step an earlier attempt finished.
+   */
+  const createReturnAuthorization = (data) => {
+    const existing = (type) => (data.externalId ? findByExternalId(type, data.externalId) : null);
+
+    let returnAuthId = existing(record.Type.RETURN_AUTHORIZATION);
+    if (!returnAuthId) {
+      const returnAuth = createReturnRecord(record.Type.RETURN_AUTHORIZATION, data);
+      returnAuth.setValue({ fieldId: 'orderstatus', value: 'B' }); // Pending Receipt
+      returnAuthId = saveOnce(returnAuth, record.Type.RETURN_AUTHORIZATION, data.externalId);
+    }
+
+    let itemReceiptId = existing(record.Type.ITEM_RECEIPT);
+    if (!itemReceiptId) {
+      const itemReceipt = record.transform({
+        fromType: record.Type.RETURN_AUTHORIZATION,
+        fromId: returnAuthId,
+        toType: record.Type.ITEM_RECEIPT,
+        isDynamic: true
+      });
+
+      for (let i = 0; i < itemReceipt.getLineCount({ sublistId: 'item' }); i++) {
+        itemReceipt.selectLine({ sublistId: 'item', line: i });
+        itemReceipt.setCurrentSublistValue({ sublistId: 'item', fieldId: 'itemreceive', value: true });
+        itemReceipt.setCurrentSublistValue({ sublistId: 'item', fieldId: 'location', value: data.location });
+        itemReceipt.commitLine({ sublistId: 'item' });
+      }
+
+      itemReceiptId = saveOnce(itemReceipt, record.Type.ITEM_RECEIPT, data.externalId);
+    }
+
+    let cashRefundId = existing(record.Type.CASH_REFUND);
+    if (!cashRefundId) {
+      const cashRefund = record.transform({
+        fromType: record.Type.RETURN_AUTHORIZATION,
+        fromId: returnAuthId,
+        toType: record.Type.CASH_REFUND,
+        isDynamic: true
+      });
+
+      if (data.paymentMethod) {
+        cashRefund.setValue({ fieldId: 'paymentmethod', value: data.paymentMethod });
+      }
+
+      cashRefundId = saveOnce(cashRefund, record.Type.CASH_REFUND, data.externalId);
+    }
+
+    return {
+      success: true,
+      internalId: returnAuthId,
+      tranId: search.lookupFields({
+        type: search.Type.RETURN_AUTHORIZATION,
+        id: returnAuthId,
+        columns: ['tranid']
+      }).tranid,
+      itemReceiptId: itemReceiptId,
+      refundId: cashRefundId,
+      refundTranId: search.lookupFields({
+        type: search.Type.CASH_REFUND,
+        id: cashRefundId,
+        columns: ['tranid']
+      }).tranid
+    };
+  };
+
   /**
    * Create a Sales Order
    */
@@ -445,7 +769,86 @@ define(['N/search', 'N/record', 'N/query', 'N/runtime', 'N/error'],
 
     return {
       success: true,
-      internalId: customerId
+      internalId: customerId,
+      lastModified: customerLastModified(customerId)
+    };
+  };
+
+  /**
+   * Current lastmodifieddate of a customer as an ISO timestamp
+   */
+  const customerLastModified = (customerId) => {
+    const fields = search.lookupFields({
+      type: search.Type.CUSTOMER,
+      id: customerId,
+      columns: ['lastmodifieddate']
+    });
+    return toIsoDate(fields.lastmodifieddate);
+  };
+
+  /**
+   * Update fields edited in the POS. If the customer changed in NetSuite after
+   * expectedLastModified nothing is saved and the current values are returned,
+   * so the POS can merge them instead of overwriting newer changes.
+   */
+  const updateCustomer = (data) => {
+    const fieldIds = {
+      firstName: 'firstname',
+      lastName: 'lastname',
+      email: 'email',
+      phone: 'phone',
+      company: 'companyname'
+    };
+
+    const lastModified = customerLastModified(data.internalId);
+
+    if (data.expectedLastModified && lastModified &&
+        new Date(lastModified).getTime() > new Date(data.expectedLastModified).getTime()) {
+      const current = search.lookupFields({
+        type: search.Type.CUSTOMER,
+        id: data.internalId,
+        columns: ['entityid', 'firstname', 'lastname', 'email', 'phone', 'companyname',
+          'pricelevel', 'creditlimit', 'balance']
+      });
+
+      return {
+        success: true,
+        updated: false,
+        lastModified: lastModified,
+        customer: {
+          internalId: data.internalId,
+          entityId: current.entityid,
+          firstName: current.firstname || '',
+          lastName: current.lastname || '',
+          email: current.email,
+          phone: current.phone,
+          companyName: current.companyname,
+          priceLevel: current.pricelevel && current.pricelevel[0] ? current.pricelevel[0].text : null,
+          creditLimit: parseFloat(current.creditlimit) || 0,
+          balance: parseFloat(current.balance) || 0,
+          lastModified: lastModified
+        }
+      };
+    }
+
+    const values = {};
+    Object.keys(data.fields || {}).forEach((key) => {
+      if (fieldIds[key]) {
+        values[fieldIds[key]] = data.fields[key] || '';
+      }
+    });
+
+    record.submitFields({
+      type: record.Type.CUSTOMER,
+      id: data.internalId,
+      values: values
+    });
+
+    return {
+      success: true,
+      updated: true,
+      internalId: data.internalId,
+      lastModified: customerLastModified(data.internalId)
     };
   };
 
@@ -0,0 +1,77 @@
+/**
+ * @NApiVersion 2.1
+ * @NScriptType UserEventScript
+ * @NModuleScope Public
+ *
+ * POS Record Webhook User Event Script
+ * Deploy on inventory items and customers to push changes to the POS in near real time
+ */
+
+define(['N/record', 'N/log', '../lib/pos_webhook'],
+  (record, log, posWebhook) => {
+
+  /**
+   * Executes after an item or customer is created or edited
+   * @param {Object} context
+   */
+  const afterSubmit = (context) => {
+    if (context.type === context.UserEventType.DELETE) {
+      return;
+    }
+
+    const rec = context.newRecord;
+    // lastmodifieddate changes on every save, so retries of one save share an id
+    const eventId = rec.type + ':' + rec.id + ':' + rec.getValue('lastmodifieddate');
+
+    try {
+      if (rec.type === record.Type.CUSTOMER) {
+        posWebhook.send('customer.updated', eventId, {
+          internalId: rec.id,
+          firstName: rec.getValue('firstname') || '',
+          lastName: rec.getValue('lastname') || '',
+          email: rec.getValue('email'),
+          phone: rec.getValue('phone'),
+          companyName: rec.getValue('companyname'),
+          priceLevel: rec.getText('pricelevel') || '',
+          creditLimit: parseFloat(rec.getValue('creditlimit')) || 0,
+          balance: parseFloat(rec.getValue('balance')) || 0,
+          lastModified: rec.getValue('lastmodifieddate') ? new Date(rec.getValue('lastmodifieddate')).toISOString() : null
+        });
+        return;
+      }
+
+      const priceLevels = [];
+      const priceLineCount = rec.getLineCount({ sublistId: 'price1' });
+      for (let i = 0; i < priceLineCount; i++) {
+        const price = rec.getSublistValue({ sublistId: 'price1', fieldId: 'price_1_', line: i });
+        if (price !== '' && price !== null) {
+          priceLevels.push({
+            priceLevel: rec.getSublistText({ sublistId: 'price1', fieldId: 'pricelevel', line: i }),
+            price: parseFloat(price) || 0
+          });
+        }
+      }
+
+      posWebhook.send('item.updated', eventId, {
+        internalId: rec.id,
+        itemId: rec.getValue('itemid'),
+        displayName: rec.getValue('displayname') || rec.getValue('itemid'),
+        description: rec.getValue('salesdescription'),
+        upcCode: rec.getValue('upccode'),
+        salesPrice: parseFloat(rec.getSublistValue({ sublistId: 'price1', fieldId: 'price_1_', line: 0 })) || 0,
+        cost: parseFloat(rec.getValue('cost')) || 0,
+        isInactive: rec.getValue('isinactive') === true,
+        priceLevels: priceLevels
+      });
+    } catch (e) {
+      log.error({
+        title: 'POS Record Webhook Error',
+        details: e.message
+      });
+    }
+  };
+
+  return {
+    afterSubmit: afterSubmit
+  };
+});
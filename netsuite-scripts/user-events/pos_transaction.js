@@ -7,8 +7,8 @@
  * Handles events on Cash Sale and Sales Order records created from POS
  */
 
-define(['N/record', 'N/search', 'N/https', 'N/runtime', 'N/log'],
-  (record, search, https, runtime, log) => {
+define(['N/record', 'N/search', 'N/runtime', 'N/log', '../lib/pos_webhook'],
+  (record, search, runtime, log, posWebhook) => {
 
   /**
    * Executes after a Cash Sale or Sales Order is submitted
@@ -155,41 +155,68 @@ define(['N/record', 'N/search', 'N/https', 'N/runtime', 'N/log'],
    * @param {string} eventType
    */
   const sendPOSWebhook = (transactionRecord, eventType) => {
-    const webhookUrl = runtime.getCurrentScript().getParameter({
-      name: 'custscript_pos_webhook_url'
+    const eventId = transactionRecord.type + ':' + transactionRecord.id + ':' + eventType + ':' + Date.now();
+
+    posWebhook.send('transaction.' + eventType.toLowerCase(), eventId, {
+      internalId: transactionRecord.id,
+      tranId: transactionRecord.getValue('tranid'),
+      type: transactionRecord.type,
+      total: transactionRecord.getValue('total'),
+      customer: transactionRecord.getValue('entity'),
+      location: transactionRecord.getValue('location')
     });
 
-    if (!webhookUrl) {
-      return;
+    if (eventType === 'create') {
+      sendInventoryWebhook(transactionRecord);
     }
+  };
 
-    const payload = {
-      event: 'transaction.' + eventType.toLowerCase(),
-      timestamp: new Date().toISOString(),
-      data: {
-        internalId: transactionRecord.id,
-        tranId: transactionRecord.getValue('tranid'),
-        type: transactionRecord.type,
-        total: transactionRecord.getValue('total'),
-        customer: transactionRecord.getValue('entity'),
-        location: transactionRecord.getValue('location')
-      }
-    };
+  /**
+   * Send the new stock levels of the sold items at the transaction's location
+   * @param {Object} transactionRecord
+   */
+  const sendInventoryWebhook = (transactionRecord) => {
+    const location = transactionRecord.getValue('location');
+    const itemIds = [];
 
-    try {
-      https.post({
-        url: webhookUrl,
-        body: JSON.stringify(payload),
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-    } catch (e) {
-      log.error({
-        title: 'Webhook Error',
-        details: e.message
-      });
+    for (let i = 0; i < transactionRecord.getLineCount({ sublistId: 'item' }); i++) {
+      itemIds.push(transactionRecord.getSublistValue({ sublistId: 'item', fieldId: 'item', line: i }));
+    }
+
+    if (!location || itemIds.length === 0) {
+      return;
     }
+
+    const levels = [];
+
+    search.create({
+      type: search.Type.ITEM,
+      filters: [
+        ['internalid', 'anyof', itemIds],
+        'AND',
+        ['inventorylocation', 'anyof', location]
+      ],
+      columns: [
+        'internalid',
+        'inventorylocation',
+        'locationquantityonhand',
+        'locationquantityavailable',
+        'locationquantitycommitted'
+      ]
+    }).run().each((result) => {
+      levels.push({
+        itemId: result.getValue('internalid'),
+        locationId: result.getValue('inventorylocation'),
+        quantityOnHand: parseFloat(result.getValue('locationquantityonhand')) || 0,
+        quantityAvailable: parseFloat(result.getValue('locationquantityavailable')) || 0,
+        quantityCommitted: parseFloat(result.getValue('locationquantitycommitted')) || 0
+      });
+      return true;
+    });
+
+    posWebhook.send('inventory.updated', 'inventory:' + transactionRecord.type + ':' + transactionRecord.id, {
+      levels: levels
+    });
   };
 
   return {
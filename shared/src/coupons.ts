@@ -0,0 +1,33 @@
+import { roundMoney } from './totals.js';
+
+// Coupon math, used by the register to take coupons off the cart and by the
+// server to check them, so a coupon entered at the register gives the
+// discount recorded.
+
+export interface CouponTerms {
+  // Lower case as the API sends it, upper case as the database stores it
+  discountType: 'percent' | 'fixed' | 'PERCENT' | 'FIXED';
+  value: number;
+}
+
+export interface CouponLine {
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number;
+}
+
+// What the sold lines come to after line discounts, which coupons are worked
+// out on
+export const couponSpend = (lines: CouponLine[]): number =>
+  roundMoney(
+    lines.reduce((sum, line) => sum + Math.max(roundMoney(line.quantity * line.unitPrice) - line.discountAmount, 0), 0)
+  );
+
+// What a coupon takes off, up to what is left of the cart after line
+// discounts and the coupons before it
+export function couponAmount(coupon: CouponTerms, spend: number, left: number): number {
+  const amount = coupon.discountType.toLowerCase() === 'percent'
+    ? spend * (coupon.value / 100)
+    : coupon.value;
+  return roundMoney(Math.min(amount, Math.max(left, 0)));
+}
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PromotionContext,
+  PromotionInput,
+  PromotionLine,
+  applyPromotions,
+  isPromotionActive,
+} from './promotions.js';
+
+const promotion = (fields: Partial<PromotionInput> & Pick<PromotionInput, 'id' | 'type' | 'rules'>): PromotionInput => ({
+  name: fields.id,
+  itemIds: [],
+  categoryIds: [],
+  locationIds: [],
+  customerGroups: [],
+  startsAt: null,
+  endsAt: null,
+  daysOfWeek: [],
+  startTime: null,
+  endTime: null,
+  isActive: true,
+  ...fields,
+});
+
+const line = (itemId: string, quantity: number, unitPrice: number, categoryId?: string): PromotionLine => ({
+  itemId,
+  categoryId,
+  quantity,
+  unitPrice,
+});
+
+// Friday 16 October 2026, 17:30 in New York
+const context: PromotionContext = {
+  locationId: 'store-1',
+  at: new Date('2026-10-16T21:30:00Z'),
+  timeZone: 'America/New_York',
+};
+
+// Each line's promotions as id: amount
+const discounts = (lines: PromotionLine[], promotions: PromotionInput[], at = context) =>
+  applyPromotions(lines, promotions, at).map((applied) =>
+    Object.fromEntries(applied.map((p) => [p.id, p.amount]))
+  );
+
+describe('applyPromotions by type', () => {
+  it('takes a percentage off each unit on sale', () => {
+    const sale = promotion({ id: 'sale', type: 'sale', rules: { percentOff: 25 }, itemIds: ['shirt'] });
+
+    expect(discounts([line('shirt', 2, 20), line('socks', 1, 5)], [sale])).toEqual([{ sale: 10 }, {}]);
+  });
+
+  it('takes an amount off each unit on sale, up to its price', () => {
+    const sale = promotion({ id: 'sale', type: 'sale', rules: { amountOff: 3 } });
+
+    expect(discounts([line('shirt', 2, 20), line('sticker', 1, 2)], [sale])).toEqual([{ sale: 6 }, { sale: 2 }]);
+  });
+
+  it('gives the best quantity break an item reaches on every unit of it', () => {
+    const breaks = promotion({
+      id: 'breaks',
+      type: 'quantity_break',
+      rules: {
+        breaks: [
+          { quantity: 3, percentOff: 10 },
+          { quantity: 6, percentOff: 20 },
+        ],
+      },
+    });
+
+    expect(discounts([line('soda', 2, 1)], [breaks])).toEqual([{}]);
+    expect(discounts([line('soda', 4, 1)], [breaks])).toEqual([{ breaks: 0.4 }]);
+    expect(discounts([line('soda', 6, 1)], [breaks])).toEqual([{ breaks: 1.2 }]);
+  });
+
+  it('gives away the cheapest units of each buy X get Y group', () => {
+    const bogo = promotion({ id: 'bogo', type: 'buy_x_get_y', rules: { buyQuantity: 2, getQuantity: 1 } });
+
+    expect(discounts([line('a', 1, 10), line('b', 1, 6), line('c', 1, 4)], [bogo])).toEqual([{}, {}, { bogo: 4 }]);
+    // Only whole groups count: the seventh unit gets nothing
+    expect(discounts([line('a', 7, 10)], [bogo])).toEqual([{ bogo: 20 }]);
+  });
+
+  it('takes percentOff the units got with buy X get Y', () => {
+    const halfOff = promotion({
+      id: 'half',
+      type: 'buy_x_get_y',
+      rules: { buyQuantity: 1, getQuantity: 1, percentOff: 50 },
+    });
+
+    expect(discounts([line('a', 2, 10)], [halfOff])).toEqual([{ half: 5 }]);
+  });
+
+  it('sells any mix and match group for its price, spread over the units by price', () => {
+    const threeForTen = promotion({
+      id: 'mix',
+      type: 'mix_and_match',
+      rules: { quantity: 3, price: 10 },
+      categoryIds: ['snacks'],
+    });
+
+    expect(
+      discounts(
+        [line('chips', 1, 5, 'snacks'), line('nuts', 1, 4, 'snacks'), line('candy', 1, 3, 'snacks'), line('soda', 1, 2)],
+        [threeForTen]
+      )
+    ).toEqual([{ mix: 0.83 }, { mix: 0.67 }, { mix: 0.5 }, {}]);
+  });
+
+  it('sells each complete bundle for its price', () => {
+    const meal = promotion({
+      id: 'meal',
+      type: 'bundle',
+      rules: {
+        components: [
+          { itemId: 'burger', quantity: 1 },
+          { itemId: 'fries', quantity: 1 },
+        ],
+        price: 9,
+      },
+    });
+
+    expect(discounts([line('burger', 2, 8), line('fries', 1, 3)], [meal])).toEqual([{ meal: 1.45 }, { meal: 0.55 }]);
+    expect(discounts([line('burger', 1, 8)], [meal])).toEqual([{}]);
+  });
+
+  it('leaves out lines passed with no quantity', () => {
+    const sale = promotion({ id: 'sale', type: 'sale', rules: { percentOff: 10 } });
+
+    expect(discounts([line('a', 0, 10), line('b', 1, 10)], [sale])).toEqual([{}, { sale: 1 }]);
+  });
+});
+
+describe('applyPromotions stacking', () => {
+  it('gives a unit only the promotion worth the most', () => {
+    const tenOff = promotion({ id: 'ten', type: 'sale', rules: { percentOff: 10 } });
+    const twentyOff = promotion({ id: 'twenty', type: 'sale', rules: { percentOff: 20 } });
+
+    expect(discounts([line('a', 1, 10)], [tenOff, twentyOff])).toEqual([{ twenty: 2 }]);
+  });
+
+  it('applies the next best promotion to the units the best one left', () => {
+    const clearance = promotion({ id: 'clearance', type: 'sale', rules: { percentOff: 50 }, itemIds: ['a'] });
+    const storewide = promotion({ id: 'storewide', type: 'sale', rules: { percentOff: 10 } });
+
+    expect(discounts([line('a', 1, 10), line('b', 1, 10)], [storewide, clearance])).toEqual([
+      { clearance: 5 },
+      { storewide: 1 },
+    ]);
+  });
+
+  it("doesn't give the units bought for a buy X get Y another promotion", () => {
+    const bogo = promotion({ id: 'bogo', type: 'buy_x_get_y', rules: { buyQuantity: 1, getQuantity: 1 } });
+    const storewide = promotion({ id: 'storewide', type: 'sale', rules: { percentOff: 10 } });
+
+    expect(discounts([line('a', 2, 10)], [bogo, storewide])).toEqual([{ bogo: 10 }]);
+    // The third unit isn't part of a group, so the sale still applies to it
+    expect(discounts([line('a', 3, 10)], [bogo, storewide])).toEqual([{ bogo: 10, storewide: 1 }]);
+  });
+});
+
+describe('isPromotionActive', () => {
+  const happyHour = promotion({
+    id: 'happy',
+    type: 'sale',
+    rules: { percentOff: 10 },
+    daysOfWeek: [1, 2, 3, 4, 5],
+    startTime: '16:00',
+    endTime: '18:00',
+  });
+
+  it("runs during its happy hour in the tenant's time zone", () => {
+    expect(isPromotionActive(happyHour, context)).toBe(true);
+    // 22:30 in London
+    expect(isPromotionActive(happyHour, { ...context, timeZone: 'Europe/London' })).toBe(false);
+  });
+
+  it('stops at the end time', () => {
+    expect(isPromotionActive(happyHour, { ...context, at: new Date('2026-10-16T21:59:00Z') })).toBe(true);
+    expect(isPromotionActive(happyHour, { ...context, at: new Date('2026-10-16T22:00:00Z') })).toBe(false);
+  });
+
+  it('runs on its weekdays only', () => {
+    // Saturday 17:30 in New York
+    expect(isPromotionActive(happyHour, { ...context, at: new Date('2026-10-17T21:30:00Z') })).toBe(false);
+    // Still Friday in Los Angeles when it is already Saturday in UTC
+    expect(
+      isPromotionActive(
+        { ...happyHour, startTime: null, endTime: null },
+        { ...context, at: new Date('2026-10-17T02:00:00Z'), timeZone: 'America/Los_Angeles' }
+      )
+    ).toBe(true);
+  });
+
+  it('runs between its dates', () => {
+    const dated = promotion({
+      id: 'dated',
+      type: 'sale',
+      rules: { percentOff: 10 },
+      startsAt: '2026-10-01T00:00:00Z',
+      endsAt: '2026-10-16T21:30:00Z',
+    });
+
+    expect(isPromotionActive(dated, { ...context, at: new Date('2026-09-30T23:59:00Z') })).toBe(false);
+    expect(isPromotionActive(dated, { ...context, at: new Date('2026-10-16T21:29:00Z') })).toBe(true);
+    expect(isPromotionActive(dated, context)).toBe(false);
+  });
+
+  it('runs for its locations and customer groups only', () => {
+    const vip = promotion({
+      id: 'vip',
+      type: 'sale',
+      rules: { percentOff: 10 },
+      locationIds: ['store-1'],
+      customerGroups: ['vip'],
+    });
+
+    expect(isPromotionActive(vip, { ...context, customerGroup: 'vip' })).toBe(true);
+    expect(isPromotionActive(vip, context)).toBe(false);
+    expect(isPromotionActive(vip, { ...context, locationId: 'store-2', customerGroup: 'vip' })).toBe(false);
+  });
+
+  it("doesn't run once turned off", () => {
+    expect(isPromotionActive({ ...happyHour, isActive: false }, context)).toBe(false);
+  });
+
+  it('is left out of the cart outside its hours', () => {
+    expect(discounts([line('a', 1, 10)], [happyHour], { ...context, timeZone: 'Europe/London' })).toEqual([{}]);
+  });
+});
@@ -0,0 +1,282 @@
+// Promotions engine, used by the register to give discounts and by the server
+// to check and record them, so the two always agree.
+//
+// Promotions apply to whole units of sold lines whose price and discount the
+// cashier hasn't changed. The promotion worth the most to the customer is
+// applied first, then the best of the rest to the units still left, and so on,
+// so a unit gets at most one promotion. Units a promotion needs without
+// discounting them, like the ones bought for a buy X get Y, are used up by it
+// as well.
+
+export type PromotionType = 'buy_x_get_y' | 'mix_and_match' | 'quantity_break' | 'bundle' | 'sale';
+
+// Settings for each type; only the ones for the promotion's type are used
+export interface PromotionRules {
+  // buy_x_get_y: buy this many, get the next ones percentOff (100 is free)
+  buyQuantity?: number;
+  getQuantity?: number;
+  // buy_x_get_y and sale
+  percentOff?: number;
+  // sale: a fixed amount off each unit instead of a percentage
+  amountOff?: number;
+  // mix_and_match: any `quantity` of the promotion's items for `price`
+  quantity?: number;
+  // mix_and_match and bundle
+  price?: number;
+  // quantity_break: percentOff every unit of an item once this many are bought
+  breaks?: { quantity: number; percentOff: number }[];
+  // bundle: these items together for `price`
+  components?: { itemId: string; quantity: number }[];
+}
+
+export interface PromotionInput {
+  id: string;
+  name: string;
+  type: PromotionType;
+  rules: PromotionRules;
+  // Items the promotion covers; with neither it covers every item
+  itemIds: string[];
+  categoryIds: string[];
+  // Empty for every location or customer
+  locationIds: string[];
+  customerGroups: string[];
+  startsAt: string | null;
+  endsAt: string | null;
+  // 0 is Sunday; empty for every day
+  daysOfWeek: number[];
+  // "HH:MM" in the tenant's time zone, for happy hours
+  startTime: string | null;
+  endTime: string | null;
+  isActive: boolean;
+}
+
+export interface PromotionLine {
+  itemId: string;
+  categoryId?: string | null;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface PromotionContext {
+  locationId: string;
+  customerGroup?: string | null;
+  at: Date;
+  timeZone: string;
+}
+
+// A promotion's discount on one line
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+interface Unit {
+  line: number;
+  itemId: string;
+  categoryId?: string | null;
+  price: number;
+}
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Weekday and minutes past midnight in the time zone
+function localTime(at: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether the promotion runs at this location, for this customer, right now
+export function isPromotionActive(promotion: PromotionInput, context: PromotionContext): boolean {
+  if (!promotion.isActive) return false;
+  if (promotion.locationIds.length > 0 && !promotion.locationIds.includes(context.locationId)) {
+    return false;
+  }
+  if (
+    promotion.customerGroups.length > 0 &&
+    !(context.customerGroup && promotion.customerGroups.includes(context.customerGroup))
+  ) {
+    return false;
+  }
+  if (promotion.startsAt && context.at < new Date(promotion.startsAt)) return false;
+  if (promotion.endsAt && context.at >= new Date(promotion.endsAt)) return false;
+
+  if (promotion.daysOfWeek.length > 0 || promotion.startTime || promotion.endTime) {
+    const { day, minutes } = localTime(context.at, context.timeZone);
+    if (promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(day)) return false;
+    if (promotion.startTime && minutes < toMinutes(promotion.startTime)) return false;
+    if (promotion.endTime && minutes >= toMinutes(promotion.endTime)) return false;
+  }
+
+  return true;
+}
+
+const covers = (promotion: PromotionInput, unit: Unit): boolean =>
+  (promotion.itemIds.length === 0 && promotion.categoryIds.length === 0) ||
+  promotion.itemIds.includes(unit.itemId) ||
+  (!!unit.categoryId && promotion.categoryIds.includes(unit.categoryId));
+
+// Spread a group's discount over its units in proportion to their price
+function spread(discounts: Map<Unit, number>, group: Unit[], discount: number): void {
+  const total = group.reduce((sum, unit) => sum + unit.price, 0);
+  if (discount <= 0 || total <= 0) return;
+  for (const unit of group) {
+    discounts.set(unit, Math.min(discount, total) * (unit.price / total));
+  }
+}
+
+// The discount a promotion gives each of the units it uses, which are sorted
+// most expensive first; units it needs but doesn't discount get 0
+function evaluate(promotion: PromotionInput, units: Unit[]): Map<Unit, number> {
+  const rules = promotion.rules;
+  const discounts = new Map<Unit, number>();
+  const covered = units.filter((unit) => covers(promotion, unit));
+
+  switch (promotion.type) {
+    case 'sale':
+      for (const unit of covered) {
+        const off = rules.amountOff
+          ? Math.min(rules.amountOff, unit.price)
+          : unit.price * ((rules.percentOff ?? 0) / 100);
+        if (off > 0) discounts.set(unit, off);
+      }
+      break;
+
+    case 'quantity_break': {
+      const byItem = new Map<string, Unit[]>();
+      for (const unit of covered) {
+        byItem.set(unit.itemId, [...(byItem.get(unit.itemId) ?? []), unit]);
+      }
+      for (const itemUnits of byItem.values()) {
+        const best = (rules.breaks ?? [])
+          .filter((b) => itemUnits.length >= b.quantity)
+          .sort((a, b) => b.quantity - a.quantity)[0];
+        if (!best) continue;
+        for (const unit of itemUnits) {
+          discounts.set(unit, unit.price * (best.percentOff / 100));
+        }
+      }
+      break;
+    }
+
+    case 'buy_x_get_y': {
+      const buy = rules.buyQuantity ?? 0;
+      const get = rules.getQuantity ?? 0;
+      if (buy < 1 || get < 1) break;
+      // The cheapest units of each group are the ones given away, and the
+      // ones bought for them can't earn another promotion
+      for (let i = 0; i + buy + get <= covered.length; i += buy + get) {
+        for (const unit of covered.slice(i, i + buy)) {
+          discounts.set(unit, 0);
+        }
+        for (const unit of covered.slice(i + buy, i + buy + get)) {
+          discounts.set(unit, unit.price * ((rules.percentOff ?? 100) / 100));
+        }
+      }
+      break;
+    }
+
+    case 'mix_and_match': {
+      const quantity = rules.quantity ?? 0;
+      if (quantity < 1) break;
+      for (let i = 0; i + quantity <= covered.length; i += quantity) {
+        const group = covered.slice(i, i + quantity);
+        spread(discounts, group, group.reduce((sum, unit) => sum + unit.price, 0) - (rules.price ?? 0));
+      }
+      break;
+    }
+
+    case 'bundle': {
+      const components = rules.components ?? [];
+      if (components.length === 0) break;
+      const left = new Map(components.map((c) => [c.itemId, units.filter((unit) => unit.itemId === c.itemId)]));
+      for (;;) {
+        const group: Unit[] = [];
+        for (const component of components) {
+          const available = left.get(component.itemId) ?? [];
+          if (available.length < component.quantity) return discounts;
+          group.push(...available.splice(0, component.quantity));
+        }
+        spread(discounts, group, group.reduce((sum, unit) => sum + unit.price, 0) - (rules.price ?? 0));
+      }
+    }
+  }
+
+  return discounts;
+}
+
+// The promotions each line gets. Lines left out (returns, overridden prices,
+// manual discounts) should be passed with a quantity of 0.
+export function applyPromotions(
+  lines: PromotionLine[],
+  promotions: PromotionInput[],
+  context: PromotionContext
+): AppliedPromotion[][] {
+  let units: Unit[] = lines
+    .flatMap((line, i) =>
+      Array.from({ length: Math.max(Math.floor(line.quantity), 0) }, () => ({
+        line: i,
+        itemId: line.itemId,
+        categoryId: line.categoryId,
+        price: line.unitPrice,
+      }))
+    )
+    .sort((a, b) => b.price - a.price || a.line - b.line);
+
+  let candidates = promotions
+    .filter((promotion) => isPromotionActive(promotion, context))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const applied = lines.map(() => new Map<string, AppliedPromotion>());
+
+  for (;;) {
+    let best: { promotion: PromotionInput; discounts: Map<Unit, number>; total: number } | null = null;
+
+    for (const promotion of candidates) {
+      const discounts = evaluate(promotion, units);
+      const total = [...discounts.values()].reduce((sum, value) => sum + value, 0);
+      if (total > (best?.total ?? 0.005)) {
+        best = { promotion, discounts, total };
+      }
+    }
+
+    if (!best) break;
+
+    for (const [unit, discount] of best.discounts) {
+      const lineApplied = applied[unit.line];
+      const current = lineApplied.get(best.promotion.id);
+      lineApplied.set(best.promotion.id, {
+        id: best.promotion.id,
+        name: best.promotion.name,
+        amount: (current?.amount ?? 0) + discount,
+      });
+    }
+
+    const used = best.discounts;
+    units = units.filter((unit) => !used.has(unit));
+    candidates = candidates.filter((promotion) => promotion !== best?.promotion);
+  }
+
+  return applied.map((lineApplied) =>
+    [...lineApplied.values()]
+      .map((promotion) => ({ ...promotion, amount: roundMoney(promotion.amount) }))
+      .filter((promotion) => promotion.amount > 0)
+  );
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TaxComponent,
+  TaxRuleInput,
+  computeLineTaxes,
+  resolveTaxComponents,
+  returnedTaxComponents,
+  summarizeTaxes,
+} from './taxes.js';
+
+const amounts = (lines: { amount: number }[][]) => lines.map((taxes) => taxes.map((tax) => tax.amount));
+
+const state: TaxRuleInput = { name: 'State', taxCategory: null, rate: 0.06, compound: false, priority: 1 };
+const city: TaxRuleInput = { name: 'City', taxCategory: null, rate: 0.02, compound: false, priority: 2 };
+
+const gst: TaxComponent = { name: 'GST', rate: 0.05, compound: false };
+const pst: TaxComponent = { name: 'PST', rate: 0.08, compound: true };
+
+describe('resolveTaxComponents', () => {
+  it("charges the item's or tenant's flat rate where the jurisdiction has no rules", () => {
+    expect(resolveTaxComponents([], 'grocery', 0.07)).toEqual([{ name: 'Tax', rate: 0.07, compound: false }]);
+  });
+
+  it('stacks the rules in priority order', () => {
+    expect(resolveTaxComponents([city, state], null, 0.07)).toEqual([
+      { name: 'State', rate: 0.06, compound: false },
+      { name: 'City', rate: 0.02, compound: false },
+    ]);
+  });
+
+  it("replaces a rule with the item category's rule of the same name", () => {
+    const grocery = { ...state, taxCategory: 'grocery', rate: 0.01 };
+
+    expect(resolveTaxComponents([state, city, grocery], 'grocery', 0.07)).toEqual([
+      { name: 'State', rate: 0.01, compound: false },
+      { name: 'City', rate: 0.02, compound: false },
+    ]);
+    expect(resolveTaxComponents([state, city, grocery], 'clothing', 0.07)).toEqual([
+      { name: 'State', rate: 0.06, compound: false },
+      { name: 'City', rate: 0.02, compound: false },
+    ]);
+  });
+
+  it('exempts a category with a zero rate rule', () => {
+    const exempt = resolveTaxComponents([state, { ...state, taxCategory: 'medicine', rate: 0 }], 'medicine', 0.07);
+
+    expect(amounts(computeLineTaxes([50], [exempt], [false], 'line'))).toEqual([[0]]);
+  });
+
+  it('applies compound rules after the rules they compound on', () => {
+    const rules = [
+      { name: 'PST', taxCategory: null, rate: 0.08, compound: true, priority: 1 },
+      { name: 'GST', taxCategory: null, rate: 0.05, compound: false, priority: 1 },
+    ];
+
+    expect(resolveTaxComponents(rules, null, 0).map((component) => component.name)).toEqual(['GST', 'PST']);
+  });
+});
+
+describe('computeLineTaxes', () => {
+  it('adds each stacked tax to a price without tax', () => {
+    const components = resolveTaxComponents([state, city], null, 0);
+
+    expect(computeLineTaxes([100], [components], [false], 'line')).toEqual([
+      [
+        { name: 'State', rate: 0.06, amount: 6 },
+        { name: 'City', rate: 0.02, amount: 2 },
+      ],
+    ]);
+  });
+
+  it('charges a compound tax on the price plus the taxes before it', () => {
+    expect(amounts(computeLineTaxes([100], [[gst, pst]], [false], 'line'))).toEqual([[5, 8.4]]);
+  });
+
+  it('backs the tax out of a price that includes it', () => {
+    const vat: TaxComponent = { name: 'VAT', rate: 0.2, compound: false };
+
+    expect(amounts(computeLineTaxes([120], [[vat]], [true], 'line'))).toEqual([[20]]);
+    expect(amounts(computeLineTaxes([113.4], [[gst, pst]], [true], 'line'))).toEqual([[5, 8.4]]);
+  });
+
+  it('charges nothing on lines sold tax exempt', () => {
+    expect(computeLineTaxes([100, 40], [[gst], []], [false, false], 'line')).toEqual([
+      [{ name: 'GST', rate: 0.05, amount: 5 }],
+      [],
+    ]);
+  });
+
+  // 7.5% of 0.10 is 0.0075, which rounds up on each line
+  const dimes = [0.1, 0.1, 0.1];
+  const sevenAndAHalf = dimes.map(() => [{ name: 'Tax', rate: 0.075, compound: false }]);
+  const excluded = dimes.map(() => false);
+
+  it('rounds tax on each line with line rounding', () => {
+    expect(amounts(computeLineTaxes(dimes, sevenAndAHalf, excluded, 'line'))).toEqual([[0.01], [0.01], [0.01]]);
+  });
+
+  it('rounds each tax once on the invoice with invoice rounding, keeping the lines adding up', () => {
+    const lines = computeLineTaxes(dimes, sevenAndAHalf, excluded, 'invoice');
+
+    expect(amounts(lines)).toEqual([[0], [0.01], [0.01]]);
+    expect(summarizeTaxes(lines)).toEqual([{ name: 'Tax', amount: 0.02 }]);
+  });
+
+  it('rounds refunds like sales', () => {
+    expect(amounts(computeLineTaxes([-100], [[gst, pst]], [false], 'line'))).toEqual([[-5, -8.4]]);
+  });
+});
+
+describe('returnedTaxComponents', () => {
+  it('gives back the share of each tax the sold line was charged', () => {
+    const components = returnedTaxComponents(
+      [
+        { name: 'State', rate: 0.06, amount: 6 },
+        { name: 'City', rate: 0.02, amount: 2 },
+      ],
+      100,
+      false
+    );
+
+    expect(amounts(computeLineTaxes([-50], [components], [false], 'line'))).toEqual([[-3, -1]]);
+  });
+
+  it('works out the rates on the sold price less tax where it included tax', () => {
+    const [component] = returnedTaxComponents([{ name: 'VAT', rate: 0.2, amount: 20 }], 120, true);
+
+    expect(component.rate).toBeCloseTo(0.2);
+  });
+
+  it('has no taxes for a line sold for nothing', () => {
+    expect(returnedTaxComponents([{ name: 'Tax', rate: 0.06, amount: 0 }], 0, false)).toEqual([]);
+  });
+});
+
+describe('summarizeTaxes', () => {
+  it('totals each tax over the invoice', () => {
+    expect(
+      summarizeTaxes([
+        [
+          { name: 'State', rate: 0.06, amount: 1.2 },
+          { name: 'City', rate: 0.02, amount: 0.4 },
+        ],
+        [{ name: 'State', rate: 0.06, amount: 0.6 }],
+      ])
+    ).toEqual([
+      { name: 'State', amount: 1.8 },
+      { name: 'City', amount: 0.4 },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+// Tax engine, used by the register to charge tax and by the server to record
+// it, so the two always agree.
+//
+// A location's jurisdiction has one rule per tax charged there (state, county,
+// city...). A rule for a tax category replaces the rule of the same name for
+// items in that category, so groceries can pay a reduced state rate and the
+// usual city rate. Compound taxes are charged on the price plus the taxes
+// applied before them. Where shelf prices include tax (VAT) the tax is backed
+// out of the line instead of added to it.
+
+export interface TaxRuleInput {
+  name: string;
+  taxCategory: string | null;
+  rate: number;
+  compound: boolean;
+  priority: number;
+}
+
+// A tax charged on a line
+export interface TaxComponent {
+  name: string;
+  rate: number;
+  compound: boolean;
+}
+
+export interface LineTax {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+// Round tax on each line, or total each tax over the invoice and round once
+export type TaxRounding = 'line' | 'invoice';
+
+const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// The taxes charged on an item in a jurisdiction, in the order they apply.
+// Where the jurisdiction has no rules the item's or tenant's flat rate applies.
+export function resolveTaxComponents(
+  rules: TaxRuleInput[],
+  taxCategory: string | null | undefined,
+  fallbackRate: number
+): TaxComponent[] {
+  if (rules.length === 0) {
+    return [{ name: 'Tax', rate: fallbackRate, compound: false }];
+  }
+
+  const general = rules.filter((rule) => rule.taxCategory === null);
+  const specific = taxCategory ? rules.filter((rule) => rule.taxCategory === taxCategory) : [];
+  const replaced = new Set(specific.map((rule) => rule.name));
+
+  return [...general.filter((rule) => !replaced.has(rule.name)), ...specific]
+    .sort((a, b) => a.priority - b.priority || Number(a.compound) - Number(b.compound))
+    .map(({ name, rate, compound }) => ({ name, rate, compound }));
+}
+
+// A returned line gives back the same share of each tax the sold line was
+// charged, so its taxes are the sold amounts as rates of the sold net amount
+// (less the tax itself when the sold price included it)
+export function returnedTaxComponents(
+  soldTaxes: LineTax[],
+  soldNet: number,
+  taxIncluded: boolean
+): TaxComponent[] {
+  const base = taxIncluded ? soldNet - soldTaxes.reduce((sum, tax) => sum + tax.amount, 0) : soldNet;
+  return base
+    ? soldTaxes.map((tax) => ({ name: tax.name, rate: tax.amount / base, compound: false }))
+    : [];
+}
+
+// What a price of 1 before tax comes to with these taxes
+const taxFactor = (components: TaxComponent[]): number =>
+  components.reduce((taxed, component) => taxed + (component.compound ? taxed : 1) * component.rate, 1);
+
+// Tax on each line's taxable amount, or included in it for lines whose price
+// includes tax. With invoice rounding each tax is rounded on its invoice
+// total, and the rounding difference goes to the line with the largest share
+// so the lines still add up.
+export function computeLineTaxes(
+  taxables: number[],
+  components: TaxComponent[][],
+  included: boolean[],
+  rounding: TaxRounding
+): LineTax[][] {
+  const exact = taxables.map((amount, i) => {
+    const taxable = included[i] ? amount / taxFactor(components[i]) : amount;
+    let taxed = 0;
+    return components[i].map((component) => {
+      const amount = (component.compound ? taxable + taxed : taxable) * component.rate;
+      taxed += amount;
+      return { name: component.name, rate: component.rate, amount };
+    });
+  });
+
+  const lines = exact.map((taxes) =>
+    taxes.map((tax) => ({ ...tax, amount: roundMoney(tax.amount) }))
+  );
+
+  if (rounding === 'invoice') {
+    const names = new Set(exact.flat().map((tax) => tax.name));
+
+    for (const name of names) {
+      const owed = roundMoney(
+        exact.flat().filter((tax) => tax.name === name).reduce((sum, tax) => sum + tax.amount, 0)
+      );
+      const charged = lines.flat().filter((tax) => tax.name === name);
+      const difference = roundMoney(owed - charged.reduce((sum, tax) => sum + tax.amount, 0));
+
+      if (difference !== 0) {
+        const largest = charged.reduce((max, tax) => (Math.abs(tax.amount) > Math.abs(max.amount) ? tax : max));
+        largest.amount = roundMoney(largest.amount + difference);
+      }
+    }
+  }
+
+  return lines;
+}
+
+// Each tax's total over the invoice, for receipts
+export function summarizeTaxes(lines: LineTax[][]): { name: string; amount: number }[] {
+  const totals = new Map<string, number>();
+  for (const tax of lines.flat()) {
+    totals.set(tax.name, roundMoney((totals.get(tax.name) ?? 0) + tax.amount));
+  }
+  return [...totals].map(([name, amount]) => ({ name, amount }));
+}
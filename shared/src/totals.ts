@@ -0,0 +1,99 @@
+import {
+  LineTax,
+  TaxComponent,
+  TaxRounding,
+  computeLineTaxes,
+  summarizeTaxes,
+} from './taxes.js';
+
+// Cart math, used by the register to total a sale and by the server to check
+// the totals it was sent, so a sale rung up at the register matches what is
+// stored.
+
+export interface TotalsLine {
+  quantity: number;
+  unitPrice: number;
+  // Line-level discount, in the same sign as the line
+  discountAmount: number;
+  // Empty for lines sold tax exempt
+  taxes: TaxComponent[];
+  // The unit price includes the taxes (VAT), which are backed out of it
+  taxIncluded: boolean;
+}
+
+export interface TotalsLineResult {
+  // Line discount plus its share of any cart discount
+  discountAmount: number;
+  taxAmount: number;
+  taxes: LineTax[];
+  lineTotal: number;
+}
+
+export interface Totals {
+  lines: TotalsLineResult[];
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  taxes: { name: string; amount: number }[];
+  total: number;
+}
+
+export const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Cart discounts are spread over lines in proportion to their net amount so
+// each line is taxed on what the customer actually pays for it.
+export function computeTotals(lines: TotalsLine[], cartDiscount: number, rounding: TaxRounding): Totals {
+  const bases = lines.map((line) => roundMoney(line.quantity * line.unitPrice));
+  const nets = lines.map((line, i) => bases[i] - line.discountAmount);
+  const weight = nets.reduce((sum, net) => sum + Math.max(net, 0), 0);
+
+  let unallocated = weight > 0 ? roundMoney(cartDiscount) : 0;
+  const lastWeighted = nets.reduce((last, net, i) => (net > 0 ? i : last), -1);
+
+  const shares = lines.map((_line, i) => {
+    let share = 0;
+    if (unallocated !== 0 && nets[i] > 0) {
+      // The last line takes the remainder so shares add up to the cart discount
+      share = i === lastWeighted ? unallocated : roundMoney((cartDiscount * nets[i]) / weight);
+      unallocated = roundMoney(unallocated - share);
+    }
+    return share;
+  });
+
+  const taxables = nets.map((net, i) => net - shares[i]);
+  const lineTaxes = computeLineTaxes(
+    taxables,
+    lines.map((line) => line.taxes),
+    lines.map((line) => line.taxIncluded),
+    rounding
+  );
+
+  const results = lines.map((line, i) => {
+    const taxAmount = roundMoney(lineTaxes[i].reduce((sum, tax) => sum + tax.amount, 0));
+
+    return {
+      discountAmount: roundMoney(line.discountAmount + shares[i]),
+      taxAmount,
+      taxes: lineTaxes[i],
+      lineTotal: roundMoney(line.taxIncluded ? taxables[i] : taxables[i] + taxAmount),
+    };
+  });
+
+  const subtotal = roundMoney(bases.reduce((sum, base) => sum + base, 0));
+  const discountTotal = roundMoney(results.reduce((sum, line) => sum + line.discountAmount, 0));
+  const taxTotal = roundMoney(results.reduce((sum, line) => sum + line.taxAmount, 0));
+  // Tax included in prices is already in the subtotal
+  const addedTax = roundMoney(
+    results.reduce((sum, line, i) => sum + (lines[i].taxIncluded ? 0 : line.taxAmount), 0)
+  );
+
+  return {
+    lines: results,
+    subtotal,
+    discountTotal,
+    taxTotal,
+    taxes: summarizeTaxes(lineTaxes),
+    total: roundMoney(subtotal - discountTotal + addedTax),
+  };
+}